@@ -0,0 +1,123 @@
+// ContestPrizesEditor.tsx
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { supabase } from "../../lib/supabase";
+import { CONTEST_MAX_PRIZE_COINS, CONTEST_PRIZE_PLACES } from "../../lib/contests";
+import { ordinal } from "../../lib/seasons";
+import type { Badge, RoomContest } from "../../types/database.types";
+
+interface ContestPrizesEditorProps {
+  contest: RoomContest;
+  onSaved: (contest: RoomContest) => void;
+}
+
+export default function ContestPrizesEditor({ contest, onSaved }: ContestPrizesEditorProps) {
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [coins, setCoins] = useState<string[]>([]);
+  const [badgeIds, setBadgeIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCoins(Array.from({ length: CONTEST_PRIZE_PLACES }, (_, i) => String(contest.prize_coins[i] ?? 0)));
+    setBadgeIds(Array.from({ length: CONTEST_PRIZE_PLACES }, (_, i) => contest.prize_badge_ids[i] ?? ""));
+  }, [contest]);
+
+  useEffect(() => {
+    const fetchBadges = async () => {
+      const { data, error } = await supabase
+        .from("badges")
+        .select("*")
+        // Prizes are limited to the organization's own badges
+        .eq("org_id", contest.org_id)
+        .eq("is_active", true)
+        .order("name");
+      if (error) {
+        console.error("Error fetching badges:", error);
+        return;
+      }
+      setBadges(data || []);
+    };
+
+    fetchBadges();
+  }, [contest.org_id]);
+
+  const handleSave = async () => {
+    const prizeCoins = coins.map(Number);
+    if (prizeCoins.some((c) => !Number.isInteger(c) || c < 0 || c > CONTEST_MAX_PRIZE_COINS)) {
+      toast.error(`Coin prizes must be whole numbers from 0 to ${CONTEST_MAX_PRIZE_COINS}.`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = { prize_coins: prizeCoins, prize_badge_ids: badgeIds.map((id) => id || null) };
+      const { error } = await supabase.from("room_contests").update(values).eq("id", contest.id);
+      if (error) throw error;
+
+      toast.success("Prizes saved.");
+      onSaved({ ...contest, ...values });
+    } catch (err) {
+      console.error("Error saving prizes:", err);
+      toast.error("Failed to save prizes.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locked = !!contest.prizes_awarded_at;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <h2 className="text-lg font-semibold">Prizes</h2>
+      <p className="text-xs text-gray-500">
+        {locked
+          ? `Prizes were paid out on ${new Date(contest.prizes_awarded_at!).toLocaleString()}.`
+          : "Paid out automatically to the top places when results are published."}
+      </p>
+
+      <div className="space-y-2">
+        {Array.from({ length: CONTEST_PRIZE_PLACES }, (_, i) => (
+          <div key={i} className="grid grid-cols-[3rem_6rem_1fr] items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">{ordinal(i + 1)}</span>
+            <input
+              type="number"
+              min={0}
+              max={CONTEST_MAX_PRIZE_COINS}
+              value={coins[i] ?? "0"}
+              onChange={(e) => setCoins((prev) => prev.map((c, j) => (j === i ? e.target.value : c)))}
+              disabled={locked}
+              title="Coins"
+              className="p-2 rounded border border-gray-300 text-sm disabled:bg-gray-100"
+            />
+            <select
+              value={badgeIds[i] ?? ""}
+              onChange={(e) => setBadgeIds((prev) => prev.map((b, j) => (j === i ? e.target.value : b)))}
+              disabled={locked}
+              className="p-2 rounded border border-gray-300 text-sm disabled:bg-gray-100"
+            >
+              <option value="">No badge</option>
+              {badges.map((badge) => (
+                <option key={badge.id} value={badge.id}>
+                  {badge.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {!locked && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Prizes"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
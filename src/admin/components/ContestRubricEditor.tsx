@@ -0,0 +1,177 @@
+// ContestRubricEditor.tsx
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { supabase } from "../../lib/supabase";
+import { createCriterion, rubricMaxPoints } from "../../lib/contests";
+import type { ContestCriterion, RoomContest } from "../../types/database.types";
+
+interface ContestRubricEditorProps {
+  contest: RoomContest;
+  rubricLocked: boolean; // judges have started scoring against the current rubric
+  onSaved: (contest: RoomContest) => void;
+}
+
+export default function ContestRubricEditor({ contest, rubricLocked, onSaved }: ContestRubricEditorProps) {
+  const [rubric, setRubric] = useState<ContestCriterion[]>(contest.rubric);
+  const [votingEnabled, setVotingEnabled] = useState(contest.voting_enabled);
+  const [judgeWeight, setJudgeWeight] = useState(contest.judge_weight);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRubric(contest.rubric);
+    setVotingEnabled(contest.voting_enabled);
+    setJudgeWeight(contest.judge_weight);
+  }, [contest]);
+
+  const updateCriterion = (id: string, changes: Partial<ContestCriterion>) =>
+    setRubric((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+
+  const handleSave = async () => {
+    if (rubric.length === 0) {
+      toast.error("Add at least one criterion.");
+      return;
+    }
+    if (rubric.some((c) => !c.name.trim())) {
+      toast.error("Every criterion needs a name.");
+      return;
+    }
+    if (rubric.some((c) => !Number.isInteger(c.max_points) || c.max_points < 1)) {
+      toast.error("Maximum points must be a whole number of at least 1.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = {
+        rubric: rubric.map((c) => ({ ...c, name: c.name.trim(), description: c.description.trim() })),
+        voting_enabled: votingEnabled,
+        judge_weight: votingEnabled ? judgeWeight : 100,
+      };
+      const { error } = await supabase.from("room_contests").update(values).eq("id", contest.id);
+      if (error) throw error;
+
+      toast.success("Judging settings saved.");
+      onSaved({ ...contest, ...values });
+    } catch (err) {
+      console.error("Error saving judging settings:", err);
+      toast.error("Failed to save judging settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locked = contest.phase === "results";
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Judging Rubric</h2>
+        <span className="text-sm text-gray-500">Max {rubricMaxPoints(rubric)} pts</span>
+      </div>
+
+      {rubricLocked && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 rounded p-2">
+          Judges have already scored entries, so criteria can no longer be changed.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {rubric.map((criterion) => (
+          <div key={criterion.id} className="grid grid-cols-[1fr_2fr_5rem_auto] gap-2 items-center">
+            <input
+              type="text"
+              value={criterion.name}
+              onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+              disabled={rubricLocked || locked}
+              placeholder="Criterion"
+              className="p-2 rounded border border-gray-300 text-sm disabled:bg-gray-100"
+            />
+            <input
+              type="text"
+              value={criterion.description}
+              onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+              disabled={rubricLocked || locked}
+              placeholder="What judges should look for"
+              className="p-2 rounded border border-gray-300 text-sm disabled:bg-gray-100"
+            />
+            <input
+              type="number"
+              min={1}
+              value={criterion.max_points}
+              onChange={(e) => updateCriterion(criterion.id, { max_points: Number(e.target.value) })}
+              disabled={rubricLocked || locked}
+              title="Maximum points"
+              className="p-2 rounded border border-gray-300 text-sm disabled:bg-gray-100"
+            />
+            <button
+              type="button"
+              onClick={() => setRubric((prev) => prev.filter((c) => c.id !== criterion.id))}
+              disabled={rubricLocked || locked}
+              className="text-gray-500 hover:text-red-600 disabled:opacity-30"
+              title="Remove criterion"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {!rubricLocked && !locked && (
+        <button
+          type="button"
+          onClick={() => setRubric((prev) => [...prev, createCriterion()])}
+          className="inline-flex items-center text-sm text-green-700 hover:text-green-800"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Criterion
+        </button>
+      )}
+
+      <div className="border-t pt-4 space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={votingEnabled}
+            onChange={(e) => setVotingEnabled(e.target.checked)}
+            disabled={locked || contest.phase === "voting"}
+            className="accent-green-600"
+          />
+          Let members vote (one vote each)
+        </label>
+
+        {votingEnabled && (
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-700">Judges {judgeWeight}%</span>
+              <span className="text-gray-700">Member votes {100 - judgeWeight}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={judgeWeight}
+              onChange={(e) => setJudgeWeight(Number(e.target.value))}
+              disabled={locked}
+              className="w-full accent-green-600"
+            />
+          </div>
+        )}
+      </div>
+
+      {!locked && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Settings"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
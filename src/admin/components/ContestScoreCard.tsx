@@ -0,0 +1,135 @@
+// ContestScoreCard.tsx
+import { useEffect, useState } from "react";
+import { CheckCircle } from "lucide-react";
+import toast from "react-hot-toast";
+import { rubricMaxPoints, saveJudgeScore } from "../../lib/contests";
+import type { ContestCriterion, ContestJudgeScore, ContestSubmission } from "../../types/database.types";
+
+interface ContestScoreCardProps {
+  submission: ContestSubmission;
+  entryNumber: number;
+  rubric: ContestCriterion[];
+  judgeId: string;
+  myScore: ContestJudgeScore | undefined;
+  onSaved: (score: ContestJudgeScore) => void;
+  onToggleHidden: () => void;
+}
+
+/**
+ * Blind scoring card: the entry is shown by number only, never by author
+ */
+export default function ContestScoreCard({
+  submission,
+  entryNumber,
+  rubric,
+  judgeId,
+  myScore,
+  onSaved,
+  onToggleHidden,
+}: ContestScoreCardProps) {
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setScores(myScore?.scores ?? {});
+    setComment(myScore?.comment ?? "");
+  }, [myScore]);
+
+  const total = rubric.reduce((sum, c) => sum + (scores[c.id] ?? 0), 0);
+
+  const handleSave = async () => {
+    if (rubric.some((c) => scores[c.id] === undefined)) {
+      toast.error("Score every criterion before saving.");
+      return;
+    }
+    try {
+      setSaving(true);
+      const saved = await saveJudgeScore({
+        contestId: submission.contest_id,
+        submissionId: submission.id,
+        judgeId,
+        scores: Object.fromEntries(rubric.map((c) => [c.id, scores[c.id]])),
+        comment,
+      });
+      toast.success(`Entry #${entryNumber} scored.`);
+      onSaved(saved);
+    } catch (err) {
+      console.error("Error saving score:", err);
+      toast.error("Failed to save score.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md overflow-hidden border ${submission.is_hidden ? "opacity-60" : ""}`}>
+      <img
+        src={submission.image_url}
+        alt={`Entry #${entryNumber}`}
+        className="w-full h-56 object-cover cursor-zoom-in"
+        onClick={() => window.open(submission.image_url, "_blank")}
+      />
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="font-semibold text-gray-900">Entry #{entryNumber}</p>
+          <div className="flex items-center gap-3">
+            {myScore && (
+              <span className="inline-flex items-center text-xs text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Scored
+              </span>
+            )}
+            <button onClick={onToggleHidden} className="text-xs text-gray-500 hover:text-red-600">
+              {submission.is_hidden ? "Unhide" : "Hide"}
+            </button>
+          </div>
+        </div>
+        {submission.caption && <p className="text-sm text-gray-700">{submission.caption}</p>}
+
+        {rubric.map((criterion) => (
+          <div key={criterion.id} className="flex items-center justify-between gap-2">
+            <label className="text-sm text-gray-700" title={criterion.description}>
+              {criterion.name}
+            </label>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={criterion.max_points}
+                value={scores[criterion.id] ?? ""}
+                onChange={(e) => {
+                  const points = Math.min(criterion.max_points, Math.max(0, Math.round(Number(e.target.value))));
+                  setScores((prev) => ({ ...prev, [criterion.id]: points }));
+                }}
+                className="w-16 p-1 rounded border border-gray-300 text-sm text-right"
+              />
+              <span className="text-xs text-gray-500">/ {criterion.max_points}</span>
+            </div>
+          </div>
+        ))}
+
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Notes (only officers see these)"
+          rows={2}
+          className="w-full p-2 rounded border border-gray-300 text-sm"
+        />
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">
+            Total {total} / {rubricMaxPoints(rubric)}
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : myScore ? "Update" : "Save Score"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
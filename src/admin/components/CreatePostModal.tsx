@@ -4,7 +4,9 @@ import * as Dialog from "@radix-ui/react-dialog";
 import { X, Plus, Upload, Image, Video, FileText, Calendar as CalendarIcon, BarChart3, MessageSquare } from "lucide-react";
 import type { Posts, MediaItem, PostType } from '../../types/database.types';
 import { uploadFiles, validateFile } from '../../lib/media';
-import { sendNotificationsToOrgMembers } from '../../lib/notifications';
+import { newPostMessage, sendNotificationsToOrgMembers } from '../../lib/notifications';
+import MarkdownEditor from '../../components/MarkdownEditor';
+import { fromDateTimeLocal, validateSchedule } from '../../lib/scheduling';
 
 interface AuthUser {
   id: string;
@@ -40,8 +42,11 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
   const [startTime, setStartTime] = useState<string>("");
   const [endTime, setEndTime] = useState<string>("");
   const [eventLocation, setEventLocation] = useState<string>("");
+  const [capacity, setCapacity] = useState<string>("");
   const [visibility, setVisibility] = useState<'public' | 'private'>('public');
   const [selectedGame, setSelectedGame] = useState<string>("");
+  const [publishAt, setPublishAt] = useState<string>("");
+  const [expiresAt, setExpiresAt] = useState<string>("");
 
   // Handle page unload/navigation cancellation
   useEffect(() => {
@@ -80,8 +85,11 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
       setStartTime("");
       setEndTime("");
       setEventLocation("");
+      setCapacity("");
       setVisibility('public');
       setSelectedGame("");
+      setPublishAt("");
+      setExpiresAt("");
       // postType is set by the defaultPostType useEffect above
     }
   }, [open]);
@@ -168,12 +176,25 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
           return;
         }
       }
+
+      if (capacity && (!Number.isInteger(Number(capacity)) || Number(capacity) < 1)) {
+        alert("Capacity must be a whole number of at least 1");
+        setLoading(false);
+        return;
+      }
     } else if (!content.trim()) {
       alert("Please fill in the content");
       setLoading(false);
       return;
     }
 
+    const scheduleError = validateSchedule(status, publishAt, expiresAt);
+    if (scheduleError) {
+      alert(scheduleError);
+      setLoading(false);
+      return;
+    }
+
     try {
       let uploadedMedia: MediaItem[] = [];
 
@@ -235,6 +256,8 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
         post_type: postType,
         media: uploadedMedia.length > 0 ? uploadedMedia : null,
         visibility,
+        publish_at: status === 'scheduled' ? fromDateTimeLocal(publishAt) : null,
+        expires_at: fromDateTimeLocal(expiresAt),
         game_route:
           selectedGame === "quiz"
             ? "/user/dashboard/quiz-selection"
@@ -247,7 +270,8 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
           event_date: eventDate,
           start_time: startTime,
           end_time: endTime || null,
-          location: eventLocation
+          location: eventLocation,
+          capacity: capacity ? Number(capacity) : null
         })
       };
 
@@ -270,7 +294,8 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
             .eq('id', newPost.org_id)
             .single();
           const orgName = orgData?.name || 'Unknown Organization';
-          await sendNotificationsToOrgMembers(newPost.org_id, `New post published from ${orgName}: ${title.trim()}`, data.id);
+          const body = postType === 'general' || postType === 'event' ? content : undefined;
+          await sendNotificationsToOrgMembers(newPost.org_id, newPostMessage(orgName, title.trim(), body), data.id);
         }
         resetForm();
         onOpenChange(false);
@@ -296,6 +321,8 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
     setUploadProgress(0);
     setPollOptions(["", ""]);
     setFormFields([{type: 'text', question: '', required: false}]);
+    setPublishAt("");
+    setExpiresAt("");
   }
 
   function handleClose(): void {
@@ -411,13 +438,23 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 {postType === 'poll' ? 'Poll Question' : 'Content'}
               </label>
-              <textarea
-                placeholder={postType === 'poll' ? "Enter your poll question..." : "Write your content here..."}
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all resize-none ${getFocusRingColor()}`}
-                rows={postType === 'poll' ? 3 : 6}
-              />
+              {postType === 'general' || postType === 'event' ? (
+                <MarkdownEditor
+                  placeholder="Write your content here..."
+                  value={content}
+                  onChange={setContent}
+                  className={getFocusRingColor()}
+                  uploaderId={currentUser?.id}
+                />
+              ) : (
+                <textarea
+                  placeholder={postType === 'poll' ? "Enter your poll question..." : "Write your content here..."}
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all resize-none ${getFocusRingColor()}`}
+                  rows={postType === 'poll' ? 3 : 6}
+                />
+              )}
             </div>
 
             {/* Game Link Selector */}
@@ -600,6 +637,18 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
                     />
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Capacity (Optional)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="Leave blank for unlimited"
+                    value={capacity}
+                    onChange={(e) => setCapacity(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Registrations past this limit join a waitlist.</p>
+                </div>
               </div>
             )}
 
@@ -622,10 +671,37 @@ export default function CreatePostModal({ open, onOpenChange, onPostCreated, cur
                 className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all ${getFocusRingColor()}`}
               >
                 <option value="published">Published</option>
+                <option value="scheduled">Scheduled</option>
                 <option value="draft">Draft</option>
               </select>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {status === 'scheduled' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Publish At</label>
+                  <input
+                    type="datetime-local"
+                    value={publishAt}
+                    onChange={(e) => setPublishAt(e.target.value)}
+                    className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all ${getFocusRingColor()}`}
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Members are notified when the post goes live.</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Expires At (Optional)</label>
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all ${getFocusRingColor()}`}
+                />
+                <p className="text-xs text-gray-500 mt-1">The post is archived automatically after this time.</p>
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Visibility</label>
               <select
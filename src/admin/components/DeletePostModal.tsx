@@ -4,6 +4,7 @@ import * as Dialog from "@radix-ui/react-dialog";
 import { X, Trash2, AlertTriangle } from "lucide-react";
 import type { Posts } from '../../types/database.types';
 import { deleteFile } from '../../lib/media';
+import { markdownExcerpt } from '../../lib/markdown';
 
 interface DeletePostModalProps {
   post: Posts | null;
@@ -125,10 +126,7 @@ export default function DeletePostModal({ post, open, onOpenChange, onPostDelete
               <div className="p-4 bg-gray-50 rounded-lg border">
                 <h4 className="font-semibold text-gray-900 mb-2">{post.title}</h4>
                 <p className="text-gray-600 text-sm line-clamp-3">
-                  {post.content.length > 100 
-                    ? post.content.substring(0, 100) + '...' 
-                    : post.content
-                  }
+                  {markdownExcerpt(post.content, 100)}
                 </p>
                 {post.tags && post.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mt-2">
@@ -4,7 +4,11 @@ import * as Dialog from "@radix-ui/react-dialog";
 import { X, Edit3, Upload, Image, Video, Trash2 } from "lucide-react";
 import type { Posts, MediaItem, PostType } from '../../types/database.types';
 import { uploadFiles, validateFile } from '../../lib/media';
-import { sendNotificationsToOrgMembers } from '../../lib/notifications';
+import { newPostMessage, sendNotificationsToOrgMembers } from '../../lib/notifications';
+import MarkdownEditor from '../../components/MarkdownEditor';
+import { fromDateTimeLocal, toDateTimeLocal, validateSchedule } from '../../lib/scheduling';
+import { savePostEdit } from '../../lib/postRevisions';
+import { useAuth } from '../../context/AuthContext';
 
 interface EditPostModalProps {
   post: Posts | null;
@@ -14,6 +18,7 @@ interface EditPostModalProps {
 }
 
 export default function EditPostModal({ post, open, onOpenChange, onPostUpdated }: EditPostModalProps) {
+  const { user } = useAuth();
   const [title, setTitle] = useState<string>("");
   const [content, setContent] = useState<string>("");
   const [tags, setTags] = useState<string>("");
@@ -28,6 +33,13 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
   const [uploadController, setUploadController] = useState<AbortController | null>(null);
   const [isUploading, setIsUploading] = useState<boolean>(false);
   const [selectedGame, setSelectedGame] = useState<string>("");
+  const [publishAt, setPublishAt] = useState<string>("");
+  const [expiresAt, setExpiresAt] = useState<string>("");
+  const [capacity, setCapacity] = useState<string>("");
+  const [eventDate, setEventDate] = useState<string>("");
+  const [startTime, setStartTime] = useState<string>("");
+  const [endTime, setEndTime] = useState<string>("");
+  const [eventLocation, setEventLocation] = useState<string>("");
 
   // Update form when post changes
   useEffect(() => {
@@ -43,6 +55,13 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
       setMediaPreviews([]);
       setUploadProgress(0);
       setSelectedGame(post.game_route ? (post.game_route === '/user/dashboard/quiz-selection' ? 'quiz' : 'room') : '');
+      setPublishAt(toDateTimeLocal(post.publish_at));
+      setExpiresAt(toDateTimeLocal(post.expires_at));
+      setCapacity(post.capacity ? String(post.capacity) : "");
+      setEventDate(post.event_date || "");
+      setStartTime(post.start_time ? post.start_time.slice(0, 5) : "");
+      setEndTime(post.end_time ? post.end_time.slice(0, 5) : "");
+      setEventLocation(post.location || "");
     }
   }, [post]);
 
@@ -79,6 +98,32 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
       return;
     }
 
+    const scheduleError = validateSchedule(status, publishAt, expiresAt);
+    if (scheduleError) {
+      alert(scheduleError);
+      setLoading(false);
+      return;
+    }
+
+    if (postType === 'event') {
+      if (!eventDate || !startTime || !eventLocation.trim()) {
+        alert("Please fill in the event date, start time and location");
+        setLoading(false);
+        return;
+      }
+      if (endTime && new Date(`${eventDate}T${endTime}`) <= new Date(`${eventDate}T${startTime}`)) {
+        alert("End time must be after start time");
+        setLoading(false);
+        return;
+      }
+    }
+
+    if (capacity && (!Number.isInteger(Number(capacity)) || Number(capacity) < 1)) {
+      alert("Capacity must be a whole number of at least 1");
+      setLoading(false);
+      return;
+    }
+
     try {
       let finalMedia: MediaItem[] = [...existingMedia];
 
@@ -130,35 +175,44 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
         tags: tagsArray,
         status,
         visibility,
+        publish_at: status === 'scheduled' ? fromDateTimeLocal(publishAt) : post.publish_at ?? null,
+        expires_at: fromDateTimeLocal(expiresAt),
+        ...(postType === 'event' && {
+          capacity: capacity ? Number(capacity) : null,
+          event_date: eventDate,
+          start_time: startTime,
+          end_time: endTime || null,
+          location: eventLocation.trim(),
+        }),
         post_type: postType,
         updated_at: new Date().toISOString(),
         media: finalMedia.length > 0 ? finalMedia : null,
         game_route: selectedGame ? (selectedGame === 'quiz' ? '/user/dashboard/quiz-selection' : '/user/dashboard/room-game') : null,
       };
 
-      const { error } = await supabase
-        .from("posts")
-        .update(updates)
-        .eq('id', post.id);
+      // Every edit is saved as a revision so the history can show what changed
+      try {
+        await savePostEdit(post.id, updates, user?.id ?? post.user_id);
+      } catch (saveError) {
+        console.error(saveError);
+        alert("Error updating post: " + (saveError as { message?: string }).message);
+        return;
+      }
 
-      if (error) {
-        console.error(error);
-        alert("Error updating post: " + error.message);
-      } else {
-        // Send notifications if status changed to published and has org_id
-        if (status === 'published' && post.status !== 'published' && post.org_id) {
-          // Fetch org name
-          const { data: orgData } = await supabase
-            .from('organizations')
-            .select('name')
-            .eq('id', post.org_id)
-            .single();
-          const orgName = orgData?.name || 'Unknown Organization';
-          await sendNotificationsToOrgMembers(post.org_id, `New post published from ${orgName}: ${title.trim()}`, post.id);
-        }
-        onOpenChange(false);
-        onPostUpdated();
+      // Send notifications if status changed to published and has org_id
+      if (status === 'published' && post.status !== 'published' && post.org_id) {
+        // Fetch org name
+        const { data: orgData } = await supabase
+          .from('organizations')
+          .select('name')
+          .eq('id', post.org_id)
+          .single();
+        const orgName = orgData?.name || 'Unknown Organization';
+        const body = postType === 'general' || postType === 'event' ? content : undefined;
+        await sendNotificationsToOrgMembers(post.org_id, newPostMessage(orgName, title.trim(), body), post.id);
       }
+      onOpenChange(false);
+      onPostUpdated();
     } catch (error) {
       console.error(error);
       alert("Error updating post");
@@ -188,6 +242,13 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
       setSelectedFiles([]);
       setMediaPreviews([]);
       setUploadProgress(0);
+      setPublishAt(toDateTimeLocal(post.publish_at));
+      setExpiresAt(toDateTimeLocal(post.expires_at));
+      setCapacity(post.capacity ? String(post.capacity) : "");
+      setEventDate(post.event_date || "");
+      setStartTime(post.start_time ? post.start_time.slice(0, 5) : "");
+      setEndTime(post.end_time ? post.end_time.slice(0, 5) : "");
+      setEventLocation(post.location || "");
     }
   }
 
@@ -283,13 +344,24 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Content</label>
-              <textarea
-                placeholder="Write your content here..."
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all resize-none"
-                rows={8}
-              />
+              {postType === 'general' || postType === 'event' ? (
+                <MarkdownEditor
+                  placeholder="Write your content here..."
+                  value={content}
+                  onChange={setContent}
+                  rows={8}
+                  className="focus:ring-blue-500 focus:border-blue-500"
+                  uploaderId={post?.user_id}
+                />
+              ) : (
+                <textarea
+                  placeholder="Write your content here..."
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all resize-none"
+                  rows={8}
+                />
+              )}
             </div>
 
             {/* Game Link Selector */}
@@ -327,11 +399,98 @@ export default function EditPostModal({ post, open, onOpenChange, onPostUpdated
                 className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
               >
                 <option value="published">Published</option>
+                <option value="scheduled">Scheduled</option>
                 <option value="draft">Draft</option>
                 <option value="archived">Archived</option>
               </select>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {status === 'scheduled' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Publish At</label>
+                  <input
+                    type="datetime-local"
+                    value={publishAt}
+                    onChange={(e) => setPublishAt(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Members are notified when the post goes live.</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Expires At (Optional)</label>
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                />
+                <p className="text-xs text-gray-500 mt-1">The post is archived automatically after this time.</p>
+              </div>
+            </div>
+
+            {postType === 'event' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Event Date</label>
+                  <input
+                    type="date"
+                    value={eventDate}
+                    onChange={(e) => setEventDate(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+                  <input
+                    type="text"
+                    placeholder="Enter event location"
+                    value={eventLocation}
+                    onChange={(e) => setEventLocation(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Start Time</label>
+                  <input
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">End Time (Optional)</label>
+                  <input
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  />
+                </div>
+              </div>
+            )}
+
+            {postType === 'event' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Capacity (Optional)</label>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Leave blank for unlimited"
+                  value={capacity}
+                  onChange={(e) => setCapacity(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                />
+                <p className="text-xs text-gray-500 mt-1">Registrations past this limit join a waitlist.</p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Visibility</label>
               <select
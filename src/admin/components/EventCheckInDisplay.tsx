@@ -0,0 +1,168 @@
+// EventCheckInDisplay.tsx
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { X, RefreshCw, Users, AlertTriangle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  CHECKIN_ROTATION_SECONDS,
+  CHECKIN_TOKEN_TTL_SECONDS,
+  buildCheckInUrl,
+  formatCheckInTime,
+  getCheckInWindow,
+  isCheckInOpen,
+  issueCheckInToken,
+} from '../../lib/checkin';
+import type { EventCheckInToken, Posts } from '../../types/database.types';
+
+interface EventCheckInDisplayProps {
+  isOpen: boolean;
+  onClose: () => void;
+  event: Pick<Posts, 'id' | 'title' | 'event_date' | 'start_time' | 'end_time'>;
+}
+
+export default function EventCheckInDisplay({ isOpen, onClose, event }: EventCheckInDisplayProps) {
+  const [checkInToken, setCheckInToken] = useState<EventCheckInToken | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(CHECKIN_ROTATION_SECONDS);
+  const [checkedInCount, setCheckedInCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const checkInWindow = getCheckInWindow(event);
+  const open = isCheckInOpen(event, now);
+
+  const refreshToken = async () => {
+    try {
+      const token = await issueCheckInToken(event.id);
+      setCheckInToken(token);
+      setError(null);
+    } catch (err) {
+      console.error('Error issuing check-in token:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate check-in code');
+    }
+  };
+
+  const fetchCheckedInCount = async () => {
+    const { count } = await supabase
+      .from('event_attendance')
+      .select('*', { count: 'exact', head: true })
+      .eq('post_id', event.id)
+      .eq('attended', true);
+    setCheckedInCount(count || 0);
+  };
+
+  // Re-check the window while the screen is up, so a display opened early
+  // starts showing codes on time and stops when check-in closes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const interval = setInterval(() => setNow(new Date()), 10 * 1000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  // Rotate the code; each one stays valid for a while after it is replaced
+  useEffect(() => {
+    if (!isOpen || !open) return;
+
+    refreshToken();
+    const interval = setInterval(refreshToken, CHECKIN_ROTATION_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, open, event.id]);
+
+  // Countdown until the next code is shown
+  useEffect(() => {
+    if (!checkInToken) return;
+
+    const rotatesAt = new Date(checkInToken.expires_at).getTime() - (CHECKIN_TOKEN_TTL_SECONDS - CHECKIN_ROTATION_SECONDS) * 1000;
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((rotatesAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [checkInToken]);
+
+  // Live check-in counter
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetchCheckedInCount();
+    const channel = supabase
+      .channel(`event-checkins-${event.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'event_attendance',
+        filter: `post_id=eq.${event.id}`,
+      }, () => {
+        fetchCheckedInCount();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isOpen, event.id]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl p-8 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <div className="text-center space-y-2 mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{event.title}</h2>
+          <p className="text-gray-600">Scan with your phone or the OrgSync Check In page</p>
+        </div>
+
+        {!open ? (
+          <div className="flex flex-col items-center text-center py-10 space-y-3">
+            <AlertTriangle className="h-12 w-12 text-yellow-500" />
+            <p className="text-gray-700 font-medium">Check-in is not open right now.</p>
+            {checkInWindow && (
+              <p className="text-sm text-gray-500">
+                Opens {formatCheckInTime(checkInWindow.opensAt)} · Closes {formatCheckInTime(checkInWindow.closesAt)}
+              </p>
+            )}
+          </div>
+        ) : error ? (
+          <div className="rounded-md bg-red-50 p-4 text-center">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+            <button
+              onClick={refreshToken}
+              className="mt-3 inline-flex items-center px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Try Again
+            </button>
+          </div>
+        ) : checkInToken ? (
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-white border-4 border-green-600 rounded-xl">
+              <QRCodeSVG value={buildCheckInUrl(checkInToken.token)} size={320} level="M" />
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <RefreshCw className="h-4 w-4" />
+              New code in {secondsLeft}s
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-green-500"></div>
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-gray-200 flex items-center justify-center gap-2 text-lg font-semibold text-green-700">
+          <Users className="h-5 w-5" />
+          {checkedInCount} checked in
+        </div>
+      </div>
+    </div>
+  );
+}
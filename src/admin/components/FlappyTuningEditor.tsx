@@ -0,0 +1,155 @@
+// FlappyTuningEditor.tsx
+import {
+  FLAPPY_PRESETS,
+  FLAPPY_PRESET_LABELS,
+  FLAPPY_TUNING_FIELDS,
+  FLAPPY_VIEW_HEIGHT,
+  FLAPPY_VIEW_WIDTH,
+  OBSTACLE_SKIN_COLORS,
+  OBSTACLE_SKIN_LABELS,
+  describeFlappyTuning,
+  detectFlappyPreset,
+} from "../../lib/flappyTuning";
+import type { FlappyObstacleSkin, FlappyPreset, FlappyTuning } from "../../types/database.types";
+
+interface FlappyTuningEditorProps {
+  tuning: FlappyTuning;
+  onChange: (tuning: FlappyTuning) => void;
+  backgroundUrl?: string | null;
+  playerUrl?: string | null;
+}
+
+// Preview box, same 9:16 ratio as the game
+const PREVIEW_WIDTH = 180;
+const PREVIEW_HEIGHT = 320;
+const toPxX = (units: number) => (units / FLAPPY_VIEW_WIDTH) * PREVIEW_WIDTH;
+const toPxY = (units: number) => (units / FLAPPY_VIEW_HEIGHT) * PREVIEW_HEIGHT;
+
+export default function FlappyTuningEditor({ tuning, onChange, backgroundUrl, playerUrl }: FlappyTuningEditorProps) {
+  const activePreset = detectFlappyPreset(tuning);
+  const stats = describeFlappyTuning(tuning);
+
+  // Path of the bird after a single flap, starting mid-screen
+  const birdX = 40;
+  const birdY = PREVIEW_HEIGHT / 2;
+  const airtime = (2 * tuning.flapStrength) / tuning.gravity;
+  const flapPath = Array.from({ length: 21 }, (_, i) => {
+    const t = (airtime * i) / 20;
+    const rise = tuning.flapStrength * t - (tuning.gravity * t * t) / 2;
+    return `${birdX + toPxX(tuning.pipeSpeed * t)},${birdY - toPxY(rise)}`;
+  }).join(" ");
+
+  const gapPx = toPxY(tuning.pipeGap);
+  const pipeColor = OBSTACLE_SKIN_COLORS[tuning.obstacleSkin];
+  const pipes = [
+    { x: 100, gapTop: PREVIEW_HEIGHT / 2 - gapPx / 2 - 30 },
+    { x: 160, gapTop: PREVIEW_HEIGHT / 2 - gapPx / 2 + 25 },
+  ];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="font-semibold">Difficulty</label>
+        <div className="flex gap-2">
+          {(Object.keys(FLAPPY_PRESETS) as FlappyPreset[]).map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => onChange({ ...FLAPPY_PRESETS[preset], obstacleSkin: tuning.obstacleSkin })}
+              className={`px-3 py-1 rounded-md text-sm font-medium border ${
+                activePreset === preset
+                  ? "bg-green-600 text-white border-green-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {FLAPPY_PRESET_LABELS[preset]}
+            </button>
+          ))}
+          {!activePreset && (
+            <span className="px-3 py-1 rounded-md text-sm font-medium bg-yellow-100 text-yellow-800">Custom</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6">
+        {/* Sliders */}
+        <div className="space-y-4">
+          {FLAPPY_TUNING_FIELDS.map((field) => (
+            <div key={field.key}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">{field.label}</span>
+                <span className="text-gray-600">
+                  {tuning[field.key]} {field.unit}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={tuning[field.key]}
+                onChange={(e) => onChange({ ...tuning, [field.key]: +e.target.value })}
+                className="w-full accent-green-600"
+              />
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Obstacle Skin</label>
+            <select
+              value={tuning.obstacleSkin}
+              onChange={(e) => onChange({ ...tuning, obstacleSkin: e.target.value as FlappyObstacleSkin })}
+              className="border border-gray-300 rounded-md w-full p-2"
+            >
+              {Object.entries(OBSTACLE_SKIN_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Live preview */}
+        <div className="flex flex-col items-center">
+          <div
+            className="relative border border-gray-300 rounded-lg overflow-hidden bg-sky-200"
+            style={{ width: `${PREVIEW_WIDTH}px`, height: `${PREVIEW_HEIGHT}px` }}
+          >
+            {backgroundUrl && (
+              <img src={backgroundUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+            )}
+            <svg className="absolute inset-0" width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT}>
+              {pipes.map((pipe, i) => (
+                <g key={i} fill={pipeColor} stroke="rgba(0,0,0,0.3)">
+                  <rect x={pipe.x} y={0} width={28} height={Math.max(0, pipe.gapTop)} />
+                  <rect x={pipe.x} y={pipe.gapTop + gapPx} width={28} height={PREVIEW_HEIGHT} />
+                </g>
+              ))}
+              <polyline points={flapPath} fill="none" stroke="white" strokeWidth={2} strokeDasharray="4 3" />
+            </svg>
+            {playerUrl ? (
+              <img
+                src={playerUrl}
+                alt=""
+                className="absolute w-6 h-6 object-contain"
+                style={{ left: birdX - 12, top: birdY - 12 }}
+              />
+            ) : (
+              <span
+                className="absolute w-5 h-5 rounded-full bg-yellow-400 border-2 border-yellow-600"
+                style={{ left: birdX - 10, top: birdY - 10 }}
+              ></span>
+            )}
+          </div>
+          <ul className="mt-3 text-xs text-gray-600 space-y-0.5 w-[180px]">
+            <li>One flap rises {stats.jumpHeight.toFixed(2)} u</li>
+            <li>Gap is {Math.round(stats.gapRatio * 100)}% of the screen</li>
+            <li>Pipes cross the screen in {stats.crossSeconds.toFixed(1)}s</li>
+            <li>Speed after 20 pipes: {stats.speedAfter20.toFixed(2)} u/s</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
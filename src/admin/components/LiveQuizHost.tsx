@@ -0,0 +1,381 @@
+// LiveQuizHost.tsx
+import { useState, useEffect, useRef } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { X, Users, Play, Eye, ChevronRight, Trophy, Clock } from "lucide-react";
+import { supabase } from "../../lib/supabase";
+import { useAuth } from "../../context/AuthContext";
+import {
+  LIVE_ANSWER_COLORS,
+  answerLetter,
+  buildLiveQuizUrl,
+  createLiveSession,
+  endLiveSession,
+  fetchAnswerCounts,
+  fetchLivePlayers,
+  getSecondsLeft,
+  revealLiveAnswer,
+  showLiveQuestion,
+} from "../../lib/liveQuiz";
+import type { LiveQuizPlayer, LiveQuizSession, QuizData, QuizQuestion } from "../../types/database.types";
+import toast from "react-hot-toast";
+
+interface LiveQuizHostProps {
+  quiz: { id: number; title: string; data: QuizData };
+  organizationId: string;
+  onClose: () => void;
+}
+
+export default function LiveQuizHost({ quiz, organizationId, onClose }: LiveQuizHostProps) {
+  const { user } = useAuth();
+  const [session, setSession] = useState<LiveQuizSession | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [players, setPlayers] = useState<LiveQuizPlayer[]>([]);
+  const [answered, setAnswered] = useState(0);
+  const [answerCounts, setAnswerCounts] = useState<number[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const startedRef = useRef(false);
+
+  const currentQuestion = session && session.current_index >= 0 ? questions[session.current_index] : null;
+  const isLastQuestion = !!session && session.current_index >= questions.length - 1;
+
+  // Open the lobby once (StrictMode mounts effects twice in development)
+  useEffect(() => {
+    if (!user || startedRef.current) return;
+    startedRef.current = true;
+
+    const start = async () => {
+      try {
+        const created = await createLiveSession(String(quiz.id), organizationId, user.id, quiz.data);
+        setSession(created.session);
+        setQuestions(created.questions);
+      } catch (err) {
+        console.error("Error starting live quiz:", err);
+        setError(err instanceof Error ? err.message : "Failed to start the live quiz");
+      }
+    };
+
+    start();
+  }, [user, quiz, organizationId]);
+
+  const refreshAnswers = async (target: LiveQuizSession) => {
+    if (target.current_index < 0 || !target.current_question) return;
+    try {
+      const result = await fetchAnswerCounts(target.id, target.current_index, target.current_question.answers.length);
+      setAnswered(result.answered);
+      setAnswerCounts(result.counts);
+    } catch (err) {
+      console.error("Error fetching live answers:", err);
+    }
+  };
+
+  const refreshPlayers = async (sessionId: string) => {
+    try {
+      setPlayers(await fetchLivePlayers(sessionId));
+    } catch (err) {
+      console.error("Error fetching live players:", err);
+    }
+  };
+
+  // Players joining, answers coming in and scores changing
+  useEffect(() => {
+    if (!session) return;
+
+    refreshPlayers(session.id);
+    const channel = supabase
+      .channel(`live-quiz-host-${session.id}`)
+      .on("postgres_changes", {
+        event: "*",
+        schema: "public",
+        table: "live_quiz_players",
+        filter: `session_id=eq.${session.id}`,
+      }, () => {
+        refreshPlayers(session.id);
+      })
+      .on("postgres_changes", {
+        event: "INSERT",
+        schema: "public",
+        table: "live_quiz_answers",
+        filter: `session_id=eq.${session.id}`,
+      }, () => {
+        refreshAnswers(session);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session]);
+
+  // Question countdown
+  useEffect(() => {
+    if (!session || session.status !== "question") return;
+
+    const tick = () => setSecondsLeft(getSecondsLeft(session));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  // Reveal as soon as time is up or everyone has answered
+  useEffect(() => {
+    if (!session || session.status !== "question" || busy) return;
+    const everyoneAnswered = players.length > 0 && answered >= players.length;
+    if (secondsLeft === 0 || everyoneAnswered) handleReveal();
+  }, [secondsLeft, answered, players.length]);
+
+  const handleShowQuestion = async (index: number) => {
+    if (!session) return;
+    setBusy(true);
+    try {
+      const updated = await showLiveQuestion(session.id, index, questions[index], quiz.data.timeLimitInSeconds);
+      setAnswered(0);
+      setAnswerCounts(questions[index].answers.map(() => 0));
+      setSecondsLeft(getSecondsLeft(updated));
+      setSession(updated);
+    } catch (err) {
+      console.error("Error showing live question:", err);
+      toast.error("Failed to show the next question");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!session || !currentQuestion) return;
+    setBusy(true);
+    try {
+      await revealLiveAnswer(session.id, currentQuestion);
+      setSession({ ...session, status: "reveal" });
+      await Promise.all([refreshAnswers(session), refreshPlayers(session.id)]);
+    } catch (err) {
+      console.error("Error revealing answer:", err);
+      toast.error("Failed to reveal the answer");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!session) return;
+    setBusy(true);
+    try {
+      await endLiveSession(session.id);
+      setSession({ ...session, status: "finished", current_question: null });
+      await refreshPlayers(session.id);
+    } catch (err) {
+      console.error("Error ending live quiz:", err);
+      toast.error("Failed to end the live quiz");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (session && session.status !== "finished") {
+      if (!window.confirm("End this live quiz for everyone?")) return;
+      try {
+        await endLiveSession(session.id);
+      } catch (err) {
+        console.error("Error ending live quiz:", err);
+      }
+    }
+    onClose();
+  };
+
+  const renderLeaderboard = (limit: number) => (
+    <ol className="space-y-2">
+      {players.slice(0, limit).map((player, i) => (
+        <li
+          key={player.user_id}
+          className={`flex items-center justify-between rounded-lg px-4 py-3 text-lg ${
+            i === 0 ? "bg-yellow-100 text-yellow-900" : i === 1 ? "bg-gray-100" : i === 2 ? "bg-orange-50" : "bg-white border border-gray-200"
+          }`}
+        >
+          <span className="font-medium truncate">
+            {i + 1}. {player.username}
+          </span>
+          <span className="font-bold">{player.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-full max-h-[95vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{quiz.title}</h2>
+            {session && (
+              <p className="text-gray-600">
+                Join code <span className="font-mono font-bold text-green-700 tracking-widest">{session.join_code}</span>
+                {session.current_index >= 0 && ` · Question ${session.current_index + 1} of ${questions.length}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1 text-gray-600">
+              <Users className="h-5 w-5" />
+              {players.length}
+            </span>
+            <button onClick={handleClose} className="text-gray-500 hover:text-gray-700">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {error ? (
+            <div className="rounded-md bg-red-50 p-4 text-center">
+              <p className="text-sm font-medium text-red-800">{error}</p>
+            </div>
+          ) : !session ? (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+            </div>
+          ) : session.status === "lobby" ? (
+            <div className="flex flex-col md:flex-row items-center justify-center gap-10 py-6">
+              <div className="flex flex-col items-center space-y-4">
+                <p className="text-gray-600 text-lg">Scan the code, or open Games → Join Live and enter</p>
+                <p className="font-mono text-7xl font-bold tracking-widest text-green-700">{session.join_code}</p>
+                <div className="p-3 bg-white border-4 border-green-600 rounded-xl">
+                  <QRCodeSVG value={buildLiveQuizUrl(session.join_code)} size={220} level="M" />
+                </div>
+              </div>
+              <div className="w-full md:w-80">
+                <h3 className="font-semibold text-gray-800 mb-3">Players ({players.length})</h3>
+                {players.length === 0 ? (
+                  <p className="text-gray-500">Waiting for players to join...</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2 max-h-80 overflow-y-auto">
+                    {players.map((player) => (
+                      <span key={player.user_id} className="px-3 py-1 rounded-full bg-green-100 text-green-800 text-sm font-medium">
+                        {player.username}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : session.status === "finished" ? (
+            <div className="max-w-xl mx-auto py-6">
+              <div className="flex flex-col items-center mb-6">
+                <Trophy className="h-14 w-14 text-yellow-500 mb-2" />
+                <h3 className="text-3xl font-bold text-gray-900">Final Results</h3>
+              </div>
+              {players.length === 0 ? <p className="text-center text-gray-500">Nobody played.</p> : renderLeaderboard(10)}
+            </div>
+          ) : currentQuestion && session.current_question ? (
+            <div className={`grid gap-6 ${session.status === "reveal" ? "lg:grid-cols-3" : ""}`}>
+              <div className={session.status === "reveal" ? "lg:col-span-2" : ""}>
+                <div className="flex items-start justify-between gap-4 mb-6">
+                  <h3 className="text-3xl font-bold text-gray-900">{currentQuestion.questionText}</h3>
+                  {session.status === "question" && (
+                    <div className="flex flex-col items-center shrink-0">
+                      <span className="flex items-center justify-center h-20 w-20 rounded-full bg-green-600 text-white text-3xl font-bold">
+                        {secondsLeft}
+                      </span>
+                      <span className="text-sm text-gray-600 mt-2">
+                        {answered}/{players.length} answered
+                      </span>
+                    </div>
+                  )}
+                </div>
+                {currentQuestion.imageUrl && (
+                  <img
+                    src={currentQuestion.imageUrl}
+                    alt=""
+                    className="max-h-64 mx-auto mb-6 rounded-lg border border-gray-200 object-contain"
+                  />
+                )}
+                {currentQuestion.type === "multiple_select" && session.status === "question" && (
+                  <p className="text-gray-600 mb-3">Select all that apply</p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {currentQuestion.answers.map((answer, i) => {
+                    const revealed = session.status === "reveal";
+                    const dimmed = revealed && !answer.isCorrect;
+                    return (
+                      <div
+                        key={i}
+                        className={`flex items-center justify-between rounded-lg px-5 py-4 text-white text-xl font-semibold ${
+                          LIVE_ANSWER_COLORS[i % LIVE_ANSWER_COLORS.length]
+                        } ${dimmed ? "opacity-30" : ""}`}
+                      >
+                        <span>
+                          {answerLetter(i)}. {answer.answerText}
+                        </span>
+                        {revealed && <span className="ml-4">{answerCounts[i] ?? 0}</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {session.status === "reveal" && (
+                <div>
+                  <h3 className="flex items-center gap-2 font-semibold text-gray-800 mb-3">
+                    <Trophy className="h-5 w-5 text-yellow-500" />
+                    Leaderboard
+                  </h3>
+                  {renderLeaderboard(5)}
+                </div>
+              )}
+            </div>
+          ) : null}
+        </div>
+
+        {/* Controls */}
+        {session && session.status !== "finished" && (
+          <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 bg-gray-50">
+            <span className="flex items-center gap-2 text-sm text-gray-600">
+              <Clock className="h-4 w-4" />
+              {quiz.data.timeLimitInSeconds}s per question unless set on the question
+            </span>
+            {session.status === "lobby" ? (
+              <button
+                onClick={() => handleShowQuestion(0)}
+                disabled={busy || players.length === 0}
+                className="inline-flex items-center px-5 py-2.5 bg-green-600 text-white rounded-md font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="h-5 w-5 mr-2" />
+                Start Quiz
+              </button>
+            ) : session.status === "question" ? (
+              <button
+                onClick={handleReveal}
+                disabled={busy}
+                className="inline-flex items-center px-5 py-2.5 bg-green-600 text-white rounded-md font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                <Eye className="h-5 w-5 mr-2" />
+                Reveal Answer
+              </button>
+            ) : isLastQuestion ? (
+              <button
+                onClick={handleFinish}
+                disabled={busy}
+                className="inline-flex items-center px-5 py-2.5 bg-green-600 text-white rounded-md font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                <Trophy className="h-5 w-5 mr-2" />
+                Show Final Results
+              </button>
+            ) : (
+              <button
+                onClick={() => handleShowQuestion(session.current_index + 1)}
+                disabled={busy}
+                className="inline-flex items-center px-5 py-2.5 bg-green-600 text-white rounded-md font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                Next Question
+                <ChevronRight className="h-5 w-5 ml-1" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import toast from 'react-hot-toast';
+import { QrCode } from 'lucide-react';
+import EventCheckInDisplay from './EventCheckInDisplay';
 
 interface OrganizationAttendanceProps {
   orgId: string;
@@ -13,6 +15,8 @@ interface AttendanceRow {
   registration: boolean;
   evaluation: boolean;
   attended: boolean;
+  checked_in_at: string | null;
+  check_in_method: string | null;
 }
 
 export default function OrganizationAttendance({ orgId }: OrganizationAttendanceProps) {
@@ -21,13 +25,16 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
   const [attendanceData, setAttendanceData] = useState<AttendanceRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [changes, setChanges] = useState<{ [userId: string]: boolean }>({});
+  const [showCheckIn, setShowCheckIn] = useState(false);
+
+  const selectedEvent = events.find(event => event.id === selectedEventId);
 
   // Fetch events for the organization
   useEffect(() => {
     const fetchEvents = async () => {
       const { data, error } = await supabase
         .from('posts')
-        .select('id, title')
+        .select('id, title, event_date, start_time, end_time')
         .eq('org_id', orgId)
         .eq('post_type', 'event');
       if (error) toast.error(error.message);
@@ -60,15 +67,15 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
       // Get RSVPs, registrations, evaluations, attendance
       const [rsvpsRes, regsRes, evalsRes, attRes] = await Promise.all([
         supabase.from('rsvps').select('user_id').eq('post_id', selectedEventId),
-        supabase.from('event_registrations').select('user_id').eq('post_id', selectedEventId),
+        supabase.from('event_registrations').select('user_id').eq('post_id', selectedEventId).neq('status', 'waitlisted'),
         supabase.from('event_evaluations').select('user_id').eq('post_id', selectedEventId),
-        supabase.from('event_attendance').select('user_id, attended').eq('post_id', selectedEventId),
+        supabase.from('event_attendance').select('user_id, attended, checked_in_at, check_in_method').eq('post_id', selectedEventId),
       ]);
 
       const rsvpUsers = new Set(rsvpsRes.data?.map(r => r.user_id) || []);
       const regUsers = new Set(regsRes.data?.map(r => r.user_id) || []);
       const evalUsers = new Set(evalsRes.data?.map(r => r.user_id) || []);
-      const attMap = new Map(attRes.data?.map(a => [a.user_id, a.attended]) || []);
+      const attMap = new Map(attRes.data?.map(a => [a.user_id, a]) || []);
 
       const data: AttendanceRow[] = users.map(user => ({
         user_id: user.id,
@@ -76,7 +83,9 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
         rsvp: rsvpUsers.has(user.id),
         registration: regUsers.has(user.id),
         evaluation: evalUsers.has(user.id),
-        attended: attMap.get(user.id) || false,
+        attended: attMap.get(user.id)?.attended || false,
+        checked_in_at: attMap.get(user.id)?.checked_in_at || null,
+        check_in_method: attMap.get(user.id)?.check_in_method || null,
       }));
 
       setAttendanceData(data);
@@ -92,6 +101,27 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
     fetchAttendanceData();
   }, [selectedEventId, orgId]);
 
+  // Refresh the table when members check in by QR code
+  useEffect(() => {
+    if (!selectedEventId) return;
+
+    const channel = supabase
+      .channel(`attendance-${selectedEventId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'event_attendance',
+        filter: `post_id=eq.${selectedEventId}`,
+      }, () => {
+        fetchAttendanceData();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedEventId]);
+
   const handleAttendanceChange = (userId: string, attended: boolean) => {
     setChanges(prev => ({ ...prev, [userId]: attended }));
   };
@@ -102,6 +132,8 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
         user_id: userId,
         post_id: selectedEventId,
         attended,
+        check_in_method: attended ? 'manual' : null,
+        checked_in_at: attended ? new Date().toISOString() : null,
         updated_at: new Date().toISOString(),
       }));
       const { error } = await supabase.from('event_attendance').upsert(updates);
@@ -132,6 +164,16 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
 
       {selectedEventId && (
         <>
+          <div className="flex justify-end">
+            <button
+              onClick={() => setShowCheckIn(true)}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+            >
+              <QrCode className="h-4 w-4 mr-2" />
+              Display Check-in QR
+            </button>
+          </div>
+
           {loading ? (
             <div className="text-center py-4">Loading...</div>
           ) : (
@@ -143,6 +185,7 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">RSVP</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Registration</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Evaluation</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Checked In</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Attended</th>
                   </tr>
                 </thead>
@@ -153,6 +196,11 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
                       <td className="px-4 py-2 text-sm text-center">{row.rsvp ? '✓' : '-'}</td>
                       <td className="px-4 py-2 text-sm text-center">{row.registration ? '✓' : '-'}</td>
                       <td className="px-4 py-2 text-sm text-center">{row.evaluation ? '✓' : '-'}</td>
+                      <td className="px-4 py-2 text-xs text-gray-500">
+                        {row.attended && row.checked_in_at
+                          ? `${new Date(row.checked_in_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}${row.check_in_method === 'qr' ? ' (QR)' : ''}`
+                          : '-'}
+                      </td>
                       <td className="px-4 py-2 text-sm text-center">
                         <input
                           type="checkbox"
@@ -180,6 +228,14 @@ export default function OrganizationAttendance({ orgId }: OrganizationAttendance
           )}
         </>
       )}
+
+      {selectedEvent && (
+        <EventCheckInDisplay
+          isOpen={showCheckIn}
+          onClose={() => setShowCheckIn(false)}
+          event={selectedEvent}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,518 @@
+// OrganizationBadges.tsx
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { BADGE_CRITERIA_LABELS, awardBadge, revokeBadge, uploadBadgeIcon } from '../../lib/badges';
+import { useAuth } from '../../context/AuthContext';
+import { useObjectUrl } from '../../hooks/useObjectUrl';
+import { useUserRoles } from '../../utils/roles';
+import type { Badge, BadgeCriteria, User, UserBadge } from '../../types/database.types';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Award, Users, X } from 'lucide-react';
+
+interface OrganizationBadgesProps {
+  organizationId: string;
+}
+
+type MemberOption = Pick<User, 'id' | 'first_name' | 'last_name' | 'email'>;
+
+const emptyForm = {
+  name: '',
+  description: '',
+  category: '',
+  criteria_type: 'game_plays' as BadgeCriteria,
+  threshold: '',
+  is_active: true,
+  is_global: false,
+};
+
+export default function OrganizationBadges({ organizationId }: OrganizationBadgesProps) {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRoles(user?.id);
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [earnedCounts, setEarnedCounts] = useState<Record<string, number>>({});
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingBadge, setEditingBadge] = useState<Badge | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [iconFile, setIconFile] = useState<File | null>(null);
+  const iconPreviewUrl = useObjectUrl(iconFile);
+  const [saving, setSaving] = useState(false);
+  const [recipientsBadge, setRecipientsBadge] = useState<Badge | null>(null);
+  const [recipients, setRecipients] = useState<UserBadge[]>([]);
+  const [selectedMemberId, setSelectedMemberId] = useState('');
+  const [awarding, setAwarding] = useState(false);
+
+  const fetchBadges = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*')
+        .or(`org_id.is.null,org_id.eq.${organizationId}`)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setBadges(data || []);
+
+      const badgeIds = (data || []).map(b => b.id);
+      if (badgeIds.length > 0) {
+        const { data: earnedData } = await supabase
+          .from('user_badges')
+          .select('badge_id')
+          .in('badge_id', badgeIds);
+        const counts: Record<string, number> = {};
+        earnedData?.forEach(row => {
+          counts[row.badge_id] = (counts[row.badge_id] || 0) + 1;
+        });
+        setEarnedCounts(counts);
+      }
+    } catch (err) {
+      console.error('Failed to fetch badges:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('org_members')
+        .select('users (id, first_name, last_name, email)')
+        .eq('org_id', organizationId)
+        .eq('is_active', true);
+      if (error) throw error;
+      const memberUsers = (data || [])
+        .map(row => row.users as unknown as MemberOption | null)
+        .filter((u): u is MemberOption => !!u)
+        .sort((a, b) => `${a.first_name} ${a.last_name}`.localeCompare(`${b.first_name} ${b.last_name}`));
+      setMembers(memberUsers);
+    } catch (err) {
+      console.error('Failed to fetch members:', err);
+    }
+  };
+
+  const fetchRecipients = async (badgeId: string) => {
+    const { data, error } = await supabase
+      .from('user_badges')
+      .select('*, users (id, first_name, last_name, email)')
+      .eq('badge_id', badgeId)
+      .order('earned_at', { ascending: false });
+    if (error) {
+      console.error('Failed to fetch badge recipients:', error);
+      return;
+    }
+    setRecipients(data || []);
+  };
+
+  useEffect(() => {
+    fetchBadges();
+    fetchMembers();
+  }, [organizationId]);
+
+  // Global badges are shared by every organization, so only admins may change them
+  const canEdit = (badge: Badge) => badge.org_id === organizationId || isAdmin();
+
+  const openCreateForm = () => {
+    setEditingBadge(null);
+    setForm(emptyForm);
+    setIconFile(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (badge: Badge) => {
+    setEditingBadge(badge);
+    setForm({
+      name: badge.name,
+      description: badge.description || '',
+      category: badge.category || '',
+      criteria_type: badge.criteria_type,
+      threshold: badge.threshold === null ? '' : String(badge.threshold),
+      is_active: badge.is_active,
+      is_global: badge.org_id === null,
+    });
+    setIconFile(null);
+    setShowForm(true);
+  };
+
+  const saveBadge = async () => {
+    const isManual = form.criteria_type === 'manual';
+    const threshold = isManual ? null : Number(form.threshold);
+
+    if (!form.name.trim()) {
+      toast.error('Please enter a badge name');
+      return;
+    }
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 1)) {
+      toast.error('Threshold must be a whole number of at least 1');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const orgId = form.is_global && isAdmin() ? null : organizationId;
+      const iconUrl = iconFile ? await uploadBadgeIcon(iconFile, orgId) : editingBadge?.icon_url ?? null;
+
+      const values = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        category: form.category.trim() || null,
+        criteria_type: form.criteria_type,
+        threshold,
+        icon_url: iconUrl,
+        is_active: form.is_active,
+        org_id: orgId,
+      };
+
+      const { error } = editingBadge
+        ? await supabase.from('badges').update(values).eq('id', editingBadge.id)
+        : await supabase.from('badges').insert({ ...values, created_by: user?.id });
+      if (error) throw error;
+
+      toast.success(editingBadge ? 'Badge updated!' : 'Badge created!');
+      setShowForm(false);
+      fetchBadges();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save badge');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (badge: Badge) => {
+    const { error } = await supabase
+      .from('badges')
+      .update({ is_active: !badge.is_active })
+      .eq('id', badge.id);
+    if (error) {
+      toast.error('Failed to update badge');
+      return;
+    }
+    setBadges(prev => prev.map(b => (b.id === badge.id ? { ...b, is_active: !b.is_active } : b)));
+  };
+
+  const openRecipients = (badge: Badge) => {
+    setRecipientsBadge(badge);
+    setSelectedMemberId('');
+    setRecipients([]);
+    fetchRecipients(badge.id);
+  };
+
+  const handleAward = async () => {
+    if (!recipientsBadge || !selectedMemberId || !user) return;
+    try {
+      setAwarding(true);
+      const awarded = await awardBadge(recipientsBadge, selectedMemberId, user.id);
+      if (!awarded) {
+        toast.error('This member already has the badge');
+        return;
+      }
+      toast.success('Badge awarded!');
+      setSelectedMemberId('');
+      setEarnedCounts(prev => ({ ...prev, [recipientsBadge.id]: (prev[recipientsBadge.id] || 0) + 1 }));
+      fetchRecipients(recipientsBadge.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to award badge');
+    } finally {
+      setAwarding(false);
+    }
+  };
+
+  const handleRevoke = async (recipient: UserBadge) => {
+    if (!recipientsBadge) return;
+    const name = recipient.users ? `${recipient.users.first_name} ${recipient.users.last_name}` : 'this member';
+    if (!window.confirm(`Remove the "${recipientsBadge.name}" badge from ${name}?`)) return;
+
+    try {
+      await revokeBadge(recipientsBadge.id, recipient.user_id);
+      toast.success('Badge removed');
+      setEarnedCounts(prev => ({ ...prev, [recipientsBadge.id]: Math.max(0, (prev[recipientsBadge.id] || 1) - 1) }));
+      fetchRecipients(recipientsBadge.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove badge');
+    }
+  };
+
+  const describeCriteria = (badge: Badge) => {
+    if (badge.criteria_type === 'manual' || badge.threshold === null) return BADGE_CRITERIA_LABELS.manual;
+    return `${BADGE_CRITERIA_LABELS[badge.criteria_type]} ≥ ${badge.threshold}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Award className="h-5 w-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Badges</h3>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Badge
+          </button>
+        </div>
+
+        {badges.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No badges yet. Create badges members earn automatically or that officers award by hand.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {badges.map(badge => (
+              <div key={badge.id} className="flex items-start gap-4 border border-gray-200 rounded-lg p-4">
+                <div className="w-14 h-14 rounded-full bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center overflow-hidden border border-gray-200 flex-shrink-0">
+                  <img
+                    src={badge.icon_url || `https://ui-avatars.com/api/?name=${encodeURIComponent(badge.name)}&background=F0FFF4&color=2F855A&size=128`}
+                    alt={badge.name}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-semibold text-gray-900">{badge.name}</span>
+                    {badge.org_id === null && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Global</span>
+                    )}
+                    <button
+                      onClick={() => canEdit(badge) && toggleActive(badge)}
+                      disabled={!canEdit(badge)}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        badge.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}
+                      title={badge.is_active ? 'Stop awarding this badge' : 'Start awarding this badge'}
+                    >
+                      {badge.is_active ? 'Active' : 'Inactive'}
+                    </button>
+                  </div>
+                  {badge.description && <p className="text-xs text-gray-500 mt-1">{badge.description}</p>}
+                  <p className="text-xs text-gray-600 mt-1">{describeCriteria(badge)}</p>
+                  <p className="text-xs text-gray-400 mt-1">Earned by {earnedCounts[badge.id] || 0}</p>
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  {canEdit(badge) && (
+                    <button
+                      onClick={() => openEditForm(badge)}
+                      className="text-gray-500 hover:text-green-700"
+                      title="Edit badge"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openRecipients(badge)}
+                    className="text-gray-500 hover:text-green-700"
+                    title="Recipients and manual awards"
+                  >
+                    <Users className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Badge Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{editingBadge ? 'Edit Badge' : 'New Badge'}</h2>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category (Optional)</label>
+                <input
+                  type="text"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  placeholder="e.g. participation"
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+                <div className="flex items-center gap-3">
+                  {(iconFile || editingBadge?.icon_url) && (
+                    <img
+                      src={iconFile ? iconPreviewUrl || '' : editingBadge?.icon_url || ''}
+                      alt="Badge icon"
+                      className="w-12 h-12 rounded-full object-cover border border-gray-200"
+                    />
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => setIconFile(e.target.files?.[0] || null)}
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Criteria</label>
+                <select
+                  value={form.criteria_type}
+                  onChange={(e) => setForm({ ...form, criteria_type: e.target.value as BadgeCriteria })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {(Object.keys(BADGE_CRITERIA_LABELS) as BadgeCriteria[]).map(criteria => (
+                    <option key={criteria} value={criteria}>{BADGE_CRITERIA_LABELS[criteria]}</option>
+                  ))}
+                </select>
+              </div>
+              {form.criteria_type !== 'manual' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.criteria_type === 'quiz_score' ? 'Minimum Score' : 'Required Count'}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.threshold}
+                    onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {form.is_global
+                      ? 'Counted across all organizations.'
+                      : 'Counted within this organization only.'}
+                  </p>
+                </div>
+              )}
+              {isAdmin() && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_global}
+                    onChange={(e) => setForm({ ...form, is_global: e.target.checked })}
+                  />
+                  Available in all organizations
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveBadge}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Recipients Modal */}
+      {recipientsBadge && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{recipientsBadge.name}</h2>
+              <button onClick={() => setRecipientsBadge(null)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              <select
+                value={selectedMemberId}
+                onChange={(e) => setSelectedMemberId(e.target.value)}
+                className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm"
+              >
+                <option value="">Select a member to award...</option>
+                {members
+                  .filter(m => !recipients.some(r => r.user_id === m.id))
+                  .map(m => (
+                    <option key={m.id} value={m.id}>
+                      {m.first_name} {m.last_name} ({m.email})
+                    </option>
+                  ))}
+              </select>
+              <button
+                onClick={handleAward}
+                disabled={!selectedMemberId || awarding}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                {awarding ? 'Awarding...' : 'Award'}
+              </button>
+            </div>
+
+            {recipients.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">Nobody has earned this badge yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {recipients.map(recipient => (
+                  <div key={recipient.user_id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-sm text-gray-900">
+                        {recipient.users ? `${recipient.users.first_name} ${recipient.users.last_name}` : 'Unknown member'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {recipient.awarded_by ? 'Awarded' : 'Earned'} {new Date(recipient.earned_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {canEdit(recipientsBadge) && (
+                      <button
+                        onClick={() => handleRevoke(recipient)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+// OrganizationGoals.tsx
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import {
+  GOAL_MAX_REWARD_COINS,
+  GOAL_METRICS,
+  GOAL_SCOPE_COLORS,
+  GOAL_SCOPE_LABELS,
+  GOAL_STATUS_COLORS,
+  GOAL_STATUS_LABELS,
+  GOAL_TARGET_KIND_LABELS,
+  fetchGoalTargets,
+  fetchOrgGoals,
+  getGoalStatus,
+  goalPercent,
+  goalProgressFor,
+  refreshGoalProgress,
+} from '../../lib/goals';
+import type { GoalTargetOption } from '../../lib/goals';
+import { useAuth } from '../../context/AuthContext';
+import type { GoalMetric, GoalPayoutMode, OrgGoal } from '../../types/database.types';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2, Target, RefreshCw, X } from 'lucide-react';
+
+interface OrganizationGoalsProps {
+  organizationId: string;
+}
+
+const emptyForm = {
+  title: '',
+  description: '',
+  metric: 'event_attendance' as GoalMetric,
+  target_ref: '',
+  goal_target: '100',
+  reward_coins: '50',
+  payout_mode: 'flat' as GoalPayoutMode,
+  starts_at: '',
+  deadline: '',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+export default function OrganizationGoals({ organizationId }: OrganizationGoalsProps) {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<OrgGoal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<OrgGoal | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [targets, setTargets] = useState<GoalTargetOption[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const refreshActive = async (list: OrgGoal[]) =>
+    Promise.all(list.map((goal) => (getGoalStatus(goal) === 'active' ? refreshGoalProgress(goal) : goal)));
+
+  const loadGoals = async () => {
+    try {
+      const data = await fetchOrgGoals(organizationId);
+      setGoals(data);
+      setGoals(await refreshActive(data));
+    } catch (err) {
+      console.error('Failed to fetch goals:', err);
+      toast.error('Failed to load goals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGoals();
+  }, [organizationId]);
+
+  const metric = GOAL_METRICS[form.metric];
+
+  useEffect(() => {
+    if (!showForm) return;
+    fetchGoalTargets(organizationId, metric.targetKind)
+      .then(setTargets)
+      .catch((err) => {
+        console.error('Failed to fetch goal targets:', err);
+        setTargets([]);
+      });
+  }, [showForm, organizationId, metric.targetKind]);
+
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      setGoals(await refreshActive(goals));
+    } catch (err) {
+      console.error('Failed to refresh goals:', err);
+      toast.error('Failed to refresh progress');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingGoal(null);
+    setForm({ ...emptyForm, starts_at: new Date().toISOString().slice(0, 10) });
+    setShowForm(true);
+  };
+
+  const openEditForm = (goal: OrgGoal) => {
+    setEditingGoal(goal);
+    setForm({
+      title: goal.title,
+      description: goal.description ?? '',
+      metric: goal.metric,
+      target_ref: goal.target_ref ?? '',
+      goal_target: String(goal.goal_target),
+      reward_coins: String(goal.reward_coins),
+      payout_mode: goal.payout_mode,
+      starts_at: goal.starts_at.slice(0, 10),
+      deadline: goal.deadline?.slice(0, 10) ?? '',
+    });
+    setShowForm(true);
+  };
+
+  const changeMetric = (next: GoalMetric) => {
+    // Keep the picked item only while it is still the same kind of thing
+    const sameKind = GOAL_METRICS[next].targetKind === metric.targetKind;
+    setForm({ ...form, metric: next, target_ref: sameKind ? form.target_ref : '' });
+  };
+
+  const saveGoal = async () => {
+    if (!form.title.trim()) {
+      toast.error('Please enter a goal title');
+      return;
+    }
+    if (metric.targetRequired && !form.target_ref) {
+      toast.error(`Please pick a ${GOAL_TARGET_KIND_LABELS[metric.targetKind].toLowerCase()}`);
+      return;
+    }
+
+    const goalTarget = Number(form.goal_target);
+    const rewardCoins = Number(form.reward_coins);
+    if (!Number.isInteger(goalTarget) || goalTarget < 1) {
+      toast.error('The target must be a whole number of 1 or more');
+      return;
+    }
+    if (!Number.isInteger(rewardCoins) || rewardCoins < 0 || rewardCoins > GOAL_MAX_REWARD_COINS) {
+      toast.error(`The reward must be a whole number from 0 to ${GOAL_MAX_REWARD_COINS}`);
+      return;
+    }
+    if (!form.starts_at) {
+      toast.error('Please set a start date');
+      return;
+    }
+
+    // Goals run from the start of the first day to the end of the deadline day
+    const startsAt = new Date(`${form.starts_at}T00:00:00`);
+    const deadline = form.deadline ? new Date(`${form.deadline}T23:59:59`) : null;
+    if (deadline && deadline <= startsAt) {
+      toast.error('The deadline must be after the start date');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = {
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        metric: form.metric,
+        target_ref: form.target_ref || null,
+        goal_target: goalTarget,
+        reward_coins: rewardCoins,
+        payout_mode: form.payout_mode,
+        starts_at: startsAt.toISOString(),
+        deadline: deadline?.toISOString() ?? null,
+      };
+
+      const { error } = editingGoal
+        ? await supabase.from('org_goals').update(values).eq('id', editingGoal.id)
+        : await supabase.from('org_goals').insert({ ...values, org_id: organizationId, scope: 'org', created_by: user?.id });
+      if (error) throw error;
+
+      toast.success(editingGoal ? 'Goal updated!' : 'Goal created!');
+      setShowForm(false);
+      loadGoals();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (goal: OrgGoal) => {
+    if (!window.confirm(`Delete the goal "${goal.title}"?`)) return;
+    const { error } = await supabase.from('org_goals').delete().eq('id', goal.id);
+    if (error) {
+      toast.error('Failed to delete goal');
+      return;
+    }
+    toast.success('Goal deleted');
+    setGoals((prev) => prev.filter((g) => g.id !== goal.id));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Community Goals</h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRefresh}
+              disabled={refreshing}
+              className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+            <button
+              onClick={openCreateForm}
+              className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Goal
+            </button>
+          </div>
+        </div>
+
+        {goals.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No goals yet. Set one for event turnout, feedback, post engagement or a game.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {goals.map((goal) => {
+              const status = getGoalStatus(goal);
+              const definition = GOAL_METRICS[goal.metric];
+              const progress = goalProgressFor(goal, organizationId);
+              const percent = goalPercent({ current_progress: progress, goal_target: goal.goal_target });
+              const crossOrg = goal.scope !== 'org';
+              return (
+                <div key={goal.id} className="flex flex-col sm:flex-row sm:items-center gap-3 border border-gray-200 rounded-lg p-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-semibold text-gray-900">{goal.title}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${GOAL_STATUS_COLORS[status]}`}>
+                        {GOAL_STATUS_LABELS[status]}
+                      </span>
+                      {crossOrg && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${GOAL_SCOPE_COLORS[goal.scope]}`}>
+                          {GOAL_SCOPE_LABELS[goal.scope]} · {goal.org_goal_participants?.length ?? 0} orgs
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {definition.label} · {goal.reward_coins} coins{goal.payout_mode === 'proportional' ? ' shared' : ' each'} ·{' '}
+                      {formatDate(goal.starts_at)}
+                      {goal.deadline ? ` – ${formatDate(goal.deadline)}` : ' onwards'}
+                    </p>
+                    <div className="mt-2 flex items-center gap-2">
+                      <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                        <div
+                          className={`h-2 rounded-full ${status === 'completed' ? 'bg-green-500' : 'bg-blue-500'}`}
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {progress}/{goal.goal_target} {definition.unit}
+                      </span>
+                    </div>
+                    {goal.rewards_paid_at && (
+                      <p className="text-xs text-green-700 mt-1">Rewards paid {formatDate(goal.rewards_paid_at)}</p>
+                    )}
+                  </div>
+                  {crossOrg ? (
+                    <span className="text-xs text-gray-500">Managed by campus admins</span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      {status !== 'completed' && (
+                        <button
+                          onClick={() => openEditForm(goal)}
+                          className="text-gray-500 hover:text-green-700"
+                          title="Edit goal"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(goal)}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Delete goal"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Goal Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{editingGoal ? 'Edit Goal' : 'New Goal'}</h2>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. 200 check-ins this term"
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Track</label>
+                <select
+                  value={form.metric}
+                  onChange={(e) => changeMetric(e.target.value as GoalMetric)}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {(Object.keys(GOAL_METRICS) as GoalMetric[]).map((key) => (
+                    <option key={key} value={key}>{GOAL_METRICS[key].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{metric.description}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {GOAL_TARGET_KIND_LABELS[metric.targetKind]}
+                </label>
+                <select
+                  value={form.target_ref}
+                  onChange={(e) => setForm({ ...form, target_ref: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="">
+                    {metric.targetRequired
+                      ? `Select a ${GOAL_TARGET_KIND_LABELS[metric.targetKind].toLowerCase()}`
+                      : 'All in this organization'}
+                  </option>
+                  {targets.map((target) => (
+                    <option key={target.id} value={target.id}>{target.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Target ({metric.unit})</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.goal_target}
+                    onChange={(e) => setForm({ ...form, goal_target: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.payout_mode === 'proportional' ? 'Reward pool (coins)' : 'Reward (coins each)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={GOAL_MAX_REWARD_COINS}
+                    value={form.reward_coins}
+                    onChange={(e) => setForm({ ...form, reward_coins: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payout</label>
+                <select
+                  value={form.payout_mode}
+                  onChange={(e) => setForm({ ...form, payout_mode: e.target.value as GoalPayoutMode })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="flat">Same reward for every contributor</option>
+                  <option value="proportional">Split the pool by how much each member contributed</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Paid once, as soon as the target is reached.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input
+                    type="date"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Deadline</label>
+                  <input
+                    type="date"
+                    value={form.deadline}
+                    onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Leave the deadline empty for a goal that stays open until it is reached.</p>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveGoal}
+                disabled={saving}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingGoal ? 'Save Changes' : 'Create Goal'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
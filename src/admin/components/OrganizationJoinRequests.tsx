@@ -0,0 +1,316 @@
+// OrganizationJoinRequests.tsx
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { sendNotificationsToUsers, sendNotificationsToOrgManagers } from '../../lib/notifications';
+import { useAuth } from '../../context/AuthContext';
+import type { OrgJoinRequest } from '../../types/database.types';
+import toast from 'react-hot-toast';
+import { UserCheck, UserX, Inbox, Plus, Trash2, Save, ClipboardList } from 'lucide-react';
+
+interface OrganizationJoinRequestsProps {
+  organizationId: string;
+}
+
+export default function OrganizationJoinRequests({ organizationId }: OrganizationJoinRequestsProps) {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<OrgJoinRequest[]>([]);
+  const [orgName, setOrgName] = useState('');
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingQuestions, setSavingQuestions] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  // Fetch pending requests
+  const fetchRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('org_join_requests')
+        .select(`
+          *,
+          users(*)
+        `)
+        .eq('org_id', organizationId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (err) {
+      console.error('Failed to fetch join requests:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch screening questions
+  const fetchOrganization = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('name, abbrev_name, join_questions')
+        .eq('id', organizationId)
+        .single();
+      if (error) throw error;
+      setOrgName(data.abbrev_name || data.name);
+      setQuestions(data.join_questions || []);
+    } catch (err) {
+      console.error('Failed to fetch organization:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+    fetchOrganization();
+  }, [organizationId]);
+
+  const saveQuestions = async () => {
+    try {
+      setSavingQuestions(true);
+      const cleaned = questions.map(q => q.trim()).filter(Boolean);
+      const { error } = await supabase
+        .from('organizations')
+        .update({ join_questions: cleaned.length > 0 ? cleaned : null })
+        .eq('id', organizationId);
+      if (error) throw error;
+      setQuestions(cleaned);
+      toast.success('Screening questions saved!');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save questions');
+    } finally {
+      setSavingQuestions(false);
+    }
+  };
+
+  const markReviewed = async (request: OrgJoinRequest, status: 'approved' | 'rejected', reason?: string) => {
+    const { error } = await supabase
+      .from('org_join_requests')
+      .update({
+        status,
+        rejection_reason: reason || null,
+        reviewed_by: user?.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', request.id);
+    if (error) throw error;
+  };
+
+  const approveRequest = async (request: OrgJoinRequest) => {
+    try {
+      setProcessingId(request.id);
+
+      // Re-activate a previous membership row if one exists
+      const { error: memberError } = await supabase
+        .from('org_members')
+        .upsert({
+          user_id: request.user_id,
+          org_id: organizationId,
+          is_active: true
+        }, { onConflict: 'user_id,org_id' });
+      if (memberError) throw memberError;
+
+      await markReviewed(request, 'approved');
+
+      const applicant = `${request.users?.first_name ?? ''} ${request.users?.last_name ?? ''}`.trim();
+      await sendNotificationsToUsers([request.user_id], `Your request to join ${orgName} has been approved. Welcome!`);
+      await sendNotificationsToOrgManagers(organizationId, `${applicant || 'A member'}'s request to join ${orgName} was approved.`);
+
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      toast.success('Request approved!');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to approve request');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const rejectRequest = async (request: OrgJoinRequest) => {
+    try {
+      setProcessingId(request.id);
+      const reason = rejectionReason.trim();
+      await markReviewed(request, 'rejected', reason);
+
+      const applicant = `${request.users?.first_name ?? ''} ${request.users?.last_name ?? ''}`.trim();
+      await sendNotificationsToUsers(
+        [request.user_id],
+        `Your request to join ${orgName} was declined.${reason ? ` Reason: ${reason}` : ''}`
+      );
+      await sendNotificationsToOrgManagers(organizationId, `${applicant || 'A member'}'s request to join ${orgName} was declined.`);
+
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      setRejectingId(null);
+      setRejectionReason('');
+      toast.success('Request declined');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to decline request');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Screening Questions */}
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-green-100 rounded-lg">
+            <ClipboardList className="h-5 w-5 text-green-600" />
+          </div>
+          <div>
+            <h4 className="text-lg font-semibold text-gray-900">Screening Questions</h4>
+            <p className="text-sm text-gray-600">Optional questions applicants answer when requesting to join</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {questions.length === 0 && (
+            <p className="text-sm text-gray-500">No screening questions. Applicants can request to join directly.</p>
+          )}
+          {questions.map((question, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={question}
+                onChange={e => setQuestions(prev => prev.map((q, i) => i === index ? e.target.value : q))}
+                placeholder={`Question ${index + 1}`}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm"
+              />
+              <button
+                onClick={() => setQuestions(prev => prev.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <button
+            onClick={() => setQuestions(prev => [...prev, ''])}
+            className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </button>
+          <button
+            onClick={saveQuestions}
+            disabled={savingQuestions}
+            className="flex items-center px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {savingQuestions ? 'Saving...' : 'Save Questions'}
+          </button>
+        </div>
+      </div>
+
+      {/* Pending Requests */}
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-lg font-semibold text-gray-900">Pending Requests</h4>
+          <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs font-medium rounded-full">
+            {requests.length} pending
+          </span>
+        </div>
+
+        {requests.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="mx-auto w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mb-3">
+              <Inbox className="h-6 w-6 text-gray-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gray-900 mb-1">No pending requests</h3>
+            <p className="text-xs text-gray-500">New join requests will appear here for review</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {requests.map(request => (
+              <div key={request.id} className="py-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {request.users?.first_name || 'Unknown'} {request.users?.last_name || 'User'}
+                    </p>
+                    <p className="text-xs text-gray-500">{request.users?.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {request.users?.department} - {request.users?.program}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Requested {new Date(request.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => approveRequest(request)}
+                      disabled={processingId === request.id}
+                      className="inline-flex items-center px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <UserCheck className="h-4 w-4 mr-1" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRejectingId(rejectingId === request.id ? null : request.id);
+                        setRejectionReason('');
+                      }}
+                      disabled={processingId === request.id}
+                      className="inline-flex items-center px-3 py-1.5 text-sm bg-red-50 text-red-700 ring-1 ring-inset ring-red-300 rounded-md hover:bg-red-100 disabled:opacity-50"
+                    >
+                      <UserX className="h-4 w-4 mr-1" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                {request.answers && request.answers.length > 0 && (
+                  <div className="bg-gray-50 rounded-md p-3 space-y-2">
+                    {request.answers.map((item, index) => (
+                      <div key={index}>
+                        <p className="text-xs font-medium text-gray-700">{item.question}</p>
+                        <p className="text-sm text-gray-900 whitespace-pre-wrap">{item.answer || '—'}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {rejectingId === request.id && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={rejectionReason}
+                      onChange={e => setRejectionReason(e.target.value)}
+                      placeholder="Reason (optional, shared with the applicant)"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-sm"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setRejectingId(null)}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => rejectRequest(request)}
+                        disabled={processingId === request.id}
+                        className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Confirm Rejection
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
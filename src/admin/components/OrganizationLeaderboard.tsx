@@ -1,14 +1,15 @@
 import React, { useEffect, useState } from "react";
 import { supabase } from "../../lib/supabase";
-
-interface LeaderboardEntry {
-  id: string;
-  user_id: string;
-  username?: string | null;
-  score: number;
-  created_at: string;
-  rank?: number;
-}
+import {
+  SEASON_STATUS_LABELS,
+  fetchArchivedBoard,
+  fetchBoard,
+  fetchSeasons,
+  findActiveSeason,
+  getSeasonStatus,
+  type BoardEntry,
+} from "../../lib/seasons";
+import type { LeaderboardSeason } from "../../types/database.types";
 
 interface Quiz {
   id: number;
@@ -35,8 +36,12 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
   const [flappyChallenges, setFlappyChallenges] = useState<FlappyChallenge[]>([]);
   const [selectedFlappy, setSelectedFlappy] = useState<string>("");
 
+  // Seasons ("" = all time)
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>("");
+
   // Scores
-  const [scores, setScores] = useState<LeaderboardEntry[]>([]);
+  const [scores, setScores] = useState<BoardEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
 
@@ -90,6 +95,21 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
     fetchFlappyChallenges();
   }, [gameType]);
 
+  // Fetch seasons, defaulting to the one running now
+  useEffect(() => {
+    const loadSeasons = async () => {
+      try {
+        const data = await fetchSeasons(organizationId);
+        setSeasons(data);
+        setSelectedSeason(findActiveSeason(data)?.id ?? "");
+      } catch (err) {
+        console.error("Error fetching seasons:", err);
+      }
+    };
+
+    loadSeasons();
+  }, [organizationId]);
+
   // Fetch leaderboard scores
   useEffect(() => {
     if (
@@ -102,30 +122,15 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
       setLoading(true);
       setErrorMessage("");
       try {
-        let data: any[] = [];
-
-        if (gameType === "quiz") {
-          const res = await supabase
-            .from("scores")
-            .select("*")
-            .eq("quiz_id", selectedQuiz)
-            .eq("org_id", organizationId)
-            .order("score", { ascending: false })
-            .limit(10);
-          data = res.data || [];
-        } else if (gameType === "flappy") {
-          const res = await supabase
-            .from("flappy_scores")
-            .select("*")
-            .eq("challenge_id", selectedFlappy)
-            .eq("org_id", organizationId)
-            .order("score", { ascending: false })
-            .limit(10);
-          data = res.data || [];
-        }
-
-        const ranked = data.map((s, i) => ({ ...s, rank: i + 1 }));
-        setScores(ranked);
+        const refId = gameType === "quiz" ? selectedQuiz! : selectedFlappy;
+        const season = seasons.find((s) => s.id === selectedSeason) ?? null;
+
+        // Archived seasons show their frozen final standings
+        const data =
+          season && season.archived_at
+            ? await fetchArchivedBoard(season.id, gameType, refId)
+            : await fetchBoard({ game: gameType, orgId: organizationId, refId, season });
+        setScores(data);
       } catch (err: any) {
         console.error("Error fetching scores:", err);
         setErrorMessage("Failed to fetch leaderboard.");
@@ -135,7 +140,7 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
     };
 
     fetchScores();
-  }, [gameType, selectedQuiz, selectedFlappy, organizationId]);
+  }, [gameType, selectedQuiz, selectedFlappy, selectedSeason, seasons, organizationId]);
 
   return (
     <div className="space-y-4">
@@ -154,6 +159,25 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
         </select>
       </div>
 
+      {/* Season Selector */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Season
+        </label>
+        <select
+          value={selectedSeason}
+          onChange={(e) => setSelectedSeason(e.target.value)}
+          className="w-full border rounded-lg p-2"
+        >
+          <option value="">All Time</option>
+          {seasons.map((season) => (
+            <option key={season.id} value={season.id}>
+              {season.name} ({SEASON_STATUS_LABELS[getSeasonStatus(season)]})
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Quiz Selector */}
       {gameType === "quiz" && quizzes.length > 0 && (
         <div>
@@ -204,18 +228,19 @@ const OrganizationLeaderboard: React.FC<OrganizationLeaderboardProps> = ({ organ
         {!loading && scores.length > 0 ? (
           <ol className="divide-y divide-gray-200">
             {scores.map((entry) => {
-              // Format the created_at date
-              const createdAt = new Date(entry.created_at);
-              const formattedDate = createdAt.toLocaleString(undefined, {
-                year: "numeric",
-                month: "short",
-                day: "numeric",
-                hour: "2-digit",
-                minute: "2-digit",
-              });
+              // Format the created_at date (archived standings have none)
+              const formattedDate = entry.created_at
+                ? new Date(entry.created_at).toLocaleString(undefined, {
+                    year: "numeric",
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })
+                : "";
 
               return (
-                <li key={entry.id} className="py-3 flex flex-col sm:flex-row sm:justify-between">
+                <li key={entry.user_id} className="py-3 flex flex-col sm:flex-row sm:justify-between">
                   <span>
                     {entry.rank}. <span className="font-medium">{entry.username || entry.user_id.slice(0, 6)}</span>
                   </span>
@@ -94,6 +94,7 @@ export default function OrganizationPosts({ organizationId }: OrganizationPostsP
         .select(`
           id, title, content, created_at, updated_at, user_id, tags, 
           status, is_pinned, org_id, media, post_type, visibility, game_route,
+          publish_at, expires_at, capacity, event_date, start_time, end_time, location,
           post_views(user_id)
         `)
         .eq('org_id', organizationId)
@@ -287,6 +288,7 @@ export default function OrganizationPosts({ organizationId }: OrganizationPostsP
           >
             <option value="all">All Status</option>
             <option value="published">Published</option>
+            <option value="scheduled">Scheduled</option>
             <option value="draft">Draft</option>
             <option value="archived">Archived</option>
           </select>
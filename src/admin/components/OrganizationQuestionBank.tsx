@@ -0,0 +1,366 @@
+// OrganizationQuestionBank.tsx
+import { useState, useEffect } from "react";
+import { supabase } from "../../lib/supabase";
+import { DIFFICULTY_COLORS, DIFFICULTY_LABELS, fetchQuestionBank } from "../../lib/questionBank";
+import { QUESTION_TYPE_LABELS, createQuestion, normalizeQuestion, validateQuestion } from "../../lib/quizSchema";
+import { useAuth } from "../../context/AuthContext";
+import type { QuestionBankItem, QuestionDifficulty, QuizQuestion } from "../../types/database.types";
+import QuizQuestionEditor from "./QuizQuestionEditor";
+import toast from "react-hot-toast";
+import { Plus, Pencil, Trash2, Search, Library, Copy, X } from "lucide-react";
+
+interface OrganizationQuestionBankProps {
+  organizationId: string;
+}
+
+interface QuizOption {
+  id: number;
+  title: string;
+  data: { questions?: QuizQuestion[] } | null;
+}
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean)));
+
+export default function OrganizationQuestionBank({ organizationId }: OrganizationQuestionBankProps) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [quizzes, setQuizzes] = useState<QuizOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [difficultyFilter, setDifficultyFilter] = useState<QuestionDifficulty | "">("");
+
+  const [editingItem, setEditingItem] = useState<QuestionBankItem | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formQuestion, setFormQuestion] = useState<QuizQuestion>(createQuestion());
+  const [formTags, setFormTags] = useState("");
+  const [formDifficulty, setFormDifficulty] = useState<QuestionDifficulty>("medium");
+  const [saving, setSaving] = useState(false);
+
+  const fetchItems = async () => {
+    try {
+      setItems(await fetchQuestionBank(organizationId));
+    } catch (err) {
+      console.error("Error fetching question bank:", err);
+      toast.error("Failed to load question bank");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+
+    supabase
+      .from("quizzes")
+      .select("id, title, data")
+      .eq("org_id", organizationId)
+      .order("created_at", { ascending: false })
+      .then(({ data }) => setQuizzes(data || []));
+  }, [organizationId]);
+
+  const allTags = Array.from(new Set(items.flatMap((item) => item.tags))).sort();
+
+  const visibleItems = items.filter((item) => {
+    if (tagFilter && !item.tags.includes(tagFilter)) return false;
+    if (difficultyFilter && item.difficulty !== difficultyFilter) return false;
+    if (searchTerm && !item.question.questionText.toLowerCase().includes(searchTerm.toLowerCase())) return false;
+    return true;
+  });
+
+  const openCreateForm = () => {
+    setEditingItem(null);
+    setFormQuestion(createQuestion());
+    setFormTags(tagFilter);
+    setFormDifficulty("medium");
+    setShowForm(true);
+  };
+
+  const openEditForm = (item: QuestionBankItem) => {
+    setEditingItem(item);
+    setFormQuestion(normalizeQuestion(item.question));
+    setFormTags(item.tags.join(", "));
+    setFormDifficulty(item.difficulty);
+    setShowForm(true);
+  };
+
+  const saveItem = async () => {
+    const errs = validateQuestion(formQuestion, "Question");
+    if (errs.length > 0) {
+      errs.forEach((err) => toast.error(err));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        question: formQuestion,
+        tags: parseTags(formTags),
+        difficulty: formDifficulty,
+      };
+
+      const { error } = editingItem
+        ? await supabase
+            .from("question_bank")
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq("id", editingItem.id)
+        : await supabase
+            .from("question_bank")
+            .insert({ ...values, org_id: organizationId, created_by: user?.id });
+      if (error) throw error;
+
+      toast.success(editingItem ? "Question updated!" : "Question added to bank!");
+      setShowForm(false);
+      fetchItems();
+    } catch (err) {
+      console.error("Error saving bank question:", err);
+      toast.error("Failed to save question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteItem = async (item: QuestionBankItem) => {
+    if (!confirm("Remove this question from the bank? Quizzes that draw from the bank will no longer pick it.")) return;
+
+    const { error } = await supabase.from("question_bank").delete().eq("id", item.id);
+    if (error) {
+      toast.error("Failed to delete question");
+      return;
+    }
+    setItems((prev) => prev.filter((i) => i.id !== item.id));
+    toast.success("Question removed");
+  };
+
+  const copyFromQuiz = async (quizId: string) => {
+    const quiz = quizzes.find((q) => String(q.id) === quizId);
+    const questions = quiz?.data?.questions || [];
+    if (!quiz || questions.length === 0) {
+      toast.error("That quiz has no questions to copy.");
+      return;
+    }
+
+    const tags = window.prompt(`Tags for the ${questions.length} questions from "${quiz.title}" (comma separated)`, "");
+    if (tags === null) return;
+
+    const { error } = await supabase.from("question_bank").insert(
+      questions.map((q) => ({
+        org_id: organizationId,
+        question: normalizeQuestion(q),
+        tags: parseTags(tags),
+        difficulty: "medium" as QuestionDifficulty,
+        created_by: user?.id,
+      }))
+    );
+    if (error) {
+      console.error("Error copying quiz questions:", error);
+      toast.error("Failed to copy questions");
+      return;
+    }
+    toast.success(`Copied ${questions.length} questions to the bank`);
+    fetchItems();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Library className="h-5 w-5 text-green-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Question Bank</h2>
+          <span className="text-sm text-gray-500">({items.length})</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {quizzes.length > 0 && (
+            <div className="relative">
+              <Copy className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+              <select
+                value=""
+                onChange={(e) => e.target.value && copyFromQuiz(e.target.value)}
+                className="pl-9 pr-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700"
+              >
+                <option value="">Copy from quiz...</option>
+                {quizzes.map((quiz) => (
+                  <option key={quiz.id} value={quiz.id}>
+                    {quiz.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Question
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search questions..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+          />
+        </div>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">All tags</option>
+          {allTags.map((tag) => (
+            <option key={tag} value={tag}>
+              {tag}
+            </option>
+          ))}
+        </select>
+        <select
+          value={difficultyFilter}
+          onChange={(e) => setDifficultyFilter(e.target.value as QuestionDifficulty | "")}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Any difficulty</option>
+          {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map((d) => (
+            <option key={d} value={d}>
+              {DIFFICULTY_LABELS[d]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">
+            {items.length === 0
+              ? "The bank is empty. Add questions once and reuse them across quizzes."
+              : "No questions match these filters."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleItems.map((item) => (
+            <div key={item.id} className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{item.question.questionText}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DIFFICULTY_COLORS[item.difficulty]}`}>
+                      {DIFFICULTY_LABELS[item.difficulty]}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {QUESTION_TYPE_LABELS[item.question.type ?? "multiple_choice"]} · {item.question.answers.length} answers
+                    </span>
+                    {item.tags.map((tag) => (
+                      <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  <button
+                    onClick={() => openEditForm(item)}
+                    className="text-gray-500 hover:text-green-700"
+                    title="Edit question"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteItem(item)}
+                    className="text-gray-500 hover:text-red-600"
+                    title="Remove from bank"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Question Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingItem ? "Edit Bank Question" : "Add Bank Question"}
+              </h3>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-semibold mb-1 text-gray-700">Tags</label>
+                <input
+                  type="text"
+                  value={formTags}
+                  onChange={(e) => setFormTags(e.target.value)}
+                  placeholder="e.g. week-3, history"
+                  className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-1 text-gray-700">Difficulty</label>
+                <select
+                  value={formDifficulty}
+                  onChange={(e) => setFormDifficulty(e.target.value as QuestionDifficulty)}
+                  className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map((d) => (
+                    <option key={d} value={d}>
+                      {DIFFICULTY_LABELS[d]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <QuizQuestionEditor
+              question={formQuestion}
+              index={0}
+              defaultTimeLimit={30}
+              defaultPoints={10}
+              onChange={setFormQuestion}
+            />
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveItem}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "../../lib/supabase";
-import { Pencil, Trash2, Search, Users } from "lucide-react";
+import { exportQuizCsv, exportQuizJson } from "../../lib/quizTransfer";
+import { Pencil, Trash2, Search, Users, Upload, Download, BarChart3, Radio } from "lucide-react";
 import CreateQuiz from "../pages/CreateQuiz";
+import QuizImportModal from "./QuizImportModal";
+import QuizAnalyticsModal from "./QuizAnalyticsModal";
+import LiveQuizHost from "./LiveQuizHost";
 import toast, { Toaster } from "react-hot-toast";
 
 interface Quiz {
@@ -37,6 +41,9 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
   const [selectedQuiz, setSelectedQuiz] = useState<Quiz | null>(null);
   const [quizScores, setQuizScores] = useState<QuizScore[]>([]);
   const [scoresLoading, setScoresLoading] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [analyticsQuiz, setAnalyticsQuiz] = useState<Quiz | null>(null);
+  const [liveQuiz, setLiveQuiz] = useState<Quiz | null>(null);
 
   // Fetch quizzes
   const fetchQuizzes = async () => {
@@ -162,6 +169,13 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
       {/* Header with Create Button and Search */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
         <h2 className="text-xl font-semibold text-gray-900">Organization Quizzes</h2>
+        <button
+          onClick={() => setShowImportModal(true)}
+          className="flex items-center px-4 py-2 border border-green-600 rounded-md text-sm font-medium text-green-700 bg-white hover:bg-green-50"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import Quiz
+        </button>
       </div>
 
       {/* Search Bar */}
@@ -198,11 +212,22 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
                   <p>Created: {formatDate(quiz.created_at)}</p>
                   {quiz.open_at && <p>Opens: {formatDate(quiz.open_at)}</p>}
                   {quiz.close_at && <p>Closes: {formatDate(quiz.close_at)}</p>}
-                  <p>Questions: {quiz.data?.questions?.length || 0}</p>
+                  {quiz.data?.draw ? (
+                    <p>Questions: {quiz.data.draw.count} drawn from bank</p>
+                  ) : (
+                    <p>Questions: {quiz.data?.questions?.length || 0}</p>
+                  )}
                 </div>
               </div>
 
               <div className="flex flex-wrap gap-2 mt-4">
+                <button
+                  onClick={() => setLiveQuiz(quiz)}
+                  className="flex items-center px-3 py-1 border border-green-300 rounded-md text-sm font-medium text-green-700 bg-white hover:bg-green-50"
+                >
+                  <Radio className="h-4 w-4 mr-1" />
+                  Host Live
+                </button>
                 <button
                   onClick={() => handleViewScores(quiz)}
                   className="flex items-center px-3 py-1 border border-blue-300 rounded-md text-sm font-medium text-blue-700 bg-white hover:bg-blue-50"
@@ -210,6 +235,13 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
                   <Users className="h-4 w-4 mr-1" />
                   View Scores
                 </button>
+                <button
+                  onClick={() => setAnalyticsQuiz(quiz)}
+                  className="flex items-center px-3 py-1 border border-purple-300 rounded-md text-sm font-medium text-purple-700 bg-white hover:bg-purple-50"
+                >
+                  <BarChart3 className="h-4 w-4 mr-1" />
+                  Analytics
+                </button>
                 <button
                   onClick={() => handleEditQuiz(quiz)}
                   className="flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
@@ -217,6 +249,22 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
                   <Pencil className="h-4 w-4 mr-1" />
                   Edit
                 </button>
+                <button
+                  onClick={() => exportQuizJson(quiz.title, quiz.data)}
+                  className="flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  title="Export as JSON"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  JSON
+                </button>
+                <button
+                  onClick={() => exportQuizCsv(quiz.title, quiz.data)}
+                  className="flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  title="Export as CSV"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </button>
                 <button
                   onClick={() => handleDeleteQuiz(quiz.id)}
                   className="flex items-center px-3 py-1 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
@@ -256,6 +304,36 @@ const OrganizationQuizzes: React.FC<OrganizationQuizzesProps> = ({ organizationI
         </div>
       )}
 
+      {/* Import Modal */}
+      {showImportModal && (
+        <QuizImportModal
+          orgId={organizationId}
+          onClose={() => setShowImportModal(false)}
+          onImported={() => {
+            setShowImportModal(false);
+            fetchQuizzes();
+          }}
+        />
+      )}
+
+      {/* Analytics Modal */}
+      {analyticsQuiz && (
+        <QuizAnalyticsModal
+          quiz={analyticsQuiz}
+          organizationId={organizationId}
+          onClose={() => setAnalyticsQuiz(null)}
+        />
+      )}
+
+      {/* Live Session */}
+      {liveQuiz && (
+        <LiveQuizHost
+          quiz={liveQuiz}
+          organizationId={organizationId}
+          onClose={() => setLiveQuiz(null)}
+        />
+      )}
+
       {/* Scores Modal */}
       {showScoresModal && selectedQuiz && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
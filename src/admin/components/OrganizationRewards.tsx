@@ -0,0 +1,472 @@
+// OrganizationRewards.tsx
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { sendNotificationsToUsers } from '../../lib/notifications';
+import {
+  REDEMPTION_STATUS_COLORS,
+  REDEMPTION_STATUS_LABELS,
+  REWARD_CATEGORY_LABELS,
+  cancelRedemption,
+  updateRedemptionStatus,
+} from '../../lib/rewards';
+import { useAuth } from '../../context/AuthContext';
+import type { RedemptionStatus, Reward, RewardCategory, RewardRedemption } from '../../types/database.types';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Gift, Coins, Package, CheckCircle, XCircle, X } from 'lucide-react';
+
+interface OrganizationRewardsProps {
+  organizationId: string;
+}
+
+type QueueFilter = 'open' | 'fulfilled' | 'cancelled';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  category: 'merch' as RewardCategory,
+  cost: '',
+  stock: '',
+  is_active: true,
+};
+
+export default function OrganizationRewards({ organizationId }: OrganizationRewardsProps) {
+  const { user } = useAuth();
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [queueFilter, setQueueFilter] = useState<QueueFilter>('open');
+  const [showForm, setShowForm] = useState(false);
+  const [editingReward, setEditingReward] = useState<Reward | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchRewards = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rewards')
+        .select('*')
+        .eq('org_id', organizationId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setRewards(data || []);
+    } catch (err) {
+      console.error('Failed to fetch rewards:', err);
+    }
+  };
+
+  const fetchRedemptions = async () => {
+    try {
+      let query = supabase
+        .from('reward_redemptions')
+        .select(`
+          *,
+          rewards (id, name, category),
+          users (id, first_name, last_name, email)
+        `)
+        .eq('org_id', organizationId)
+        .order('created_at', { ascending: true });
+
+      query = queueFilter === 'open'
+        ? query.in('status', ['pending', 'ready'])
+        : query.eq('status', queueFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRedemptions(data || []);
+    } catch (err) {
+      console.error('Failed to fetch redemptions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRewards();
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchRedemptions();
+  }, [organizationId, queueFilter]);
+
+  const openCreateForm = () => {
+    setEditingReward(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEditForm = (reward: Reward) => {
+    setEditingReward(reward);
+    setForm({
+      name: reward.name,
+      description: reward.description || '',
+      category: reward.category,
+      cost: String(reward.cost),
+      stock: reward.stock === null ? '' : String(reward.stock),
+      is_active: reward.is_active,
+    });
+    setShowForm(true);
+  };
+
+  const saveReward = async () => {
+    const cost = Number(form.cost);
+    const stock = form.stock === '' ? null : Number(form.stock);
+
+    if (!form.name.trim()) {
+      toast.error('Please enter a reward name');
+      return;
+    }
+    if (!Number.isInteger(cost) || cost < 1) {
+      toast.error('Cost must be a whole number of at least 1 coin');
+      return;
+    }
+    if (stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+      toast.error('Stock must be a whole number, or blank for unlimited');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        category: form.category,
+        cost,
+        stock,
+        is_active: form.is_active,
+      };
+
+      const { error } = editingReward
+        ? await supabase
+            .from('rewards')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', editingReward.id)
+        : await supabase
+            .from('rewards')
+            .insert({ ...values, org_id: organizationId, created_by: user?.id });
+      if (error) throw error;
+
+      toast.success(editingReward ? 'Reward updated!' : 'Reward added!');
+      setShowForm(false);
+      fetchRewards();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save reward');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (reward: Reward) => {
+    const { error } = await supabase
+      .from('rewards')
+      .update({ is_active: !reward.is_active, updated_at: new Date().toISOString() })
+      .eq('id', reward.id);
+    if (error) {
+      toast.error('Failed to update reward');
+      return;
+    }
+    setRewards(prev => prev.map(r => (r.id === reward.id ? { ...r, is_active: !r.is_active } : r)));
+  };
+
+  const advanceRedemption = async (redemption: RewardRedemption, status: Extract<RedemptionStatus, 'ready' | 'fulfilled'>) => {
+    if (!user) return;
+    try {
+      setProcessingId(redemption.id);
+      await updateRedemptionStatus(redemption.id, status, user.id);
+
+      const rewardName = redemption.rewards?.name || 'your reward';
+      await sendNotificationsToUsers(
+        [redemption.user_id],
+        status === 'ready'
+          ? `Your redemption of ${rewardName} is ready for pickup.`
+          : `Your redemption of ${rewardName} has been fulfilled.`
+      );
+
+      toast.success(`Marked as ${REDEMPTION_STATUS_LABELS[status].toLowerCase()}`);
+      fetchRedemptions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update redemption');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCancel = async (redemption: RewardRedemption) => {
+    const reason = window.prompt('Reason for cancelling (shown to the member). Their coins will be refunded.');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error('A reason is required to cancel a redemption');
+      return;
+    }
+
+    try {
+      setProcessingId(redemption.id);
+      await cancelRedemption(redemption.id, reason.trim());
+      toast.success('Redemption cancelled and coins refunded');
+      fetchRedemptions();
+      fetchRewards();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel redemption');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Catalogue */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Gift className="h-5 w-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Reward Catalogue</h3>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Reward
+          </button>
+        </div>
+
+        {rewards.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No rewards yet. Add merch, event perks or room items members can buy with their coins.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reward</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cost</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rewards.map(reward => (
+                  <tr key={reward.id}>
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-medium text-gray-900">{reward.name}</div>
+                      {reward.description && <div className="text-xs text-gray-500">{reward.description}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{REWARD_CATEGORY_LABELS[reward.category]}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <span className="inline-flex items-center gap-1">
+                        <Coins className="h-4 w-4 text-yellow-500" />
+                        {reward.cost}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{reward.stock === null ? 'Unlimited' : reward.stock}</td>
+                    <td className="px-4 py-3">
+                      <button
+                        onClick={() => toggleActive(reward)}
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          reward.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}
+                        title={reward.is_active ? 'Hide from the shop' : 'Show in the shop'}
+                      >
+                        {reward.is_active ? 'Active' : 'Hidden'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openEditForm(reward)}
+                        className="text-gray-500 hover:text-green-700"
+                        title="Edit reward"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Fulfilment Queue */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Fulfilment Queue</h3>
+          </div>
+          <select
+            value={queueFilter}
+            onChange={(e) => setQueueFilter(e.target.value as QueueFilter)}
+            className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+          >
+            <option value="open">Open</option>
+            <option value="fulfilled">Fulfilled</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+
+        {redemptions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No redemptions here.</p>
+        ) : (
+          <div className="space-y-3">
+            {redemptions.map(redemption => (
+              <div key={redemption.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border border-gray-200 rounded-lg p-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{redemption.rewards?.name || 'Deleted reward'}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REDEMPTION_STATUS_COLORS[redemption.status]}`}>
+                      {REDEMPTION_STATUS_LABELS[redemption.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {redemption.users ? `${redemption.users.first_name} ${redemption.users.last_name}` : 'Unknown member'}
+                    {redemption.users?.email && <span className="text-gray-400"> · {redemption.users.email}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {redemption.cost} coins · {new Date(redemption.created_at).toLocaleString()}
+                  </p>
+                  {redemption.note && <p className="text-xs text-gray-500 mt-1">Note: {redemption.note}</p>}
+                </div>
+
+                {(redemption.status === 'pending' || redemption.status === 'ready') && (
+                  <div className="flex items-center gap-2">
+                    {redemption.status === 'pending' && (
+                      <button
+                        onClick={() => advanceRedemption(redemption, 'ready')}
+                        disabled={processingId === redemption.id}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Mark Ready
+                      </button>
+                    )}
+                    <button
+                      onClick={() => advanceRedemption(redemption, 'fulfilled')}
+                      disabled={processingId === redemption.id}
+                      className="inline-flex items-center px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Fulfilled
+                    </button>
+                    <button
+                      onClick={() => handleCancel(redemption)}
+                      disabled={processingId === redemption.id}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reward Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{editingReward ? 'Edit Reward' : 'Add Reward'}</h2>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as RewardCategory })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {(Object.keys(REWARD_CATEGORY_LABELS) as RewardCategory[]).map(category => (
+                    <option key={category} value={category}>{REWARD_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cost (coins)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.cost}
+                    onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Stock</label>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Unlimited"
+                    value={form.stock}
+                    onChange={(e) => setForm({ ...form, stock: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                />
+                Show in the shop
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-2 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveReward}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+// OrganizationSeasons.tsx
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import {
+  SEASON_MAX_REWARD_COINS,
+  SEASON_REWARD_PLACES,
+  SEASON_STATUS_COLORS,
+  SEASON_STATUS_LABELS,
+  archiveSeason,
+  fetchSeasons,
+  findOverlappingSeason,
+  getSeasonStatus,
+  ordinal,
+} from '../../lib/seasons';
+import { useAuth } from '../../context/AuthContext';
+import type { Badge, LeaderboardSeason } from '../../types/database.types';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2, CalendarRange, Archive, X } from 'lucide-react';
+
+interface OrganizationSeasonsProps {
+  organizationId: string;
+}
+
+const emptyForm = {
+  name: '',
+  starts_at: '',
+  ends_at: '',
+  reward_coins: ['100', '50', '25'],
+  reward_badge_ids: ['', '', ''],
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+export default function OrganizationSeasons({ organizationId }: OrganizationSeasonsProps) {
+  const { user } = useAuth();
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSeason, setEditingSeason] = useState<LeaderboardSeason | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+
+  const loadSeasons = async () => {
+    try {
+      setSeasons(await fetchSeasons(organizationId));
+    } catch (err) {
+      console.error('Failed to fetch seasons:', err);
+      toast.error('Failed to load seasons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBadges = async () => {
+    const { data, error } = await supabase
+      .from('badges')
+      .select('*')
+      // Prizes are limited to the organization's own badges
+      .eq('org_id', organizationId)
+      .eq('is_active', true)
+      .order('name');
+    if (error) {
+      console.error('Failed to fetch badges:', error);
+      return;
+    }
+    setBadges(data || []);
+  };
+
+  useEffect(() => {
+    loadSeasons();
+    fetchBadges();
+  }, [organizationId]);
+
+  const openCreateForm = () => {
+    setEditingSeason(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEditForm = (season: LeaderboardSeason) => {
+    setEditingSeason(season);
+    setForm({
+      name: season.name,
+      starts_at: season.starts_at.slice(0, 10),
+      ends_at: season.ends_at.slice(0, 10),
+      reward_coins: Array.from({ length: SEASON_REWARD_PLACES }, (_, i) => String(season.reward_coins[i] ?? 0)),
+      reward_badge_ids: Array.from({ length: SEASON_REWARD_PLACES }, (_, i) => season.reward_badge_ids[i] ?? ''),
+    });
+    setShowForm(true);
+  };
+
+  const saveSeason = async () => {
+    if (!form.name.trim()) {
+      toast.error('Please enter a season name');
+      return;
+    }
+    if (!form.starts_at || !form.ends_at) {
+      toast.error('Please set the season start and end dates');
+      return;
+    }
+
+    // Seasons run from the start of the first day to the end of the last
+    const startsAt = new Date(`${form.starts_at}T00:00:00`);
+    const endsAt = new Date(`${form.ends_at}T23:59:59`);
+    if (endsAt <= startsAt) {
+      toast.error('The season must end after it starts');
+      return;
+    }
+
+    const overlapping = findOverlappingSeason(seasons, startsAt, endsAt, editingSeason?.id);
+    if (overlapping) {
+      toast.error(`These dates overlap with "${overlapping.name}"`);
+      return;
+    }
+
+    const rewardCoins = form.reward_coins.map(Number);
+    if (rewardCoins.some((coins) => !Number.isInteger(coins) || coins < 0 || coins > SEASON_MAX_REWARD_COINS)) {
+      toast.error(`Coin rewards must be whole numbers from 0 to ${SEASON_MAX_REWARD_COINS}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = {
+        name: form.name.trim(),
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        reward_coins: rewardCoins,
+        reward_badge_ids: form.reward_badge_ids.map((id) => id || null),
+      };
+
+      const { error } = editingSeason
+        ? await supabase.from('leaderboard_seasons').update(values).eq('id', editingSeason.id)
+        : await supabase
+            .from('leaderboard_seasons')
+            .insert({ ...values, org_id: organizationId, created_by: user?.id });
+      if (error) throw error;
+
+      toast.success(editingSeason ? 'Season updated!' : 'Season created!');
+      setShowForm(false);
+      loadSeasons();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save season');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (season: LeaderboardSeason) => {
+    if (!window.confirm(`Delete the season "${season.name}"?`)) return;
+    const { error } = await supabase.from('leaderboard_seasons').delete().eq('id', season.id);
+    if (error) {
+      toast.error('Failed to delete season');
+      return;
+    }
+    toast.success('Season deleted');
+    setSeasons((prev) => prev.filter((s) => s.id !== season.id));
+  };
+
+  const handleArchive = async (season: LeaderboardSeason) => {
+    const early = getSeasonStatus(season) === 'active';
+    const message = early
+      ? `End "${season.name}" now? Rankings reset and the top ${SEASON_REWARD_PLACES} on each board get their rewards.`
+      : `Archive "${season.name}" and hand out its rewards?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      setArchivingId(season.id);
+      const result = await archiveSeason(season);
+      toast.success(`Season archived with ${result.standings} standings and ${result.winners.length} rewards`);
+      loadSeasons();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to archive season');
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
+  const badgeName = (badgeId: string | null) => badges.find((b) => b.id === badgeId)?.name;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Leaderboard Seasons</h3>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Season
+          </button>
+        </div>
+
+        {seasons.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No seasons yet. Create one per term so rankings reset and top players get rewarded.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {seasons.map((season) => {
+              const status = getSeasonStatus(season);
+              return (
+                <div key={season.id} className="flex flex-col sm:flex-row sm:items-center gap-3 border border-gray-200 rounded-lg p-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-semibold text-gray-900">{season.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEASON_STATUS_COLORS[status]}`}>
+                        {SEASON_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {formatDate(season.starts_at)} – {formatDate(season.ends_at)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {season.reward_coins.slice(0, SEASON_REWARD_PLACES).map((coins, i) => {
+                        const badge = badgeName(season.reward_badge_ids[i] ?? null);
+                        return `${ordinal(i + 1)}: ${coins} coins${badge ? ` + ${badge}` : ''}`;
+                      }).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {(status === 'active' || status === 'ended') && (
+                      <button
+                        onClick={() => handleArchive(season)}
+                        disabled={archivingId === season.id}
+                        className="inline-flex items-center px-3 py-1 border border-yellow-300 rounded-md text-sm font-medium text-yellow-700 bg-white hover:bg-yellow-50 disabled:opacity-50"
+                      >
+                        <Archive className="h-4 w-4 mr-1" />
+                        {archivingId === season.id ? 'Archiving...' : status === 'active' ? 'End Now' : 'Archive'}
+                      </button>
+                    )}
+                    {status !== 'archived' && (
+                      <button
+                        onClick={() => openEditForm(season)}
+                        className="text-gray-500 hover:text-green-700"
+                        title="Edit season"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    )}
+                    {status === 'upcoming' && (
+                      <button
+                        onClick={() => handleDelete(season)}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Delete season"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Season Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{editingSeason ? 'Edit Season' : 'New Season'}</h2>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. 1st Term AY 2026–2027"
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Term Starts</label>
+                  <input
+                    type="date"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Term Ends</label>
+                  <input
+                    type="date"
+                    value={form.ends_at}
+                    onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rewards</label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Given to the top {SEASON_REWARD_PLACES} on every quiz and flappy leaderboard when the season ends.
+                </p>
+                <div className="space-y-2">
+                  {Array.from({ length: SEASON_REWARD_PLACES }, (_, i) => (
+                    <div key={i} className="grid grid-cols-[3rem_6rem_1fr] items-center gap-2">
+                      <span className="text-sm font-medium text-gray-700">{ordinal(i + 1)}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={SEASON_MAX_REWARD_COINS}
+                        value={form.reward_coins[i]}
+                        onChange={(e) => {
+                          const rewardCoins = [...form.reward_coins];
+                          rewardCoins[i] = e.target.value;
+                          setForm({ ...form, reward_coins: rewardCoins });
+                        }}
+                        className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                        title="Coins"
+                      />
+                      <select
+                        value={form.reward_badge_ids[i]}
+                        onChange={(e) => {
+                          const rewardBadgeIds = [...form.reward_badge_ids];
+                          rewardBadgeIds[i] = e.target.value;
+                          setForm({ ...form, reward_badge_ids: rewardBadgeIds });
+                        }}
+                        className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm"
+                      >
+                        <option value="">No badge</option>
+                        {badges.map((badge) => (
+                          <option key={badge.id} value={badge.id}>{badge.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveSeason}
+                disabled={saving}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingSeason ? 'Save Changes' : 'Create Season'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
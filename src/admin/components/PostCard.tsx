@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
 import { supabase } from "../../lib/supabase";
-import { Pin, Tag, Eye, Calendar, Edit3, Trash2, MoreVertical, FileText, Calendar as CalendarIcon, BarChart3, MessageSquare, Users } from "lucide-react";
+import { Pin, Tag, Eye, Calendar, Edit3, Trash2, MoreVertical, FileText, Calendar as CalendarIcon, BarChart3, MessageSquare, Users, Clock } from "lucide-react";
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
 import type { Posts, PostType, Organization, User } from '../../types/database.types';
+import { markdownToPlainText } from '../../lib/markdown';
+import { isPostEdited } from '../../lib/postRevisions';
 
 interface PostCardProps {
   post: Posts;
@@ -83,6 +85,7 @@ export default function PostCard({
     switch (status) {
       case 'published': return 'bg-green-100 text-green-800';
       case 'draft': return 'bg-yellow-100 text-yellow-800';
+      case 'scheduled': return 'bg-indigo-100 text-indigo-800';
       case 'archived': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -353,8 +356,8 @@ export default function PostCard({
         <p className="text-gray-600 leading-relaxed line-clamp-3 mb-3">
           {post.post_type === 'poll' ? getPollQuestion() :
            post.post_type === 'feedback' ? getFormDescription() :
-           post.post_type === 'general' ? getGeneralContent() :
-           post.content}
+           post.post_type === 'general' ? markdownToPlainText(getGeneralContent()) :
+           markdownToPlainText(post.content)}
         </p>
 
         {/* Game Link */}
@@ -733,11 +736,22 @@ export default function PostCard({
               <Calendar size={14} />
               <span>{formatDate(post.created_at)}</span>
             </div>
-            {post.updated_at && post.updated_at !== post.created_at && (
+            {isPostEdited(post) && (
               <span className="text-xs">
                 (edited)
               </span>
             )}
+            {post.status === 'scheduled' && post.publish_at && (
+              <div className="flex items-center gap-1 text-indigo-600">
+                <Clock size={14} />
+                <span>Publishes {formatDate(post.publish_at)}</span>
+              </div>
+            )}
+            {post.expires_at && post.status !== 'archived' && (
+              <span className="text-xs text-gray-500">
+                Expires {formatDate(post.expires_at)}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-1">
             <Eye size={14} />
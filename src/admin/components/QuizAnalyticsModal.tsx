@@ -0,0 +1,150 @@
+// QuizAnalyticsModal.tsx
+import { useState, useEffect } from "react";
+import { Bar } from "react-chartjs-2";
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip } from "chart.js";
+import { fetchQuizAnalytics, type QuizAnalytics } from "../../lib/quizAnalytics";
+import type { QuizData } from "../../types/database.types";
+import { Clock, Target } from "lucide-react";
+import toast from "react-hot-toast";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface QuizAnalyticsModalProps {
+  quiz: { id: number; title: string; data: QuizData | null };
+  organizationId: string;
+  onClose: () => void;
+}
+
+const rateColor = (rate: number) =>
+  rate < 0.4 ? "text-red-600" : rate < 0.7 ? "text-yellow-600" : "text-green-600";
+
+export default function QuizAnalyticsModal({ quiz, organizationId, onClose }: QuizAnalyticsModalProps) {
+  const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      setLoading(true);
+      try {
+        setAnalytics(await fetchQuizAnalytics(String(quiz.id), organizationId, quiz.data));
+      } catch (err) {
+        console.error("Error fetching quiz analytics:", err);
+        toast.error("Failed to load quiz analytics");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalytics();
+  }, [quiz, organizationId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Question Analytics: {quiz.title}</h3>
+              {analytics && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {analytics.totalResponses} attempts with per-question results · most-missed questions first
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+            </div>
+          ) : !analytics || (analytics.questions.length === 0 && analytics.scoreBuckets.length === 0) ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No results yet. Analytics appear once members play this quiz.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Score Distribution */}
+              {analytics.scoreBuckets.length > 0 && (
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <h4 className="font-semibold text-gray-800 mb-3">Score Distribution</h4>
+                  <div className="h-48">
+                    <Bar
+                      data={{
+                        labels: analytics.scoreBuckets.map((b) => b.label),
+                        datasets: [
+                          {
+                            label: "Players",
+                            data: analytics.scoreBuckets.map((b) => b.count),
+                            backgroundColor: "rgba(22, 163, 74, 0.7)",
+                          },
+                        ],
+                      }}
+                      options={{
+                        maintainAspectRatio: false,
+                        scales: { y: { beginAtZero: true, ticks: { precision: 0 } } },
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Per-question */}
+              {analytics.questions.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center">
+                  No per-question results yet. They are recorded for plays on the latest game version.
+                </p>
+              ) : (
+                analytics.questions.map((question, qi) => {
+                  const maxCount = Math.max(1, ...question.answers.map((a) => a.count));
+                  return (
+                    <div key={qi} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex flex-col sm:flex-row sm:justify-between gap-2 mb-3">
+                        <p className="font-medium text-gray-900">{question.questionText}</p>
+                        <div className="flex items-center gap-4 text-sm whitespace-nowrap">
+                          <span className={`flex items-center gap-1 font-semibold ${rateColor(question.correctRate)}`}>
+                            <Target className="h-4 w-4" />
+                            {Math.round(question.correctRate * 100)}% correct
+                          </span>
+                          {question.avgTimeMs !== null && (
+                            <span className="flex items-center gap-1 text-gray-600">
+                              <Clock className="h-4 w-4" />
+                              {(question.avgTimeMs / 1000).toFixed(1)}s avg
+                            </span>
+                          )}
+                          <span className="text-gray-500">{question.responses} answers</span>
+                        </div>
+                      </div>
+                      <div className="space-y-1.5">
+                        {question.answers.map((answer, ai) => (
+                          <div key={ai} className="flex items-center gap-3 text-sm">
+                            <span
+                              className={`w-40 sm:w-56 truncate ${answer.isCorrect ? "text-green-700 font-medium" : "text-gray-700"}`}
+                              title={answer.answerText}
+                            >
+                              {answer.isCorrect ? "✓ " : ""}
+                              {answer.answerText}
+                            </span>
+                            <div className="flex-1 bg-gray-100 rounded h-3 overflow-hidden">
+                              <div
+                                className={`h-3 ${answer.isCorrect ? "bg-green-500" : "bg-red-400"}`}
+                                style={{ width: `${(answer.count / maxCount) * 100}%` }}
+                              ></div>
+                            </div>
+                            <span className="w-10 text-right text-gray-600">{answer.count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
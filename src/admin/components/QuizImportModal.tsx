@@ -0,0 +1,205 @@
+// QuizImportModal.tsx
+import { useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { QUESTION_TYPE_LABELS, validateQuiz } from "../../lib/quizSchema";
+import { importQuizCsv, importQuizJson, type QuizImportResult } from "../../lib/quizTransfer";
+import { Upload, AlertCircle, CheckCircle } from "lucide-react";
+import toast from "react-hot-toast";
+
+interface QuizImportModalProps {
+  orgId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function QuizImportModal({ orgId, onClose, onImported }: QuizImportModalProps) {
+  const [preview, setPreview] = useState<QuizImportResult | null>(null);
+  const [title, setTitle] = useState("");
+  const [timeLimit, setTimeLimit] = useState(30);
+  const [points, setPoints] = useState(10);
+  const [fileName, setFileName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const baseName = file.name.replace(/\.[^.]+$/, "");
+    const result = file.name.toLowerCase().endsWith(".json")
+      ? importQuizJson(text, baseName)
+      : importQuizCsv(text, baseName);
+
+    setFileName(file.name);
+    setPreview(result);
+    setTitle(result.title);
+    setTimeLimit(result.data.timeLimitInSeconds);
+    setPoints(result.data.pointsAddedForCorrectAnswer);
+  };
+
+  const quizData = preview
+    ? { ...preview.data, timeLimitInSeconds: timeLimit, pointsAddedForCorrectAnswer: points }
+    : null;
+
+  // Question errors come from the parser (with row numbers); quiz-level rules are re-checked live
+  const quizErrors = quizData
+    ? validateQuiz(title, { ...quizData, questions: [] }).filter(
+        (err) => err !== "At least one question is required." || quizData.questions.length === 0
+      )
+    : [];
+  const errors = [...(preview?.errors ?? []), ...quizErrors];
+
+  const handleSave = async () => {
+    if (!quizData || errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("quizzes").insert([
+        {
+          title: title.trim(),
+          data: quizData,
+          org_id: orgId,
+        },
+      ]);
+      if (error) throw error;
+
+      toast.success(`Imported ${quizData.questions.length} questions!`);
+      onImported();
+    } catch (err) {
+      console.error("Error importing quiz:", err);
+      toast.error("Failed to save quiz. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Import Quiz</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              ✕
+            </button>
+          </div>
+
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-green-500 mb-4">
+            <Upload className="h-6 w-6 text-gray-400 mb-2" />
+            <span className="text-sm text-gray-700">
+              {fileName || "Choose a .json export or a .csv spreadsheet"}
+            </span>
+            <span className="text-xs text-gray-500 mt-1">
+              CSV columns: question, type, answer_1, answer_2, …, correct (e.g. 1;3), time_limit, points, partial_credit, explanation, image_url
+            </span>
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+
+          {preview && quizData && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                <div className="sm:col-span-3">
+                  <label className="block font-semibold mb-1 text-gray-700">Quiz Name</label>
+                  <input
+                    type="text"
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block font-semibold mb-1 text-gray-700">Time Limit (seconds)</label>
+                  <input
+                    type="number"
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={timeLimit}
+                    onChange={(e) => setTimeLimit(+e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block font-semibold mb-1 text-gray-700">Points per Correct Answer</label>
+                  <input
+                    type="number"
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={points}
+                    onChange={(e) => setPoints(+e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {errors.length > 0 ? (
+                <div className="rounded-md bg-red-50 border border-red-200 p-4 mb-4">
+                  <div className="flex items-center gap-2 text-red-800 font-medium mb-2">
+                    <AlertCircle className="h-4 w-4" />
+                    Fix {errors.length} {errors.length === 1 ? "problem" : "problems"} in the file before importing
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                    {errors.map((err, i) => (
+                      <li key={i}>{err}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 rounded-md bg-green-50 border border-green-200 p-3 mb-4 text-sm text-green-800">
+                  <CheckCircle className="h-4 w-4" />
+                  {quizData.questions.length} questions ready to import
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="space-y-3 mb-6">
+                {quizData.questions.map((q, qi) => (
+                  <div key={qi} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                    <div className="flex justify-between gap-3">
+                      <p className="font-medium text-gray-900">
+                        {qi + 1}. {q.questionText || <span className="italic text-gray-400">No question text</span>}
+                      </p>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {QUESTION_TYPE_LABELS[q.type ?? "multiple_choice"] ?? q.type}
+                        {q.points ? ` · ${q.points} pts` : ""}
+                        {q.timeLimitInSeconds ? ` · ${q.timeLimitInSeconds}s` : ""}
+                      </span>
+                    </div>
+                    {q.imageUrl && (
+                      <img src={q.imageUrl} alt="" className="h-16 mt-2 rounded border border-gray-200 object-contain bg-white" />
+                    )}
+                    <ul className="mt-2 text-sm space-y-0.5">
+                      {q.answers.map((a, ai) => (
+                        <li key={ai} className={a.isCorrect ? "text-green-700 font-medium" : "text-gray-600"}>
+                          {a.isCorrect ? "✓" : "•"} {a.answerText}
+                        </li>
+                      ))}
+                    </ul>
+                    {q.explanation && <p className="text-xs text-gray-500 mt-2">Explanation: {q.explanation}</p>}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!preview || errors.length > 0 || saving}
+              className="px-4 py-2 bg-green-700 text-white rounded-md text-sm hover:bg-green-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Quiz"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
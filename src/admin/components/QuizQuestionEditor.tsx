@@ -0,0 +1,296 @@
+// QuizQuestionEditor.tsx
+import { useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { uploadFile } from "../../lib/media";
+import { QUESTION_TYPE_LABELS, trueFalseAnswers } from "../../lib/quizSchema";
+import type { QuizAnswer, QuizQuestion, QuizQuestionType } from "../../types/database.types";
+import toast from "react-hot-toast";
+
+interface QuizQuestionEditorProps {
+  question: QuizQuestion;
+  index: number;
+  defaultTimeLimit: number;
+  defaultPoints: number;
+  onChange: (question: QuizQuestion) => void;
+  onDelete?: () => void;
+}
+
+/**
+ * Editor for one quiz question, shared by CreateQuiz and the question bank
+ */
+export default function QuizQuestionEditor({
+  question,
+  index,
+  defaultTimeLimit,
+  defaultPoints,
+  onChange,
+  onDelete,
+}: QuizQuestionEditorProps) {
+  const [uploading, setUploading] = useState(false);
+
+  const updateField = <K extends keyof QuizQuestion>(key: K, value: QuizQuestion[K]) => {
+    onChange({ ...question, [key]: value });
+  };
+
+  const changeType = (type: QuizQuestionType) => {
+    onChange({
+      ...question,
+      type,
+      // True/false answers are fixed; leaving true/false starts from a blank answer list
+      answers:
+        type === "true_false"
+          ? trueFalseAnswers()
+          : question.type === "true_false"
+            ? [{ answerText: "", isCorrect: false }]
+            : question.answers,
+      partialCredit: type === "multiple_select" ? question.partialCredit ?? true : false,
+    });
+  };
+
+  const setTrueFalseAnswer = (correct: boolean) => {
+    updateField("answers", trueFalseAnswers(correct));
+  };
+
+  const uploadImage = async (file: File) => {
+    if (!file.type.startsWith("image/")) {
+      toast.error("Question images must be image files.");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("You must be logged in to upload images.");
+        return;
+      }
+
+      const result = await uploadFile(file, user.id);
+      if (!result.success || !result.mediaItem) {
+        toast.error(result.error || "Failed to upload image.");
+        return;
+      }
+      updateField("imageUrl", result.mediaItem.url);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const addAnswer = () => {
+    updateField("answers", [...question.answers, { answerText: "", isCorrect: false }]);
+  };
+
+  const deleteAnswer = (aIndex: number) => {
+    if (confirm("Are you sure you want to delete this answer?")) {
+      updateField("answers", question.answers.filter((_, i) => i !== aIndex));
+    }
+  };
+
+  const updateAnswer = (aIndex: number, key: keyof QuizAnswer, value: string | boolean) => {
+    updateField(
+      "answers",
+      question.answers.map((a, i) => (i === aIndex ? { ...a, [key]: value } : a))
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-4 bg-gray-50">
+      <div className="flex justify-between items-center mb-3">
+        <input
+          type="text"
+          placeholder={`Question ${index + 1}`}
+          className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+          value={question.questionText}
+          onChange={(e) => updateField("questionText", e.target.value)}
+        />
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="ml-3 text-red-600 hover:text-red-700 font-semibold"
+          >
+            ✖
+          </button>
+        )}
+      </div>
+
+      {/* Question Settings */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+        <div>
+          <label className="block text-sm font-semibold mb-1 text-gray-700">
+            Type
+          </label>
+          <select
+            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+            value={question.type ?? "multiple_choice"}
+            onChange={(e) => changeType(e.target.value as QuizQuestionType)}
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map((type) => (
+              <option key={type} value={type}>
+                {QUESTION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold mb-1 text-gray-700">
+            Time Limit (optional)
+          </label>
+          <input
+            type="number"
+            min={1}
+            placeholder={`${defaultTimeLimit}s`}
+            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+            value={question.timeLimitInSeconds ?? ""}
+            onChange={(e) =>
+              updateField("timeLimitInSeconds", e.target.value ? +e.target.value : null)
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold mb-1 text-gray-700">
+            Points (optional)
+          </label>
+          <input
+            type="number"
+            min={1}
+            placeholder={`${defaultPoints}`}
+            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+            value={question.points ?? ""}
+            onChange={(e) =>
+              updateField("points", e.target.value ? +e.target.value : null)
+            }
+          />
+        </div>
+      </div>
+
+      {/* Question Image */}
+      <div className="mb-3">
+        {question.imageUrl ? (
+          <div className="flex items-center gap-3">
+            <img
+              src={question.imageUrl}
+              alt={`Question ${index + 1}`}
+              className="h-24 rounded-md border border-gray-200 object-contain bg-white"
+            />
+            <button
+              onClick={() => updateField("imageUrl", null)}
+              className="text-red-500 hover:text-red-700 text-sm font-semibold"
+            >
+              Remove Image
+            </button>
+          </div>
+        ) : (
+          <label className="inline-flex items-center gap-2 text-green-600 hover:text-green-700 text-sm font-medium cursor-pointer">
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadImage(file);
+                e.target.value = "";
+              }}
+            />
+            {uploading ? "Uploading..." : "+ Add Image"}
+          </label>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-2">Answers</h4>
+        {question.type === "true_false" ? (
+          <div className="flex gap-3 mb-2">
+            {question.answers.map((a, ai) => (
+              <label
+                key={ai}
+                className="flex items-center gap-2 bg-white border border-gray-200 rounded-md p-2 text-gray-700"
+              >
+                <input
+                  type="radio"
+                  name={`true-false-${index}`}
+                  checked={a.isCorrect}
+                  onChange={() => setTrueFalseAnswer(ai === 0)}
+                  className="accent-green-500"
+                />
+                {a.answerText}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <>
+            {question.answers.map((a, ai) => (
+              <div
+                key={ai}
+                className="flex flex-wrap items-center gap-3 mb-2 bg-white border border-gray-200 rounded-md p-2"
+              >
+                <div className="flex-1 min-w-[200px]">
+                  <input
+                    type="text"
+                    placeholder={`Answer ${ai + 1}`}
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={a.answerText}
+                    onChange={(e) =>
+                      updateAnswer(ai, "answerText", e.target.value)
+                    }
+                  />
+                </div>
+                <label className="flex items-center gap-1 text-gray-700 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={a.isCorrect}
+                    onChange={(e) =>
+                      updateAnswer(ai, "isCorrect", e.target.checked)
+                    }
+                    className="accent-green-500"
+                  />
+                  Correct
+                </label>
+                <button
+                  onClick={() => deleteAnswer(ai)}
+                  className="text-red-500 hover:text-red-700 text-sm font-semibold"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => addAnswer()}
+              className="text-green-600 hover:text-green-700 text-sm font-medium"
+            >
+              + Add Answer
+            </button>
+          </>
+        )}
+
+        {question.type === "multiple_select" && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 mt-2">
+            <input
+              type="checkbox"
+              checked={!!question.partialCredit}
+              onChange={(e) => updateField("partialCredit", e.target.checked)}
+              className="accent-green-600"
+            />
+            Give partial credit (wrong picks cancel out correct ones)
+          </label>
+        )}
+      </div>
+
+      {/* Explanation */}
+      <div className="mt-3">
+        <label className="block text-sm font-semibold mb-1 text-gray-700">
+          Explanation (optional)
+        </label>
+        <textarea
+          rows={2}
+          placeholder="Shown to players after they answer"
+          className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+          value={question.explanation ?? ""}
+          onChange={(e) => updateField("explanation", e.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
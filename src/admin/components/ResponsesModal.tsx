@@ -69,7 +69,7 @@ export default function ResponsesModal({ open, onOpenChange, post }: ResponsesMo
         const [rsvpData, evaluationData, registrationData] = await Promise.all([
           supabase.from('rsvps').select('*').eq('post_id', post.id),
           supabase.from('event_evaluations').select('*').eq('post_id', post.id),
-          supabase.from('event_registrations').select('*').eq('post_id', post.id)
+          supabase.from('event_registrations').select('*').eq('post_id', post.id).order('created_at', { ascending: true })
         ]);
         
         // Fetch user data for RSVPs
@@ -210,6 +210,7 @@ export default function ResponsesModal({ open, onOpenChange, post }: ResponsesMo
           college: reg.college,
           program: reg.program,
           section: reg.section,
+          status: reg.status || 'confirmed',
           created_at: reg.created_at
         }));
         filename = `event-registrations-${post.id}.csv`;
@@ -251,6 +252,9 @@ export default function ResponsesModal({ open, onOpenChange, post }: ResponsesMo
 
   if (!post) return null;
 
+  const waitlistedCount = registrations.filter(r => r.status === 'waitlisted').length;
+  const confirmedCount = registrations.length - waitlistedCount;
+
   return (
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
       <Dialog.Portal>
@@ -444,6 +448,18 @@ export default function ResponsesModal({ open, onOpenChange, post }: ResponsesMo
                   </TabsContent>
 
                   <TabsContent value="registrations" className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 mb-6">
+                      <div className="text-center p-4 bg-green-50 rounded-lg">
+                        <div className="text-2xl font-bold text-green-600">
+                          {confirmedCount}{post.capacity ? ` / ${post.capacity}` : ''}
+                        </div>
+                        <div className="text-sm text-green-700">Confirmed</div>
+                      </div>
+                      <div className="text-center p-4 bg-yellow-50 rounded-lg">
+                        <div className="text-2xl font-bold text-yellow-600">{waitlistedCount}</div>
+                        <div className="text-sm text-yellow-700">Waitlisted</div>
+                      </div>
+                    </div>
                     <div className="space-y-2">
                       {registrations.map((registration) => (
                         <div key={registration.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -458,9 +474,16 @@ export default function ResponsesModal({ open, onOpenChange, post }: ResponsesMo
                               {registration.college}
                             </div>
                           </div>
-                          <span className="text-xs text-gray-500">
-                            {new Date(registration.created_at).toLocaleDateString()}
-                          </span>
+                          <div className="flex flex-col items-end gap-1">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              registration.status === 'waitlisted' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                            }`}>
+                              {registration.status === 'waitlisted' ? 'Waitlisted' : 'Confirmed'}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                              {new Date(registration.created_at).toLocaleDateString()}
+                            </span>
+                          </div>
                         </div>
                       ))}
                       {registrations.length === 0 && (
@@ -12,7 +12,9 @@ import {
   BarChart3,
   Trophy,
   Image,
-  Brain
+  Brain,
+  ShieldAlert,
+  Globe2
 } from "lucide-react";
 
 export default function Sidebar({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
@@ -34,7 +36,9 @@ export default function Sidebar({ isOpen, onClose }: { isOpen: boolean; onClose:
         { to: "officers", label: "Officers", icon: Users },
         { to: "members", label: "Members", icon: User },
         { to: "posts", label: "Posts", icon: FileText },
-        { to: "reports", label: "Reports", icon: BarChart3 }
+        { to: "reports", label: "Reports", icon: BarChart3 },
+        { to: "flagged-scores", label: "Flagged Scores", icon: ShieldAlert },
+        { to: "campus-goals", label: "Campus Goals", icon: Globe2 }
       ];
     }
 
@@ -1,17 +1,11 @@
 import { useState, useEffect } from "react";
 import { supabase } from "../../lib/supabase";
+import { buildQuizData, createQuestion, normalizeQuestion, validateQuiz } from "../../lib/quizSchema";
+import { DIFFICULTY_LABELS, countDrawPool, fetchQuestionBank, matchesDrawRule } from "../../lib/questionBank";
+import type { QuestionBankItem, QuestionDifficulty, QuizQuestion } from "../../types/database.types";
+import QuizQuestionEditor from "../components/QuizQuestionEditor";
 import toast, { Toaster } from "react-hot-toast";
 
-interface Answer {
-  answerText: string;
-  isCorrect: boolean;
-}
-
-interface Question {
-  questionText: string;
-  answers: Answer[];
-}
-
 interface CreateQuizProps {
   orgId: string;
   existingQuiz?: any;
@@ -22,19 +16,37 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
   const [quizName, setQuizName] = useState("");
   const [timeLimit, setTimeLimit] = useState(30);
   const [points, setPoints] = useState(10);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [loading, setLoading] = useState(false);
 
   const [hasTimeSpan, setHasTimeSpan] = useState(false);
   const [openAt, setOpenAt] = useState("");
   const [closeAt, setCloseAt] = useState("");
 
+  const [useBank, setUseBank] = useState(false);
+  const [drawCount, setDrawCount] = useState(10);
+  const [drawTags, setDrawTags] = useState<string[]>([]);
+  const [drawDifficulty, setDrawDifficulty] = useState<QuestionDifficulty | "">("");
+  const [shuffle, setShuffle] = useState(false);
+  const [bank, setBank] = useState<QuestionBankItem[]>([]);
+
+  useEffect(() => {
+    fetchQuestionBank(orgId)
+      .then(setBank)
+      .catch((err) => console.error("Error fetching question bank:", err));
+  }, [orgId]);
+
   useEffect(() => {
   if (existingQuiz) {
     setQuizName(existingQuiz.title || "");
     setTimeLimit(existingQuiz.data?.timeLimitInSeconds || 30);
     setPoints(existingQuiz.data?.pointsAddedForCorrectAnswer || 10);
-    setQuestions(existingQuiz.data?.questions || []);
+    setQuestions((existingQuiz.data?.questions || []).map(normalizeQuestion));
+    setUseBank(!!existingQuiz.data?.draw);
+    setDrawCount(existingQuiz.data?.draw?.count || 10);
+    setDrawTags(existingQuiz.data?.draw?.tags || []);
+    setDrawDifficulty(existingQuiz.data?.draw?.difficulty || "");
+    setShuffle(!!existingQuiz.data?.shuffle);
     setHasTimeSpan(!!(existingQuiz.open_at || existingQuiz.close_at));
     setOpenAt(existingQuiz.open_at ? new Date(existingQuiz.open_at).toISOString().slice(0, 16) : "");
     setCloseAt(existingQuiz.close_at ? new Date(existingQuiz.close_at).toISOString().slice(0, 16) : "");
@@ -42,10 +54,7 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
 }, [existingQuiz]);
 
   const addQuestion = () => {
-    setQuestions([
-      ...questions,
-      { questionText: "", answers: [{ answerText: "", isCorrect: false }] },
-    ]);
+    setQuestions([...questions, createQuestion()]);
   };
 
   const deleteQuestion = (index: number) => {
@@ -56,66 +65,34 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
     }
   };
 
-  const updateQuestion = (index: number, value: string) => {
-    const updated = [...questions];
-    updated[index].questionText = value;
-    setQuestions(updated);
-  };
-
-  const addAnswer = (qIndex: number) => {
+  const updateQuestion = (index: number, question: QuizQuestion) => {
     const updated = [...questions];
-    updated[qIndex].answers.push({ answerText: "", isCorrect: false });
+    updated[index] = question;
     setQuestions(updated);
   };
 
-  const deleteAnswer = (qIndex: number, aIndex: number) => {
-    if (confirm("Are you sure you want to delete this answer?")) {
-      const updated = [...questions];
-      updated[qIndex].answers.splice(aIndex, 1);
-      setQuestions(updated);
-    }
-  };
+  const bankTags = Array.from(new Set(bank.flatMap((item) => item.tags))).sort();
+  const matchingCount = bank.filter((item) =>
+    matchesDrawRule(item, { tags: drawTags, difficulty: drawDifficulty || null })
+  ).length;
 
-  const updateAnswer = (
-    qIndex: number,
-    aIndex: number,
-    key: keyof Answer,
-    value: string | boolean
-  ) => {
-    const updated = [...questions];
-    updated[qIndex].answers[aIndex][key] = value as never;
-    setQuestions(updated);
+  const toggleDrawTag = (tag: string) => {
+    setDrawTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
   };
 
-  const validateQuiz = () => {
-    const errs: string[] = [];
-    if (!quizName.trim()) errs.push("Quiz name is required.");
-    if (timeLimit <= 0) errs.push("Time limit must be greater than 0.");
-    if (points <= 0) errs.push("Points must be greater than 0.");
-    if (questions.length === 0) errs.push("At least one question is required.");
-
-    questions.forEach((q, qi) => {
-      if (!q.questionText.trim())
-        errs.push(`Question ${qi + 1} cannot be empty.`);
-      if (q.answers.length < 2)
-        errs.push(`Question ${qi + 1} must have at least 2 answers.`);
-      if (!q.answers.some((a) => a.isCorrect))
-        errs.push(`Question ${qi + 1} must have at least 1 correct answer.`);
-      q.answers.forEach((a, ai) => {
-        if (!a.answerText.trim())
-          errs.push(`Answer ${ai + 1} in Question ${qi + 1} cannot be empty.`);
-      });
-    });
+  const saveToSupabase = async () => {
+  if (loading) return;
 
+  const drawRule = useBank
+    ? { count: drawCount, tags: drawTags, difficulty: drawDifficulty || null }
+    : null;
+  const quizData = buildQuizData(timeLimit, points, useBank ? [] : questions, { draw: drawRule, shuffle });
+  const errs = validateQuiz(quizName, quizData);
+  if (errs.length > 0) {
     // Show validation errors as toasts instead of on-screen display
     errs.forEach(err => toast.error(err));
-
-    return errs.length === 0;
-  };
-
-  const saveToSupabase = async () => {
-  if (loading) return;
-  if (!validateQuiz()) return;
+    return;
+  }
 
   setLoading(true);
   try {
@@ -129,11 +106,15 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
       return;
     }
 
-    const quizData = {
-      timeLimitInSeconds: timeLimit,
-      pointsAddedForCorrectAnswer: points,
-      questions,
-    };
+    // Count the pool again; the bank may have changed since this form loaded it
+    let poolSize: number | null = null;
+    if (drawRule) {
+      poolSize = await countDrawPool(orgId, drawRule);
+      if (poolSize < drawRule.count) {
+        toast.error(`Only ${poolSize} bank questions match; lower the number to draw or widen the tags.`);
+        return;
+      }
+    }
 
     const quizFields: any = {
       title: quizName,
@@ -164,7 +145,8 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
       toast.error("Failed to save quiz. Please try again.");
       console.error("Error saving quiz:", error.message);
     } else {
-      toast.success(existingQuiz ? "Quiz updated successfully!" : "Quiz created successfully!");
+      const poolNote = drawRule && poolSize !== null ? ` Each attempt draws ${drawRule.count} of ${poolSize} matching questions.` : "";
+      toast.success(`${existingQuiz ? "Quiz updated successfully!" : "Quiz created successfully!"}${poolNote}`);
       if (onClose) onClose(); // Close modal
     }
   } finally {
@@ -256,7 +238,109 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
           )}
         </div>
 
+        {/* Question Source */}
+        <div className="mb-6 border-t pt-4">
+          <div className="flex flex-wrap gap-4 mb-3">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="radio"
+                checked={!useBank}
+                onChange={() => setUseBank(false)}
+                className="accent-green-600"
+              />
+              <span className="font-semibold">Write questions</span>
+            </label>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="radio"
+                checked={useBank}
+                onChange={() => setUseBank(true)}
+                className="accent-green-600"
+              />
+              <span className="font-semibold">Draw from question bank</span>
+            </label>
+          </div>
+
+          {useBank && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block font-semibold mb-1 text-gray-700">
+                    Questions per Attempt
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={drawCount}
+                    onChange={(e) => setDrawCount(+e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block font-semibold mb-1 text-gray-700">
+                    Difficulty
+                  </label>
+                  <select
+                    className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    value={drawDifficulty}
+                    onChange={(e) => setDrawDifficulty(e.target.value as QuestionDifficulty | "")}
+                  >
+                    <option value="">Any</option>
+                    {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map((d) => (
+                      <option key={d} value={d}>
+                        {DIFFICULTY_LABELS[d]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block font-semibold mb-1 text-gray-700">
+                  Tags (any of)
+                </label>
+                {bankTags.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No tagged questions yet. Add some in the Question Bank tab.
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {bankTags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleDrawTag(tag)}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          drawTags.includes(tag)
+                            ? "bg-green-600 text-white border-green-600"
+                            : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+                        }`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <p className={`text-sm ${matchingCount < drawCount ? "text-red-600" : "text-gray-600"}`}>
+                {matchingCount} matching questions in the bank
+              </p>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-gray-700 mt-3">
+            <input
+              type="checkbox"
+              checked={shuffle || useBank}
+              disabled={useBank}
+              onChange={(e) => setShuffle(e.target.checked)}
+              className="accent-green-600"
+            />
+            <span>Shuffle questions and answers for each attempt</span>
+          </label>
+        </div>
+
         {/* Questions */}
+        {!useBank && (
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-gray-800">Questions</h2>
           <button
@@ -266,73 +350,18 @@ export default function CreateQuiz({ orgId, existingQuiz, onClose }: CreateQuizP
             + Add Question
           </button>
         </div>
+        )}
 
-        {questions.map((q, qi) => (
-          <div
+        {!useBank && questions.map((q, qi) => (
+          <QuizQuestionEditor
             key={qi}
-            className="border border-gray-200 rounded-lg p-4 mb-4 bg-gray-50"
-          >
-            <div className="flex justify-between items-center mb-3">
-              <input
-                type="text"
-                placeholder={`Question ${qi + 1}`}
-                className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
-                value={q.questionText}
-                onChange={(e) => updateQuestion(qi, e.target.value)}
-              />
-              <button
-                onClick={() => deleteQuestion(qi)}
-                className="ml-3 text-red-600 hover:text-red-700 font-semibold"
-              >
-                ✖
-              </button>
-            </div>
-
-            <div>
-              <h4 className="font-semibold text-gray-700 mb-2">Answers</h4>
-              {q.answers.map((a, ai) => (
-                <div
-                  key={ai}
-                  className="flex flex-wrap items-center gap-3 mb-2 bg-white border border-gray-200 rounded-md p-2"
-                >
-                  <div className="flex-1 min-w-[200px]">
-                    <input
-                      type="text"
-                      placeholder={`Answer ${ai + 1}`}
-                      className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-green-500"
-                      value={a.answerText}
-                      onChange={(e) =>
-                        updateAnswer(qi, ai, "answerText", e.target.value)
-                      }
-                    />
-                  </div>
-                  <label className="flex items-center gap-1 text-gray-700 whitespace-nowrap">
-                    <input
-                      type="checkbox"
-                      checked={a.isCorrect}
-                      onChange={(e) =>
-                        updateAnswer(qi, ai, "isCorrect", e.target.checked)
-                      }
-                      className="accent-green-500"
-                    />
-                    Correct
-                  </label>
-                  <button
-                    onClick={() => deleteAnswer(qi, ai)}
-                    className="text-red-500 hover:text-red-700 text-sm font-semibold"
-                  >
-                    Delete
-                  </button>
-                </div>
-              ))}
-              <button
-                onClick={() => addAnswer(qi)}
-                className="text-green-600 hover:text-green-700 text-sm font-medium"
-              >
-                + Add Answer
-              </button>
-            </div>
-          </div>
+            question={q}
+            index={qi}
+            defaultTimeLimit={timeLimit}
+            defaultPoints={points}
+            onChange={(updatedQuestion) => updateQuestion(qi, updatedQuestion)}
+            onDelete={() => deleteQuestion(qi)}
+          />
         ))}
 
         <button
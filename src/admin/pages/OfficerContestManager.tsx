@@ -2,23 +2,19 @@ import React, { useEffect, useState } from "react";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../context/AuthContext";
 import { useNavigate } from "react-router";
-
-interface Contest {
-  id: string;
-  title: string;
-  description: string;
-  is_active: boolean;
-  start_date: string | null;
-  end_date: string | null;
-  created_at: string;
-}
+import {
+  CONTEST_PHASE_COLORS,
+  CONTEST_PHASE_LABELS,
+  withContestDefaults,
+} from "../../lib/contests";
+import type { RoomContest } from "../../types/database.types";
 
 const OfficerContestManager: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
 
   const [orgId, setOrgId] = useState<string | null>(null);
-  const [contests, setContests] = useState<Contest[]>([]);
+  const [contests, setContests] = useState<RoomContest[]>([]);
   const [loading, setLoading] = useState(false);
   const [creating, setCreating] = useState(false);
   const [submitting, setSubmitting] = useState(false); 
@@ -68,7 +64,7 @@ const OfficerContestManager: React.FC = () => {
       if (error) {
         console.error("❌ Failed to load contests:", error);
       } else {
-        setContests(data || []);
+        setContests((data || []).map(withContestDefaults));
       }
     };
     loadContests();
@@ -112,7 +108,7 @@ const OfficerContestManager: React.FC = () => {
       .eq("org_id", orgId)
       .order("created_at", { ascending: false });
 
-    setContests(data || []);
+    setContests((data || []).map(withContestDefaults));
   } catch (err) {
     console.error("❌ Failed to create contest:", err);
     alert("Error creating contest.");
@@ -121,7 +117,7 @@ const OfficerContestManager: React.FC = () => {
   }
 };
 
-  const toggleContestStatus = async (contest: Contest) => {
+  const toggleContestStatus = async (contest: RoomContest) => {
     if (toggling) return; // Prevent multiple clicks
     
     setToggling(contest.id);
@@ -266,6 +262,7 @@ const OfficerContestManager: React.FC = () => {
               <th className="p-2">Start</th>
               <th className="p-2">End</th>
               <th className="p-2">Status</th>
+              <th className="p-2">Phase</th>
               <th className="p-2 text-right">Actions</th>
             </tr>
           </thead>
@@ -295,6 +292,11 @@ const OfficerContestManager: React.FC = () => {
                     {c.is_active ? "Active" : "Inactive"}
                   </span>
                 </td>
+                <td className="p-2">
+                  <span className={`px-2 py-1 text-xs rounded ${CONTEST_PHASE_COLORS[c.phase]}`}>
+                    {CONTEST_PHASE_LABELS[c.phase]}
+                  </span>
+                </td>
                <td className="p-2">
                   <div className="flex justify-center md:justify-end gap-2">
                     <button
@@ -1,12 +1,44 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { supabase } from "../../lib/supabase";
+import { useAuth } from "../../context/AuthContext";
+import { Link } from "react-router";
+import toast, { Toaster } from "react-hot-toast";
+import {
+  CONTEST_PHASE_COLORS,
+  CONTEST_PHASE_LABELS,
+  computeContestResults,
+  fetchContestResults,
+  fetchContestSubmissions,
+  fetchContestVotes,
+  fetchJudgeScores,
+  publishContestResults,
+  setContestPhase,
+  setSubmissionHidden,
+  withContestDefaults,
+} from "../../lib/contests";
+import ContestRubricEditor from "../components/ContestRubricEditor";
+import ContestPrizesEditor from "../components/ContestPrizesEditor";
+import ContestScoreCard from "../components/ContestScoreCard";
+import type {
+  ContestJudgeScore,
+  ContestPhase,
+  ContestResult,
+  ContestSubmission,
+  ContestVote,
+  RoomContest,
+} from "../../types/database.types";
 
 export default function OfficerSubmissions() {
+  const { user } = useAuth();
   const [orgId, setOrgId] = useState<string>("");
-  const [contests, setContests] = useState<any[]>([]);
+  const [contests, setContests] = useState<RoomContest[]>([]);
   const [selectedContest, setSelectedContest] = useState<string>("");
-  const [submissions, setSubmissions] = useState<any[]>([]);
+  const [submissions, setSubmissions] = useState<ContestSubmission[]>([]);
+  const [judgeScores, setJudgeScores] = useState<ContestJudgeScore[]>([]);
+  const [votes, setVotes] = useState<ContestVote[]>([]);
+  const [publishedResults, setPublishedResults] = useState<ContestResult[]>([]);
   const [loading, setLoading] = useState(false);
+  const [updatingPhase, setUpdatingPhase] = useState(false);
 
   useEffect(() => {
     resolveOrgAndContests();
@@ -31,16 +63,18 @@ export default function OfficerSubmissions() {
       // Fetch contests for this org
       const { data: contestData } = await supabase
         .from("room_contests")
-        .select("id, title")
+        .select("*")
         .eq("org_id", org)
         .order("created_at", { ascending: false });
 
-      setContests(contestData || []);
+      setContests((contestData || []).map(withContestDefaults));
     } catch (err) {
       console.error("Error resolving org or contests:", err);
     }
   };
 
+  const contest = contests.find((c) => c.id === selectedContest) ?? null;
+
   useEffect(() => {
     if (selectedContest) loadSubmissions(selectedContest);
     else setSubmissions([]);
@@ -49,22 +83,16 @@ export default function OfficerSubmissions() {
   const loadSubmissions = async (contestId: string) => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("contest_submissions")
-        .select(`
-          id,
-          image_url,
-          submitted_at,
-          user_id,
-          users(first_name,last_name),
-          contest_id
-        `)
-        .eq("contest_id", contestId)
-        .order("submitted_at", { ascending: false });
-
-      if (error) throw error;
-
-      setSubmissions(data || []);
+      const [subs, scores, voteRows, results] = await Promise.all([
+        fetchContestSubmissions(contestId),
+        fetchJudgeScores(contestId),
+        fetchContestVotes(contestId),
+        fetchContestResults(contestId),
+      ]);
+      setSubmissions(subs);
+      setJudgeScores(scores);
+      setVotes(voteRows);
+      setPublishedResults(results);
     } catch (err) {
       console.error("Error loading submissions:", err);
     } finally {
@@ -90,14 +118,91 @@ export default function OfficerSubmissions() {
     }
   };
 
+  const updateContest = (updated: RoomContest) =>
+    setContests((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+
+  const changePhase = async (phase: ContestPhase, message: string) => {
+    if (!contest || !window.confirm(message)) return;
+    try {
+      setUpdatingPhase(true);
+      await setContestPhase(contest.id, phase);
+      updateContest({ ...contest, phase });
+      toast.success(`Contest moved to ${CONTEST_PHASE_LABELS[phase]}.`);
+    } catch (err) {
+      console.error("Error changing contest phase:", err);
+      toast.error("Failed to update contest.");
+    } finally {
+      setUpdatingPhase(false);
+    }
+  };
+
+  // Each officer scores blind, so only their own marks are loaded into the cards
+  const myScores = useMemo(
+    () => new Map(judgeScores.filter((s) => s.judge_id === user?.id).map((s) => [s.submission_id, s])),
+    [judgeScores, user]
+  );
+  const entryNumbers = useMemo(
+    () => new Map(submissions.map((s, i) => [s.id, i + 1])),
+    [submissions]
+  );
+  const preview = useMemo(
+    () =>
+      contest
+        ? computeContestResults(contest, submissions.filter((s) => !s.is_hidden), judgeScores, votes)
+        : [],
+    [contest, submissions, judgeScores, votes]
+  );
+  const judgeCount = new Set(judgeScores.map((s) => s.judge_id)).size;
+
+  const handlePublish = async () => {
+    if (!contest) return;
+    const unscored = submissions.filter((s) => !s.is_hidden && !judgeScores.some((j) => j.submission_id === s.id)).length;
+    const warning = unscored > 0 ? `\n\n${unscored} entries have no judge scores yet.` : "";
+    if (!window.confirm(`Publish the final ranking for "${contest.title}"? Entrants will be notified.${warning}`)) return;
+
+    try {
+      setUpdatingPhase(true);
+      const prizes = await publishContestResults(contest.id);
+      const { data } = await supabase.from("room_contests").select("*").eq("id", contest.id).single();
+      if (data) updateContest(withContestDefaults(data));
+      setPublishedResults(await fetchContestResults(contest.id));
+      toast.success(
+        prizes.winners.length > 0
+          ? `Results published and prizes paid to ${prizes.winners.length} winners!`
+          : "Results published!"
+      );
+    } catch (err) {
+      console.error("Error publishing results:", err);
+      toast.error("Failed to publish results.");
+    } finally {
+      setUpdatingPhase(false);
+    }
+  };
+
+  const toggleHidden = async (submission: ContestSubmission) => {
+    const hidden = !submission.is_hidden;
+    if (hidden && !window.confirm("Hide this entry? It will be removed from the gallery, voting and the ranking.")) return;
+    try {
+      await setSubmissionHidden(submission.id, hidden);
+      setSubmissions((prev) => prev.map((s) => (s.id === submission.id ? { ...s, is_hidden: hidden } : s)));
+      toast.success(hidden ? "Entry hidden." : "Entry restored.");
+    } catch (err) {
+      console.error("Error updating entry:", err);
+      toast.error("Failed to update entry.");
+    }
+  };
+
+  const isJudging = contest?.phase === "judging" || contest?.phase === "voting";
+
   return (
     <div className="p-6">
+      <Toaster position="top-center" />
       <h1 className="text-2xl font-bold text-green-700 mb-6">
         Contest Submissions
       </h1>
 
       {/* Contest selector */}
-      <div className="mb-6">
+      <div className="mb-6 flex flex-wrap items-center gap-3">
         <select
           value={selectedContest}
           onChange={(e) => setSelectedContest(e.target.value)}
@@ -110,18 +215,163 @@ export default function OfficerSubmissions() {
             </option>
           ))}
         </select>
+        {contest && (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${CONTEST_PHASE_COLORS[contest.phase]}`}>
+            {CONTEST_PHASE_LABELS[contest.phase]}
+          </span>
+        )}
       </div>
 
+      {contest && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="space-y-6">
+            <ContestRubricEditor contest={contest} rubricLocked={judgeScores.length > 0} onSaved={updateContest} />
+            <ContestPrizesEditor contest={contest} onSaved={updateContest} />
+          </div>
+
+          {/* Phase controls */}
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <h2 className="text-lg font-semibold">Judging Progress</h2>
+            <p className="text-sm text-gray-600">
+              {submissions.length} entries · {judgeCount} {judgeCount === 1 ? "judge" : "judges"} scoring ·{" "}
+              {myScores.size} scored by you
+              {contest.voting_enabled && ` · ${votes.length} member votes`}
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+              {contest.phase === "submissions" && (
+                <button
+                  onClick={() => changePhase("judging", "Close entries and start judging? Members can no longer submit.")}
+                  disabled={updatingPhase}
+                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+                >
+                  Close Entries & Start Judging
+                </button>
+              )}
+              {contest.phase === "judging" && contest.voting_enabled && (
+                <button
+                  onClick={() => changePhase("voting", "Open member voting? Every member gets one vote.")}
+                  disabled={updatingPhase}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+                >
+                  Open Member Voting
+                </button>
+              )}
+              {contest.phase === "voting" && (
+                <button
+                  onClick={() => changePhase("judging", "Close member voting? Votes cast so far are kept.")}
+                  disabled={updatingPhase}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+                >
+                  Close Voting
+                </button>
+              )}
+              {isJudging && (
+                <button
+                  onClick={handlePublish}
+                  disabled={updatingPhase || submissions.length === 0}
+                  className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+                >
+                  Publish Results
+                </button>
+              )}
+            </div>
+
+            {/* Ranking preview, still anonymous until published */}
+            {isJudging && preview.length > 0 && (
+              <table className="w-full text-sm mt-2">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1">#</th>
+                    <th className="py-1">Entry</th>
+                    <th className="py-1 text-right">Judges</th>
+                    {contest.voting_enabled && <th className="py-1 text-right">Votes</th>}
+                    <th className="py-1 text-right">Final</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((r) => (
+                    <tr key={r.submission_id} className="border-b border-gray-100">
+                      <td className="py-1">{r.rank}</td>
+                      <td className="py-1">Entry #{entryNumbers.get(r.submission_id)}</td>
+                      <td className="py-1 text-right">{r.judge_score}%</td>
+                      {contest.voting_enabled && <td className="py-1 text-right">{r.vote_count}</td>}
+                      <td className="py-1 text-right font-semibold">{r.final_score}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Published results */}
+      {contest?.phase === "results" && publishedResults.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">🏆 Final Results</h2>
+            {contest.results_post_id && (
+              <Link
+                to={`/admin/dashboard/posts/${contest.results_post_id}`}
+                className="text-sm text-green-700 hover:text-green-800"
+              >
+                View results post
+              </Link>
+            )}
+          </div>
+          <ol className="divide-y divide-gray-200">
+            {publishedResults.map((r) => (
+              <li key={r.submission_id} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  {r.rank}.{" "}
+                  <span className="font-medium">
+                    {r.users ? `${r.users.first_name} ${r.users.last_name}` : r.user_id.slice(0, 6)}
+                  </span>
+                  {!!r.coins_awarded && (
+                    <span className="ml-2 text-xs text-yellow-700">+{r.coins_awarded} coins</span>
+                  )}
+                </span>
+                <span className="text-gray-600">
+                  Judges {r.judge_score}%{contest.voting_enabled && ` · ${r.vote_count} votes`} ·{" "}
+                  <span className="font-semibold text-gray-900">{r.final_score}</span>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {loading ? (
         <p>Loading submissions...</p>
-      ) : submissions.length === 0 ? (
+      ) : !contest ? null : submissions.length === 0 ? (
         <p className="text-gray-600">No submissions found.</p>
+      ) : isJudging && user ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {submissions.map((sub) => (
+            <ContestScoreCard
+              key={sub.id}
+              submission={sub}
+              entryNumber={entryNumbers.get(sub.id)!}
+              rubric={contest.rubric}
+              judgeId={user.id}
+              myScore={myScores.get(sub.id)}
+              onToggleHidden={() => toggleHidden(sub)}
+              onSaved={(score) =>
+                setJudgeScores((prev) => [
+                  ...prev.filter((s) => !(s.submission_id === score.submission_id && s.judge_id === score.judge_id)),
+                  score,
+                ])
+              }
+            />
+          ))}
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {submissions.map((sub) => (
             <div
               key={sub.id}
-              className="bg-white rounded-lg shadow-md overflow-hidden border"
+              className={`bg-white rounded-lg shadow-md overflow-hidden border ${sub.is_hidden ? "opacity-60" : ""}`}
             >
               <img
                 src={sub.image_url}
@@ -129,9 +379,15 @@ export default function OfficerSubmissions() {
                 className="w-full h-56 object-cover"
               />
               <div className="p-4">
-                <p className="text-sm text-gray-600 mb-1">
-                  By {sub.users?.first_name} {sub.users?.last_name || ""}
-                </p>
+                <div className="flex items-center justify-between mb-1">
+                  <p className="text-sm text-gray-600">
+                    By {sub.users?.first_name} {sub.users?.last_name || ""}
+                  </p>
+                  {sub.is_hidden && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Hidden</span>
+                  )}
+                </div>
+                {sub.caption && <p className="text-sm text-gray-700 mb-1">{sub.caption}</p>}
                 <p className="text-sm text-gray-500 mb-2">
                   Submitted: {new Date(sub.submitted_at).toLocaleString()}
                 </p>
@@ -148,6 +404,12 @@ export default function OfficerSubmissions() {
                   >
                     Download
                   </button>
+                  <button
+                    onClick={() => toggleHidden(sub)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded text-sm"
+                  >
+                    {sub.is_hidden ? "Unhide" : "Hide"}
+                  </button>
                 </div>
               </div>
             </div>
@@ -6,6 +6,9 @@ import { ArrowLeft, Edit, Camera, Save, X, Shield, Coins } from 'lucide-react';
 import ImageCropModal from '../components/ImageCropModal';
 import { useAuth } from '../../context/AuthContext';
 import { useUserRoles } from '../../utils/roles';
+import CoinHistory from '../../components/CoinHistory';
+import { adjustUserCoins } from '../../lib/coinLedger';
+import toast, { Toaster } from 'react-hot-toast';
 
 // Mapping of programs to their corresponding department codes
 const programToDepartmentMap: Record<string, string> = {
@@ -77,6 +80,11 @@ export default function AdminUserProfile() {
   const [showCropModal, setShowCropModal] = useState(false);
   const [cropImageSrc, setCropImageSrc] = useState<string>('');
   const [coins, setCoins] = useState<number>(0);
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+  const [adjustAmount, setAdjustAmount] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+  const [adjusting, setAdjusting] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
   const [organizations, setOrganizations] = useState<any[]>([]);
   const [officerPositions, setOfficerPositions] = useState<any[]>([]);
   const hasFetchedRef = useRef(false);
@@ -214,6 +222,36 @@ export default function AdminUserProfile() {
     };
   }, [id]);
 
+  const handleAdjustCoins = async () => {
+    if (!user) return;
+
+    const amount = Number(adjustAmount);
+    if (!Number.isInteger(amount) || amount === 0) {
+      toast.error('Enter a whole number of coins other than zero.');
+      return;
+    }
+    if (!adjustReason.trim()) {
+      toast.error('A reason is required for manual adjustments.');
+      return;
+    }
+
+    try {
+      setAdjusting(true);
+      const balance = await adjustUserCoins(user.id, amount, adjustReason.trim());
+      setCoins(balance);
+      setHistoryKey((k) => k + 1);
+      setShowAdjustModal(false);
+      setAdjustAmount('');
+      setAdjustReason('');
+      toast.success(`${amount > 0 ? 'Added' : 'Removed'} ${Math.abs(amount)} coins.`);
+    } catch (err) {
+      console.error('Error adjusting coins:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to adjust coins.');
+    } finally {
+      setAdjusting(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!user) return;
 
@@ -418,6 +456,7 @@ export default function AdminUserProfile() {
 
   return (
     <>
+      <Toaster position="top-center" reverseOrder={false} />
       {/* Crop Modal */}
       <ImageCropModal
         isOpen={showCropModal}
@@ -535,6 +574,14 @@ export default function AdminUserProfile() {
           <Coins className="w-4 h-4 mr-2 text-yellow-700" />
           <span className="text-yellow-700">{coins} Coins</span>
         </div>
+        {roles?.role === 'admin' && !isEditing && (
+          <button
+            onClick={() => setShowAdjustModal(true)}
+            className="px-4 py-2 rounded-full text-sm font-semibold bg-white/20 backdrop-blur-sm border border-white/30 hover:bg-white/30 transition-colors"
+          >
+            Adjust Coins
+          </button>
+        )}
       </div>
     </div>
   </div>
@@ -775,6 +822,11 @@ export default function AdminUserProfile() {
               )}
             </div>
 
+            {/* Coin History */}
+            <div className="mt-8">
+              <CoinHistory userId={user.id} dashboardBase="/admin/dashboard" refreshKey={historyKey} />
+            </div>
+
             {/* Edit Actions */}
             {isEditing && (
               <div className="mt-8 flex justify-end space-x-4">
@@ -815,6 +867,57 @@ export default function AdminUserProfile() {
         </div>
       </div>
     </div>
+
+      {/* Adjust Coins Modal */}
+      {showAdjustModal && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Adjust Coins</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Current balance: {coins}. Use a negative amount to remove coins.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={adjustAmount}
+                  onChange={(e) => setAdjustAmount(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  placeholder="e.g. 50 or -20"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={adjustReason}
+                  onChange={(e) => setAdjustReason(e.target.value)}
+                  rows={3}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  placeholder="Why is this adjustment being made?"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setShowAdjustModal(false)}
+                disabled={adjusting}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdjustCoins}
+                disabled={adjusting}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                {adjusting ? 'Saving...' : 'Save Adjustment'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,489 @@
+import { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2, Globe2, RefreshCw, X, Trophy } from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import { supabase } from '../../../lib/supabase';
+import { useAuth } from '../../../context/AuthContext';
+import {
+  GOAL_MAX_REWARD_COINS,
+  GOAL_METRICS,
+  GOAL_SCOPE_COLORS,
+  GOAL_SCOPE_LABELS,
+  GOAL_STATUS_COLORS,
+  GOAL_STATUS_LABELS,
+  fetchCrossOrgGoals,
+  getGoalStatus,
+  goalPercent,
+  refreshGoalProgress,
+  saveCrossOrgGoal,
+} from '../../../lib/goals';
+import type { GoalMetric, GoalPayoutMode, GoalScope, Organization, OrgGoal } from '../../../types/database.types';
+
+// A campus-wide goal counts every event, form or post of each organization, so
+// only metrics that can cover a whole organization are offered
+const CROSS_ORG_METRICS = (Object.keys(GOAL_METRICS) as GoalMetric[]).filter(
+  (metric) => !GOAL_METRICS[metric].targetRequired
+);
+
+const emptyForm = {
+  title: '',
+  description: '',
+  scope: 'shared' as Exclude<GoalScope, 'org'>,
+  metric: CROSS_ORG_METRICS[0],
+  goal_target: '500',
+  reward_coins: '50',
+  payout_mode: 'flat' as GoalPayoutMode,
+  starts_at: '',
+  deadline: '',
+  org_ids: [] as string[],
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+export default function CampusGoals() {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<OrgGoal[]>([]);
+  const [organizations, setOrganizations] = useState<Pick<Organization, 'id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<OrgGoal | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const refreshActive = async (list: OrgGoal[]) =>
+    Promise.all(list.map((goal) => (getGoalStatus(goal) === 'active' ? refreshGoalProgress(goal) : goal)));
+
+  const loadGoals = async () => {
+    try {
+      const data = await fetchCrossOrgGoals();
+      setGoals(data);
+      setGoals(await refreshActive(data));
+    } catch (err) {
+      console.error('Error fetching campus goals:', err);
+      toast.error('Failed to load campus goals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const fetchOrganizations = async () => {
+      const { data, error } = await supabase.from('organizations').select('id, name').order('name');
+      if (error) {
+        console.error('Error fetching organizations:', error);
+        return;
+      }
+      setOrganizations(data || []);
+    };
+
+    loadGoals();
+    fetchOrganizations();
+  }, []);
+
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      setGoals(await refreshActive(goals));
+    } catch (err) {
+      console.error('Error refreshing campus goals:', err);
+      toast.error('Failed to refresh progress');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingGoal(null);
+    setForm({ ...emptyForm, starts_at: new Date().toISOString().slice(0, 10) });
+    setShowForm(true);
+  };
+
+  const openEditForm = (goal: OrgGoal) => {
+    setEditingGoal(goal);
+    setForm({
+      title: goal.title,
+      description: goal.description ?? '',
+      scope: goal.scope === 'competitive' ? 'competitive' : 'shared',
+      metric: goal.metric,
+      goal_target: String(goal.goal_target),
+      reward_coins: String(goal.reward_coins),
+      payout_mode: goal.payout_mode,
+      starts_at: goal.starts_at.slice(0, 10),
+      deadline: goal.deadline?.slice(0, 10) ?? '',
+      org_ids: (goal.org_goal_participants ?? []).map((p) => p.org_id),
+    });
+    setShowForm(true);
+  };
+
+  const toggleOrg = (orgId: string) => {
+    setForm({
+      ...form,
+      org_ids: form.org_ids.includes(orgId) ? form.org_ids.filter((id) => id !== orgId) : [...form.org_ids, orgId],
+    });
+  };
+
+  const saveGoal = async () => {
+    if (!form.title.trim()) {
+      toast.error('Please enter a goal title');
+      return;
+    }
+    if (form.org_ids.length < 2) {
+      toast.error('Pick at least two organizations');
+      return;
+    }
+
+    const goalTarget = Number(form.goal_target);
+    const rewardCoins = Number(form.reward_coins);
+    if (!Number.isInteger(goalTarget) || goalTarget < 1) {
+      toast.error('The target must be a whole number of 1 or more');
+      return;
+    }
+    if (!Number.isInteger(rewardCoins) || rewardCoins < 0 || rewardCoins > GOAL_MAX_REWARD_COINS) {
+      toast.error(`The reward must be a whole number from 0 to ${GOAL_MAX_REWARD_COINS}`);
+      return;
+    }
+    if (!form.starts_at) {
+      toast.error('Please set a start date');
+      return;
+    }
+
+    const startsAt = new Date(`${form.starts_at}T00:00:00`);
+    const deadline = form.deadline ? new Date(`${form.deadline}T23:59:59`) : null;
+    if (deadline && deadline <= startsAt) {
+      toast.error('The deadline must be after the start date');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const values = {
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        scope: form.scope,
+        metric: form.metric,
+        target_ref: null,
+        goal_target: goalTarget,
+        reward_coins: rewardCoins,
+        payout_mode: form.payout_mode,
+        starts_at: startsAt.toISOString(),
+        deadline: deadline?.toISOString() ?? null,
+      };
+      await saveCrossOrgGoal(editingGoal ? values : { ...values, created_by: user?.id }, form.org_ids, editingGoal?.id);
+
+      toast.success(editingGoal ? 'Goal updated!' : 'Goal created!');
+      setShowForm(false);
+      loadGoals();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (goal: OrgGoal) => {
+    if (!window.confirm(`Delete the campus goal "${goal.title}"?`)) return;
+    const { error } = await supabase.from('org_goals').delete().eq('id', goal.id);
+    if (error) {
+      toast.error('Failed to delete goal');
+      return;
+    }
+    toast.success('Goal deleted');
+    setGoals((prev) => prev.filter((g) => g.id !== goal.id));
+  };
+
+  return (
+    <div className="p-6">
+      <Toaster position="top-center" />
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Campus Goals</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Goals that span several organizations, either filled together or raced between them
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex items-center gap-2">
+          <button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Campus Goal
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+        </div>
+      ) : goals.length === 0 ? (
+        <div className="mt-8 flex flex-col items-center gap-2 py-12">
+          <Globe2 className="h-12 w-12 text-gray-300" />
+          <p className="text-sm text-gray-500">No campus goals yet</p>
+        </div>
+      ) : (
+        <div className="mt-8 space-y-4">
+          {goals.map((goal) => {
+            const status = getGoalStatus(goal);
+            const definition = GOAL_METRICS[goal.metric];
+            const participants = [...(goal.org_goal_participants ?? [])].sort(
+              (a, b) => b.current_progress - a.current_progress
+            );
+            return (
+              <div key={goal.id} className="bg-white shadow-sm border border-gray-200 rounded-lg p-5">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-base font-semibold text-gray-900">{goal.title}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${GOAL_SCOPE_COLORS[goal.scope]}`}>
+                        {GOAL_SCOPE_LABELS[goal.scope]}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${GOAL_STATUS_COLORS[status]}`}>
+                        {GOAL_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {definition.label} · {goal.goal_target} {definition.unit} · {goal.reward_coins} coins
+                      {goal.payout_mode === 'proportional' ? ' shared' : ' each'} · {formatDate(goal.starts_at)}
+                      {goal.deadline ? ` – ${formatDate(goal.deadline)}` : ' onwards'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {status !== 'completed' && (
+                      <button
+                        onClick={() => openEditForm(goal)}
+                        className="text-gray-500 hover:text-green-700"
+                        title="Edit goal"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="text-gray-500 hover:text-red-600"
+                      title="Delete goal"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {goal.scope === 'shared' && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <div className="flex-1 bg-gray-200 rounded-full h-2.5 overflow-hidden">
+                      <div
+                        className={`h-2.5 rounded-full ${status === 'completed' ? 'bg-green-500' : 'bg-purple-500'}`}
+                        style={{ width: `${goalPercent(goal)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {goal.current_progress}/{goal.goal_target}
+                    </span>
+                  </div>
+                )}
+
+                <div className="mt-3 space-y-1.5">
+                  {participants.map((p) => (
+                    <div key={p.org_id} className="flex items-center gap-2 text-xs">
+                      <span className="w-40 truncate text-gray-700 flex items-center gap-1">
+                        {goal.winner_org_id === p.org_id && <Trophy className="h-3.5 w-3.5 text-yellow-500" />}
+                        {p.organizations?.name ?? 'Organization'}
+                      </span>
+                      {goal.scope === 'competitive' ? (
+                        <>
+                          <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                            <div
+                              className="h-2 rounded-full bg-orange-400"
+                              style={{ width: `${goalPercent({ current_progress: p.current_progress, goal_target: goal.goal_target })}%` }}
+                            />
+                          </div>
+                          <span className="w-16 text-right text-gray-500">{p.current_progress}/{goal.goal_target}</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">contributed {p.current_progress}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Goal Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black/40 z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-800">{editingGoal ? 'Edit Campus Goal' : 'New Campus Goal'}</h2>
+              <button onClick={() => setShowForm(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Org Week check-in challenge"
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['shared', 'competitive'] as const).map((scope) => (
+                    <button
+                      key={scope}
+                      type="button"
+                      onClick={() => setForm({ ...form, scope })}
+                      className={`px-3 py-2 rounded border text-sm text-left ${
+                        form.scope === scope ? 'border-green-500 bg-green-50' : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="font-medium">{GOAL_SCOPE_LABELS[scope]}</span>
+                      <span className="block text-xs text-gray-500">
+                        {scope === 'shared'
+                          ? 'Everyone adds to one target'
+                          : 'First organization to the target wins'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Track</label>
+                <select
+                  value={form.metric}
+                  onChange={(e) => setForm({ ...form, metric: e.target.value as GoalMetric })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {CROSS_ORG_METRICS.map((key) => (
+                    <option key={key} value={key}>{GOAL_METRICS[key].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{GOAL_METRICS[form.metric].description}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Target ({GOAL_METRICS[form.metric].unit}){form.scope === 'competitive' && ' per org'}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.goal_target}
+                    onChange={(e) => setForm({ ...form, goal_target: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.payout_mode === 'proportional' ? 'Reward pool (coins)' : 'Reward (coins each)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={GOAL_MAX_REWARD_COINS}
+                    value={form.reward_coins}
+                    onChange={(e) => setForm({ ...form, reward_coins: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payout</label>
+                <select
+                  value={form.payout_mode}
+                  onChange={(e) => setForm({ ...form, payout_mode: e.target.value as GoalPayoutMode })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="flat">Same reward for every contributor</option>
+                  <option value="proportional">Split the pool by how much each member contributed</option>
+                </select>
+                {form.scope === 'competitive' && (
+                  <p className="text-xs text-gray-500 mt-1">Only members of the winning organization are paid.</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input
+                    type="date"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Deadline</label>
+                  <input
+                    type="date"
+                    value={form.deadline}
+                    onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Organizations ({form.org_ids.length} selected)
+                </label>
+                <div className="border border-gray-300 rounded max-h-48 overflow-y-auto divide-y divide-gray-100">
+                  {organizations.map((org) => (
+                    <label key={org.id} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={form.org_ids.includes(org.id)}
+                        onChange={() => toggleOrg(org.id)}
+                        className="rounded text-green-600 focus:ring-green-500"
+                      />
+                      {org.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveGoal}
+                disabled={saving}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingGoal ? 'Save Changes' : 'Create Goal'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
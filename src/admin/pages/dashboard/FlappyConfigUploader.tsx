@@ -1,5 +1,9 @@
 import { useEffect, useState } from "react";
 import { supabase } from "../../../lib/supabase";
+import { useObjectUrl } from "../../../hooks/useObjectUrl";
+import { FLAPPY_PRESETS, FLAPPY_PRESET_LABELS, detectFlappyPreset, resolveFlappyTuning } from "../../../lib/flappyTuning";
+import FlappyTuningEditor from "../../components/FlappyTuningEditor";
+import type { FlappyTuning } from "../../../types/database.types";
 
 export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
   const [playerImage, setPlayerImage] = useState<File | null>(null);
@@ -17,6 +21,12 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
   const [hasAvailability, setHasAvailability] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [showCreateConfirmModal, setShowCreateConfirmModal] = useState(false);
+  const [tuning, setTuning] = useState<FlappyTuning>(FLAPPY_PRESETS.normal);
+
+  const playerObjectUrl = useObjectUrl(playerImage);
+  const backgroundObjectUrl = useObjectUrl(backgroundImage);
+  const playerPreviewUrl = playerImage ? playerObjectUrl : editingConfig?.player_image_url || null;
+  const backgroundPreviewUrl = backgroundImage ? backgroundObjectUrl : editingConfig?.background_image_url || null;
 
   // Check user access
   useEffect(() => {
@@ -95,6 +105,7 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
         background_image_url: backgroundUrl,
         start_time: hasAvailability ? startTime : null,
         end_time: hasAvailability ? endTime : null,
+        tuning,
         updated_at: new Date().toISOString(),
       };
 
@@ -124,6 +135,7 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
       setEditingId(null);
       setEditingConfig(null);
       setHasAvailability(false);
+      setTuning(FLAPPY_PRESETS.normal);
     } catch (err: any) {
       setMessage(`Upload failed: ${err.message}`);
     } finally {
@@ -186,6 +198,7 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
     setStartTime(config.start_time ? config.start_time.slice(0, 16) : "");
     setEndTime(config.end_time ? config.end_time.slice(0, 16) : "");
     setHasAvailability(!!config.start_time && !!config.end_time);
+    setTuning(resolveFlappyTuning(config.tuning));
     setMessage(`Editing challenge: ${config.name}`);
   };
 
@@ -204,6 +217,11 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
     }
   };
 
+  const difficultyLabel = (saved: Partial<FlappyTuning> | null) => {
+    const preset = detectFlappyPreset(resolveFlappyTuning(saved));
+    return preset ? FLAPPY_PRESET_LABELS[preset] : "Custom";
+  };
+
   const formatLocalTime = (timeString: string) => {
     if (!timeString) return "";
     const date = new Date(timeString);
@@ -300,6 +318,14 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
           </div>
         )}
 
+        {/* Gameplay Tuning */}
+        <FlappyTuningEditor
+          tuning={tuning}
+          onChange={setTuning}
+          backgroundUrl={backgroundPreviewUrl}
+          playerUrl={playerPreviewUrl}
+        />
+
         {/* Image Uploads */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
           {/* Player Image */}
@@ -379,6 +405,7 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
         setStartTime("");
         setEndTime("");
         setHasAvailability(false);
+        setTuning(FLAPPY_PRESETS.normal);
         setPlayerImage(null);
         setBackgroundImage(null);
         setMessage("");
@@ -416,6 +443,9 @@ export default function FlappyConfigUploader({ orgId }: { orgId: string }) {
             <div>
               <p className="font-bold text-lg">{config.name}</p>
               {config.description && <p className="text-sm text-gray-600">{config.description}</p>} {/* NEW */}
+              <p className="text-sm text-gray-600">
+                Difficulty: {difficultyLabel(config.tuning)}
+              </p>
               {config.start_time && config.end_time && (
                 <p className="text-sm text-gray-600">
                   {formatLocalTime(config.start_time)} → {formatLocalTime(config.end_time)}
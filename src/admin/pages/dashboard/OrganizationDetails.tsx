@@ -8,17 +8,21 @@ import { useUserRoles, canManageOrg } from '../../../utils/roles';
 import type { Organization, User } from '../../../types/database.types';
 import OrganizationOverview from '../../components/OrganizationOverview';
 import OrganizationMembers from '../../components/OrganizationMembers';
+import OrganizationJoinRequests from '../../components/OrganizationJoinRequests';
 import OrganizationPosts from '../../components/OrganizationPosts';
 import OrganizationReports from '../../components/OrganizationReports';
 import SelectAdviser from '../../components/SelectAdviser';
 import EditOrganizationModal from '../../components/EditOrganizationModal';
 import DeleteOrganizationModal from '../../components/DeleteOrganizationModal';
 import OrganizationLeaderboard from '../../components/OrganizationLeaderboard';
+import OrganizationSeasons from '../../components/OrganizationSeasons';
 import OrganizationQuizzes from '../../components/OrganizationQuizzes';
+import OrganizationQuestionBank from '../../components/OrganizationQuestionBank';
 import OrganizationOfficers from '../../components/OrganizationOfficers';
-import FlappyCommunityGoalsManager from './FlappyCommunityGoalsManager';
-import CommunityGoalsManager from './CommunityGoalsManager';
+import OrganizationGoals from '../../components/OrganizationGoals';
 import OrganizationAttendance from '../../components/OrganizationAttendance';
+import OrganizationRewards from '../../components/OrganizationRewards';
+import OrganizationBadges from '../../components/OrganizationBadges';
 import { Pencil, Trash2, ArrowLeft } from 'lucide-react';
 import { Toaster } from 'react-hot-toast';
 
@@ -278,6 +282,12 @@ export default function OrganizationDetails() {
           >
             Members
           </TabsTrigger>
+          <TabsTrigger
+            value="join-requests"
+            className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
+          >
+            Join Requests
+          </TabsTrigger>
           <TabsTrigger
             value="officers"
             className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
@@ -308,6 +318,12 @@ export default function OrganizationDetails() {
           >
             Quizzes
           </TabsTrigger>
+          <TabsTrigger
+            value="question-bank"
+            className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
+          >
+            Question Bank
+          </TabsTrigger>
           <TabsTrigger
             value="leaderboard"
             className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
@@ -315,16 +331,28 @@ export default function OrganizationDetails() {
             Leaderboard
           </TabsTrigger>
           <TabsTrigger
-            value="quiz-goals"
+            value="seasons"
+            className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
+          >
+            Seasons
+          </TabsTrigger>
+          <TabsTrigger
+            value="rewards"
+            className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
+          >
+            Rewards
+          </TabsTrigger>
+          <TabsTrigger
+            value="badges"
             className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
           >
-            Quiz Goals
+            Badges
           </TabsTrigger>
           <TabsTrigger
-            value="flappy-goals"
+            value="goals"
             className="px-4 py-2.5 -mb-px transition-all duration-200 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:shadow-md hover:bg-gray-100 data-[state=active]:hover:bg-green-700 focus:outline-none rounded-md font-medium"
           >
-            Flappy Goals
+            Goals
           </TabsTrigger>
         </TabsList>
 
@@ -345,6 +373,13 @@ export default function OrganizationDetails() {
           />
         </TabsContent>
 
+        {/* Join Requests Tab */}
+        <TabsContent value="join-requests" className="space-y-4">
+          <OrganizationJoinRequests
+            organizationId={id!}
+          />
+        </TabsContent>
+
         {/* Officers Tab */}
         <TabsContent value="officers" className="space-y-4">
           <OrganizationOfficers
@@ -378,19 +413,34 @@ export default function OrganizationDetails() {
           <OrganizationQuizzes organizationId={id!} />
         </TabsContent>
 
+        {/* Question Bank Tab */}
+        <TabsContent value="question-bank" className="space-y-4">
+          <OrganizationQuestionBank organizationId={id!} />
+        </TabsContent>
+
         {/* Leaderboard Tab */}
         <TabsContent value="leaderboard" className="space-y-4">
           <OrganizationLeaderboard organizationId={id!} />
         </TabsContent>
 
-        {/* Quiz Goals Tab */}
-        <TabsContent value="quiz-goals" className="space-y-4">
-          <CommunityGoalsManager />
+        {/* Seasons Tab */}
+        <TabsContent value="seasons" className="space-y-4">
+          <OrganizationSeasons organizationId={id!} />
+        </TabsContent>
+
+        {/* Rewards Tab */}
+        <TabsContent value="rewards" className="space-y-4">
+          <OrganizationRewards organizationId={id!} />
+        </TabsContent>
+
+        {/* Badges Tab */}
+        <TabsContent value="badges" className="space-y-4">
+          <OrganizationBadges organizationId={id!} />
         </TabsContent>
 
-        {/* Flappy Goals Tab */}
-        <TabsContent value="flappy-goals" className="space-y-4">
-          <FlappyCommunityGoalsManager />
+        {/* Goals Tab */}
+        <TabsContent value="goals" className="space-y-4">
+          <OrganizationGoals organizationId={id!} />
         </TabsContent>
       </Tabs>
 
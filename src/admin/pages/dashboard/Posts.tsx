@@ -91,9 +91,10 @@ export default function PostsComponent() {
         .select(`
           id, title, content, created_at, updated_at, user_id, tags, 
           status, is_pinned, org_id, media, post_type, visibility, game_route,
+          publish_at, expires_at, capacity, event_date, start_time, end_time, location,
           post_views(user_id)
         `)
-        .or(`status.eq.published,status.eq.archived${currentUser ? `,status.eq.draft.and.user_id.eq.${currentUser.id}` : ''}`)
+        .or(`status.eq.published,status.eq.scheduled,status.eq.archived${currentUser ? `,status.eq.draft.and.user_id.eq.${currentUser.id}` : ''}`)
         .order("is_pinned", { ascending: false })
         .order("created_at", { ascending: false });
       
@@ -289,6 +290,7 @@ export default function PostsComponent() {
             >
               <option value="all">All Status</option>
               <option value="published">Published</option>
+              <option value="scheduled">Scheduled</option>
               <option value="draft">Draft</option>
               <option value="archived">Archived</option>
             </select>
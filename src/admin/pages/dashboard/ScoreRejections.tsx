@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router';
+import { ShieldAlert, User as UserIcon } from 'lucide-react';
+import {
+  REJECTION_REASON_LABELS,
+  SCORE_REJECTIONS_PAGE_SIZE,
+  fetchScoreRejections,
+} from '../../../lib/gameSessions';
+import type { GameKind, ScoreRejection, ScoreRejectionReason } from '../../../types/database.types';
+
+const GAME_LABELS: Record<GameKind, string> = {
+  quiz: 'Quiz',
+  flappy: 'Flappy',
+};
+
+export default function ScoreRejections() {
+  const navigate = useNavigate();
+  const [rejections, setRejections] = useState<ScoreRejection[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filterGame, setFilterGame] = useState<GameKind | ''>('');
+  const [filterReason, setFilterReason] = useState<ScoreRejectionReason | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRejections = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchScoreRejections({ game: filterGame, reason: filterReason }, page);
+        setRejections(result.rejections);
+        setTotal(result.total);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching score rejections:', err);
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRejections();
+  }, [filterGame, filterReason, page]);
+
+  // Reset to first page when filters change
+  useEffect(() => {
+    setPage(0);
+  }, [filterGame, filterReason]);
+
+  const formatDetails = (details: Record<string, unknown> | null) =>
+    details
+      ? Object.entries(details)
+          .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+          .join(' · ')
+      : '';
+
+  return (
+    <div className="p-6">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Flagged Scores</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Game results the server refused to record, with the check that failed
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <select
+          value={filterGame}
+          onChange={(e) => setFilterGame(e.target.value as GameKind | '')}
+          className="block w-full rounded-md border-0 py-2 pl-3 pr-10 text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-green-600 sm:text-sm"
+        >
+          <option value="">All Games</option>
+          {Object.entries(GAME_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <select
+          value={filterReason}
+          onChange={(e) => setFilterReason(e.target.value as ScoreRejectionReason | '')}
+          className="block w-full rounded-md border-0 py-2 pl-3 pr-10 text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-green-600 sm:text-sm"
+        >
+          <option value="">All Reasons</option>
+          {Object.entries(REJECTION_REASON_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-8 bg-white shadow-sm border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gradient-to-r from-green-50 to-green-100">
+              <tr>
+                <th scope="col" className="py-4 pl-6 pr-3 text-left text-sm font-bold text-gray-900">Player</th>
+                <th scope="col" className="px-4 py-4 text-left text-sm font-bold text-gray-900">Game</th>
+                <th scope="col" className="px-4 py-4 text-left text-sm font-bold text-gray-900">Reason</th>
+                <th scope="col" className="px-4 py-4 text-left text-sm font-bold text-gray-900">Claimed / Verified</th>
+                <th scope="col" className="px-4 py-4 text-left text-sm font-bold text-gray-900">Details</th>
+                <th scope="col" className="pl-4 pr-6 py-4 text-left text-sm font-bold text-gray-900">When</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <div className="flex flex-col items-center gap-3">
+                      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+                      <p className="text-sm text-gray-500">Loading flagged scores...</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : rejections.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <div className="flex flex-col items-center gap-2">
+                      <ShieldAlert className="h-12 w-12 text-gray-300" />
+                      <p className="text-sm text-gray-500">No rejected scores</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                rejections.map((rejection) => (
+                  <tr key={rejection.id} className="hover:bg-green-50/50 transition-colors">
+                    <td className="py-4 pl-6 pr-3">
+                      <button
+                        onClick={() => navigate(`/admin/dashboard/profile/${rejection.user_id}`)}
+                        className="inline-flex items-center gap-2 text-sm font-semibold text-gray-900 hover:text-green-700"
+                      >
+                        <UserIcon className="h-4 w-4 text-gray-400" />
+                        {rejection.users
+                          ? `${rejection.users.first_name} ${rejection.users.last_name}`
+                          : rejection.user_id.slice(0, 8)}
+                      </button>
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-800">
+                        {rejection.game ? GAME_LABELS[rejection.game] : "Unknown"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                        {REJECTION_REASON_LABELS[rejection.reason] ?? rejection.reason}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4 text-sm text-gray-900">
+                      {rejection.claimed_score ?? '—'} / {rejection.verified_score ?? '—'}
+                    </td>
+                    <td className="px-4 py-4 text-xs text-gray-500 max-w-xs truncate" title={formatDetails(rejection.details)}>
+                      {formatDetails(rejection.details)}
+                    </td>
+                    <td className="pl-4 pr-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                      {new Date(rejection.created_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      <div className="mt-4 flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          <span className="font-medium">{total}</span> rejected {total === 1 ? 'submission' : 'submissions'}
+        </p>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            disabled={page === 0}
+            className="relative inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={(page + 1) * SCORE_REJECTIONS_PAGE_SIZE >= total}
+            className="relative inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
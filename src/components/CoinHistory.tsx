@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router";
+import { ChevronLeft, ChevronRight, History } from "lucide-react";
+import {
+  COIN_ACTION_LABELS,
+  COIN_HISTORY_PAGE_SIZE,
+  fetchCoinHistory,
+  getCoinEntryLink,
+} from "../lib/coinLedger";
+import type { RewardLogEntry } from "../types/database.types";
+
+interface CoinHistoryProps {
+  userId: string;
+  dashboardBase: string; // "/user/dashboard" or "/admin/dashboard"
+  refreshKey?: number; // bump to reload after an adjustment
+}
+
+export default function CoinHistory({ userId, dashboardBase, refreshKey = 0 }: CoinHistoryProps) {
+  const [entries, setEntries] = useState<RewardLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setPage(0);
+  }, [userId, refreshKey]);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchCoinHistory(userId, page);
+        setEntries(result.entries);
+        setTotal(result.total);
+      } catch (err) {
+        console.error("Error fetching coin history:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [userId, page, refreshKey]);
+
+  const totalPages = Math.max(1, Math.ceil(total / COIN_HISTORY_PAGE_SIZE));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6">
+      <div className="flex items-center mb-4">
+        <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center mr-3">
+          <History className="w-5 h-5 text-yellow-700" />
+        </div>
+        <h3 className="text-xl font-semibold text-gray-900">Coin History</h3>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500 italic">No coin activity yet</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {entries.map((entry) => {
+            const link = getCoinEntryLink(entry, dashboardBase);
+            const source = entry.posts?.title;
+            return (
+              <div key={entry.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900">
+                    {COIN_ACTION_LABELS[entry.action] ?? entry.action}
+                  </div>
+                  {(source || link) && (
+                    <div className="text-xs text-gray-500 truncate">
+                      {link ? (
+                        <Link to={link} className="text-green-700 hover:underline">
+                          {source || "View"}
+                        </Link>
+                      ) : (
+                        source
+                      )}
+                    </div>
+                  )}
+                  {entry.reason && (
+                    <div className="text-xs text-gray-500">Reason: {entry.reason}</div>
+                  )}
+                  <div className="text-xs text-gray-400">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </div>
+                </div>
+                <span className={`text-sm font-semibold flex-shrink-0 ${entry.points < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {entry.points > 0 ? `+${entry.points}` : entry.points}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {total > COIN_HISTORY_PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
+          <button
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            disabled={page === 0}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-green-700 disabled:opacity-40"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Newer
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {page + 1} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+            disabled={page >= totalPages - 1}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-green-700 disabled:opacity-40"
+          >
+            Older
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
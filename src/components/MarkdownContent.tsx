@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import { parseMarkdown, truncateMarkdown } from "../lib/markdown";
+import type { MarkdownBlock, MarkdownInline } from "../lib/markdown";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Show a formatted preview of roughly this many characters
+  maxChars?: number;
+  onReadMore?: () => void;
+}
+
+const HEADING_CLASSES = {
+  1: "text-2xl font-bold text-gray-900",
+  2: "text-xl font-bold text-gray-900",
+  3: "text-lg font-semibold text-gray-900",
+};
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code key={i} className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono">
+            {node.text}
+          </code>
+        );
+      case "link": {
+        const external = !node.href.startsWith("/");
+        return (
+          <a
+            key={i}
+            href={node.href}
+            onClick={(e) => e.stopPropagation()}
+            className="text-green-700 underline hover:text-green-800 break-words"
+            {...(external && { target: "_blank", rel: "noopener noreferrer nofollow" })}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case "image":
+        return (
+          <img
+            key={i}
+            src={node.src}
+            alt={node.alt}
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="inline-block max-w-full max-h-96 rounded-lg my-2 align-middle"
+          />
+        );
+      case "break":
+        return <br key={i} />;
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, i: number) {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${block.level}` as const;
+      return (
+        <Heading key={i} className={HEADING_CLASSES[block.level]}>
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case "paragraph":
+      return <p key={i}>{renderInline(block.children)}</p>;
+    case "quote":
+      return (
+        <blockquote key={i} className="border-l-4 border-gray-300 pl-3 text-gray-600 italic">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={i} className={`pl-6 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+          {block.items.map((item, j) => (
+            <li key={j}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+  }
+}
+
+/**
+ * Renders post content written in Markdown. Everything becomes React
+ * elements, so there is no HTML to sanitize; see lib/markdown for the rules.
+ */
+export default function MarkdownContent({ content, className = "", maxChars, onReadMore }: MarkdownContentProps) {
+  const { blocks, truncated } = useMemo(() => {
+    const parsed = parseMarkdown(content);
+    return maxChars ? truncateMarkdown(parsed, maxChars) : { blocks: parsed, truncated: false };
+  }, [content, maxChars]);
+
+  return (
+    <div className={`space-y-3 break-words ${className}`}>
+      {blocks.map(renderBlock)}
+      {truncated && onReadMore && (
+        <button onClick={onReadMore} className="text-sm font-medium text-green-700 hover:text-green-800">
+          Read more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useRef, useState } from "react";
+import { Heading2, Bold, Italic, List, ListOrdered, Link2, ImagePlus, Upload, Eye, EyeOff } from "lucide-react";
+import { uploadFile } from "../lib/media";
+import MarkdownContent from "./MarkdownContent";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  // Needed to upload inline images; without it images can only be linked by URL
+  uploaderId?: string;
+}
+
+/**
+ * Textarea with a Markdown toolbar and a live preview of how the post will look
+ */
+export default function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  rows = 6,
+  className = "",
+  uploaderId,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  // Replace the selection with before + selection + after, keeping the selection on the wrapped text
+  const wrapSelection = (before: string, after = "", fallback = "") => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = value.slice(start, end) || fallback;
+    onChange(value.slice(0, start) + before + selected + after + value.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  // Prefix every line touched by the selection, e.g. to turn it into a list
+  const prefixLines = (prefix: (index: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lineStart = value.lastIndexOf("\n", textarea.selectionStart - 1) + 1;
+    const lineEnd = value.indexOf("\n", textarea.selectionEnd);
+    const end = lineEnd === -1 ? value.length : lineEnd;
+    const lines = value.slice(lineStart, end).split("\n").map((line, i) => prefix(i) + line);
+    onChange(value.slice(0, lineStart) + lines.join("\n") + value.slice(end));
+    requestAnimationFrame(() => textarea.focus());
+  };
+
+  const insertLink = () => {
+    const url = window.prompt("Link URL (https://...)");
+    if (url) wrapSelection("[", `](${url.trim()})`, "link text");
+  };
+
+  const insertImageUrl = () => {
+    const url = window.prompt("Image URL (https://...)");
+    if (url) wrapSelection("![", `](${url.trim()})`, "image");
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !uploaderId) return;
+    if (!file.type.startsWith("image/")) {
+      alert("Please choose an image file");
+      return;
+    }
+
+    setUploading(true);
+    const result = await uploadFile(file, uploaderId);
+    setUploading(false);
+    if (!result.success || !result.mediaItem) {
+      alert(result.error || "Failed to upload image");
+      return;
+    }
+    wrapSelection("![", `](${result.mediaItem.url})`, file.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const tools = [
+    { icon: Heading2, label: "Heading", action: () => prefixLines(() => "## ") },
+    { icon: Bold, label: "Bold", action: () => wrapSelection("**", "**", "bold text") },
+    { icon: Italic, label: "Italic", action: () => wrapSelection("*", "*", "italic text") },
+    { icon: List, label: "Bulleted list", action: () => prefixLines(() => "- ") },
+    { icon: ListOrdered, label: "Numbered list", action: () => prefixLines((i) => `${i + 1}. `) },
+    { icon: Link2, label: "Link", action: insertLink },
+    { icon: ImagePlus, label: "Image from URL", action: insertImageUrl },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        {tools.map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={action}
+            title={label}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+          >
+            <Icon size={16} />
+          </button>
+        ))}
+        {uploaderId && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              title="Upload image"
+              className="p-1.5 rounded text-gray-600 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-50"
+            >
+              <Upload size={16} className={uploading ? "animate-pulse" : ""} />
+            </button>
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowPreview((prev) => !prev)}
+          className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-600 hover:bg-gray-100"
+        >
+          {showPreview ? <EyeOff size={14} /> : <Eye size={14} />}
+          {showPreview ? "Hide preview" : "Show preview"}
+        </button>
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full border border-gray-300 rounded-lg p-3 focus:ring-2 outline-none transition-all resize-y font-mono text-sm ${className}`}
+        rows={rows}
+      />
+      <p className="text-xs text-gray-500">
+        Markdown: # heading, **bold**, *italic*, - list, 1. list, [text](url), ![alt](image-url)
+      </p>
+
+      {showPreview && value.trim() && (
+        <div className="border border-dashed border-gray-300 rounded-lg p-3 bg-gray-50">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-400 mb-2">Preview</p>
+          <MarkdownContent content={value} className="text-gray-700" />
+        </div>
+      )}
+    </div>
+  );
+}
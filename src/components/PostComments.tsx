@@ -0,0 +1,460 @@
+import { useState, useEffect, useMemo } from "react";
+import { MessageCircle, Reply, Trash2, EyeOff, Eye, Send } from "lucide-react";
+import toast from "react-hot-toast";
+import { supabase } from "../lib/supabase";
+import { sendNotificationsToUsers } from "../lib/notifications";
+import { useAuth } from "../context/AuthContext";
+import { useUserRoles, canManageOrg } from "../utils/roles";
+import type { PostComment, User } from "../types/database.types";
+
+type MentionCandidate = Pick<User, 'id' | 'first_name' | 'last_name' | 'avatar_url'>;
+
+interface PostCommentsProps {
+  postId: string;
+  orgId: string | null;
+  postTitle: string;
+  onCountChange?: (count: number) => void;
+}
+
+// Mentions are stored inline as @[First Last](user_id)
+const MENTION_TOKEN = /@\[([^\]]+)\]\(([0-9a-fA-F-]{36})\)/g;
+const MAX_INDENT_DEPTH = 3;
+
+const getDisplayName = (user?: MentionCandidate | null) =>
+  user ? `${user.first_name} ${user.last_name}` : "Unknown user";
+
+function renderContent(content: string) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MENTION_TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push(content.slice(lastIndex, index));
+    parts.push(
+      <span key={index} className="text-green-700 font-medium">@{match[1]}</span>
+    );
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) parts.push(content.slice(lastIndex));
+  return parts;
+}
+
+function CommentInput({
+  members,
+  placeholder,
+  autoFocus,
+  submitting,
+  onSubmit,
+  onCancel,
+}: {
+  members: MentionCandidate[];
+  placeholder: string;
+  autoFocus?: boolean;
+  submitting: boolean;
+  onSubmit: (content: string, mentionIds: string[]) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [selectedMentions, setSelectedMentions] = useState<MentionCandidate[]>([]);
+
+  // The "@query" currently being typed at the end of the input, if any
+  const mentionQuery = useMemo(() => {
+    const match = text.match(/@([\w.-]*)$/);
+    return match ? match[1].toLowerCase() : null;
+  }, [text]);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    return members
+      .filter((m) => getDisplayName(m).toLowerCase().replace(/\s+/g, "").includes(mentionQuery))
+      .slice(0, 5);
+  }, [members, mentionQuery]);
+
+  const selectMention = (member: MentionCandidate) => {
+    setText((prev) => prev.replace(/@([\w.-]*)$/, `@${getDisplayName(member)} `));
+    setSelectedMentions((prev) => prev.some((m) => m.id === member.id) ? prev : [...prev, member]);
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || submitting) return;
+
+    // Convert the plain "@First Last" text of picked members into stored tokens
+    let content = text.trim();
+    const mentionIds: string[] = [];
+    selectedMentions.forEach((member) => {
+      const plain = `@${getDisplayName(member)}`;
+      if (content.includes(plain)) {
+        content = content.split(plain).join(`@[${getDisplayName(member)}](${member.id})`);
+        mentionIds.push(member.id);
+      }
+    });
+
+    const ok = await onSubmit(content, mentionIds);
+    if (ok) {
+      setText("");
+      setSelectedMentions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 outline-none resize-none"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map((member) => (
+            <li
+              key={member.id}
+              onClick={() => selectMention(member)}
+              className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-green-50"
+            >
+              {member.avatar_url ? (
+                <img src={member.avatar_url} alt={getDisplayName(member)} className="w-6 h-6 rounded-full object-cover" />
+              ) : (
+                <div className="w-6 h-6 rounded-full bg-green-600 flex items-center justify-center text-white text-xs font-medium">
+                  {member.first_name.charAt(0)}{member.last_name.charAt(0)}
+                </div>
+              )}
+              <span className="text-gray-800">{getDisplayName(member)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2 mt-2">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={!text.trim() || submitting}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send className="w-4 h-4" />
+          {submitting ? "Posting..." : "Post"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function PostComments({ postId, orgId, postTitle, onCountChange }: PostCommentsProps) {
+  const { user } = useAuth();
+  const { roles, orgManagers, loading: rolesLoading } = useUserRoles(user?.id);
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [members, setMembers] = useState<MentionCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+
+  const canModerate = canManageOrg(roles?.role || null, orgManagers, orgId || '', rolesLoading);
+
+  useEffect(() => {
+    fetchComments();
+  }, [postId]);
+
+  useEffect(() => {
+    if (orgId) fetchMembers();
+  }, [orgId]);
+
+  // Moderators also receive hidden comments; those never count
+  const visibleCount = comments.filter((comment) => !comment.is_hidden).length;
+
+  useEffect(() => {
+    if (!loading) onCountChange?.(visibleCount);
+  }, [visibleCount, loading]);
+
+  async function fetchComments() {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('post_comments')
+        .select(`
+          *,
+          users (id, first_name, last_name, avatar_url)
+        `)
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments((data || []) as PostComment[]);
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchMembers() {
+    const { data, error } = await supabase
+      .from('org_members')
+      .select(`
+        users (id, first_name, last_name, avatar_url)
+      `)
+      .eq('org_id', orgId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error fetching org members for mentions:', error);
+      return;
+    }
+
+    setMembers(
+      (data || [])
+        .map((m) => m.users as unknown as MentionCandidate)
+        .filter((m) => m && m.id !== user?.id)
+    );
+  }
+
+  const childrenByParent = useMemo(() => {
+    const map: Record<string, PostComment[]> = {};
+    comments.forEach((comment) => {
+      const key = comment.parent_id || 'root';
+      (map[key] ||= []).push(comment);
+    });
+    return map;
+  }, [comments]);
+
+  // Members are never sent hidden comments, so replies to one arrive without
+  // their parent. Those threads start from a placeholder in the parent's place.
+  const hiddenParentIds = useMemo(() => {
+    const ids = new Set(comments.map((comment) => comment.id));
+    return [...new Set(comments.map((comment) => comment.parent_id).filter((id): id is string => !!id && !ids.has(id)))];
+  }, [comments]);
+
+  async function addComment(content: string, mentionIds: string[], parentId: string | null): Promise<boolean> {
+    if (!user) {
+      toast.error('You must be logged in to comment.');
+      return false;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase
+        .from('post_comments')
+        .insert({
+          post_id: postId,
+          user_id: user.id,
+          parent_id: parentId,
+          content,
+          mentions: mentionIds.length > 0 ? mentionIds : null,
+        })
+        .select(`
+          *,
+          users (id, first_name, last_name, avatar_url)
+        `)
+        .single();
+
+      if (error) throw error;
+
+      const newComment = data as PostComment;
+      setComments((prev) => [...prev, newComment]);
+      setReplyTo(null);
+
+      const recipients = mentionIds.filter((id) => id !== user.id);
+      if (recipients.length > 0) {
+        const author = getDisplayName(newComment.users);
+        await sendNotificationsToUsers(recipients, `${author} mentioned you in a comment on "${postTitle}"`, postId);
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      toast.error('Failed to post comment.');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleHidden(comment: PostComment) {
+    const hide = !comment.is_hidden;
+    const { error } = await supabase
+      .from('post_comments')
+      .update({ is_hidden: hide, hidden_by: hide ? user?.id : null })
+      .eq('id', comment.id);
+
+    if (error) {
+      console.error('Error updating comment visibility:', error);
+      toast.error('Failed to update comment.');
+      return;
+    }
+
+    setComments((prev) => prev.map((c) => c.id === comment.id ? { ...c, is_hidden: hide, hidden_by: hide ? user?.id ?? null : null } : c));
+    toast.success(hide ? 'Comment hidden' : 'Comment restored');
+  }
+
+  async function deleteComment(comment: PostComment) {
+    const confirmDelete = window.confirm('Delete this comment and all of its replies?');
+    if (!confirmDelete) return;
+
+    const { error } = await supabase
+      .from('post_comments')
+      .delete()
+      .eq('id', comment.id);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment.');
+      return;
+    }
+
+    // Replies are removed along with their parent
+    const removed = new Set<string>([comment.id]);
+    const collect = (id: string) => {
+      (childrenByParent[id] || []).forEach((child) => {
+        removed.add(child.id);
+        collect(child.id);
+      });
+    };
+    collect(comment.id);
+    setComments((prev) => prev.filter((c) => !removed.has(c.id)));
+  }
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  function renderHiddenParent(parentId: string) {
+    return (
+      <div key={parentId}>
+        <div className="py-2">
+          <div className="rounded-lg px-3 py-2 bg-gray-100 border border-dashed border-gray-300">
+            <p className="text-sm italic text-gray-500">This comment was hidden by a moderator.</p>
+          </div>
+        </div>
+        {(childrenByParent[parentId] || []).map((reply) => renderComment(reply, 1))}
+      </div>
+    );
+  }
+
+  function renderComment(comment: PostComment, depth: number) {
+    const replies = childrenByParent[comment.id] || [];
+    const isOwn = comment.user_id === user?.id;
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 pl-3 border-l border-gray-200' : ''}>
+        <div className="flex items-start gap-3 py-2">
+          {comment.users?.avatar_url ? (
+            <img
+              src={comment.users.avatar_url}
+              alt={getDisplayName(comment.users)}
+              className="w-8 h-8 rounded-full object-cover flex-shrink-0"
+            />
+          ) : (
+            <div className="w-8 h-8 rounded-full bg-green-600 flex items-center justify-center text-white text-xs font-medium flex-shrink-0">
+              {comment.users ? `${comment.users.first_name.charAt(0)}${comment.users.last_name.charAt(0)}` : '?'}
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <div className={`rounded-lg px-3 py-2 ${comment.is_hidden ? 'bg-gray-100 border border-dashed border-gray-300' : 'bg-gray-50'}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-gray-900">{getDisplayName(comment.users)}</span>
+                <span className="text-xs text-gray-500">{formatDate(comment.created_at)}</span>
+                {comment.is_hidden && canModerate && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">Hidden</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap break-words">{renderContent(comment.content)}</p>
+            </div>
+            <div className="flex items-center gap-4 mt-1 ml-1 text-xs text-gray-500">
+              {user && (
+                <button
+                  onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+                  className="flex items-center gap-1 hover:text-green-700"
+                >
+                  <Reply className="w-3 h-3" />
+                  Reply
+                </button>
+              )}
+              {canModerate && (
+                <button
+                  onClick={() => toggleHidden(comment)}
+                  className="flex items-center gap-1 hover:text-yellow-700"
+                >
+                  {comment.is_hidden ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                  {comment.is_hidden ? 'Unhide' : 'Hide'}
+                </button>
+              )}
+              {(canModerate || isOwn) && (
+                <button
+                  onClick={() => deleteComment(comment)}
+                  className="flex items-center gap-1 hover:text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Delete
+                </button>
+              )}
+            </div>
+            {replyTo === comment.id && (
+              <div className="mt-2">
+                <CommentInput
+                  members={members}
+                  placeholder={`Reply to ${getDisplayName(comment.users)}...`}
+                  autoFocus
+                  submitting={submitting}
+                  onSubmit={(content, mentionIds) => addComment(content, mentionIds, comment.id)}
+                  onCancel={() => setReplyTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        {replies.map((reply) => renderComment(reply, depth + 1))}
+      </div>
+    );
+  }
+
+  const topLevel = childrenByParent['root'] || [];
+
+  // A placeholder sits where its first reply falls in time
+  const threads = [
+    ...topLevel.map((comment) => ({ hiddenParentId: null, comment, startedAt: comment.created_at })),
+    ...hiddenParentIds.map((id) => ({ hiddenParentId: id, comment: null, startedAt: childrenByParent[id][0].created_at })),
+  ].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+        <MessageCircle className="w-4 h-4" />
+        Comments ({visibleCount})
+      </h3>
+
+      {user && (
+        <CommentInput
+          members={members}
+          placeholder="Write a comment... Use @ to mention a member"
+          submitting={submitting && replyTo === null}
+          onSubmit={(content, mentionIds) => addComment(content, mentionIds, null)}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">No comments yet. Start the discussion!</p>
+      ) : (
+        <div>
+          {threads.map((thread) =>
+            thread.hiddenParentId ? renderHiddenParent(thread.hiddenParentId) : renderComment(thread.comment!, 0)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { History, ChevronDown, ChevronUp, RotateCcw } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAuth } from "../context/AuthContext";
+import { useUserRoles, canManageOrg } from "../utils/roles";
+import { diffSnapshots, fetchPostRevisions, restorePostRevision } from "../lib/postRevisions";
+import type { PostRevision } from "../types/database.types";
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  orgId: string | null;
+  // Reload the history whenever the post changes, e.g. after a restore
+  updatedAt: string | null;
+  onRestored: () => void;
+}
+
+const getEditorName = (revision: PostRevision) =>
+  revision.users ? `${revision.users.first_name} ${revision.users.last_name}` : "Unknown user";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Who changed what on a post, newest first, with each edit shown as a
+ * field-level diff against the version before it. Officers can restore any
+ * older version; the restore becomes a new revision rather than rewriting history.
+ */
+export default function PostRevisionHistory({ postId, orgId, updatedAt, onRestored }: PostRevisionHistoryProps) {
+  const { user } = useAuth();
+  const { roles, orgManagers, loading: rolesLoading } = useUserRoles(user?.id);
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [open, setOpen] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const canRestore = canManageOrg(roles?.role || null, orgManagers, orgId || '', rolesLoading);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [postId, updatedAt]);
+
+  async function fetchRevisions() {
+    try {
+      setRevisions(await fetchPostRevisions(postId));
+    } catch (err) {
+      console.error('Error fetching post revisions:', err);
+    }
+  }
+
+  async function restore(revision: PostRevision) {
+    if (!user) return;
+    const confirmRestore = window.confirm(`Restore the version from ${formatDate(revision.created_at)}? Its content replaces the current one; status, schedule and capacity stay as they are. The current version stays in the history.`);
+    if (!confirmRestore) return;
+
+    setRestoringId(revision.id);
+    try {
+      const changed = await restorePostRevision(revision, user.id);
+      toast.success(changed ? 'Version restored' : 'The post already matches this version');
+      onRestored();
+    } catch (err) {
+      console.error('Error restoring post revision:', err);
+      toast.error('Failed to restore this version.');
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
+  // The first revision is the original post, so there is only history after an edit
+  if (revisions.length < 2) return null;
+
+  const revisionsById = new Map(revisions.map((revision) => [revision.id, revision]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <History className="w-5 h-5" />
+          Edit history
+          <span className="text-sm font-normal text-gray-500">({revisions.length - 1} {revisions.length === 2 ? 'edit' : 'edits'})</span>
+        </span>
+        {open ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <ol className="mt-6 space-y-4">
+          {revisions.map((revision, index) => {
+            const previous = revisions[index + 1];
+            const changes = previous ? diffSnapshots(previous.snapshot, revision.snapshot) : [];
+            const restoredFrom = revision.restored_from ? revisionsById.get(revision.restored_from) : undefined;
+
+            return (
+              <li key={revision.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">{getEditorName(revision)}</span>
+                      {!previous
+                        ? ' posted the original version'
+                        : restoredFrom
+                          ? ` restored the version from ${formatDate(restoredFrom.created_at)}`
+                          : ' edited the post'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(revision.created_at)}
+                      {index === 0 && ' • Current version'}
+                    </p>
+                  </div>
+                  {canRestore && index > 0 && (
+                    <button
+                      onClick={() => restore(revision)}
+                      disabled={restoringId !== null}
+                      className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+
+                {changes.length > 0 && (
+                  <dl className="mt-3 space-y-3">
+                    {changes.map((change) => (
+                      <div key={change.field}>
+                        <dt className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">{change.label}</dt>
+                        <dd className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                          <p className="bg-red-50 text-red-800 rounded px-2 py-1 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {change.before || <span className="italic text-red-400">(empty)</span>}
+                          </p>
+                          <p className="bg-green-50 text-green-800 rounded px-2 py-1 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {change.after || <span className="italic text-green-500">(empty)</span>}
+                          </p>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * A preview URL for a picked file. Each object URL keeps its file in memory
+ * until revoked, so the old one is released whenever the file changes or the
+ * component unmounts.
+ */
+export function useObjectUrl(file: File | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+}
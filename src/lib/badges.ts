@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+import { sendNotificationsToUsers } from './notifications';
+import type { Badge, BadgeCriteria } from '../types/database.types';
+
+export const BADGE_CRITERIA_LABELS: Record<BadgeCriteria, string> = {
+  game_plays: 'Games played',
+  events_attended: 'Events attended',
+  posts_engaged: 'Posts engaged with',
+  quiz_score: 'Best quiz score',
+  manual: 'Awarded manually',
+};
+
+/**
+ * Upload a badge icon and return its public URL
+ */
+export async function uploadBadgeIcon(file: File, orgId: string | null): Promise<string> {
+  const fileName = `${orgId ?? 'global'}/${Date.now()}-${file.name}`;
+  const { error } = await supabase.storage
+    .from('badge-icons')
+    .upload(fileName, file, { upsert: true });
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('badge-icons')
+    .getPublicUrl(fileName);
+  return publicUrl;
+}
+
+/**
+ * Award the current user every automatic badge they now meet the criteria for.
+ * Activity triggers award badges as they are earned; this catches up on badges
+ * created after the activity. Returns the newly earned badges, whose
+ * notifications the server has already sent.
+ */
+export async function evaluateBadges(): Promise<Badge[]> {
+  const { data, error } = await supabase.rpc('evaluate_my_badges');
+  if (error) {
+    console.error('Error evaluating badges:', error);
+    return [];
+  }
+  return (data ?? []) as Badge[];
+}
+
+/**
+ * Award a badge by hand. Returns false when the user already has it.
+ */
+export async function awardBadge(badge: Badge, userId: string, awardedBy: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_badges')
+    .upsert(
+      { user_id: userId, badge_id: badge.id, earned_at: new Date().toISOString(), awarded_by: awardedBy },
+      { onConflict: 'user_id,badge_id', ignoreDuplicates: true }
+    )
+    .select('badge_id');
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  await sendNotificationsToUsers([userId], `You were awarded the "${badge.name}" badge!`);
+  return true;
+}
+
+export async function revokeBadge(badgeId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_badges')
+    .delete()
+    .eq('badge_id', badgeId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+import { buildCalendar, type CalendarEvent } from './ical';
+import type { CalendarFeed, CalendarFeedScope } from '../types/database.types';
+
+/**
+ * Download a single event as an .ics file
+ */
+export function downloadEventICS(event: CalendarEvent): void {
+  const content = buildCalendar([event], window.location.origin, event.title);
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Subscription URL served by the calendar-feed edge function
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+}
+
+export function getWebcalUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+}
+
+/**
+ * Get the user's feed for a scope, creating it on first use
+ */
+export async function getOrCreateCalendarFeed(userId: string, scope: CalendarFeedScope, orgId: string | null): Promise<CalendarFeed> {
+  let query = supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('scope', scope);
+  query = orgId ? query.eq('org_id', orgId) : query.is('org_id', null);
+
+  const { data: existing, error: fetchError } = await query.maybeSingle();
+  if (fetchError) throw fetchError;
+  if (existing) return existing as CalendarFeed;
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId, scope, org_id: orgId, token: crypto.randomUUID() })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data as CalendarFeed;
+}
+
+/**
+ * Replace a feed's token, invalidating the previously shared URL
+ */
+export async function regenerateCalendarFeed(feedId: string): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .update({ token: crypto.randomUUID() })
+    .eq('id', feedId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data as CalendarFeed;
+}
@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+import { EVENT_TIMEZONE, EVENT_UTC_OFFSET } from './ical';
+import type { CheckInResult, EventCheckInToken, Posts } from '../types/database.types';
+
+// How often the officer screen shows a new check-in code
+export const CHECKIN_ROTATION_SECONDS = 30;
+
+// A code outlives its rotation, so members who scan just before it changes, or
+// whose phone is slow to submit, are not turned away
+export const CHECKIN_TOKEN_TTL_SECONDS = 2 * CHECKIN_ROTATION_SECONDS + 15;
+
+// Check-in opens this many minutes before the event starts
+export const CHECKIN_EARLY_MINUTES = 30;
+
+/**
+ * Get the time window during which members may check in to an event.
+ * Event times are Philippine time whatever the device's timezone; the same
+ * window is enforced by the check-in RPC.
+ */
+export function getCheckInWindow(post: Pick<Posts, 'event_date' | 'start_time' | 'end_time'>): { opensAt: Date; closesAt: Date } | null {
+  if (!post.event_date) return null;
+
+  const start = new Date(`${post.event_date}T${post.start_time || '00:00'}${EVENT_UTC_OFFSET}`);
+  const end = new Date(`${post.event_date}T${post.end_time || '23:59'}${EVENT_UTC_OFFSET}`);
+
+  return {
+    opensAt: new Date(start.getTime() - CHECKIN_EARLY_MINUTES * 60 * 1000),
+    closesAt: end,
+  };
+}
+
+export function isCheckInOpen(post: Pick<Posts, 'event_date' | 'start_time' | 'end_time'>, now: Date = new Date()): boolean {
+  const checkInWindow = getCheckInWindow(post);
+  if (!checkInWindow) return false;
+  return now >= checkInWindow.opensAt && now <= checkInWindow.closesAt;
+}
+
+/**
+ * Show a window time in Philippine time, the way the event was entered
+ */
+export function formatCheckInTime(date: Date): string {
+  return date.toLocaleString('en-US', { timeZone: EVENT_TIMEZONE, dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Ask the server for a fresh signed check-in token for an event.
+ * Only officers/advisers of the event's organization are allowed to issue tokens.
+ */
+export async function issueCheckInToken(postId: string): Promise<EventCheckInToken> {
+  const { data, error } = await supabase.rpc('issue_event_checkin_token', {
+    p_post_id: postId,
+    p_ttl_seconds: CHECKIN_TOKEN_TTL_SECONDS,
+  });
+
+  if (error) throw error;
+  return data as EventCheckInToken;
+}
+
+/**
+ * Record attendance for the logged-in user.
+ * The server verifies the code, its expiry, the event time window and duplicates.
+ */
+export async function checkInWithToken(token: string): Promise<CheckInResult> {
+  const { data, error } = await supabase.rpc('check_in_event', { p_token: token });
+
+  if (error) throw error;
+  return data as CheckInResult;
+}
+
+/**
+ * Build the URL encoded in the QR code, so phone cameras open the check-in page directly
+ */
+export function buildCheckInUrl(token: string): string {
+  return `${window.location.origin}/user/dashboard/check-in?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Extract the token from a scanned QR value (either a check-in URL or a raw token)
+ */
+export function extractCheckInToken(scanned: string): string | null {
+  const value = scanned.trim();
+  if (!value) return null;
+
+  try {
+    const url = new URL(value);
+    return url.searchParams.get('token');
+  } catch {
+    return value;
+  }
+}
+
+export function getCheckInMessage(result: CheckInResult): string {
+  switch (result.status) {
+    case 'checked_in': return `You're checked in${result.post_title ? ` to ${result.post_title}` : ''}!`;
+    case 'already_checked_in': return `You've already checked in${result.post_title ? ` to ${result.post_title}` : ''}.`;
+    case 'expired': return 'This code has expired. Please scan the latest code on screen.';
+    case 'outside_window': return 'Check-in is not open for this event right now.';
+    case 'not_allowed': return 'This event is only open to members of its organization.';
+    default: return 'Invalid check-in code.';
+  }
+}
@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+import type { CoinAction, PostRewardAction, RewardLogEntry } from '../types/database.types';
+
+export const COIN_HISTORY_PAGE_SIZE = 15;
+
+export const COIN_ACTION_LABELS: Record<CoinAction, string> = {
+  view: 'Viewed a post',
+  like: 'Liked a post',
+  poll: 'Voted in a poll',
+  feedback: 'Answered a feedback form',
+  rsvp: 'RSVPed to an event',
+  register: 'Registered for an event',
+  evaluate: 'Evaluated an event',
+  quiz: 'Played a quiz',
+  flappy: 'Played a Flappy challenge',
+  community_goal: 'Community goal reward',
+  contest_prize: 'Contest prize',
+  season_prize: 'Leaderboard season prize',
+  redeem: 'Redeemed a reward',
+  refund: 'Reward refund',
+  adjustment: 'Manual adjustment',
+};
+
+/**
+ * One page of a user's reward_log, newest first, with the total entry count
+ */
+export async function fetchCoinHistory(
+  userId: string,
+  page: number,
+  pageSize: number = COIN_HISTORY_PAGE_SIZE
+): Promise<{ entries: RewardLogEntry[]; total: number }> {
+  const from = page * pageSize;
+  const { data, error, count } = await supabase
+    .from('reward_log')
+    .select('*, posts (id, title)', { count: 'exact' })
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { entries: (data ?? []) as RewardLogEntry[], total: count ?? 0 };
+}
+
+/**
+ * Where a ledger entry came from, for linking back to the post or game
+ */
+export function getCoinEntryLink(entry: RewardLogEntry, dashboardBase: string): string | null {
+  if (entry.post_id) return `${dashboardBase}/posts/${entry.post_id}`;
+
+  // Game and shop pages only exist in the member dashboard
+  if (dashboardBase !== '/user/dashboard') return null;
+  switch (entry.action) {
+    case 'quiz': return '/user/dashboard/quiz-selection';
+    case 'flappy': return '/user/dashboard/flappy-challenges';
+    case 'community_goal': return '/user/dashboard/community-goals';
+    case 'contest_prize': return '/user/dashboard/member-contests';
+    case 'season_prize': return '/user/dashboard/leaderboard';
+    case 'redeem':
+    case 'refund': return '/user/dashboard/shop';
+    default: return null;
+  }
+}
+
+/**
+ * Add or remove coins by hand. The RPC is restricted to admins and writes an
+ * 'adjustment' ledger entry alongside the balance change.
+ */
+export async function adjustUserCoins(userId: string, amount: number, reason: string): Promise<number> {
+  const { data, error } = await supabase.rpc('adjust_user_coins', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * Collect the coins for something done on a post. The server checks the like,
+ * vote, RSVP etc. is on record and pays its fixed amount once; the result is
+ * the number of coins paid, 0 when already claimed.
+ */
+export async function claimPostReward(postId: string, action: PostRewardAction): Promise<number> {
+  const { data, error } = await supabase.rpc('claim_post_reward', {
+    p_post_id: postId,
+    p_action: action,
+  });
+
+  if (error) throw error;
+  return (data as number | null) ?? 0;
+}
@@ -0,0 +1,277 @@
+import { supabase } from './supabase';
+import type {
+  ContestCriterion,
+  ContestJudgeScore,
+  ContestPhase,
+  ContestPrizeResult,
+  ContestReaction,
+  ContestResult,
+  ContestSubmission,
+  ContestVote,
+  RoomContest,
+} from '../types/database.types';
+
+export const CONTEST_PHASES: ContestPhase[] = ['submissions', 'judging', 'voting', 'results'];
+
+export const CONTEST_PHASE_LABELS: Record<ContestPhase, string> = {
+  submissions: 'Accepting Entries',
+  judging: 'Judging',
+  voting: 'Member Voting',
+  results: 'Results Published',
+};
+
+export const CONTEST_PHASE_COLORS: Record<ContestPhase, string> = {
+  submissions: 'bg-blue-100 text-blue-800',
+  judging: 'bg-yellow-100 text-yellow-800',
+  voting: 'bg-purple-100 text-purple-800',
+  results: 'bg-green-100 text-green-800',
+};
+
+export const DEFAULT_JUDGE_WEIGHT = 70;
+
+// Places that can win coins and badges
+export const CONTEST_PRIZE_PLACES = 3;
+
+// Most coins one place can win, as room_contests allows
+export const CONTEST_MAX_PRIZE_COINS = 1000;
+
+export const CONTEST_CAPTION_MAX_LENGTH = 140;
+
+export const CONTEST_REACTIONS = ['❤️', '🔥', '😂', '😮', '👏'];
+
+export function createCriterion(name = '', maxPoints = 10): ContestCriterion {
+  return { id: crypto.randomUUID(), name, description: '', max_points: maxPoints };
+}
+
+export const DEFAULT_RUBRIC: ContestCriterion[] = [
+  { id: 'creativity', name: 'Creativity', description: 'Original ideas and theme', max_points: 10 },
+  { id: 'layout', name: 'Layout', description: 'Use of space and arrangement', max_points: 10 },
+  { id: 'aesthetics', name: 'Aesthetics', description: 'Colours, lighting and overall look', max_points: 10 },
+];
+
+export const rubricMaxPoints = (rubric: ContestCriterion[]) =>
+  rubric.reduce((sum, criterion) => sum + criterion.max_points, 0);
+
+/**
+ * Contests made before judging existed have no rubric or phase yet
+ */
+export function withContestDefaults(contest: Partial<RoomContest> & Pick<RoomContest, 'id'>): RoomContest {
+  return {
+    ...(contest as RoomContest),
+    phase: contest.phase ?? 'submissions',
+    rubric: contest.rubric?.length ? contest.rubric : DEFAULT_RUBRIC,
+    voting_enabled: contest.voting_enabled ?? false,
+    judge_weight: contest.judge_weight ?? DEFAULT_JUDGE_WEIGHT,
+    prize_coins: contest.prize_coins ?? [],
+    prize_badge_ids: contest.prize_badge_ids ?? [],
+  };
+}
+
+/**
+ * The phase members should see. A contest past its end date no longer takes
+ * entries, even before the scheduled job has recorded the change.
+ */
+export function getContestPhase(contest: RoomContest, now: Date = new Date()): ContestPhase {
+  if (contest.phase === 'submissions' && contest.end_date && new Date(contest.end_date) < now) return 'judging';
+  return contest.phase;
+}
+
+/**
+ * Submissions in a fixed order that doesn't follow who entered first,
+ * so the list itself doesn't hint at the author during blind judging
+ */
+export async function fetchContestSubmissions(contestId: string): Promise<ContestSubmission[]> {
+  const { data, error } = await supabase
+    .from('contest_submissions')
+    .select('id, contest_id, org_id, user_id, image_url, caption, is_hidden, submitted_at, users(first_name, last_name)')
+    .eq('contest_id', contestId)
+    .order('id');
+  if (error) throw error;
+  return (data ?? []) as unknown as ContestSubmission[];
+}
+
+export async function setSubmissionHidden(submissionId: string, hidden: boolean): Promise<void> {
+  const { error } = await supabase.from('contest_submissions').update({ is_hidden: hidden }).eq('id', submissionId);
+  if (error) throw error;
+}
+
+/**
+ * Members only see the gallery once entries have closed, so nobody can copy
+ * another entry while the contest is still open
+ */
+export const isGalleryOpen = (contest: RoomContest) => getContestPhase(contest) !== 'submissions';
+
+/**
+ * Visible entries for the member gallery, oldest first
+ */
+export async function fetchGallery(contestId: string): Promise<ContestSubmission[]> {
+  const { data, error } = await supabase
+    .from('contest_submissions')
+    .select('id, contest_id, org_id, user_id, image_url, caption, is_hidden, submitted_at, users(first_name, last_name)')
+    .eq('contest_id', contestId)
+    .eq('is_hidden', false)
+    .order('submitted_at');
+  if (error) throw error;
+  return (data ?? []) as unknown as ContestSubmission[];
+}
+
+export async function fetchContestReactions(contestId: string): Promise<ContestReaction[]> {
+  const { data, error } = await supabase.from('contest_reactions').select('*').eq('contest_id', contestId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Add the reaction, or take it back if the member already reacted with that emoji
+ */
+export async function toggleContestReaction(
+  submission: Pick<ContestSubmission, 'id' | 'contest_id'>,
+  userId: string,
+  emoji: string,
+  reacted: boolean
+): Promise<void> {
+  const { error } = reacted
+    ? await supabase
+        .from('contest_reactions')
+        .delete()
+        .eq('submission_id', submission.id)
+        .eq('user_id', userId)
+        .eq('emoji', emoji)
+    : await supabase
+        .from('contest_reactions')
+        .insert({ submission_id: submission.id, contest_id: submission.contest_id, user_id: userId, emoji });
+  if (error) throw error;
+}
+
+export async function fetchJudgeScores(contestId: string): Promise<ContestJudgeScore[]> {
+  const { data, error } = await supabase.from('contest_judge_scores').select('*').eq('contest_id', contestId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function saveJudgeScore(params: {
+  contestId: string;
+  submissionId: string;
+  judgeId: string;
+  scores: Record<string, number>;
+  comment: string;
+}): Promise<ContestJudgeScore> {
+  const total = Object.values(params.scores).reduce((sum, points) => sum + points, 0);
+  const { data, error } = await supabase
+    .from('contest_judge_scores')
+    .upsert(
+      {
+        contest_id: params.contestId,
+        submission_id: params.submissionId,
+        judge_id: params.judgeId,
+        scores: params.scores,
+        total,
+        comment: params.comment.trim() || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'submission_id,judge_id' }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchContestVotes(contestId: string): Promise<ContestVote[]> {
+  const { data, error } = await supabase.from('contest_votes').select('*').eq('contest_id', contestId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Cast or move a member's single vote for a contest
+ */
+export async function castContestVote(contestId: string, submissionId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('contest_votes')
+    .upsert(
+      { contest_id: contestId, submission_id: submissionId, user_id: userId, created_at: new Date().toISOString() },
+      { onConflict: 'contest_id,user_id' }
+    );
+  if (error) throw error;
+}
+
+export async function setContestPhase(contestId: string, phase: ContestPhase): Promise<void> {
+  const { error } = await supabase.from('room_contests').update({ phase }).eq('id', contestId);
+  if (error) throw error;
+}
+
+/**
+ * Rank submissions by combining the judges' average rubric score with member
+ * votes. Both sides are scaled to 0–100 before weighting: judges against the
+ * rubric maximum, votes against the most-voted entry. Ties go to the higher
+ * judge score, then the earlier entry. Officers see this as a preview; the
+ * published ranking comes from contest_ranking on the server, which matches it.
+ */
+export function computeContestResults(
+  contest: RoomContest,
+  submissions: ContestSubmission[],
+  judgeScores: ContestJudgeScore[],
+  votes: ContestVote[]
+): ContestResult[] {
+  const maxPoints = rubricMaxPoints(contest.rubric) || 1;
+  const judgeWeight = contest.voting_enabled ? contest.judge_weight / 100 : 1;
+
+  const voteCounts = new Map<string, number>();
+  votes.forEach((v) => voteCounts.set(v.submission_id, (voteCounts.get(v.submission_id) ?? 0) + 1));
+  const topVotes = Math.max(0, ...voteCounts.values());
+
+  const rows = submissions.map((submission) => {
+    const marks = judgeScores.filter((s) => s.submission_id === submission.id);
+    const judgeScore = marks.length
+      ? (marks.reduce((sum, s) => sum + s.total, 0) / marks.length / maxPoints) * 100
+      : 0;
+    const voteCount = voteCounts.get(submission.id) ?? 0;
+    const voteScore = topVotes > 0 ? (voteCount / topVotes) * 100 : 0;
+
+    return {
+      submission,
+      result: {
+        contest_id: contest.id,
+        submission_id: submission.id,
+        user_id: submission.user_id,
+        rank: 0,
+        judge_score: Math.round(judgeScore * 10) / 10,
+        vote_count: voteCount,
+        vote_score: Math.round(voteScore * 10) / 10,
+        final_score: Math.round((judgeWeight * judgeScore + (1 - judgeWeight) * voteScore) * 10) / 10,
+        users: submission.users,
+        contest_submissions: { image_url: submission.image_url },
+      } as ContestResult,
+    };
+  });
+
+  rows.sort(
+    (a, b) =>
+      b.result.final_score - a.result.final_score ||
+      b.result.judge_score - a.result.judge_score ||
+      a.submission.submitted_at.localeCompare(b.submission.submitted_at)
+  );
+  return rows.map(({ result }, i) => ({ ...result, rank: i + 1 }));
+}
+
+export async function fetchContestResults(contestId: string): Promise<ContestResult[]> {
+  const { data, error } = await supabase
+    .from('contest_results')
+    .select('*, users(first_name, last_name), contest_submissions(image_url)')
+    .eq('contest_id', contestId)
+    .order('rank');
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Publish the final ranking. The server ranks the entries, pays out prizes,
+ * posts the winners to the org feed and tells every entrant where they placed,
+ * all in one transaction; publishing again pays and notifies nobody twice.
+ */
+export async function publishContestResults(contestId: string): Promise<ContestPrizeResult> {
+  const { data, error } = await supabase.rpc('publish_contest_results', { p_contest_id: contestId });
+  if (error) throw error;
+  return data as ContestPrizeResult;
+}
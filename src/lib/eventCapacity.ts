@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import type { EventCapacity, EventRegistration, EventRegistrationResult } from '../types/database.types';
+
+export type RegistrationDetails = Pick<
+  EventRegistration,
+  'first_name' | 'middle_initial' | 'last_name' | 'email' | 'college' | 'program' | 'section'
+>;
+
+/**
+ * Register the current user for an event.
+ * The RPC checks capacity under a lock, so concurrent sign-ups for the last spot
+ * cannot both be confirmed; anyone past capacity is added to the waitlist.
+ */
+export async function registerForEvent(postId: string, details: RegistrationDetails): Promise<EventRegistrationResult> {
+  const { data, error } = await supabase.rpc('register_for_event', {
+    p_post_id: postId,
+    p_details: details,
+  });
+
+  if (error) throw error;
+  return data as EventRegistrationResult;
+}
+
+/**
+ * Cancel the current user's registration. A trigger hands the freed spot to
+ * the next member on the waitlist.
+ */
+export async function cancelEventRegistration(postId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('event_registrations')
+    .delete()
+    .eq('post_id', postId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function getEventCapacity(postId: string, capacity: number | null | undefined): Promise<EventCapacity> {
+  const [{ count: confirmed }, { count: waitlisted }] = await Promise.all([
+    supabase
+      .from('event_registrations')
+      .select('*', { count: 'exact', head: true })
+      .eq('post_id', postId)
+      .eq('status', 'confirmed'),
+    supabase
+      .from('event_registrations')
+      .select('*', { count: 'exact', head: true })
+      .eq('post_id', postId)
+      .eq('status', 'waitlisted'),
+  ]);
+
+  return {
+    capacity: capacity ?? null,
+    confirmed: confirmed || 0,
+    waitlisted: waitlisted || 0,
+  };
+}
+
+/**
+ * The user's registration status for an event, with their 1-based waitlist position
+ */
+export async function getRegistrationStatus(postId: string, userId: string): Promise<EventRegistrationResult | null> {
+  const { data: registration, error } = await supabase
+    .from('event_registrations')
+    .select('status, created_at')
+    .eq('post_id', postId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!registration) return null;
+
+  if (registration.status !== 'waitlisted') {
+    return { status: 'confirmed', waitlist_position: null };
+  }
+
+  const { count } = await supabase
+    .from('event_registrations')
+    .select('*', { count: 'exact', head: true })
+    .eq('post_id', postId)
+    .eq('status', 'waitlisted')
+    .lt('created_at', registration.created_at);
+
+  return { status: 'waitlisted', waitlist_position: (count || 0) + 1 };
+}
+
+export function getSpotsLeft(eventCapacity: EventCapacity): number | null {
+  if (eventCapacity.capacity === null) return null;
+  return Math.max(0, eventCapacity.capacity - eventCapacity.confirmed);
+}
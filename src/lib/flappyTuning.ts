@@ -0,0 +1,90 @@
+import type { FlappyObstacleSkin, FlappyPreset, FlappyTuning } from '../types/database.types';
+
+export const FLAPPY_PRESETS: Record<FlappyPreset, FlappyTuning> = {
+  easy: { gravity: 18, flapStrength: 7, pipeGap: 4.2, pipeSpeed: 2, speedRamp: 0, obstacleSkin: 'classic' },
+  normal: { gravity: 25, flapStrength: 8, pipeGap: 3.5, pipeSpeed: 2.5, speedRamp: 0.02, obstacleSkin: 'classic' },
+  hard: { gravity: 32, flapStrength: 9, pipeGap: 2.8, pipeSpeed: 3.2, speedRamp: 0.05, obstacleSkin: 'classic' },
+};
+
+export const FLAPPY_PRESET_LABELS: Record<FlappyPreset, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+};
+
+export const OBSTACLE_SKIN_LABELS: Record<FlappyObstacleSkin, string> = {
+  classic: 'Classic Pipes',
+  bricks: 'Bricks',
+  bamboo: 'Bamboo',
+  neon: 'Neon',
+};
+
+// Pipe colours for the admin preview, roughly matching the skins in the game
+export const OBSTACLE_SKIN_COLORS: Record<FlappyObstacleSkin, string> = {
+  classic: '#16a34a',
+  bricks: '#b45309',
+  bamboo: '#65a30d',
+  neon: '#d946ef',
+};
+
+type NumericTuningKey = Exclude<keyof FlappyTuning, 'obstacleSkin'>;
+
+export const FLAPPY_TUNING_FIELDS: {
+  key: NumericTuningKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}[] = [
+  { key: 'gravity', label: 'Gravity', min: 10, max: 40, step: 1, unit: 'u/s²' },
+  { key: 'flapStrength', label: 'Flap Strength', min: 4, max: 12, step: 0.5, unit: 'u/s' },
+  { key: 'pipeGap', label: 'Pipe Gap', min: 2, max: 5, step: 0.1, unit: 'u' },
+  { key: 'pipeSpeed', label: 'Pipe Speed', min: 1, max: 5, step: 0.1, unit: 'u/s' },
+  { key: 'speedRamp', label: 'Speed Ramp', min: 0, max: 0.1, step: 0.005, unit: 'u/s per pipe' },
+];
+
+// The game camera shows a 9:16 view, 10 units tall
+export const FLAPPY_VIEW_HEIGHT = 10;
+export const FLAPPY_VIEW_WIDTH = 5.625;
+
+/**
+ * Fill in missing or out-of-range values, so challenges saved before tuning
+ * existed play exactly like the Normal preset.
+ */
+export function resolveFlappyTuning(tuning: Partial<FlappyTuning> | null | undefined): FlappyTuning {
+  const resolved: FlappyTuning = { ...FLAPPY_PRESETS.normal };
+  FLAPPY_TUNING_FIELDS.forEach(({ key, min, max }) => {
+    const value = tuning?.[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      resolved[key] = Math.min(max, Math.max(min, value));
+    }
+  });
+  if (tuning?.obstacleSkin && tuning.obstacleSkin in OBSTACLE_SKIN_LABELS) {
+    resolved.obstacleSkin = tuning.obstacleSkin;
+  }
+  return resolved;
+}
+
+/**
+ * The preset whose physics match these values (the skin doesn't count), or null for custom tuning
+ */
+export function detectFlappyPreset(tuning: FlappyTuning): FlappyPreset | null {
+  const match = (Object.keys(FLAPPY_PRESETS) as FlappyPreset[]).find((preset) =>
+    FLAPPY_TUNING_FIELDS.every(({ key }) => Math.abs(FLAPPY_PRESETS[preset][key] - tuning[key]) < 1e-9)
+  );
+  return match ?? null;
+}
+
+/**
+ * Derived numbers shown next to the sliders, to make the raw values easier to judge
+ */
+export function describeFlappyTuning(tuning: FlappyTuning) {
+  const speedAfter20 = tuning.pipeSpeed + tuning.speedRamp * 20;
+  return {
+    jumpHeight: (tuning.flapStrength * tuning.flapStrength) / (2 * tuning.gravity),
+    gapRatio: tuning.pipeGap / FLAPPY_VIEW_HEIGHT,
+    crossSeconds: FLAPPY_VIEW_WIDTH / tuning.pipeSpeed,
+    speedAfter20,
+  };
+}
@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import type { AnswerSubmittedEvent } from './quizAnalytics';
+import type {
+  GameKind,
+  GameSession,
+  ScoreRejection,
+  ScoreRejectionReason,
+  ScoreSubmissionResult,
+} from '../types/database.types';
+
+export const SCORE_REJECTIONS_PAGE_SIZE = 20;
+
+export const REJECTION_REASON_LABELS: Record<ScoreRejectionReason, string> = {
+  invalid_token: 'Unknown session token',
+  expired_token: 'Session expired',
+  token_reused: 'Token already used',
+  invalid_result: 'Malformed result',
+  answer_mismatch: 'Answers do not match the quiz',
+  score_mismatch: 'Score does not match answers',
+  implausible_duration: 'Implausible play time',
+  implausible_rate: 'Implausible score rate',
+};
+
+/**
+ * Payload of the game's QuizFinished event (sent as a JSON string)
+ */
+export interface QuizFinishedEvent {
+  score: number;
+}
+
+/**
+ * Payload of the game's FlappyFinished event (sent as a JSON string)
+ */
+export interface FlappyFinishedEvent {
+  score: number;
+  durationMs: number;
+  flaps?: number;
+}
+
+export type GameResult =
+  | { game: 'quiz'; score: number; answers: AnswerSubmittedEvent[] }
+  | { game: 'flappy'; score: number; durationMs: number; flaps?: number };
+
+export function parseFinishedEvent<T extends { score: number }>(payload: string): T | null {
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed?.score !== 'number') return null;
+    return parsed as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the server for a one-time token for this play. The token ties the
+ * result to the user, game and quiz attempt or flappy challenge it was issued for.
+ */
+export async function startGameSession(params: {
+  game: GameKind;
+  orgId: string | null;
+  quizId?: string;
+  attemptId?: string | null;
+  challengeId?: string;
+}): Promise<GameSession> {
+  const { data, error } = await supabase.rpc('start_game_session', {
+    p_game: params.game,
+    p_org_id: params.orgId,
+    p_quiz_id: params.quizId ?? null,
+    p_attempt_id: params.attemptId ?? null,
+    p_challenge_id: params.challengeId ?? null,
+  });
+
+  if (error) throw error;
+  return data as GameSession;
+}
+
+/**
+ * Submit a finished game. The server re-scores quiz answers against the
+ * attempt's stored questions and checks flappy scores against play time,
+ * then records the score and awards coins. Anything that fails a check is
+ * logged to score_rejections instead.
+ */
+export async function submitGameResult(token: string, result: GameResult): Promise<ScoreSubmissionResult> {
+  const { data, error } = await supabase.rpc('submit_game_result', {
+    p_token: token,
+    p_result: result,
+  });
+
+  if (error) throw error;
+  return data as ScoreSubmissionResult;
+}
+
+export async function fetchScoreRejections(
+  filters: { game: GameKind | ''; reason: ScoreRejectionReason | '' },
+  page: number,
+  pageSize = SCORE_REJECTIONS_PAGE_SIZE
+): Promise<{ rejections: ScoreRejection[]; total: number }> {
+  let query = supabase
+    .from('score_rejections')
+    .select('*, users(id, first_name, last_name, avatar_url)', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+
+  if (filters.game) query = query.eq('game', filters.game);
+  if (filters.reason) query = query.eq('reason', filters.reason);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { rejections: data ?? [], total: count ?? 0 };
+}
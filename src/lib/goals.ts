@@ -0,0 +1,251 @@
+import { supabase } from './supabase';
+import type { GoalMetric, GoalScope, GoalStatus, GoalTargetKind, OrgGoal } from '../types/database.types';
+
+/**
+ * How a metric is presented. Progress itself is measured on the server
+ * (goal_contributions in the goal progress migration), which must stay in
+ * step with these descriptions.
+ */
+export interface GoalMetricDefinition {
+  label: string;
+  description: string;
+  unit: string;
+  targetKind: GoalTargetKind;
+  targetRequired: boolean; // false = may count across every item of that kind in the org
+}
+
+export interface GoalTargetOption {
+  id: string;
+  label: string;
+}
+
+// Most coins a goal can pay, as org_goals allows
+export const GOAL_MAX_REWARD_COINS = 1000;
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  upcoming: 'Upcoming',
+  active: 'In Progress',
+  completed: 'Completed',
+  expired: 'Expired',
+};
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  active: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+};
+
+export const GOAL_SCOPE_LABELS: Record<GoalScope, string> = {
+  org: 'Organization',
+  shared: 'Shared',
+  competitive: 'Competitive',
+};
+
+export const GOAL_SCOPE_COLORS: Record<GoalScope, string> = {
+  org: 'bg-gray-100 text-gray-700',
+  shared: 'bg-purple-100 text-purple-800',
+  competitive: 'bg-orange-100 text-orange-800',
+};
+
+export const GOAL_TARGET_KIND_LABELS: Record<GoalTargetKind, string> = {
+  quiz: 'Quiz',
+  flappy: 'Flappy Challenge',
+  event: 'Event',
+  feedback: 'Feedback Form',
+  post: 'Post',
+};
+
+/**
+ * Every metric a goal can track. Adding a metric means adding an entry here,
+ * to GoalMetric and to goal_contributions on the server.
+ */
+export const GOAL_METRICS: Record<GoalMetric, GoalMetricDefinition> = {
+  quiz_completions: {
+    label: 'Quiz completions',
+    description: 'Members who finish the quiz',
+    unit: 'members',
+    targetKind: 'quiz',
+    targetRequired: true,
+  },
+  quiz_score: {
+    label: 'Quiz total score',
+    description: 'Points scored on the quiz by everyone combined',
+    unit: 'points',
+    targetKind: 'quiz',
+    targetRequired: true,
+  },
+  flappy_score: {
+    label: 'Flappy total score',
+    description: 'Points scored on the challenge by everyone combined',
+    unit: 'points',
+    targetKind: 'flappy',
+    targetRequired: true,
+  },
+  flappy_participants: {
+    label: 'Flappy players',
+    description: 'Members who play the challenge',
+    unit: 'members',
+    targetKind: 'flappy',
+    targetRequired: true,
+  },
+  event_attendance: {
+    label: 'Event attendance',
+    description: 'Check-ins at the event, or at any org event',
+    unit: 'check-ins',
+    targetKind: 'event',
+    targetRequired: false,
+  },
+  event_rsvps: {
+    label: 'Event RSVPs',
+    description: 'RSVPs to the event, or to any org event',
+    unit: 'RSVPs',
+    targetKind: 'event',
+    targetRequired: false,
+  },
+  feedback_submissions: {
+    label: 'Feedback submissions',
+    description: 'Responses to the form, or to any org feedback form',
+    unit: 'responses',
+    targetKind: 'feedback',
+    targetRequired: false,
+  },
+  post_engagement: {
+    label: 'Post engagement',
+    description: 'Likes and comments on the post, or on any org post',
+    unit: 'likes & comments',
+    targetKind: 'post',
+    targetRequired: false,
+  },
+};
+
+export function getGoalStatus(goal: OrgGoal, now: Date = new Date()): GoalStatus {
+  if (goal.is_completed) return 'completed';
+  if (now < new Date(goal.starts_at)) return 'upcoming';
+  if (goal.deadline && now > new Date(goal.deadline)) return 'expired';
+  return 'active';
+}
+
+// In a race an organization watches its own bar; otherwise everyone shares the goal's total
+export const goalProgressFor = (goal: OrgGoal, orgId: string) =>
+  goal.scope === 'competitive'
+    ? goal.org_goal_participants?.find((p) => p.org_id === orgId)?.current_progress ?? 0
+    : goal.current_progress;
+
+export const goalPercent = (goal: Pick<OrgGoal, 'current_progress' | 'goal_target'>) =>
+  goal.goal_target > 0 ? Math.min((goal.current_progress / goal.goal_target) * 100, 100) : 0;
+
+const GOAL_SELECT = '*, org_goal_participants(goal_id, org_id, current_progress, organizations(id, name))';
+
+// Organizations whose members count towards the goal
+export const goalOrgIds = (goal: OrgGoal) =>
+  goal.scope === 'org' && goal.org_id ? [goal.org_id] : (goal.org_goal_participants ?? []).map((p) => p.org_id);
+
+/**
+ * The organization's own goals plus any cross-organization goals it takes part in
+ */
+export async function fetchOrgGoals(orgId: string): Promise<OrgGoal[]> {
+  const { data: links, error: linksError } = await supabase
+    .from('org_goal_participants')
+    .select('goal_id')
+    .eq('org_id', orgId);
+  if (linksError) throw linksError;
+
+  const goalIds = (links ?? []).map((l) => l.goal_id);
+  const query = supabase.from('org_goals').select(GOAL_SELECT).order('created_at', { ascending: false });
+  const { data, error } = goalIds.length
+    ? await query.or(`org_id.eq.${orgId},id.in.(${goalIds.join(',')})`)
+    : await query.eq('org_id', orgId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchCrossOrgGoals(): Promise<OrgGoal[]> {
+  const { data, error } = await supabase
+    .from('org_goals')
+    .select(GOAL_SELECT)
+    .neq('scope', 'org')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+async function fetchGoal(goalId: string): Promise<OrgGoal> {
+  const { data, error } = await supabase.from('org_goals').select(GOAL_SELECT).eq('id', goalId).single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Create or update a cross-organization goal and its list of organizations.
+ * Organizations that stay on the list keep the progress they already have.
+ */
+export async function saveCrossOrgGoal(
+  values: Partial<OrgGoal>,
+  orgIds: string[],
+  goalId?: string
+): Promise<string> {
+  const { data, error } = goalId
+    ? await supabase.from('org_goals').update(values).eq('id', goalId).select('id').single()
+    : await supabase.from('org_goals').insert({ ...values, org_id: null }).select('id').single();
+  if (error) throw error;
+
+  const id = data.id as string;
+  const { error: removeError } = await supabase
+    .from('org_goal_participants')
+    .delete()
+    .eq('goal_id', id)
+    .not('org_id', 'in', `(${orgIds.join(',')})`);
+  if (removeError) throw removeError;
+
+  const { error: addError } = await supabase
+    .from('org_goal_participants')
+    .upsert(
+      orgIds.map((orgId) => ({ goal_id: id, org_id: orgId })),
+      { onConflict: 'goal_id,org_id', ignoreDuplicates: true }
+    );
+  if (addError) throw addError;
+  return id;
+}
+
+/**
+ * Items a goal of this kind can be pinned to, for the manager's picker
+ */
+export async function fetchGoalTargets(orgId: string, kind: GoalTargetKind): Promise<GoalTargetOption[]> {
+  if (kind === 'quiz') {
+    const { data, error } = await supabase.from('quizzes').select('id, title').eq('org_id', orgId).order('title');
+    if (error) throw error;
+    return (data ?? []).map((q) => ({ id: String(q.id), label: q.title }));
+  }
+  if (kind === 'flappy') {
+    const { data, error } = await supabase
+      .from('flappy_config')
+      .select('challenge_id, name')
+      .eq('org_id', orgId)
+      .order('name');
+    if (error) throw error;
+    return (data ?? []).map((c) => ({ id: c.challenge_id, label: c.name }));
+  }
+
+  let query = supabase
+    .from('posts')
+    .select('id, title')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+  if (kind !== 'post') query = query.eq('post_type', kind);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map((p) => ({ id: p.id, label: p.title }));
+}
+
+/**
+ * Have the server re-measure a goal now instead of waiting for the next
+ * activity, e.g. right after it is created. Officers only; members just read
+ * the progress the server keeps.
+ */
+export async function refreshGoalProgress(goal: OrgGoal): Promise<OrgGoal> {
+  const { error } = await supabase.rpc('refresh_goal_progress', { p_goal_id: goal.id });
+  if (error) throw error;
+  return fetchGoal(goal.id);
+}
@@ -0,0 +1,185 @@
+/**
+ * iCalendar (RFC 5545) documents for event posts.
+ *
+ * The calendar-feed edge function builds its feeds with this file too, so it
+ * stays free of browser and Vite APIs, and its imports carry the .ts
+ * extension Deno needs.
+ */
+import { markdownToPlainText } from './markdown.ts';
+import type { Posts } from '../types/database.types.ts';
+
+// Event dates and times are entered in Philippine time
+export const EVENT_TIMEZONE = 'Asia/Manila';
+
+// UTC offset of EVENT_TIMEZONE
+export const EVENT_UTC_OFFSET = '+08:00';
+
+// Asia/Manila has no daylight saving time, so a single STANDARD rule is enough
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${EVENT_TIMEZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'TZNAME:PHT',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// Content lines are limited to 75 octets, not characters
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+export type CalendarEvent = Pick<Posts, 'id' | 'title' | 'event_date' | 'start_time' | 'end_time' | 'location' | 'created_at' | 'updated_at' | 'status'> & {
+  content?: string;
+  org_name?: string | null;
+};
+
+/**
+ * Stable UID per post so calendar apps update (or cancel) the same entry
+ */
+export function getEventUid(postId: string): string {
+  return `post-${postId}@orgsync`;
+}
+
+export function getEventUrl(siteUrl: string, postId: string): string {
+  return `${siteUrl}/user/dashboard/posts/${postId}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets of UTF-8 as required by RFC 5545.
+ * Breaks only fall between characters, so multi-byte characters and
+ * surrogate pairs (emoji) are never split across lines.
+ */
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // Continuation lines start with a space, which counts towards their limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDate(eventDate: string): string {
+  return eventDate.replace(/-/g, '');
+}
+
+function formatLocalDateTime(eventDate: string, time: string): string {
+  const [hours = '00', minutes = '00', seconds = '00'] = time.split(':');
+  return `${formatLocalDate(eventDate)}T${hours.padStart(2, '0')}${minutes.padStart(2, '0')}${seconds.slice(0, 2).padStart(2, '0')}`;
+}
+
+function addDays(eventDate: string, days: number): string {
+  const date = new Date(`${eventDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether an archived event was called off rather than simply over. Archiving
+ * is how posts normally end, so only a post archived before its event started
+ * counts as cancelled; archiving stamps updated_at.
+ */
+export function isEventCancelled(event: Pick<CalendarEvent, 'status' | 'event_date' | 'start_time' | 'created_at' | 'updated_at'>): boolean {
+  if (event.status !== 'archived' || !event.event_date) return false;
+  const startsAt = new Date(`${event.event_date}T${event.start_time || '00:00'}${EVENT_UTC_OFFSET}`);
+  return new Date(event.updated_at || event.created_at) < startsAt;
+}
+
+/**
+ * Build a VEVENT for an event post.
+ * SEQUENCE follows updated_at so edits replace the existing entry, and events
+ * archived before they took place are sent as CANCELLED instead of
+ * disappearing silently.
+ */
+export function buildVEvent(event: CalendarEvent, siteUrl: string): string[] {
+  if (!event.event_date) return [];
+
+  const lastModified = new Date(event.updated_at || event.created_at);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.id)}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `LAST-MODIFIED:${formatUtc(lastModified)}`,
+    `SEQUENCE:${Math.floor(lastModified.getTime() / 1000)}`,
+  ];
+
+  if (event.start_time) {
+    lines.push(`DTSTART;TZID=${EVENT_TIMEZONE}:${formatLocalDateTime(event.event_date, event.start_time)}`);
+    // Events without an end time default to the end of the day
+    lines.push(`DTEND;TZID=${EVENT_TIMEZONE}:${formatLocalDateTime(event.event_date, event.end_time || '23:59')}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatLocalDate(event.event_date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatLocalDate(addDays(event.event_date, 1))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+
+  // Calendar apps show DESCRIPTION as plain text, so the Markdown is flattened
+  const description = [
+    event.org_name ? `Hosted by ${event.org_name}` : null,
+    event.content ? markdownToPlainText(event.content) : null,
+    getEventUrl(siteUrl, event.id),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  lines.push(`DESCRIPTION:${escapeText(description)}`);
+  lines.push(`URL:${getEventUrl(siteUrl, event.id)}`);
+
+  lines.push(`STATUS:${isEventCancelled(event) ? 'CANCELLED' : 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Build a complete iCalendar document. `siteUrl` is the web app's origin the
+ * event links point to.
+ */
+export function buildCalendar(events: CalendarEvent[], siteUrl: string, calendarName = 'OrgSync Events'): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DLSL OrgSync//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${EVENT_TIMEZONE}`,
+    ...VTIMEZONE,
+    ...events.flatMap((event) => buildVEvent(event, siteUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
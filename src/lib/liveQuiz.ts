@@ -0,0 +1,228 @@
+import { supabase } from './supabase';
+import { resolveQuizQuestions } from './questionBank';
+import type {
+  LiveQuizAnswerResult,
+  LiveQuizPlayer,
+  LiveQuizQuestion,
+  LiveQuizSession,
+  QuizData,
+  QuizQuestion,
+} from '../types/database.types';
+
+export const LIVE_QUIZ_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, so codes read cleanly off a projector
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Answer tiles are told apart by colour and letter on both the projector and phones
+export const LIVE_ANSWER_COLORS = ['bg-red-500', 'bg-blue-500', 'bg-yellow-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500'];
+
+export const answerLetter = (index: number) => String.fromCharCode(65 + index);
+
+export function generateJoinCode(): string {
+  return Array.from(
+    { length: LIVE_QUIZ_CODE_LENGTH },
+    () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+  ).join('');
+}
+
+export function normalizeJoinCode(code: string): string {
+  return code.replace(/\s/g, '').toUpperCase();
+}
+
+/**
+ * Build the link encoded in the lobby QR code, so phones open the join page directly
+ */
+export function buildLiveQuizUrl(code: string): string {
+  return `${window.location.origin}/user/dashboard/live-quiz?code=${encodeURIComponent(code)}`;
+}
+
+export function toLiveQuestion(question: QuizQuestion, defaultTimeLimit: number): LiveQuizQuestion {
+  return {
+    questionText: question.questionText,
+    answers: question.answers.map((a) => a.answerText),
+    type: question.type ?? 'multiple_choice',
+    imageUrl: question.imageUrl ?? null,
+    timeLimitInSeconds: question.timeLimitInSeconds || defaultTimeLimit,
+  };
+}
+
+export function getCorrectIndexes(question: QuizQuestion): number[] {
+  return question.answers.flatMap((a, i) => (a.isCorrect ? [i] : []));
+}
+
+export function getSecondsLeft(session: Pick<LiveQuizSession, 'current_question' | 'question_started_at'>): number {
+  if (!session.current_question || !session.question_started_at) return 0;
+  const endsAt = new Date(session.question_started_at).getTime() + session.current_question.timeLimitInSeconds * 1000;
+  return Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+}
+
+/**
+ * Open a lobby for a quiz. Questions are drawn and shuffled once, so every
+ * player gets the same questions in the same order. The host keeps the full
+ * questions; the session row players subscribe to only ever carries
+ * `current_question`, and the answer key goes to live_quiz_answer_keys, which
+ * only the host and the scoring RPC can read.
+ */
+export async function createLiveSession(
+  quizId: string,
+  orgId: string,
+  hostId: string,
+  data: QuizData
+): Promise<{ session: LiveQuizSession; questions: QuizQuestion[] }> {
+  const { questions } = await resolveQuizQuestions(orgId, data);
+  if (questions.length === 0) throw new Error('This quiz has no questions to play.');
+
+  // Retry on the rare join code collision with another open session
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: session, error } = await supabase
+      .from('live_quiz_sessions')
+      .insert({
+        quiz_id: quizId,
+        org_id: orgId,
+        host_id: hostId,
+        join_code: generateJoinCode(),
+        status: 'lobby',
+        current_index: -1,
+        question_count: questions.length,
+        points_per_question: data.pointsAddedForCorrectAnswer,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') continue;
+      throw error;
+    }
+
+    const { error: keyError } = await supabase.from('live_quiz_answer_keys').insert(
+      questions.map((question, index) => ({
+        session_id: session.id,
+        question_index: index,
+        correct_indexes: getCorrectIndexes(question),
+      }))
+    );
+    if (keyError) throw keyError;
+    return { session: session as LiveQuizSession, questions };
+  }
+  throw new Error('Could not generate a unique join code. Please try again.');
+}
+
+/**
+ * Open question `index` for everyone in the session. Answers are timed from
+ * `question_started_at`, which the server sets.
+ */
+export async function showLiveQuestion(
+  sessionId: string,
+  index: number,
+  question: QuizQuestion,
+  defaultTimeLimit: number
+): Promise<LiveQuizSession> {
+  const { data, error } = await supabase.rpc('show_live_quiz_question', {
+    p_session_id: sessionId,
+    p_index: index,
+    p_question: toLiveQuestion(question, defaultTimeLimit),
+  });
+  if (error) throw error;
+  return data as LiveQuizSession;
+}
+
+export async function revealLiveAnswer(sessionId: string, question: QuizQuestion): Promise<void> {
+  const { error } = await supabase
+    .from('live_quiz_sessions')
+    .update({ status: 'reveal', revealed_answers: getCorrectIndexes(question) })
+    .eq('id', sessionId);
+  if (error) throw error;
+}
+
+export async function endLiveSession(sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('live_quiz_sessions')
+    .update({ status: 'finished', current_question: null, ended_at: new Date().toISOString() })
+    .eq('id', sessionId);
+  if (error) throw error;
+}
+
+/**
+ * Join an open session by its code. Joining again (e.g. after a refresh) keeps the existing score.
+ */
+export async function joinLiveSession(code: string, userId: string): Promise<LiveQuizSession> {
+  const { data: session, error } = await supabase
+    .from('live_quiz_sessions')
+    .select('*')
+    .eq('join_code', normalizeJoinCode(code))
+    .neq('status', 'finished')
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) throw new Error('No live quiz is running with that code.');
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('first_name, last_name')
+    .eq('id', userId)
+    .single();
+  const username = profile ? `${profile.first_name} ${profile.last_name}`.trim() : 'Player';
+
+  const { error: joinError } = await supabase
+    .from('live_quiz_players')
+    .upsert(
+      { session_id: session.id, user_id: userId, username },
+      { onConflict: 'session_id,user_id', ignoreDuplicates: true }
+    );
+  if (joinError) throw joinError;
+
+  return session as LiveQuizSession;
+}
+
+/**
+ * Submit an answer to the open question. The server checks the question is
+ * still open, scores it against the stored answer key and awards a speed bonus.
+ */
+export async function submitLiveAnswer(
+  sessionId: string,
+  questionIndex: number,
+  selectedIndexes: number[]
+): Promise<LiveQuizAnswerResult> {
+  const { data, error } = await supabase.rpc('submit_live_quiz_answer', {
+    p_session_id: sessionId,
+    p_question_index: questionIndex,
+    p_selected_indexes: selectedIndexes,
+  });
+  if (error) throw error;
+  return data as LiveQuizAnswerResult;
+}
+
+export async function fetchLivePlayers(sessionId: string): Promise<LiveQuizPlayer[]> {
+  const { data, error } = await supabase
+    .from('live_quiz_players')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('score', { ascending: false })
+    .order('joined_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * How many players answered one question and how many picked each answer, for the host screen
+ */
+export async function fetchAnswerCounts(
+  sessionId: string,
+  questionIndex: number,
+  answerCount: number
+): Promise<{ answered: number; counts: number[] }> {
+  const { data, error } = await supabase
+    .from('live_quiz_answers')
+    .select('selected_indexes')
+    .eq('session_id', sessionId)
+    .eq('question_index', questionIndex);
+  if (error) throw error;
+
+  const counts = Array.from({ length: answerCount }, () => 0);
+  data?.forEach((row) => {
+    (row.selected_indexes as number[]).forEach((i) => {
+      if (i >= 0 && i < answerCount) counts[i]++;
+    });
+  });
+  return { answered: data?.length ?? 0, counts };
+}
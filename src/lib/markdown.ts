@@ -0,0 +1,258 @@
+/**
+ * A small Markdown dialect for post content: headings, bold, italic, inline
+ * code, bulleted and numbered lists, quotes, links and inline images.
+ *
+ * Content is parsed into plain data and rendered as React elements, never as
+ * HTML, so raw tags in a post show up as text. Links and images only keep
+ * URLs that pass safeUrl; anything else falls back to the literal source.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+
+// Link/image, bold, italic, code. Underscore emphasis must not touch a word
+// character on the outside so snake_case names stay intact.
+const INLINE_TOKEN =
+  /(!?)\[([^\]]*)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|`([^`]+)`/;
+
+/**
+ * Only http(s) and mailto links, or paths inside the app. Images must be http(s).
+ */
+export function safeUrl(url: string, kind: 'link' | 'image' = 'link'): string | null {
+  const trimmed = url.trim();
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (kind === 'image') return null;
+  if (/^mailto:/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith('/') && !trimmed.startsWith('//')) return trimmed;
+  return null;
+}
+
+function pushText(nodes: MarkdownInline[], text: string) {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+}
+
+function toInline(match: RegExpExecArray): MarkdownInline {
+  const [source, bang, label, url, strongStars, strongUnderscores, emStars, emUnderscores, code] = match;
+
+  if (url !== undefined) {
+    const isImage = bang === '!';
+    const safe = safeUrl(url, isImage ? 'image' : 'link');
+    if (!safe) return { type: 'text', text: source };
+    return isImage
+      ? { type: 'image', src: safe, alt: label }
+      : { type: 'link', href: safe, children: parseInline(label) };
+  }
+  if (strongStars !== undefined || strongUnderscores !== undefined) {
+    return { type: 'strong', children: parseInline(strongStars ?? strongUnderscores) };
+  }
+  if (emStars !== undefined || emUnderscores !== undefined) {
+    return { type: 'em', children: parseInline(emStars ?? emUnderscores) };
+  }
+  return { type: 'code', text: code };
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE_TOKEN.exec(rest);
+    if (!match) {
+      pushText(nodes, rest);
+      break;
+    }
+    if (match.index > 0) pushText(nodes, rest.slice(0, match.index));
+    const node = toInline(match);
+    if (node.type === 'text') pushText(nodes, node.text);
+    else nodes.push(node);
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return nodes;
+}
+
+// Lines of one paragraph or quote keep their line breaks
+const joinLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, i) => (i === 0 ? parseInline(line) : [{ type: 'break' as const }, ...parseInline(line)]));
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2].trim()) });
+      i++;
+      continue;
+    }
+
+    const itemPattern = BULLET_ITEM.test(line) ? BULLET_ITEM : NUMBERED_ITEM.test(line) ? NUMBERED_ITEM : null;
+    if (itemPattern) {
+      const items: MarkdownInline[][] = [];
+      let item: RegExpExecArray | null;
+      while (i < lines.length && (item = itemPattern.exec(lines[i]))) {
+        items.push(parseInline(item[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: itemPattern === NUMBERED_ITEM, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: joinLines(quoted) });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !HEADING.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !NUMBERED_ITEM.test(lines[i]) &&
+      !QUOTE.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: joinLines(paragraph) });
+  }
+
+  return blocks;
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'image':
+          return node.alt;
+        case 'break':
+          return ' ';
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+const blockText = (block: MarkdownBlock) =>
+  block.type === 'list' ? block.items.map(inlineText).join(' ') : inlineText(block.children);
+
+/**
+ * The content with all formatting removed, for search, notifications and
+ * one-line previews
+ */
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .map(blockText)
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function markdownExcerpt(source: string, maxLength: number): string {
+  const text = markdownToPlainText(source);
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+interface TruncateBudget {
+  left: number;
+  truncated: boolean;
+}
+
+function truncateInline(nodes: MarkdownInline[], budget: TruncateBudget): MarkdownInline[] {
+  const kept: MarkdownInline[] = [];
+  for (const node of nodes) {
+    if (budget.left <= 0) {
+      budget.truncated = true;
+      break;
+    }
+    if (node.type === 'text' || node.type === 'code') {
+      if (node.text.length > budget.left) {
+        kept.push({ ...node, text: `${node.text.slice(0, budget.left).trimEnd()}…` });
+        budget.truncated = true;
+      } else {
+        kept.push(node);
+      }
+      budget.left -= node.text.length;
+    } else if (node.type === 'image' || node.type === 'break') {
+      kept.push(node);
+    } else {
+      kept.push({ ...node, children: truncateInline(node.children, budget) });
+    }
+  }
+  return kept;
+}
+
+/**
+ * Keep the formatting but stop after roughly maxChars characters of text,
+ * for previews in the feed
+ */
+export function truncateMarkdown(
+  blocks: MarkdownBlock[],
+  maxChars: number
+): { blocks: MarkdownBlock[]; truncated: boolean } {
+  const budget: TruncateBudget = { left: maxChars, truncated: false };
+  const kept: MarkdownBlock[] = [];
+  for (const block of blocks) {
+    if (budget.left <= 0) {
+      budget.truncated = true;
+      break;
+    }
+    if (block.type === 'list') {
+      const items: MarkdownInline[][] = [];
+      for (const item of block.items) {
+        if (budget.left <= 0) {
+          budget.truncated = true;
+          break;
+        }
+        items.push(truncateInline(item, budget));
+      }
+      kept.push({ ...block, items });
+    } else {
+      kept.push({ ...block, children: truncateInline(block.children, budget) });
+    }
+  }
+  return { blocks: kept, truncated: budget.truncated };
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { markdownExcerpt } from './markdown';
 
 export interface NotificationData {
   user_id: string;
@@ -8,6 +9,16 @@ export interface NotificationData {
   post_id?: string;
 }
 
+/**
+ * "New post" message, with a plain-text excerpt of the body so Markdown
+ * never shows up raw in the inbox. Poll and form posts store JSON, so pass
+ * content only for general and event posts.
+ */
+export function newPostMessage(orgName: string, title: string, content?: string): string {
+  const excerpt = content ? markdownExcerpt(content, 80) : '';
+  return `New post published from ${orgName}: ${title}${excerpt ? ` — ${excerpt}` : ''}`;
+}
+
 export async function sendNotificationsToOrgMembers(orgId: string, message: string, postId?: string, orgName?: string): Promise<void> {
   try {
     // Fetch all members of the organization
@@ -48,4 +59,48 @@ export async function sendNotificationsToOrgMembers(orgId: string, message: stri
   } catch (error) {
     console.error('Error sending notifications:', error);
   }
-}
\ No newline at end of file
+}
+
+export async function sendNotificationsToUsers(userIds: string[], message: string, postId?: string): Promise<void> {
+  try {
+    const uniqueIds = Array.from(new Set(userIds));
+    if (uniqueIds.length === 0) return;
+
+    const notifications: NotificationData[] = uniqueIds.map(userId => ({
+      user_id: userId,
+      message,
+      read: false,
+      date_sent: new Date().toISOString(),
+      post_id: postId,
+    }));
+
+    const { error } = await supabase
+      .from('notifications')
+      .insert(notifications);
+
+    if (error) {
+      console.error('Error inserting notifications:', error);
+    }
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+  }
+}
+
+export async function sendNotificationsToOrgManagers(orgId: string, message: string, postId?: string): Promise<void> {
+  try {
+    // Officers and advisers of the organization
+    const { data: managers, error } = await supabase
+      .from('org_managers')
+      .select('user_id')
+      .eq('org_id', orgId);
+
+    if (error) {
+      console.error('Error fetching org managers:', error);
+      return;
+    }
+
+    await sendNotificationsToUsers((managers || []).map(m => m.user_id), message, postId);
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+  }
+}
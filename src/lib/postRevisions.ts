@@ -0,0 +1,223 @@
+import { supabase } from './supabase';
+import type { MediaItem, Posts, PostRevision, PostRevisionSnapshot } from '../types/database.types';
+
+type RevisionField = keyof PostRevisionSnapshot;
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  content: 'Content',
+  tags: 'Tags',
+  status: 'Status',
+  visibility: 'Visibility',
+  post_type: 'Post type',
+  media: 'Media',
+  game_route: 'Game link',
+  event_date: 'Event date',
+  start_time: 'Start time',
+  end_time: 'End time',
+  location: 'Location',
+  publish_at: 'Publish at',
+  expires_at: 'Expires at',
+  capacity: 'Capacity',
+};
+
+const REVISION_FIELDS = Object.keys(REVISION_FIELD_LABELS) as RevisionField[];
+
+// What a restore puts back. Status, visibility, scheduling and capacity have side
+// effects (announcements, the waitlist) that only EditPostModal runs, so they stay
+// as they are now.
+const RESTORABLE_FIELDS: RevisionField[] = [
+  'title',
+  'content',
+  'tags',
+  'media',
+  'game_route',
+  'event_date',
+  'start_time',
+  'end_time',
+  'location',
+];
+
+const GAME_LABELS: Record<string, string> = {
+  '/user/dashboard/quiz-selection': 'Quiz Game',
+  '/user/dashboard/room-game': 'Room Game',
+};
+
+const REVISION_SELECT = `
+  *,
+  users (id, first_name, last_name, avatar_url)
+`;
+
+export interface RevisionChange {
+  field: RevisionField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export function snapshotPost(post: Partial<Posts>): PostRevisionSnapshot {
+  return Object.fromEntries(REVISION_FIELDS.map((field) => [field, post[field] ?? null])) as PostRevisionSnapshot;
+}
+
+/**
+ * A post counts as edited once updated_at moves past created_at; only edits bump it
+ */
+export function isPostEdited(post: Pick<Posts, 'created_at' | 'updated_at'>): boolean {
+  return !!post.updated_at && post.updated_at !== post.created_at;
+}
+
+// The database returns times as HH:MM:SS and timestamps with an offset, while the
+// forms send HH:MM and UTC ISO strings, so compare the values rather than the text
+function comparable(field: RevisionField, value: unknown): string {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return '';
+  if (field === 'start_time' || field === 'end_time') return String(value).slice(0, 5);
+  if (field === 'publish_at' || field === 'expires_at') return String(new Date(value as string).getTime());
+  if (field === 'media') return (value as MediaItem[]).map((item) => item.url).join('\n');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function formatRevisionValue(field: RevisionField, value: unknown): string {
+  if (!comparable(field, value)) return '';
+
+  switch (field) {
+    case 'tags':
+      return (value as string[]).join(', ');
+    case 'media':
+      return (value as MediaItem[]).map((item) => item.filename).join(', ');
+    case 'game_route':
+      return GAME_LABELS[value as string] ?? String(value);
+    case 'event_date':
+      return new Date(`${value}T00:00`).toLocaleDateString('en-US', {
+        weekday: 'short',
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      });
+    case 'start_time':
+    case 'end_time':
+      return new Date(`1970-01-01T${String(value).slice(0, 5)}`).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+    case 'publish_at':
+    case 'expires_at':
+      return new Date(value as string).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * The fields that differ between two versions of a post, in form order
+ */
+export function diffSnapshots(older: PostRevisionSnapshot, newer: PostRevisionSnapshot): RevisionChange[] {
+  return REVISION_FIELDS.filter((field) => comparable(field, older[field]) !== comparable(field, newer[field])).map(
+    (field) => ({
+      field,
+      label: REVISION_FIELD_LABELS[field],
+      before: formatRevisionValue(field, older[field]),
+      after: formatRevisionValue(field, newer[field]),
+    })
+  );
+}
+
+export async function fetchPostRevisions(postId: string): Promise<PostRevision[]> {
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .select(REVISION_SELECT)
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as PostRevision[];
+}
+
+async function recordPostRevision(
+  before: Posts,
+  after: PostRevisionSnapshot,
+  editedBy: string,
+  restoredFrom: string | null
+): Promise<void> {
+  const { count, error: countError } = await supabase
+    .from('post_revisions')
+    .select('id', { count: 'exact', head: true })
+    .eq('post_id', before.id);
+  if (countError) throw countError;
+
+  // Posts from before revisions were kept start their history with the version
+  // that was live, so the first recorded edit still has something to diff against
+  if (!count) {
+    const { error } = await supabase.from('post_revisions').insert({
+      post_id: before.id,
+      edited_by: before.user_id,
+      snapshot: snapshotPost(before),
+      created_at: before.updated_at ?? before.created_at,
+    });
+    if (error) throw error;
+  }
+
+  const { error } = await supabase.from('post_revisions').insert({
+    post_id: before.id,
+    edited_by: editedBy,
+    snapshot: after,
+    restored_from: restoredFrom,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Update a post and save the new version to its revision history.
+ * The current row is read first because callers often hold a partial post.
+ * Returns false when the update changed none of the tracked fields.
+ */
+export async function savePostEdit(
+  postId: string,
+  updates: Partial<Posts>,
+  editedBy: string,
+  restoredFrom: string | null = null
+): Promise<boolean> {
+  const { data: current, error: fetchError } = await supabase
+    .from('posts')
+    .select(`id, user_id, created_at, updated_at, ${REVISION_FIELDS.join(', ')}`)
+    .eq('id', postId)
+    .single();
+  if (fetchError) throw fetchError;
+
+  const before = current as unknown as Posts;
+  const after = snapshotPost({ ...before, ...updates });
+  const changed = diffSnapshots(snapshotPost(before), after).length > 0;
+
+  const { error } = await supabase
+    .from('posts')
+    .update(changed ? updates : { ...updates, updated_at: before.updated_at })
+    .eq('id', postId);
+  if (error) throw error;
+
+  if (changed) {
+    // The edit itself went through; a missing revision should not undo it
+    try {
+      await recordPostRevision(before, after, editedBy, restoredFrom);
+    } catch (revisionError) {
+      console.error('Error saving post revision:', revisionError);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Put an older version's content back. The restore is itself recorded as a new revision.
+ */
+export async function restorePostRevision(revision: PostRevision, restoredBy: string): Promise<boolean> {
+  const content = Object.fromEntries(
+    RESTORABLE_FIELDS.map((field) => [field, revision.snapshot[field] ?? null])
+  ) as Partial<Posts>;
+
+  return savePostEdit(revision.post_id, { ...content, updated_at: new Date().toISOString() }, restoredBy, revision.id);
+}
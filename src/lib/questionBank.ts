@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import type {
+  QuestionBankItem,
+  QuestionDifficulty,
+  QuizData,
+  QuizDrawRule,
+  QuizQuestion,
+} from '../types/database.types';
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800',
+};
+
+export async function fetchQuestionBank(orgId: string): Promise<QuestionBankItem[]> {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+function matchingQuestionsQuery(orgId: string, rule: Omit<QuizDrawRule, 'count'>, countOnly = false) {
+  let query = supabase
+    .from('question_bank')
+    .select('id, question', countOnly ? { count: 'exact', head: true } : undefined)
+    .eq('org_id', orgId);
+  if (rule.tags.length > 0) query = query.overlaps('tags', rule.tags);
+  if (rule.difficulty) query = query.eq('difficulty', rule.difficulty);
+  return query;
+}
+
+/**
+ * How many bank questions a draw rule can currently pick from
+ */
+export async function countDrawPool(orgId: string, rule: Omit<QuizDrawRule, 'count'>): Promise<number> {
+  const { count, error } = await matchingQuestionsQuery(orgId, rule, true);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Client-side twin of the draw query, for showing how many questions a rule can pick from
+ */
+export function matchesDrawRule(item: QuestionBankItem, rule: Omit<QuizDrawRule, 'count'>): boolean {
+  if (rule.tags.length > 0 && !item.tags.some((tag) => rule.tags.includes(tag))) return false;
+  if (rule.difficulty && item.difficulty !== rule.difficulty) return false;
+  return true;
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function shuffleAnswers(question: QuizQuestion): QuizQuestion {
+  // True/False reads oddly the other way round
+  if (question.type === 'true_false') return question;
+  return { ...question, answers: shuffle(question.answers) };
+}
+
+/**
+ * Pick the questions for one run of a quiz hosted from the browser: draw from
+ * the bank if the quiz uses a draw rule and shuffle if asked. Player attempts
+ * go through prepareQuizAttempt, which does the same on the server.
+ * `bankQuestionIds` lines up with `questions` when they were drawn.
+ */
+export async function resolveQuizQuestions(
+  orgId: string | null,
+  data: QuizData
+): Promise<{ questions: QuizQuestion[]; bankQuestionIds: string[] | null }> {
+  if (data.draw) {
+    // A draw quiz keeps no questions of its own, so there is nothing to fall back on
+    if (!orgId) throw new Error('This quiz draws from a question bank but belongs to no organization.');
+
+    const { data: pool, error } = await matchingQuestionsQuery(orgId, data.draw);
+    if (error) throw error;
+    // Throw rather than run a short quiz when the bank no longer has enough matching questions
+    if ((pool?.length ?? 0) < data.draw.count) {
+      throw new Error(
+        `This quiz draws ${data.draw.count} questions but only ${pool?.length ?? 0} in the bank match. Ask an officer to update it.`
+      );
+    }
+    // Shuffling the pool both picks the questions and orders them
+    const drawn = shuffle(pool ?? []).slice(0, data.draw.count);
+    return {
+      questions: drawn.map((item) => shuffleAnswers(item.question as QuizQuestion)),
+      bankQuestionIds: drawn.map((item) => item.id),
+    };
+  }
+  if (data.shuffle) {
+    return { questions: shuffle(data.questions).map(shuffleAnswers), bankQuestionIds: null };
+  }
+  return { questions: data.questions, bankQuestionIds: null };
+}
+
+/**
+ * Start one play of a quiz. The server draws from the bank if the quiz uses a
+ * draw rule, shuffles if asked, and records what the player got.
+ * `changed` is false when the quiz data can be sent to the game untouched.
+ */
+export async function prepareQuizAttempt(
+  quizId: string
+): Promise<{ data: QuizData; attemptId: string; bankQuestionIds: string[] | null; changed: boolean }> {
+  const { data, error } = await supabase.rpc('start_quiz_attempt', { p_quiz_id: quizId });
+  if (error) throw error;
+  return {
+    data: data.data as QuizData,
+    attemptId: data.attempt_id,
+    bankQuestionIds: data.bank_question_ids ?? null,
+    changed: !!data.changed,
+  };
+}
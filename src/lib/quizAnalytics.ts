@@ -0,0 +1,166 @@
+import { supabase } from './supabase';
+import { scoreQuestion } from './quizSchema';
+import type { QuizData, QuizQuestion } from '../types/database.types';
+
+/**
+ * Payload of the game's AnswerSubmitted event (sent as a JSON string)
+ */
+export interface AnswerSubmittedEvent {
+  questionIndex: number;
+  selectedIndexes: number[];
+  timeMs?: number;
+}
+
+export interface QuizAttemptContext {
+  attemptId: string | null;
+  quizId: string;
+  orgId: string | null;
+  userId: string;
+  data: QuizData; // the questions exactly as sent to the game
+  bankQuestionIds: string[] | null;
+}
+
+export interface AnswerOptionStats {
+  answerText: string;
+  isCorrect: boolean;
+  count: number;
+}
+
+export interface QuestionStats {
+  questionText: string;
+  responses: number;
+  correctRate: number; // 0..1
+  avgTimeMs: number | null;
+  answers: AnswerOptionStats[];
+}
+
+export interface ScoreBucket {
+  label: string;
+  count: number;
+}
+
+export interface QuizAnalytics {
+  totalResponses: number;
+  questions: QuestionStats[];
+  scoreBuckets: ScoreBucket[];
+}
+
+export function parseAnswerEvent(payload: string): AnswerSubmittedEvent | null {
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed?.questionIndex !== 'number' || !Array.isArray(parsed?.selectedIndexes)) return null;
+    return parsed as AnswerSubmittedEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score and store one answer reported by the game. Correctness is worked out
+ * here from the attempt's questions rather than trusted from the game.
+ */
+export async function recordQuizAnswer(context: QuizAttemptContext, event: AnswerSubmittedEvent): Promise<void> {
+  const question = context.data.questions[event.questionIndex];
+  if (!question) {
+    console.warn('Answer reported for unknown question index:', event.questionIndex);
+    return;
+  }
+
+  const points = scoreQuestion(question, event.selectedIndexes, context.data.pointsAddedForCorrectAnswer);
+  const fullPoints = question.points ?? context.data.pointsAddedForCorrectAnswer;
+
+  const { error } = await supabase.from('quiz_answers').insert({
+    attempt_id: context.attemptId,
+    quiz_id: context.quizId,
+    org_id: context.orgId,
+    user_id: context.userId,
+    question_index: event.questionIndex,
+    question_text: question.questionText,
+    bank_question_id: context.bankQuestionIds?.[event.questionIndex] ?? null,
+    selected_answers: event.selectedIndexes
+      .map((i) => question.answers[i]?.answerText)
+      .filter((text): text is string => text !== undefined),
+    is_correct: points === fullPoints,
+    points,
+    time_ms: typeof event.timeMs === 'number' ? Math.round(event.timeMs) : null,
+  });
+
+  if (error) console.error('Error recording quiz answer:', error);
+}
+
+// Shape of the quiz_analytics RPC result
+interface QuizAnalyticsSummary {
+  total_responses: number;
+  questions: {
+    question_text: string;
+    responses: number;
+    correct: number;
+    avg_time_ms: number | null;
+    bank_question_id: string | null;
+    answer_counts: Record<string, number>;
+  }[];
+  scores: { score: number; count: number }[];
+}
+
+function bucketScores(scores: { score: number; count: number }[], bucketCount = 5): ScoreBucket[] {
+  if (scores.length === 0) return [];
+  const max = Math.max(...scores.map((s) => s.score));
+  const size = Math.max(1, Math.ceil((max + 1) / bucketCount));
+  const buckets: ScoreBucket[] = Array.from({ length: Math.ceil((max + 1) / size) }, (_, i) => ({
+    label: `${i * size}–${(i + 1) * size - 1}`,
+    count: 0,
+  }));
+  scores.forEach(({ score, count }) => {
+    buckets[Math.min(buckets.length - 1, Math.floor(Math.max(0, score) / size))].count += count;
+  });
+  return buckets;
+}
+
+/**
+ * Per-question correct rate, answer time and answer spread for one quiz,
+ * plus the distribution of total scores. The quiz_analytics RPC does the
+ * counting, keying questions by text so shuffled and bank-drawn attempts roll
+ * up together; this only matches the counts back to the source questions.
+ */
+export async function fetchQuizAnalytics(quizId: string, orgId: string, data: QuizData | null): Promise<QuizAnalytics> {
+  const { data: summaryData, error } = await supabase.rpc('quiz_analytics', { p_quiz_id: quizId, p_org_id: orgId });
+  if (error) throw error;
+  const summary = summaryData as QuizAnalyticsSummary;
+
+  // Look up the source questions to list every option, including ones nobody picked
+  const sourceQuestions = new Map<string, QuizQuestion>();
+  data?.questions.forEach((q) => sourceQuestions.set(q.questionText, q));
+  const bankIds = summary.questions.map((q) => q.bank_question_id).filter((id): id is string => !!id);
+  if (bankIds.length > 0) {
+    const { data: bankRows } = await supabase.from('question_bank').select('question').in('id', bankIds);
+    bankRows?.forEach((row) => {
+      const question = row.question as QuizQuestion;
+      sourceQuestions.set(question.questionText, question);
+    });
+  }
+
+  const questions: QuestionStats[] = summary.questions.map((row) => {
+    const counts = row.answer_counts;
+    const source = sourceQuestions.get(row.question_text);
+    const options: AnswerOptionStats[] = source
+      ? source.answers.map((a) => ({ answerText: a.answerText, isCorrect: a.isCorrect, count: counts[a.answerText] ?? 0 }))
+      : Object.entries(counts).map(([answerText, count]) => ({ answerText, isCorrect: false, count }));
+
+    return {
+      questionText: row.question_text,
+      responses: row.responses,
+      correctRate: row.correct / row.responses,
+      avgTimeMs: row.avg_time_ms,
+      answers: options,
+    };
+  });
+
+  // Most-missed questions first
+  questions.sort((a, b) => a.correctRate - b.correctRate);
+
+  return {
+    totalResponses: summary.total_responses,
+    questions,
+    scoreBuckets: bucketScores(summary.scores),
+  };
+}
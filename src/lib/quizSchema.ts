@@ -0,0 +1,153 @@
+import type { QuizAnswer, QuizData, QuizQuestion, QuizQuestionType } from '../types/database.types';
+
+export const QUIZ_SCHEMA_VERSION = 2;
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True / False',
+  multiple_select: 'Multiple Select',
+};
+
+export function getQuizSchemaVersion(data: Partial<QuizData> | null | undefined): number {
+  return data?.schemaVersion ?? 1;
+}
+
+export function trueFalseAnswers(correct: boolean = true): QuizAnswer[] {
+  return [
+    { answerText: 'True', isCorrect: correct },
+    { answerText: 'False', isCorrect: !correct },
+  ];
+}
+
+export function createQuestion(type: QuizQuestionType = 'multiple_choice'): QuizQuestion {
+  return {
+    questionText: '',
+    type,
+    answers: type === 'true_false' ? trueFalseAnswers() : [{ answerText: '', isCorrect: false }],
+    imageUrl: null,
+    timeLimitInSeconds: null,
+    points: null,
+    partialCredit: type === 'multiple_select',
+    explanation: null,
+  };
+}
+
+/**
+ * Fill in version 2 defaults so older questions can be edited
+ */
+export function normalizeQuestion(question: QuizQuestion): QuizQuestion {
+  return {
+    ...question,
+    type: question.type ?? 'multiple_choice',
+    imageUrl: question.imageUrl ?? null,
+    timeLimitInSeconds: question.timeLimitInSeconds ?? null,
+    points: question.points ?? null,
+    partialCredit: question.partialCredit ?? false,
+    explanation: question.explanation ?? null,
+    answers: question.answers.map((a) => ({ ...a })),
+  };
+}
+
+/**
+ * Build the versioned quiz JSON, dropping empty optional fields
+ */
+export function buildQuizData(
+  timeLimitInSeconds: number,
+  pointsAddedForCorrectAnswer: number,
+  questions: QuizQuestion[],
+  options: Pick<QuizData, 'draw' | 'shuffle'> = {}
+): QuizData {
+  return {
+    schemaVersion: QUIZ_SCHEMA_VERSION,
+    timeLimitInSeconds,
+    pointsAddedForCorrectAnswer,
+    ...(options.draw ? { draw: options.draw } : {}),
+    ...(options.shuffle ? { shuffle: true } : {}),
+    questions: questions.map((q) => ({
+      questionText: q.questionText.trim(),
+      answers: q.answers.map((a) => ({ answerText: a.answerText.trim(), isCorrect: a.isCorrect })),
+      type: q.type ?? 'multiple_choice',
+      ...(q.imageUrl ? { imageUrl: q.imageUrl } : {}),
+      ...(q.timeLimitInSeconds ? { timeLimitInSeconds: q.timeLimitInSeconds } : {}),
+      ...(q.points ? { points: q.points } : {}),
+      ...(q.type === 'multiple_select' ? { partialCredit: !!q.partialCredit } : {}),
+      ...(q.explanation?.trim() ? { explanation: q.explanation.trim() } : {}),
+    })),
+  };
+}
+
+/**
+ * Check a single question. `label` prefixes each error, e.g. "Question 3" or "Row 4".
+ */
+export function validateQuestion(q: QuizQuestion, label: string): string[] {
+  const errs: string[] = [];
+  const type = q.type ?? 'multiple_choice';
+  const correctCount = q.answers.filter((a) => a.isCorrect).length;
+
+  if (!q.questionText.trim()) errs.push(`${label} cannot be empty.`);
+  if (!QUESTION_TYPE_LABELS[type]) errs.push(`${label} has an unknown type "${type}".`);
+  if (q.answers.length < 2) errs.push(`${label} must have at least 2 answers.`);
+
+  if (type === 'true_false') {
+    if (q.answers.length !== 2 || correctCount !== 1)
+      errs.push(`${label} must have exactly one of True or False marked correct.`);
+  } else if (correctCount === 0) {
+    errs.push(`${label} must have at least 1 correct answer.`);
+  }
+
+  q.answers.forEach((a, ai) => {
+    if (!a.answerText.trim()) errs.push(`Answer ${ai + 1} in ${label} cannot be empty.`);
+  });
+
+  if (q.timeLimitInSeconds != null && !(q.timeLimitInSeconds > 0))
+    errs.push(`${label} time limit must be greater than 0.`);
+  if (q.points != null && !(q.points > 0))
+    errs.push(`${label} points must be greater than 0.`);
+
+  return errs;
+}
+
+/**
+ * Check a quiz before it is saved. Returns a list of human-readable errors.
+ */
+export function validateQuiz(title: string, data: QuizData): string[] {
+  const errs: string[] = [];
+  if (!title.trim()) errs.push('Quiz name is required.');
+  if (!(data.timeLimitInSeconds > 0)) errs.push('Time limit must be greater than 0.');
+  if (!(data.pointsAddedForCorrectAnswer > 0)) errs.push('Points must be greater than 0.');
+  if (data.draw) {
+    if (!Number.isInteger(data.draw.count) || data.draw.count < 1)
+      errs.push('Number of questions to draw must be at least 1.');
+  } else if (data.questions.length === 0) {
+    errs.push('At least one question is required.');
+  }
+
+  data.questions.forEach((q, qi) => {
+    errs.push(...validateQuestion(q, `Question ${qi + 1}`));
+  });
+
+  return errs;
+}
+
+/**
+ * Points earned for one answered question. Multiple-select questions with
+ * partial credit score the share of correct picks, less one share per wrong pick.
+ */
+export function scoreQuestion(question: QuizQuestion, selected: number[], defaultPoints: number): number {
+  const points = question.points ?? defaultPoints;
+  const correct = question.answers
+    .map((a, i) => (a.isCorrect ? i : -1))
+    .filter((i) => i >= 0);
+
+  const hits = selected.filter((i) => correct.includes(i)).length;
+  const misses = selected.length - hits;
+
+  if (question.type === 'multiple_select' && question.partialCredit) {
+    const share = Math.max(0, hits - misses) / correct.length;
+    return Math.round(points * share);
+  }
+  if (question.type === 'multiple_select') {
+    return hits === correct.length && misses === 0 ? points : 0;
+  }
+  return selected.length === 1 && hits === 1 ? points : 0;
+}
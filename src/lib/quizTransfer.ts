@@ -0,0 +1,244 @@
+import { QUESTION_TYPE_LABELS, buildQuizData, normalizeQuestion, trueFalseAnswers, validateQuestion } from './quizSchema';
+import type { QuizData, QuizQuestion, QuizQuestionType } from '../types/database.types';
+
+// Export/import format for sharing quizzes between organizations.
+// JSON files hold { title, data }; CSV files hold one question per row.
+
+export interface QuizExport {
+  title: string;
+  data: QuizData;
+}
+
+export interface QuizImportResult {
+  title: string;
+  data: QuizData;
+  errors: string[]; // row/question-level errors, same wording as validateQuiz
+}
+
+const DEFAULT_TIME_LIMIT = 30;
+const DEFAULT_POINTS = 10;
+
+const CSV_COLUMNS = ['question', 'type', 'correct', 'time_limit', 'points', 'partial_credit', 'explanation', 'image_url'];
+
+function slugify(title: string): string {
+  return title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz';
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+function escapeCsv(value: string | number | boolean | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing commas,
+ * doubled quotes and line breaks, as written by Excel and Google Sheets.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines (a trailing newline or empty spreadsheet rows)
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+export function exportQuizJson(title: string, data: QuizData) {
+  const payload: QuizExport = { title, data };
+  downloadFile(JSON.stringify(payload, null, 2), `${slugify(title)}.json`, 'application/json');
+}
+
+export function exportQuizCsv(title: string, data: QuizData) {
+  const maxAnswers = Math.max(2, ...data.questions.map((q) => q.answers.length));
+  const answerColumns = Array.from({ length: maxAnswers }, (_, i) => `answer_${i + 1}`);
+  const headers = [CSV_COLUMNS[0], CSV_COLUMNS[1], ...answerColumns, ...CSV_COLUMNS.slice(2)];
+
+  const rows = data.questions.map((q) => {
+    const question = normalizeQuestion(q);
+    const answers = answerColumns.map((_, i) => question.answers[i]?.answerText ?? '');
+    const correct = question.answers
+      .map((a, i) => (a.isCorrect ? i + 1 : null))
+      .filter((i) => i !== null)
+      .join(';');
+    return [
+      question.questionText,
+      question.type,
+      ...answers,
+      correct,
+      question.timeLimitInSeconds,
+      question.points,
+      question.type === 'multiple_select' ? (question.partialCredit ? 'yes' : 'no') : '',
+      question.explanation,
+      question.imageUrl,
+    ].map(escapeCsv).join(',');
+  });
+
+  const csv = [headers.join(','), ...rows].join('\n');
+  downloadFile(csv, `${slugify(title)}.csv`, 'text/csv');
+}
+
+function parseOptionalNumber(value: string | undefined, label: string, field: string, errors: string[]): number | null {
+  if (!value?.trim()) return null;
+  const num = Number(value);
+  if (!Number.isFinite(num)) {
+    errors.push(`${label} ${field} "${value}" is not a number.`);
+    return null;
+  }
+  return num;
+}
+
+/**
+ * Parse a CSV export or spreadsheet. The header row is required; answer
+ * columns are answer_1, answer_2, ... and `correct` lists the correct
+ * answer numbers separated by semicolons (or True/False for true/false rows).
+ */
+export function importQuizCsv(text: string, title: string): QuizImportResult {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+  if (rows.length < 2) {
+    return { title, data: buildQuizData(DEFAULT_TIME_LIMIT, DEFAULT_POINTS, []), errors: ['The file has no question rows.'] };
+  }
+
+  const headers = rows[0].map((h) => h.trim().toLowerCase());
+  const col = (name: string) => headers.indexOf(name);
+  const answerIndexes = headers
+    .map((h, i) => (/^answer_\d+$/.test(h) ? i : -1))
+    .filter((i) => i >= 0);
+
+  if (col('question') < 0) errors.push('Missing "question" column.');
+  if (col('correct') < 0) errors.push('Missing "correct" column.');
+  if (errors.length > 0) {
+    return { title, data: buildQuizData(DEFAULT_TIME_LIMIT, DEFAULT_POINTS, []), errors };
+  }
+
+  const questions: QuizQuestion[] = rows.slice(1).map((cells, ri) => {
+    // Spreadsheet row number, counting the header as row 1
+    const label = `Row ${ri + 2}`;
+    const cell = (name: string) => (col(name) >= 0 ? (cells[col(name)] ?? '').trim() : '');
+
+    const rawType = (cell('type') || 'multiple_choice').toLowerCase().replace(/[\s/-]+/g, '_');
+    const type = (rawType === 'true_or_false' ? 'true_false' : rawType) as QuizQuestionType;
+    if (!QUESTION_TYPE_LABELS[type]) {
+      errors.push(`${label} has an unknown type "${cell('type')}".`);
+    }
+
+    const correctTokens = cell('correct').split(/[;|]/).map((t) => t.trim().toLowerCase()).filter(Boolean);
+    let answers;
+    if (type === 'true_false') {
+      const truthy = correctTokens[0] === 'true' || correctTokens[0] === '1';
+      const falsy = correctTokens[0] === 'false' || correctTokens[0] === '2';
+      answers = truthy || falsy ? trueFalseAnswers(truthy) : trueFalseAnswers(true).map((a) => ({ ...a, isCorrect: false }));
+    } else {
+      const texts = answerIndexes.map((i) => (cells[i] ?? '').trim());
+      // Trailing blank answer cells are just unused columns
+      while (texts.length > 0 && !texts[texts.length - 1]) texts.pop();
+      const correctNumbers = correctTokens.map(Number);
+      correctNumbers.forEach((n, i) => {
+        if (!Number.isInteger(n) || n < 1 || n > texts.length) {
+          errors.push(`${label} correct answer "${correctTokens[i]}" does not match an answer column.`);
+        }
+      });
+      answers = texts.map((answerText, i) => ({ answerText, isCorrect: correctNumbers.includes(i + 1) }));
+    }
+
+    const partial = cell('partial_credit').toLowerCase();
+    const question: QuizQuestion = {
+      questionText: cell('question'),
+      type,
+      answers,
+      imageUrl: cell('image_url') || null,
+      timeLimitInSeconds: parseOptionalNumber(cell('time_limit'), label, 'time limit', errors),
+      points: parseOptionalNumber(cell('points'), label, 'points', errors),
+      partialCredit: type === 'multiple_select' && partial !== 'no' && partial !== 'false',
+      explanation: cell('explanation') || null,
+    };
+    errors.push(...validateQuestion(question, label));
+    return question;
+  });
+
+  return { title, data: buildQuizData(DEFAULT_TIME_LIMIT, DEFAULT_POINTS, questions), errors };
+}
+
+/**
+ * Parse a JSON export. Accepts { title, data } or a bare quiz data object.
+ */
+export function importQuizJson(text: string, fallbackTitle: string): QuizImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { title: fallbackTitle, data: buildQuizData(DEFAULT_TIME_LIMIT, DEFAULT_POINTS, []), errors: ['The file is not valid JSON.'] };
+  }
+
+  const record = (parsed ?? {}) as Partial<QuizExport> & Partial<QuizData>;
+  const data = (record.data ?? record) as Partial<QuizData>;
+  const title = typeof record.title === 'string' && record.title.trim() ? record.title : fallbackTitle;
+
+  if (!Array.isArray(data.questions)) {
+    return { title, data: buildQuizData(DEFAULT_TIME_LIMIT, DEFAULT_POINTS, []), errors: ['No "questions" list found in the file.'] };
+  }
+
+  const errors: string[] = [];
+  const questions = data.questions.map((q, qi) => {
+    const question = normalizeQuestion({
+      ...q,
+      questionText: typeof q?.questionText === 'string' ? q.questionText : '',
+      answers: Array.isArray(q?.answers)
+        ? q.answers.map((a) => ({ answerText: String(a?.answerText ?? ''), isCorrect: !!a?.isCorrect }))
+        : [],
+    });
+    errors.push(...validateQuestion(question, `Question ${qi + 1}`));
+    return question;
+  });
+
+  return {
+    title,
+    data: buildQuizData(
+      Number(data.timeLimitInSeconds) || DEFAULT_TIME_LIMIT,
+      Number(data.pointsAddedForCorrectAnswer) || DEFAULT_POINTS,
+      questions
+    ),
+    errors,
+  };
+}
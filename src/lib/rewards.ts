@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+import type { RedeemRewardResult, RedemptionStatus, RewardCategory } from '../types/database.types';
+
+export const REWARD_CATEGORY_LABELS: Record<RewardCategory, string> = {
+  merch: 'Merch',
+  event_perk: 'Event Perk',
+  room_item: 'Room Item',
+};
+
+export const REDEMPTION_STATUS_LABELS: Record<RedemptionStatus, string> = {
+  pending: 'Pending',
+  ready: 'Ready for Pickup',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+};
+
+export const REDEMPTION_STATUS_COLORS: Record<RedemptionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  ready: 'bg-blue-100 text-blue-800',
+  fulfilled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Redeem a reward with the current user's coins.
+ * The RPC debits game_rooms.coins, decrements stock and writes the reward_log
+ * entry in one transaction, and fails if the balance or stock is insufficient.
+ */
+export async function redeemReward(rewardId: string): Promise<RedeemRewardResult> {
+  const { data, error } = await supabase.rpc('redeem_reward', { p_reward_id: rewardId });
+  if (error) throw error;
+  return data as RedeemRewardResult;
+}
+
+/**
+ * Cancel a redemption, refunding the coins and returning the item to stock.
+ * The RPC also tells the member why.
+ */
+export async function cancelRedemption(redemptionId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_reward_redemption', {
+    p_redemption_id: redemptionId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+}
+
+export async function updateRedemptionStatus(
+  redemptionId: string,
+  status: Extract<RedemptionStatus, 'ready' | 'fulfilled'>,
+  handledBy: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('reward_redemptions')
+    .update({ status, handled_by: handledBy, handled_at: new Date().toISOString() })
+    .eq('id', redemptionId);
+  if (error) throw error;
+}
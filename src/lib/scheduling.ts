@@ -0,0 +1,59 @@
+import type { Posts } from '../types/database.types';
+
+export type PostSchedule = Pick<Posts, 'status' | 'publish_at' | 'expires_at'>;
+
+/**
+ * Whether a post should be visible in member feeds right now.
+ * Scheduled posts are published and expired ones archived by the
+ * publish_due_posts job on the server; this also covers the minute in between.
+ */
+export function isPostLive(post: PostSchedule, now: Date = new Date()): boolean {
+  if (post.status === 'scheduled') return false;
+  if (post.publish_at && new Date(post.publish_at) > now) return false;
+  if (post.expires_at && new Date(post.expires_at) <= now) return false;
+  return true;
+}
+
+/**
+ * When a post went live: its scheduled time, or when it was created if it was published right away
+ */
+export function getPublishedAt(post: Pick<Posts, 'created_at' | 'publish_at'>): string {
+  return post.publish_at ?? post.created_at;
+}
+
+/**
+ * Convert an ISO timestamp to the value format of a datetime-local input
+ */
+export function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Convert a datetime-local input value (local time) to an ISO timestamp
+ */
+export function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Validate the schedule fields of the post forms, returning an error message if invalid
+ */
+export function validateSchedule(status: string, publishAt: string, expiresAt: string): string | null {
+  const now = new Date();
+
+  if (status === 'scheduled') {
+    if (!publishAt) return 'Please set a publish date and time';
+    if (new Date(publishAt) <= now) return 'Publish time must be in the future';
+  }
+
+  // Drafts and archived posts are not live, so an old expiry does not matter
+  if (expiresAt && (status === 'published' || status === 'scheduled')) {
+    const liveFrom = status === 'scheduled' ? new Date(publishAt) : now;
+    if (new Date(expiresAt) <= liveFrom) return 'Expiry must be after the post goes live';
+  }
+
+  return null;
+}
@@ -0,0 +1,158 @@
+import { supabase } from './supabase';
+import type {
+  GameKind,
+  LeaderboardSeason,
+  SeasonArchiveResult,
+  SeasonStanding,
+  SeasonStatus,
+} from '../types/database.types';
+
+// Places that earn season rewards on each board
+export const SEASON_REWARD_PLACES = 3;
+
+// Most coins one place can be given, as leaderboard_seasons allows
+export const SEASON_MAX_REWARD_COINS = 1000;
+
+export const SEASON_STATUS_LABELS: Record<SeasonStatus, string> = {
+  upcoming: 'Upcoming',
+  active: 'Active',
+  ended: 'Ended',
+  archived: 'Archived',
+};
+
+export const SEASON_STATUS_COLORS: Record<SeasonStatus, string> = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  ended: 'bg-yellow-100 text-yellow-800',
+  archived: 'bg-gray-100 text-gray-700',
+};
+
+export function ordinal(place: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const tens = place % 100;
+  return place + (suffixes[(tens - 20) % 10] || suffixes[tens] || suffixes[0]);
+}
+
+export function getSeasonStatus(season: LeaderboardSeason, now: Date = new Date()): SeasonStatus {
+  if (season.archived_at) return 'archived';
+  if (now < new Date(season.starts_at)) return 'upcoming';
+  if (now > new Date(season.ends_at)) return 'ended';
+  return 'active';
+}
+
+export function findActiveSeason(seasons: LeaderboardSeason[], now: Date = new Date()): LeaderboardSeason | null {
+  return seasons.find((s) => getSeasonStatus(s, now) === 'active') ?? null;
+}
+
+/**
+ * The first season whose dates overlap the given range, so an organization never has two running at once
+ */
+export function findOverlappingSeason(
+  seasons: LeaderboardSeason[],
+  startsAt: Date,
+  endsAt: Date,
+  excludeId?: string
+): LeaderboardSeason | null {
+  return (
+    seasons.find(
+      (s) => s.id !== excludeId && new Date(s.starts_at) < endsAt && new Date(s.ends_at) > startsAt
+    ) ?? null
+  );
+}
+
+export async function fetchSeasons(orgId: string): Promise<LeaderboardSeason[]> {
+  const { data, error } = await supabase
+    .from('leaderboard_seasons')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('starts_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export interface BoardEntry {
+  user_id: string;
+  username: string | null;
+  score: number;
+  created_at: string | null;
+  rank: number;
+}
+
+/**
+ * Live ranking for one quiz or flappy board, counting each player's best
+ * score. With a season, only scores set between its dates count. Returns the
+ * top entries plus the given user's own row when they rank lower; the ranking
+ * itself happens in the leaderboard_board RPC.
+ */
+export async function fetchBoard(params: {
+  game: GameKind;
+  orgId: string;
+  refId: string | number;
+  season?: Pick<LeaderboardSeason, 'starts_at' | 'ends_at'> | null;
+  userId?: string;
+  limit?: number;
+}): Promise<BoardEntry[]> {
+  const { game, orgId, refId, season, userId, limit = 10 } = params;
+
+  const { data, error } = await supabase.rpc('leaderboard_board', {
+    p_game: game,
+    p_org_id: orgId,
+    p_ref_id: String(refId),
+    p_from: season?.starts_at ?? null,
+    p_to: season?.ends_at ?? null,
+    p_user_id: userId ?? null,
+    p_limit: limit,
+  });
+  if (error) throw error;
+  return (data ?? []) as BoardEntry[];
+}
+
+/**
+ * Frozen final standings of an archived season for one board
+ */
+export async function fetchArchivedBoard(
+  seasonId: string,
+  game: GameKind,
+  refId: string | number,
+  userId?: string,
+  limit = 10
+): Promise<BoardEntry[]> {
+  const { data, error } = await supabase
+    .from('leaderboard_season_standings')
+    .select('user_id, username, score, rank')
+    .eq('season_id', seasonId)
+    .eq(game === 'quiz' ? 'quiz_id' : 'challenge_id', String(refId))
+    .order('rank', { ascending: true });
+  if (error) throw error;
+
+  const ranked: BoardEntry[] = (data ?? []).map((row) => ({ ...row, created_at: null }));
+  const top = ranked.slice(0, limit);
+  const own = userId ? ranked.find((entry) => entry.user_id === userId) : undefined;
+  return own && own.rank > limit ? [...top, own] : top;
+}
+
+/**
+ * Every archived finish for a user in one organization, newest season first
+ */
+export async function fetchUserSeasonHistory(userId: string, orgId: string): Promise<SeasonStanding[]> {
+  const { data, error } = await supabase
+    .from('leaderboard_season_standings')
+    .select('*, leaderboard_seasons(id, name, starts_at, ends_at)')
+    .eq('user_id', userId)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Freeze a season now, ending it early if it is still running: the server ranks
+ * each board's best scores within the season dates, stores the standings, and
+ * pays and notifies the top places. Seasons that simply end are archived by a
+ * scheduled job; running it again on an archived season does nothing.
+ */
+export async function archiveSeason(season: LeaderboardSeason): Promise<SeasonArchiveResult> {
+  const { data, error } = await supabase.rpc('archive_leaderboard_season', { p_season_id: season.id });
+  if (error) throw error;
+  return data as SeasonArchiveResult;
+}
@@ -1,13 +1,22 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate, useLocation } from "react-router";
 import { supabase } from "../lib/supabase";
-import { ArrowLeft, Heart, Share2, Eye, Calendar, Tag, FileText, Calendar as CalendarIcon, BarChart3, MessageSquare, Users, CheckCircle, Clock, XCircle, Vote, ChevronRight, Loader2 } from "lucide-react";
-import type { Posts, PostType, EventRsvp } from '../types/database.types';
+import { ArrowLeft, Heart, Share2, Eye, Calendar, Tag, FileText, Calendar as CalendarIcon, BarChart3, MessageSquare, Users, CheckCircle, Clock, XCircle, Vote, ChevronRight, Loader2, CalendarPlus } from "lucide-react";
+import type { Posts, PostType, EventRsvp, EventCapacity, EventRegistrationResult } from '../types/database.types';
 import FormSubmission from '../admin/components/FormSubmission';
 import toast from "react-hot-toast";
 import RSVPModal from '../user/components/RSVPModal';
 import RegisterModal from '../user/components/RegisterModal';
 import EvaluationModal from '../user/components/EvaluateModal';
+import PostComments from '../components/PostComments';
+import PostRevisionHistory from '../components/PostRevisionHistory';
+import MarkdownContent from '../components/MarkdownContent';
+import { downloadEventICS } from '../lib/calendar';
+import { isPostLive } from '../lib/scheduling';
+import { useAuth } from '../context/AuthContext';
+import { useUserRoles, canManageOrg } from '../utils/roles';
+import { isPostEdited } from '../lib/postRevisions';
+import { cancelEventRegistration, getEventCapacity, getRegistrationStatus, getSpotsLeft } from '../lib/eventCapacity';
 
 interface AuthUser {
   id: string;
@@ -80,6 +89,10 @@ export default function PostDetail() {
   const [showRegisterModal, setShowRegisterModal] = useState(false);
   const [showEvalModal, setShowEvalModal] = useState(false);
   const [selectedPost, setSelectedPost] = useState<any>(null);
+  const [eventCapacity, setEventCapacity] = useState<EventCapacity | null>(null);
+  const [registration, setRegistration] = useState<EventRegistrationResult | null>(null);
+  const { user } = useAuth();
+  const { roles, orgManagers, loading: rolesLoading } = useUserRoles(user?.id);
 
   useEffect(() => {
     if (postId) {
@@ -99,6 +112,9 @@ export default function PostDetail() {
       if (post.post_type === 'feedback') {
         fetchUserFormResponse();
       }
+      if (post.post_type === 'event') {
+        fetchRegistrationInfo();
+      }
     }
   }, [currentUser?.id, postId, post?.id, post?.post_type]);
 
@@ -147,7 +163,8 @@ export default function PostDetail() {
         .select(`
           id, title, content, created_at, updated_at, user_id, tags,
           status, is_pinned, org_id, media, post_type,
-          event_date, start_time, end_time, location, game_route,
+          event_date, start_time, end_time, location, game_route, capacity,
+          publish_at, expires_at,
           post_views(user_id)
         `)
         .eq('id', postId)
@@ -343,6 +360,38 @@ export default function PostDetail() {
     }
   }
 
+  async function fetchRegistrationInfo() {
+    if (!currentUser || !post) return;
+    try {
+      const [capacityInfo, registrationInfo] = await Promise.all([
+        getEventCapacity(post.id, post.capacity),
+        getRegistrationStatus(post.id, currentUser.id),
+      ]);
+      setEventCapacity(capacityInfo);
+      setRegistration(registrationInfo);
+      setRegistered(prev => ({ ...prev, [post.id]: registrationInfo?.status === 'confirmed' }));
+    } catch (error) {
+      console.error('Error fetching registration info:', error);
+    }
+  }
+
+  async function handleCancelRegistration() {
+    if (!currentUser || !post) return;
+    const message = registration?.status === 'waitlisted'
+      ? 'Leave the waitlist for this event?'
+      : 'Cancel your registration? Your spot will be given to the next person on the waitlist.';
+    if (!window.confirm(message)) return;
+
+    try {
+      await cancelEventRegistration(post.id, currentUser.id);
+      toast.success(registration?.status === 'waitlisted' ? 'You left the waitlist.' : 'Registration cancelled.');
+      await fetchRegistrationInfo();
+    } catch (error) {
+      console.error('Error cancelling registration:', error);
+      toast.error('Failed to cancel registration.');
+    }
+  }
+
   const isUserDashboard = location.pathname.startsWith('/user/dashboard/posts/');
 
   const handleRSVPClick = () => {
@@ -497,7 +546,12 @@ export default function PostDetail() {
     }
   };
 
-  if (isLoading) {
+  // Scheduled and expired posts stay hidden from members who follow a direct link;
+  // the organization's officers can still open them
+  const live = !post || isPostLive(post);
+  const canManagePost = !!post && canManageOrg(roles?.role || null, orgManagers, post.org_id || '', rolesLoading);
+
+  if (isLoading || (!live && rolesLoading)) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-4xl mx-auto">
@@ -510,7 +564,7 @@ export default function PostDetail() {
     );
   }
 
-  if (!post) {
+  if (!post || (!live && !canManagePost)) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-4xl mx-auto">
@@ -611,9 +665,9 @@ export default function PostDetail() {
                     <Calendar size={16} />
                     <span>{formatDate(post.created_at)}</span>
                   </div>
-                  {post.updated_at && post.updated_at !== post.created_at && (
+                  {isPostEdited(post) && (
                     <span className="text-xs">
-                      (edited {formatDate(post.updated_at)})
+                      (edited {formatDate(post.updated_at!)})
                     </span>
                   )}
                 </div>
@@ -622,11 +676,7 @@ export default function PostDetail() {
 
             {/* Post Content */}
             {post.post_type !== 'feedback' && post.post_type !== 'poll' && (
-              <div className="prose prose-lg max-w-none mb-8">
-                <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
-                  {post.content}
-                </p>
-              </div>
+              <MarkdownContent content={post.content} className="text-lg text-gray-700 leading-relaxed mb-8" />
             )}
 
             {/* Game Link */}
@@ -706,8 +756,43 @@ export default function PostDetail() {
                       </div>
                     </div>
                   )}
+                  {post.capacity && eventCapacity && (
+                    <div className="flex items-center gap-3">
+                      <Users size={18} className="text-blue-600" />
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {getSpotsLeft(eventCapacity) === 0
+                            ? `Full (${eventCapacity.confirmed}/${post.capacity})`
+                            : `${getSpotsLeft(eventCapacity)} of ${post.capacity} spots left`}
+                        </div>
+                        {eventCapacity.waitlisted > 0 && (
+                          <div className="text-sm text-gray-600">{eventCapacity.waitlisted} on the waitlist</div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
+                {/* Registration Status */}
+                {isUserDashboard && registration && (
+                  <div className={`mt-4 flex items-center justify-between gap-3 rounded-lg p-3 ${
+                    registration.status === 'waitlisted' ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'
+                  }`}>
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {registration.status === 'waitlisted' ? <Clock className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                      {registration.status === 'waitlisted'
+                        ? `You're #${registration.waitlist_position} on the waitlist. We'll notify you if a spot opens up.`
+                        : 'Your spot is confirmed.'}
+                    </div>
+                    <button
+                      onClick={handleCancelRegistration}
+                      className="text-sm text-gray-600 hover:text-red-600 underline flex-shrink-0"
+                    >
+                      {registration.status === 'waitlisted' ? 'Leave waitlist' : 'Cancel registration'}
+                    </button>
+                  </div>
+                )}
+
                 {/* Event Action Buttons */}
                 <div className="flex flex-wrap gap-3 mt-6 pt-4 border-t border-blue-200">
                   <button
@@ -728,18 +813,26 @@ export default function PostDetail() {
                   
                   <button
                     onClick={handleRegisterClick}
-                    disabled={!isUserDashboard}
+                    disabled={!isUserDashboard || !!registration}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
                       !isUserDashboard
                         ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                        : registered[postId || ''] 
-                          ? 'bg-green-100 text-green-800 hover:bg-green-200' 
-                          : 'bg-purple-600 text-white hover:bg-purple-700'
+                        : registration?.status === 'waitlisted'
+                          ? 'bg-yellow-100 text-yellow-800'
+                          : registered[postId || ''] 
+                            ? 'bg-green-100 text-green-800 hover:bg-green-200' 
+                            : 'bg-purple-600 text-white hover:bg-purple-700'
                     }`}
                     title={!isUserDashboard ? 'Registration is only available from the user dashboard' : ''}
                   >
                     <Users className="w-4 h-4" />
-                    {registered[postId || ''] ? 'Registered' : 'Register'}
+                    {registration?.status === 'waitlisted'
+                      ? 'Waitlisted'
+                      : registered[postId || '']
+                        ? 'Registered'
+                        : eventCapacity && getSpotsLeft(eventCapacity) === 0
+                          ? 'Join Waitlist'
+                          : 'Register'}
                   </button>
                   
                   <button
@@ -759,6 +852,15 @@ export default function PostDetail() {
                     <MessageSquare className="w-4 h-4" />
                     {evaluated[postId || ''] ? 'Evaluated' : 'Evaluate'}
                   </button>
+
+                  <button
+                    onClick={() => downloadEventICS({ ...post, org_name: orgData?.name })}
+                    disabled={!post.event_date}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all bg-white text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <CalendarPlus className="w-4 h-4" />
+                    Add to Calendar
+                  </button>
                 </div>
 
                 {/* Admin Notice */}
@@ -1078,6 +1180,19 @@ export default function PostDetail() {
           </div>
         </div>
 
+        {/* Edit history */}
+        <PostRevisionHistory
+          postId={post.id}
+          orgId={post.org_id}
+          updatedAt={post.updated_at}
+          onRestored={fetchPost}
+        />
+
+        {/* Comments */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8">
+          <PostComments postId={post.id} orgId={post.org_id} postTitle={post.title} />
+        </div>
+
         {/* Modals */}
         {showModal && selectedPost && (
           <RSVPModal
@@ -1097,6 +1212,7 @@ export default function PostDetail() {
             setShowModal={setShowRegisterModal}
             colleges={colleges}
             rsvp={rsvp}
+            onRegistered={() => fetchRegistrationInfo()}
           />
         )}
 
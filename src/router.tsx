@@ -20,6 +20,8 @@ import AdminMembers from "./admin/pages/dashboard/Members";
 import AdminPosts from "./admin/pages/dashboard/Posts";
 import AdminUserProfile from "./admin/pages/UserProfile";
 import AdminReports from "./admin/pages/Reports";
+import AdminScoreRejections from "./admin/pages/dashboard/ScoreRejections";
+import AdminCampusGoals from "./admin/pages/dashboard/CampusGoals";
 import OfficerContestManager from "./admin/pages/OfficerContestManager";
 import OfficerSubmissions from "./admin/pages/OfficerSubmissions";
 import MLDashboard from "./admin/components/MLDashboard";
@@ -37,6 +39,8 @@ import UserGames from "./user/pages/dashboard/Games";
 import UserDashboardHome from "./user/pages/dashboard/DashboardHome";
 import CommunityGoalsPage from "./user/pages/dashboard/CommunityGoalsPage";
 import MemberContests from "./user/pages/dashboard/MemberContests";
+import ContestVoting from "./user/pages/dashboard/ContestVoting";
+import ContestGallery from "./user/pages/dashboard/ContestGallery";
 import QuizGame from "./user/pages/dashboard/QuizGame";
 import RoomGame from "./user/pages/dashboard/RoomGame";
 import QuizSelection from "./user/pages/dashboard/QuizSelection";
@@ -44,6 +48,9 @@ import LeaderboardPage from "./user/pages/dashboard/LeaderboardPage";
 import NotificationInbox from "./user/components/NotificationInbox";
 import FlappyChallengePicker from "./user/pages/dashboard/FlappyChallengePicker";
 import FlappyGame from "./user/pages/dashboard/FlappyGame";
+import EventCheckIn from "./user/pages/dashboard/EventCheckIn";
+import CoinShop from "./user/pages/dashboard/CoinShop";
+import LiveQuiz from "./user/pages/dashboard/LiveQuiz";
 
 // Auth Pages
 import Login from "./pages/Login";
@@ -184,6 +191,8 @@ const router = createBrowserRouter([
       { path: "members", element: <RoleRoute allowedRoles={['admin']}><AdminMembers /></RoleRoute> },
       { path: "posts", element: <RoleRoute allowedRoles={['admin']}><AdminPosts /></RoleRoute> },
       { path: "reports", element: <RoleRoute allowedRoles={['admin']}><AdminReports /></RoleRoute> },
+      { path: "flagged-scores", element: <RoleRoute allowedRoles={['admin']}><AdminScoreRejections /></RoleRoute> },
+      { path: "campus-goals", element: <RoleRoute allowedRoles={['admin']}><AdminCampusGoals /></RoleRoute> },
       { path: "profile/:id", element: <AdminUserProfile /> },
       { path: "posts/:postId", element: <PostDetail /> },
       { path: "contests", element: <RoleRoute allowedRoles={['officer', 'adviser']}><OfficerContestManager /></RoleRoute> },
@@ -233,14 +242,19 @@ const router = createBrowserRouter([
         path: "member-contests",
         element: <MemberContests />
       },
+      { path: "member-contests/:contestId", element: <ContestVoting /> },
+      { path: "member-contests/:contestId/gallery", element: <ContestGallery /> },
       { path: "posts/:postId", element: <PostDetail /> },
       { path: "quiz-games", element: <QuizGame /> },
       { path: "room-game", element: <RoomGame /> },
       { path: "quiz-selection", element: <QuizSelection /> },
+      { path: "live-quiz", element: <LiveQuiz /> },
       { path: "leaderboard", element: <LeaderboardPage /> },
       { path: "notifications", element: <NotificationInbox /> },
       { path: "flappy-challenges", element: <FlappyChallengePicker /> },
-      { path: "flappy-game", element: <FlappyGame /> }
+      { path: "flappy-game", element: <FlappyGame /> },
+      { path: "check-in", element: <EventCheckIn /> },
+      { path: "shop", element: <CoinShop /> }
      
     ]
   },
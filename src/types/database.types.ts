@@ -65,6 +65,23 @@ export type Organization = {
   adviser_id: string | null;
   adviser?: User;
   media?: MediaItem[] | null;
+  join_questions?: string[] | null; // screening questions asked on join requests
+};
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type OrgJoinRequest = {
+  id: string;
+  org_id: string;
+  user_id: string;
+  status: JoinRequestStatus;
+  answers: { question: string; answer: string }[] | null;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  users?: User;
+  organization?: Organization;
 };
 
 export interface Posts {
@@ -86,6 +103,9 @@ export interface Posts {
   location?: string | null;
   visibility?: 'public' | 'private';
   game_route?: string | null;
+  publish_at?: string | null;
+  expires_at?: string | null;
+  capacity?: number | null;
   post_views?: { user_id: string }[];
 }
 
@@ -105,6 +125,50 @@ export interface PostLikes {
   created_at: string;
 }
 
+export interface PostComment {
+  id: string;
+  post_id: string;
+  user_id: string;
+  parent_id: string | null; // null for top-level comments
+  content: string; // mentions are stored inline as @[Name](user_id)
+  mentions: string[] | null; // user ids mentioned in the comment
+  is_hidden: boolean; // hidden by an officer/admin
+  hidden_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  users?: Pick<User, 'id' | 'first_name' | 'last_name' | 'avatar_url'>;
+}
+
+// The editable fields of a post as they were after one edit
+export type PostRevisionSnapshot = Pick<
+  Posts,
+  | 'title'
+  | 'content'
+  | 'tags'
+  | 'status'
+  | 'visibility'
+  | 'post_type'
+  | 'media'
+  | 'game_route'
+  | 'event_date'
+  | 'start_time'
+  | 'end_time'
+  | 'location'
+  | 'publish_at'
+  | 'expires_at'
+  | 'capacity'
+>;
+
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  edited_by: string;
+  snapshot: PostRevisionSnapshot;
+  restored_from: string | null; // revision id when this edit was a restore
+  created_at: string;
+  users?: Pick<User, 'id' | 'first_name' | 'last_name' | 'avatar_url'>;
+}
+
 export interface EventRsvp {
   id: string;
   post_id: string;
@@ -130,6 +194,46 @@ export interface FormResponse {
   submitted_at: string;
 }
 
+export interface EventAttendance {
+  user_id: string;
+  post_id: string;
+  attended: boolean;
+  check_in_method?: 'manual' | 'qr' | null;
+  checked_in_at?: string | null;
+  updated_at: string;
+}
+
+export interface EventCheckInToken {
+  token: string; // random code issued server-side, rotates every few seconds
+  expires_at: string;
+}
+
+export type CheckInStatus =
+  | 'checked_in'
+  | 'already_checked_in'
+  | 'expired'
+  | 'invalid'
+  | 'not_allowed'
+  | 'outside_window';
+
+export interface CheckInResult {
+  status: CheckInStatus;
+  post_id?: string;
+  post_title?: string;
+  checked_in_at?: string;
+}
+
+export type CalendarFeedScope = 'rsvp' | 'all';
+
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  org_id: string | null; // null covers all of the user's organizations
+  scope: CalendarFeedScope; // 'rsvp' = only RSVPed events, 'all' = every visible event
+  token: string;
+  created_at: string;
+}
+
 export interface EventEvaluation {
   id: string;
   post_id: string;
@@ -156,5 +260,493 @@ export interface EventRegistration {
   college: string;
   program: string;
   section: string;
+  status?: RegistrationStatus;
+  created_at: string;
+}
+
+export type RegistrationStatus = 'confirmed' | 'waitlisted';
+
+export interface EventRegistrationResult {
+  status: RegistrationStatus;
+  waitlist_position: number | null;
+}
+
+export interface EventCapacity {
+  capacity: number | null;
+  confirmed: number;
+  waitlisted: number;
+}
+
+export type RewardCategory = 'merch' | 'event_perk' | 'room_item';
+
+export interface Reward {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  category: RewardCategory;
+  cost: number;
+  stock: number | null; // null = unlimited
+  image_url: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type RedemptionStatus = 'pending' | 'ready' | 'fulfilled' | 'cancelled';
+
+export interface RewardRedemption {
+  id: string;
+  reward_id: string;
+  user_id: string;
+  org_id: string;
+  cost: number; // coins paid at redemption time
+  status: RedemptionStatus;
+  note: string | null; // officer note or cancellation reason
+  handled_by: string | null;
+  handled_at: string | null;
+  created_at: string;
+  rewards?: Pick<Reward, 'id' | 'name' | 'category'>;
+  users?: Pick<User, 'id' | 'first_name' | 'last_name' | 'email'>;
+}
+
+export interface RedeemRewardResult {
+  redemption_id: string;
+  balance: number;
+}
+
+// Engagements paid by claim_post_reward, once per post
+export type PostRewardAction = 'view' | 'like' | 'poll' | 'feedback' | 'rsvp' | 'register' | 'evaluate';
+
+export type CoinAction =
+  | 'view'
+  | 'like'
+  | 'poll'
+  | 'feedback'
+  | 'rsvp'
+  | 'register'
+  | 'evaluate'
+  | 'quiz'
+  | 'flappy'
+  | 'community_goal'
+  | 'contest_prize'
+  | 'season_prize'
+  | 'redeem'
+  | 'refund'
+  | 'adjustment';
+
+export interface RewardLogEntry {
+  id: string;
+  user_id: string;
+  post_id: string | null;
+  org_id: string | null;
+  action: CoinAction;
+  points: number; // negative for spends
+  reason: string | null; // required for manual adjustments
+  created_by: string | null; // admin who made a manual adjustment
+  created_at: string;
+  posts?: Pick<Posts, 'id' | 'title'> | null;
+}
+
+
+export type BadgeCriteria =
+  | 'game_plays'
+  | 'events_attended'
+  | 'posts_engaged'
+  | 'quiz_score'
+  | 'manual';
+
+export interface Badge {
+  id: string;
+  org_id: string | null; // null = available in every organization (admin-managed)
+  name: string;
+  description: string | null;
+  icon_url: string | null;
+  category: string | null;
+  required_plays: number | null; // legacy game badges
+  criteria_type: BadgeCriteria;
+  threshold: number | null; // null for manual badges
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface UserBadge {
+  user_id: string;
+  badge_id: string;
+  earned_at: string;
+  awarded_by: string | null; // null when earned automatically
+  badges?: Badge;
+  users?: Pick<User, 'id' | 'first_name' | 'last_name' | 'email'>;
+}
+
+// Quiz JSON sent to Unity via ReceiveQuizData. Quizzes without a
+// schemaVersion are version 1 and only use questionText/answers.
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'multiple_select';
+
+export interface QuizAnswer {
+  answerText: string;
+  isCorrect: boolean;
+}
+
+export interface QuizQuestion {
+  questionText: string;
+  answers: QuizAnswer[];
+  // Version 2 fields
+  type?: QuizQuestionType;
+  imageUrl?: string | null;
+  timeLimitInSeconds?: number | null; // overrides the quiz time limit
+  points?: number | null; // overrides pointsAddedForCorrectAnswer
+  partialCredit?: boolean; // multiple_select only
+  explanation?: string | null; // shown after the question is answered
+}
+
+export interface QuizData {
+  schemaVersion?: number;
+  timeLimitInSeconds: number;
+  pointsAddedForCorrectAnswer: number;
+  questions: QuizQuestion[]; // empty when questions are drawn from the bank
+  draw?: QuizDrawRule | null;
+  shuffle?: boolean; // shuffle question and answer order for each attempt
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizDrawRule {
+  count: number;
+  tags: string[]; // any of these tags; empty = whole bank
+  difficulty?: QuestionDifficulty | null;
+}
+
+export interface QuestionBankItem {
+  id: string;
+  org_id: string;
+  question: QuizQuestion;
+  tags: string[];
+  difficulty: QuestionDifficulty;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  quiz_id: string;
+  org_id: string | null;
+  user_id: string;
+  bank_question_ids: string[] | null; // set when questions were drawn from the bank
+  questions: QuizQuestion[]; // exactly what was sent to the game, in order
   created_at: string;
+}
+
+// One answered question, reported by the quiz game through the Unity bridge
+export interface QuizAnswerRecord {
+  id: string;
+  attempt_id: string | null;
+  quiz_id: string;
+  org_id: string | null;
+  user_id: string;
+  question_index: number; // position in the attempt, after shuffling
+  question_text: string;
+  bank_question_id: string | null;
+  selected_answers: string[]; // answer texts, so shuffled attempts aggregate together
+  is_correct: boolean;
+  points: number;
+  time_ms: number | null;
+  created_at: string;
+}
+
+export type LiveQuizStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+// The question as players see it while it is open: no answer key
+export interface LiveQuizQuestion {
+  questionText: string;
+  answers: string[];
+  type: QuizQuestionType;
+  imageUrl: string | null;
+  timeLimitInSeconds: number;
+}
+
+export interface LiveQuizSession {
+  id: string;
+  quiz_id: string;
+  org_id: string;
+  host_id: string;
+  join_code: string;
+  status: LiveQuizStatus;
+  current_index: number; // -1 while in the lobby
+  question_count: number;
+  current_question: LiveQuizQuestion | null;
+  question_started_at: string | null;
+  revealed_answers: number[] | null; // correct indexes, set when the host reveals
+  created_at: string;
+  ended_at: string | null;
+}
+
+export interface LiveQuizPlayer {
+  session_id: string;
+  user_id: string;
+  username: string;
+  score: number;
+  correct_count: number;
+  joined_at: string;
+}
+
+export interface LiveQuizAnswer {
+  session_id: string;
+  user_id: string;
+  question_index: number;
+  selected_indexes: number[];
+  is_correct: boolean;
+  points: number;
+  answered_at: string;
+}
+
+export interface LiveQuizAnswerResult {
+  is_correct: boolean;
+  points: number;
+  score: number; // the player's running total
+}
+
+export type GameKind = 'quiz' | 'flappy';
+
+// Issued by the server when a game starts; a result is only accepted with a live, unused token
+export interface GameSession {
+  token: string;
+  expires_at: string;
+}
+
+export type ScoreRejectionReason =
+  | 'invalid_token'
+  | 'expired_token'
+  | 'token_reused'
+  | 'invalid_result'
+  | 'answer_mismatch'
+  | 'score_mismatch'
+  | 'implausible_duration'
+  | 'implausible_rate';
+
+export interface ScoreSubmissionResult {
+  status: 'accepted' | 'rejected';
+  score: number | null; // the verified score when accepted
+  coins_awarded: number;
+  reason: ScoreRejectionReason | null;
+}
+
+export interface ScoreRejection {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+  game: GameKind | null; // null when a bad token came with no known game
+  quiz_id: string | null;
+  challenge_id: string | null;
+  claimed_score: number | null;
+  verified_score: number | null;
+  reason: ScoreRejectionReason;
+  details: Record<string, unknown> | null;
+  created_at: string;
+  users?: Pick<User, 'id' | 'first_name' | 'last_name' | 'avatar_url'>;
+}
+
+export type FlappyPreset = 'easy' | 'normal' | 'hard';
+
+export type FlappyObstacleSkin = 'classic' | 'bricks' | 'bamboo' | 'neon';
+
+// Gameplay values sent to Unity inside ReceiveChallengeData as `tuning`, in world units
+export interface FlappyTuning {
+  gravity: number; // downward acceleration, units/s²
+  flapStrength: number; // upward velocity set on each flap, units/s
+  pipeGap: number; // vertical opening between pipes, units
+  pipeSpeed: number; // starting scroll speed, units/s
+  speedRamp: number; // speed added per pipe passed, units/s
+  obstacleSkin: FlappyObstacleSkin;
+}
+
+export type SeasonStatus = 'upcoming' | 'active' | 'ended' | 'archived';
+
+// A leaderboard period for one organization; boards only count scores set between its dates
+export interface LeaderboardSeason {
+  id: string;
+  org_id: string;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  reward_coins: number[]; // coins for 1st, 2nd and 3rd on each board
+  reward_badge_ids: (string | null)[]; // badge for 1st, 2nd and 3rd on each board
+  archived_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A player's final place on one quiz or flappy board, frozen when the season is archived
+export interface SeasonStanding {
+  id: string;
+  season_id: string;
+  org_id: string;
+  game: GameKind;
+  quiz_id: string | null;
+  challenge_id: string | null;
+  board_name: string;
+  user_id: string;
+  username: string | null;
+  score: number;
+  rank: number;
+  coins_awarded: number;
+  badge_id: string | null;
+  created_at: string;
+  leaderboard_seasons?: Pick<LeaderboardSeason, 'id' | 'name' | 'starts_at' | 'ends_at'>;
+}
+
+export interface SeasonArchiveResult {
+  standings: number;
+  winners: { user_id: string; rank: number; board_name: string; coins_awarded: number }[];
+}
+
+// Contest lifecycle: entries come in, officers score them, members optionally vote, results go out
+export type ContestPhase = 'submissions' | 'judging' | 'voting' | 'results';
+
+export interface ContestCriterion {
+  id: string;
+  name: string;
+  description: string;
+  max_points: number;
+}
+
+export interface RoomContest {
+  id: string;
+  org_id: string;
+  title: string;
+  description: string;
+  is_active: boolean;
+  start_date: string | null;
+  end_date: string | null;
+  created_by: string | null;
+  created_at: string;
+  phase: ContestPhase;
+  rubric: ContestCriterion[];
+  voting_enabled: boolean;
+  judge_weight: number; // 0–100, share of the final score from judges; members' votes make up the rest
+  results_published_at: string | null;
+  prize_coins: number[]; // coins for 1st, 2nd and 3rd place
+  prize_badge_ids: (string | null)[]; // badge for 1st, 2nd and 3rd place
+  prizes_awarded_at: string | null;
+  results_post_id: string | null;
+}
+
+export interface ContestSubmission {
+  id: string;
+  contest_id: string;
+  org_id: string;
+  user_id: string;
+  image_url: string;
+  caption: string | null;
+  is_hidden: boolean; // hidden by an officer, left out of the gallery, voting and ranking
+  submitted_at: string;
+  users?: Pick<User, 'first_name' | 'last_name'>;
+}
+
+// One member's emoji reaction to a gallery entry; unique per entry, member and emoji
+export interface ContestReaction {
+  submission_id: string;
+  contest_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+// One officer's rubric marks for one submission
+export interface ContestJudgeScore {
+  submission_id: string;
+  contest_id: string;
+  judge_id: string;
+  scores: Record<string, number>; // criterion id → points
+  total: number;
+  comment: string | null;
+  updated_at: string;
+}
+
+// Unique per contest and member, so each member has a single vote they can move
+export interface ContestVote {
+  contest_id: string;
+  user_id: string;
+  submission_id: string;
+  created_at: string;
+}
+
+export interface ContestResult {
+  contest_id: string;
+  submission_id: string;
+  user_id: string;
+  rank: number;
+  judge_score: number; // average rubric total as a percentage of the maximum
+  vote_count: number;
+  vote_score: number; // votes as a percentage of the most-voted entry
+  final_score: number;
+  coins_awarded?: number;
+  badge_id?: string | null;
+  created_at?: string;
+  users?: Pick<User, 'first_name' | 'last_name'>;
+  contest_submissions?: Pick<ContestSubmission, 'image_url'>;
+}
+
+export interface ContestPrizeResult {
+  winners: { user_id: string; rank: number; coins_awarded: number; badge_id: string | null }[];
+}
+
+export type GoalMetric =
+  | 'quiz_completions'
+  | 'quiz_score'
+  | 'flappy_score'
+  | 'flappy_participants'
+  | 'event_attendance'
+  | 'event_rsvps'
+  | 'feedback_submissions'
+  | 'post_engagement';
+
+// What a goal can be pinned to; goals on events, forms and posts may instead cover the whole org
+export type GoalTargetKind = 'quiz' | 'flappy' | 'event' | 'feedback' | 'post';
+
+export type GoalStatus = 'upcoming' | 'active' | 'completed' | 'expired';
+
+// org = one organization's own goal; shared = several orgs fill one target together;
+// competitive = several orgs race to the target and only the winner's contributors are paid
+export type GoalScope = 'org' | 'shared' | 'competitive';
+
+// flat = every contributor gets reward_coins; proportional = reward_coins is a pool split by contribution
+export type GoalPayoutMode = 'flat' | 'proportional';
+
+// Community goal on any metric; replaces community_goals (quiz) and community_goals_flappy
+export interface OrgGoal {
+  id: string;
+  org_id: string | null; // null for cross-organization goals
+  scope: GoalScope;
+  title: string;
+  description: string | null;
+  metric: GoalMetric;
+  target_ref: string | null; // quiz id, flappy challenge id or post id; null = every item in the org
+  goal_target: number;
+  reward_coins: number;
+  payout_mode: GoalPayoutMode;
+  current_progress: number;
+  is_completed: boolean;
+  completed_at: string | null;
+  rewards_paid_at: string | null;
+  starts_at: string;
+  deadline: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  legacy_source: 'community_goals' | 'community_goals_flappy' | null;
+  legacy_id: string | null;
+  winner_org_id: string | null; // competitive goals only
+  org_goal_participants?: OrgGoalParticipant[];
+}
+
+// An organization taking part in a cross-organization goal, with its own share of the progress
+export interface OrgGoalParticipant {
+  goal_id: string;
+  org_id: string;
+  current_progress: number;
+  organizations?: Pick<Organization, 'id' | 'name'>;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { X } from "lucide-react";
 import toast from "react-hot-toast";
 import { supabase } from "../../lib/supabase";
+import { claimPostReward } from "../../lib/coinLedger";
 import { useState } from "react";
 
 interface EvaluationData {
@@ -133,6 +134,7 @@ export default function EvaluationModal({
       .select("*")
       .eq("post_id", selectedPost.id)
       .eq("user_id", user.id)
+      .neq("status", "waitlisted")
       .maybeSingle();
 
     if (!registration) {
@@ -149,14 +151,8 @@ export default function EvaluationModal({
 
     if (evalError) { toast.error("Failed to save evaluation."); return; }
 
-    const { data: rpcData } = await supabase.rpc("award_user_coins_once", {
-      p_user_id: user.id,
-      p_post_id: selectedPost.id,
-      p_action: "evaluate",
-      p_points: 100,
-    });
-
-    if ((rpcData ?? 0) > 0) toast.success(`🎉 You earned ${rpcData} coins for evaluating!`);
+    const coinsAwarded = await claimPostReward(selectedPost.id, "evaluate");
+    if (coinsAwarded > 0) toast.success(`🎉 You earned ${coinsAwarded} coins for evaluating!`);
 
     setEvaluated((prev) => ({ ...prev, [selectedPost.id]: true }));
     resetEvaluationData();
@@ -1,21 +1,16 @@
 import React, { useEffect, useState } from "react";
-import { supabase } from "../../lib/supabase";
-
-interface LeaderboardEntry {
-  id: string;
-  user_id: string;
-  username?: string | null;
-  score: number;
-  created_at: string;
-}
+import { fetchArchivedBoard, fetchBoard, type BoardEntry } from "../../lib/seasons";
+import type { LeaderboardSeason } from "../../types/database.types";
 
 interface LeaderboardProps {
   quizId: number;
   orgId: string;
+  season?: LeaderboardSeason | null; // omitted = all-time rankings
+  userId?: string; // highlighted, and appended when outside the top 10
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, orgId }) => {
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, orgId, season, userId }) => {
+  const [entries, setEntries] = useState<BoardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState("");
 
@@ -26,21 +21,18 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, orgId }) => {
       console.log("⏳ Fetching leaderboard for quizId:", quizId, "orgId:", orgId);
 
       try {
-        const { data, error } = await supabase
-          .from("scores")
-          .select("id, user_id, username, score, created_at, org_id")
-          .eq("quiz_id", quizId)
-          .eq("org_id", orgId)
-          .order("score", { ascending: false })
-          .limit(10);
-
-        console.log("Raw data:", data, "Error:", error);
+        const data =
+          season && season.archived_at
+            ? await fetchArchivedBoard(season.id, "quiz", quizId, userId)
+            : await fetchBoard({ game: "quiz", orgId, refId: quizId, season, userId });
 
-        if (error) throw error;
-
-        if (!data || data.length === 0) {
+        if (data.length === 0) {
           setEntries([]);
-          setErrorMessage("No scores yet for this quiz in this organization.");
+          setErrorMessage(
+            season
+              ? "No scores for this quiz during this season."
+              : "No scores yet for this quiz in this organization."
+          );
           console.warn("No leaderboard entries returned by Supabase.");
         } else {
           console.log("Leaderboard entries found:", data);
@@ -55,7 +47,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, orgId }) => {
     };
 
     fetchLeaderboard();
-  }, [quizId, orgId]);
+  }, [quizId, orgId, season, userId]);
 
   if (loading) return <div className="text-center py-8">Loading leaderboard...</div>;
 
@@ -69,26 +61,33 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, orgId }) => {
 
       {entries.length > 0 ? (
         <ol className="divide-y divide-gray-200">
-          {entries.map((entry, index) => (
-            <li key={entry.id} className="py-3 flex justify-between items-center">
+          {entries.map((entry) => (
+            <li
+              key={entry.user_id}
+              className={`py-3 flex justify-between items-center ${
+                entry.user_id === userId ? "bg-green-50 font-bold rounded-lg px-2" : ""
+              }`}
+            >
               <span>
-                {index + 1}.{" "}
+                {entry.rank}.{" "}
                 <span className="font-medium">
                   {entry.username || entry.user_id.slice(0, 6)}
                 </span>
               </span>
               <div className="text-right">
                 <span className="font-semibold block">{entry.score}</span>
-                <span className="text-xs text-gray-500">
-                  {new Date(entry.created_at).toLocaleString("en-US", {
-                    month: "short",
-                    day: "numeric",
-                    year: "numeric",
-                    hour: "numeric",
-                    minute: "2-digit",
-                    hour12: true,
-                  })}
-                </span>
+                {entry.created_at && (
+                  <span className="text-xs text-gray-500">
+                    {new Date(entry.created_at).toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                      hour12: true,
+                    })}
+                  </span>
+                )}
               </div>
             </li>
           ))}
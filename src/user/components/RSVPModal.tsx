@@ -1,8 +1,11 @@
 // RSVPModal.tsx
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { X } from "lucide-react";
 import toast from "react-hot-toast";
 import { supabase } from "../../lib/supabase";
+import { getEventCapacity, getSpotsLeft } from "../../lib/eventCapacity";
+import { claimPostReward } from "../../lib/coinLedger";
+import type { EventCapacity } from "../../types/database.types";
 
 interface RSVPModalProps {
   showModal: boolean;
@@ -17,8 +20,22 @@ export default function RSVPModal({
   setRsvp,
   setShowModal,
 }: RSVPModalProps) {
+  const [eventCapacity, setEventCapacity] = useState<EventCapacity | null>(null);
+
+  useEffect(() => {
+    if (!showModal || !selectedPost?.capacity) {
+      setEventCapacity(null);
+      return;
+    }
+    getEventCapacity(selectedPost.id, selectedPost.capacity)
+      .then(setEventCapacity)
+      .catch((err) => console.error("Error fetching event capacity:", err));
+  }, [showModal, selectedPost?.id, selectedPost?.capacity]);
+
   if (!showModal || !selectedPost) return null;
 
+  const spotsLeft = eventCapacity ? getSpotsLeft(eventCapacity) : null;
+
   const cancelRSVP = () => setShowModal(false);
 
   const confirmRSVP = async () => {
@@ -38,22 +55,12 @@ export default function RSVPModal({
       }
 
       // Award coins via RPC
-      const { data: rpcData, error: rpcError } = await supabase.rpc(
-        "award_user_coins_once",
-        {
-          p_user_id: user.id,
-          p_post_id: selectedPost.id,
-          p_action: "rsvp",
-          p_points: 30,
-        }
-      );
-
-      if (rpcError) {
+      try {
+        const coinsAwarded = await claimPostReward(selectedPost.id, "rsvp");
+        if (coinsAwarded > 0) toast.success(`🎉 You just earned ${coinsAwarded} coins for RSVPing!`);
+      } catch (rpcError) {
         console.error("Error awarding coins for RSVP:", rpcError);
         toast.error("RSVP saved, but failed to award coins.");
-      } else {
-        const coinsAwarded = rpcData ?? 0;
-        if (coinsAwarded > 0) toast.success(`🎉 You just earned ${coinsAwarded} coins for RSVPing!`);
       }
 
       // Update local RSVP state
@@ -77,6 +84,13 @@ export default function RSVPModal({
         <p className="text-gray-600 mb-6">
           RSVP to "{selectedPost.title}" to show you are interested in attending! Continue?
         </p>
+        {spotsLeft !== null && (
+          <p className={`text-sm mb-6 ${spotsLeft > 0 ? "text-green-700" : "text-yellow-700"}`}>
+            {spotsLeft > 0
+              ? `${spotsLeft} of ${eventCapacity?.capacity} registration spots left. An RSVP does not reserve a spot.`
+              : "Registration is full. An RSVP does not reserve a spot, but you can register to join the waitlist."}
+          </p>
+        )}
         <div className="flex justify-end space-x-2">
           <button
             onClick={cancelRSVP}
@@ -1,26 +1,33 @@
 import { X } from "lucide-react";
 import toast from "react-hot-toast";
 import { supabase } from "../../lib/supabase";
-import { useState } from "react";
+import { getEventCapacity, getSpotsLeft, registerForEvent } from "../../lib/eventCapacity";
+import { claimPostReward } from "../../lib/coinLedger";
+import { useEffect, useState } from "react";
+import type { EventCapacity, EventRegistrationResult } from "../../types/database.types";
 
 interface RegisterModalProps {
   showModal: boolean;
   selectedPost: any | null;
   setRegistered: React.Dispatch<React.SetStateAction<{ [key: string]: boolean }>>;
+  setWaitlisted?: React.Dispatch<React.SetStateAction<{ [key: string]: boolean }>>;
   setRsvp: React.Dispatch<React.SetStateAction<{ [key: string]: boolean }>>;
   setShowModal: React.Dispatch<React.SetStateAction<boolean>>;
   colleges: Record<string, string[]>;
   rsvp: { [key: string]: boolean };
+  onRegistered?: (result: EventRegistrationResult) => void;
 }
 
 export default function RegisterModal({
   showModal,
   selectedPost,
   setRegistered,
+  setWaitlisted,
   setRsvp,
   setShowModal,
   colleges,
-  rsvp
+  rsvp,
+  onRegistered
 }: RegisterModalProps) {
   const [registerData, setRegisterData] = useState({
     last_name: "",
@@ -44,9 +51,22 @@ export default function RegisterModal({
 
   const [selectedCollege, setSelectedCollege] = useState("");
   const [selectedProgram, setSelectedProgram] = useState("");
+  const [eventCapacity, setEventCapacity] = useState<EventCapacity | null>(null);
+
+  useEffect(() => {
+    if (!showModal || !selectedPost?.capacity) {
+      setEventCapacity(null);
+      return;
+    }
+    getEventCapacity(selectedPost.id, selectedPost.capacity)
+      .then(setEventCapacity)
+      .catch((err) => console.error("Error fetching event capacity:", err));
+  }, [showModal, selectedPost?.id, selectedPost?.capacity]);
 
   if (!showModal || !selectedPost) return null;
 
+  const spotsLeft = eventCapacity ? getSpotsLeft(eventCapacity) : null;
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     const newErrors = { ...errors };
@@ -121,66 +141,56 @@ export default function RegisterModal({
       }
 
       // Award coins for RSVP
-      const { data: rpcData, error: rpcError } = await supabase.rpc(
-        "award_user_coins_once",
-        {
-          p_user_id: user.id,
-          p_post_id: selectedPost.id,
-          p_action: "rsvp",
-          p_points: 30,
-        }
-      );
-
-      if (rpcError) {
+      try {
+        const coinsAwarded = await claimPostReward(selectedPost.id, "rsvp");
+        if (coinsAwarded > 0) toast.success(`🎉 You earned ${coinsAwarded} coins for RSVPing!`);
+      } catch (rpcError) {
         console.error("Error awarding RSVP coins:", rpcError);
         toast.error("RSVP saved, but failed to award coins.");
-      } else if ((rpcData ?? 0) > 0) {
-        toast.success(`🎉 You earned ${rpcData} coins for RSVPing!`);
       }
 
       // Update local RSVP state
       setRsvp((prev) => ({ ...prev, [selectedPost.id]: true }));
     }
 
-    // Insert registration
-    const { error } = await supabase.from("event_registrations").insert({
-      post_id: selectedPost.id,
-      user_id: user.id,
-      first_name: registerData.first_name.trim(),
-      middle_initial: registerData.middle_initial.trim(),
-      last_name: registerData.last_name.trim(),
-      email: registerData.email.trim(),
-      college: registerData.college.trim(),
-      program: registerData.program.trim(),
-      section: registerData.section.trim(),
-    });
-
-    if (error) {
+    // Insert registration (waitlisted if the event is full)
+    let result: EventRegistrationResult;
+    try {
+      result = await registerForEvent(selectedPost.id, {
+        first_name: registerData.first_name.trim(),
+        middle_initial: registerData.middle_initial.trim(),
+        last_name: registerData.last_name.trim(),
+        email: registerData.email.trim(),
+        college: registerData.college.trim(),
+        program: registerData.program.trim(),
+        section: registerData.section.trim(),
+      });
+    } catch (error) {
       console.error("Error saving registration:", error);
       toast.error("Failed to register. Please try again.");
       return;
     }
 
-    // Award coins for registration
-    const { data: rpcData2, error: rpcError2 } = await supabase.rpc(
-      "award_user_coins_once",
-      {
-        p_user_id: user.id,
-        p_post_id: selectedPost.id,
-        p_action: "register",
-        p_points: 50,
+    if (result.status === "waitlisted") {
+      toast(`This event is full. You're #${result.waitlist_position} on the waitlist and will be notified if a spot opens up.`, { icon: "⏳" });
+    } else {
+      // Award coins for registration
+      try {
+        const coinsAwarded = await claimPostReward(selectedPost.id, "register");
+        if (coinsAwarded > 0) toast.success(`🎉 You earned ${coinsAwarded} coins for registering!`);
+      } catch (rpcError) {
+        console.error("Error awarding registration coins:", rpcError);
+        toast.error("Registered, but failed to award coins.");
       }
-    );
-
-    if (rpcError2) {
-      console.error("Error awarding registration coins:", rpcError2);
-      toast.error("Registered, but failed to award coins.");
-    } else if ((rpcData2 ?? 0) > 0) {
-      toast.success(`🎉 You earned ${rpcData2} coins for registering!`);
     }
 
-    // Update local state
-    setRegistered((prev) => ({ ...prev, [selectedPost.id]: true }));
+    // Update local state; a waitlisted member is not registered until promoted
+    if (result.status === "confirmed") {
+      setRegistered((prev) => ({ ...prev, [selectedPost.id]: true }));
+    } else {
+      setWaitlisted?.((prev) => ({ ...prev, [selectedPost.id]: true }));
+    }
+    onRegistered?.(result);
 
     // Reset form & close modal
     setRegisterData({
@@ -221,6 +231,14 @@ export default function RegisterModal({
           </button>
         </div>
 
+        {spotsLeft !== null && (
+          <div className={`mb-4 rounded-md p-3 text-sm ${spotsLeft > 0 ? "bg-green-50 text-green-800" : "bg-yellow-50 text-yellow-800"}`}>
+            {spotsLeft > 0
+              ? `${spotsLeft} of ${eventCapacity?.capacity} spots left.`
+              : `This event is full. You'll join the waitlist (${eventCapacity?.waitlisted} ahead of you) and be notified if a spot opens up.`}
+          </div>
+        )}
+
         <div className="space-y-3">
           <div>
             <input
@@ -327,7 +345,7 @@ export default function RegisterModal({
             Cancel
           </button>
           <button onClick={submitRegistration} className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700">
-            Register
+            {spotsLeft === 0 ? "Join Waitlist" : "Register"}
           </button>
         </div>
       </div>
@@ -12,6 +12,8 @@ import {
   Target,
   Palette,
   Bell,
+  ScanLine,
+  ShoppingBag,
   LogOut
 } from "lucide-react";
 
@@ -30,9 +32,11 @@ export default function Sidebar({
     { to: "newsfeed", label: "News Feed", icon: Newspaper },
     { to: "notifications", label: "Notifications", icon: Bell },
     { to: "events", label: "Events", icon: CalendarDays },
+    { to: "check-in", label: "Event Check-in", icon: ScanLine },
     { to: "organizations", label: "Organizations", icon: Users },
     { to: "profile", label: "Profile", icon: User },
     { to: "games", label: "Games", icon: Gamepad2 },
+    { to: "shop", label: "Coin Shop", icon: ShoppingBag },
     { to: "leaderboard", label: "Leaderboard", icon: Trophy },
     { to: "community-goals", label: "Community Goals", icon: Target },
     { to: "member-contests", label: "Room Design Contests", icon: Palette }
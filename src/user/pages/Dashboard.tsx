@@ -8,7 +8,7 @@ export default function Dashboard() {
   const location = useLocation();
 
   const isGamePage = useMemo(() => {
-    return location.pathname.includes("quiz-selection") || location.pathname.includes("room-game") || location.pathname.includes("quiz-games") || location.pathname.includes("flappy-game");
+    return location.pathname.includes("quiz-selection") || location.pathname.includes("room-game") || location.pathname.includes("quiz-games") || location.pathname.includes("flappy-game") || location.pathname.includes("live-quiz");
   }, [location.pathname]);
 
   return (
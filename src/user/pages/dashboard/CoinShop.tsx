@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { supabase } from "../../../lib/supabase";
+import {
+  REDEMPTION_STATUS_COLORS,
+  REDEMPTION_STATUS_LABELS,
+  REWARD_CATEGORY_LABELS,
+  redeemReward,
+} from "../../../lib/rewards";
+import type { Reward, RewardRedemption } from "../../../types/database.types";
+import { Coins, ShoppingBag, Gift } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+
+type ShopReward = Reward & { organizations?: { name: string; abbrev_name: string } | null };
+
+export default function CoinShop() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [coins, setCoins] = useState(0);
+  const [rewards, setRewards] = useState<ShopReward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [joinedOrgs, setJoinedOrgs] = useState<{ id: string; name: string; abbrev_name: string }[]>([]);
+  const [orgFilter, setOrgFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchShop = async () => {
+      setLoading(true);
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        setUserId(user.id);
+
+        const { data: memberData, error: memberError } = await supabase
+          .from("org_members")
+          .select("org_id")
+          .eq("user_id", user.id)
+          .eq("is_active", true);
+        if (memberError) throw memberError;
+
+        const memberOrgIds = memberData?.map((m) => m.org_id) ?? [];
+
+        const [{ data: orgData }, { data: coinData }] = await Promise.all([
+          supabase
+            .from("organizations")
+            .select("id, name, abbrev_name")
+            .in("id", memberOrgIds)
+            .eq("status", "active"),
+          supabase
+            .from("game_rooms")
+            .select("coins")
+            .eq("user_id", user.id)
+            .single(),
+        ]);
+        setJoinedOrgs(orgData ?? []);
+        setCoins(coinData?.coins ?? 0);
+
+        // Rewards are only offered to members of the organization
+        const { data: rewardData, error: rewardError } = await supabase
+          .from("rewards")
+          .select("*, organizations (name, abbrev_name)")
+          .in("org_id", memberOrgIds)
+          .eq("is_active", true)
+          .order("cost", { ascending: true });
+        if (rewardError) throw rewardError;
+        setRewards(rewardData ?? []);
+
+        await fetchRedemptions(user.id);
+      } catch (error) {
+        console.error("Error loading coin shop:", error);
+        toast.error("Failed to load the coin shop.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShop();
+  }, []);
+
+  // Keep the balance in sync with coins earned elsewhere
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = supabase
+      .channel("shop-coins-updates")
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "game_rooms", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.new.coins !== undefined) {
+            setCoins(payload.new.coins);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [userId]);
+
+  const fetchRedemptions = async (uid: string) => {
+    const { data, error } = await supabase
+      .from("reward_redemptions")
+      .select("*, rewards (id, name, category)")
+      .eq("user_id", uid)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error("Error fetching redemptions:", error);
+      return;
+    }
+    setRedemptions(data ?? []);
+  };
+
+  const handleRedeem = async (reward: ShopReward) => {
+    if (!userId) return;
+    const confirmRedeem = window.confirm(`Redeem "${reward.name}" for ${reward.cost} coins?`);
+    if (!confirmRedeem) return;
+
+    setRedeemingId(reward.id);
+    try {
+      const result = await redeemReward(reward.id);
+      setCoins(result.balance);
+      setRewards((prev) =>
+        prev.map((r) => (r.id === reward.id && r.stock !== null ? { ...r, stock: r.stock - 1 } : r))
+      );
+      toast.success(`Redeemed ${reward.name}! An officer will let you know when it's ready.`);
+      await fetchRedemptions(userId);
+    } catch (error) {
+      console.error("Error redeeming reward:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to redeem reward.");
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  const visibleRewards = orgFilter ? rewards.filter((r) => r.org_id === orgFilter) : rewards;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-4 border-green-600 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600 text-lg">Loading coin shop...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 max-w-3xl mx-auto space-y-6">
+      <Toaster position="top-center" reverseOrder={false} />
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-green-700 flex items-center gap-2">
+          <ShoppingBag className="h-6 w-6" />
+          Coin Shop
+        </h1>
+        <div className="flex items-center gap-2 bg-yellow-50 text-yellow-800 px-3 py-1.5 rounded-full font-semibold">
+          <Coins className="h-5 w-5 text-yellow-500" />
+          {coins}
+        </div>
+      </div>
+
+      {joinedOrgs.length > 1 && (
+        <select
+          value={orgFilter}
+          onChange={(e) => setOrgFilter(e.target.value)}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">All my organizations</option>
+          {joinedOrgs.map((org) => (
+            <option key={org.id} value={org.id}>{org.abbrev_name || org.name}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Catalogue */}
+      {visibleRewards.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center">
+          <Gift className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-500 text-sm">
+            {joinedOrgs.length === 0
+              ? "Join an organization to see its rewards."
+              : "No rewards available yet. Check back soon!"}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {visibleRewards.map((reward) => {
+            const outOfStock = reward.stock !== null && reward.stock <= 0;
+            const cantAfford = coins < reward.cost;
+            return (
+              <div key={reward.id} className="bg-white shadow rounded-lg p-4 flex flex-col">
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-semibold text-gray-900">{reward.name}</h3>
+                  <span className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full flex-shrink-0">
+                    {REWARD_CATEGORY_LABELS[reward.category]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mb-2">
+                  {reward.organizations?.abbrev_name || reward.organizations?.name}
+                </p>
+                {reward.description && <p className="text-sm text-gray-600 mb-3">{reward.description}</p>}
+                <div className="mt-auto flex items-center justify-between">
+                  <div>
+                    <span className="inline-flex items-center gap-1 font-semibold text-gray-900">
+                      <Coins className="h-4 w-4 text-yellow-500" />
+                      {reward.cost}
+                    </span>
+                    {reward.stock !== null && (
+                      <p className="text-xs text-gray-500">{outOfStock ? "Out of stock" : `${reward.stock} left`}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleRedeem(reward)}
+                    disabled={outOfStock || cantAfford || redeemingId === reward.id}
+                    className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={cantAfford ? "Not enough coins" : ""}
+                  >
+                    {redeemingId === reward.id ? "Redeeming..." : "Redeem"}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* My Redemptions */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <h2 className="text-lg font-semibold text-green-700 mb-3">My Redemptions</h2>
+        {redemptions.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven't redeemed anything yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {redemptions.map((redemption) => (
+              <div key={redemption.id} className="flex items-center justify-between border-b border-gray-100 pb-2 last:border-0">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{redemption.rewards?.name || "Reward"}</p>
+                  <p className="text-xs text-gray-500">
+                    {redemption.cost} coins · {new Date(redemption.created_at).toLocaleDateString()}
+                  </p>
+                  {redemption.status === "cancelled" && redemption.note && (
+                    <p className="text-xs text-gray-500">{redemption.note}</p>
+                  )}
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REDEMPTION_STATUS_COLORS[redemption.status]}`}>
+                  {REDEMPTION_STATUS_LABELS[redemption.status]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
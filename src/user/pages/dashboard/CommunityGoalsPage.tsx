@@ -1,32 +1,44 @@
 import React, { useEffect, useState } from "react";
 import { supabase } from "../../../lib/supabase";
+import {
+  GOAL_METRICS,
+  GOAL_SCOPE_COLORS,
+  GOAL_SCOPE_LABELS,
+  GOAL_STATUS_COLORS,
+  GOAL_STATUS_LABELS,
+  fetchOrgGoals,
+  getGoalStatus,
+  goalPercent,
+  goalProgressFor,
+} from "../../../lib/goals";
+import type { GoalTargetKind, OrgGoal, OrgGoalParticipant } from "../../../types/database.types";
 
 interface Organization {
   id: string;
   name: string;
 }
 
-type GameType = "quiz" | "flappy";
+type GoalCategory = "all" | "games" | "events" | "posts";
 
-interface CommunityGoal {
-  id: string;
-  org_id: string;
-  quiz_id?: number;
-  challenge_id?: string; // for Flappy
-  goal_type: "score" | "participants";
-  goal_target: number;
-  reward_coins: number;
-  current_progress: number;
-  is_completed: boolean;
-  created_at: string;
-  title?: string; // quiz title or challenge name
-}
+const CATEGORY_KINDS: Record<Exclude<GoalCategory, "all">, GoalTargetKind[]> = {
+  games: ["quiz", "flappy"],
+  events: ["event", "feedback"],
+  posts: ["post"],
+};
+
+const CATEGORY_ICONS: Record<GoalTargetKind, string> = {
+  quiz: "🎯",
+  flappy: "🕹",
+  event: "📅",
+  feedback: "📝",
+  post: "💬",
+};
 
 const CommunityGoalsPage: React.FC = () => {
   const [orgs, setOrgs] = useState<Organization[]>([]);
   const [selectedOrg, setSelectedOrg] = useState<string>("");
-  const [selectedGame, setSelectedGame] = useState<GameType>("quiz");
-  const [goals, setGoals] = useState<CommunityGoal[]>([]);
+  const [category, setCategory] = useState<GoalCategory>("all");
+  const [goals, setGoals] = useState<OrgGoal[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Fetch user's organizations
@@ -71,94 +83,70 @@ const CommunityGoalsPage: React.FC = () => {
     fetchUserOrgs();
   }, []);
 
-  // Fetch goals when org or game changes
+  // Progress is measured and paid out on the server; the page only reads it
+  const loadGoals = async (orgId: string) => {
+    try {
+      setGoals(await fetchOrgGoals(orgId));
+    } catch (err) {
+      console.error("❌ Error fetching goals:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   useEffect(() => {
     if (!selectedOrg) return;
+    setLoading(true);
+    loadGoals(selectedOrg);
+  }, [selectedOrg]);
 
-    const fetchGoals = async () => {
-      setLoading(true);
-      try {
-        if (selectedGame === "quiz") {
-          const { data: goalsData, error: goalsError } = await supabase
-            .from("community_goals")
-            .select("*")
-            .eq("org_id", selectedOrg)
-            .order("created_at", { ascending: false });
-
-          if (goalsError) throw goalsError;
-          if (!goalsData) {
-            setGoals([]);
-            return;
-          }
-
-          const quizIds = goalsData.map((g) => g.quiz_id);
-          const { data: quizzesData, error: quizzesError } = await supabase
-            .from("quizzes")
-            .select("id, title")
-            .in("id", quizIds);
-
-          if (quizzesError) throw quizzesError;
-
-          const quizMap = new Map(quizzesData.map((q) => [q.id, q.title]));
-          const goalsWithTitles = goalsData.map((g) => ({
-            ...g,
-            title: quizMap.get(g.quiz_id!) || `Quiz ID: ${g.quiz_id}`,
-          }));
-          setGoals(goalsWithTitles);
-        } else if (selectedGame === "flappy") {
-  const { data: goalsData, error: goalsError } = await supabase
-    .from("community_goals_flappy")
-    .select("*")
-    .eq("org_id", selectedOrg)
-    .order("created_at", { ascending: false });
-
-  if (goalsError) throw goalsError;
-  if (!goalsData || goalsData.length === 0) {
-    setGoals([]);
-    return;
-  }
-
-  // ✅ Collect valid challenge IDs only
-  const challengeIds = goalsData
-    .map((g) => g.challenge_id)
-    .filter((id): id is string => !!id && id.trim() !== "");
-
-  console.log("Challenge IDs:", challengeIds);
-
-  // ✅ Fetch flappy config names by challenge_id
-  const { data: challengeData, error: challengeError } = await supabase
-    .from("flappy_config")
-    .select("challenge_id, name")
-    .in("challenge_id", challengeIds);
-
-  if (challengeError) throw challengeError;
-
-  console.log("Challenge Data:", challengeData);
-
-  // ✅ Map challenge_id → name
-  const challengeMap = new Map(
-    (challengeData || []).map((c) => [c.challenge_id, c.name])
-  );
+  const goalIds = goals.map((g) => g.id).join(",");
 
-  // ✅ Assign names to each goal
-  const goalsWithNames = goalsData.map((g) => ({
-    ...g,
-    title:
-      challengeMap.get(g.challenge_id?.trim() || "") ||
-      `Challenge ${g.challenge_id}`,
-  }));
+  // Live progress: the server updates these rows as members act, so listen
+  // only to the goals on screen
+  useEffect(() => {
+    if (!selectedOrg || !goalIds) return;
+
+    const channel = supabase
+      .channel(`community-goals-${selectedOrg}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "org_goals", filter: `id=in.(${goalIds})` },
+        (payload) => {
+          const updated = payload.new as OrgGoal;
+          setGoals((prev) => prev.map((g) => (g.id === updated.id ? { ...g, ...updated } : g)));
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "org_goal_participants", filter: `goal_id=in.(${goalIds})` },
+        (payload) => {
+          const updated = payload.new as OrgGoalParticipant;
+          setGoals((prev) =>
+            prev.map((g) =>
+              g.id === updated.goal_id
+                ? {
+                    ...g,
+                    org_goal_participants: g.org_goal_participants?.map((p) =>
+                      p.org_id === updated.org_id ? { ...p, current_progress: updated.current_progress } : p
+                    ),
+                  }
+                : g
+            )
+          );
+        }
+      )
+      .subscribe();
 
-  setGoals(goalsWithNames);
-}
-      } catch (err) {
-        console.error("❌ Error fetching goals:", err);
-      } finally {
-        setLoading(false);
-      }
+    return () => {
+      supabase.removeChannel(channel);
     };
+  }, [selectedOrg, goalIds]);
 
-    fetchGoals();
-  }, [selectedOrg, selectedGame]);
+  const visibleGoals =
+    category === "all"
+      ? goals
+      : goals.filter((g) => CATEGORY_KINDS[category].includes(GOAL_METRICS[g.metric].targetKind));
 
   if (loading) return <div className="text-center py-10">Loading community goals...</div>;
 
@@ -168,7 +156,7 @@ const CommunityGoalsPage: React.FC = () => {
         <div className="mb-6 text-center">
           <p className="text-gray-600 text-sm mt-1">
             Stay on top of your organization’s goals! 
-            Track quiz progress, earn rewards, and celebrate every milestone your community achieves together.
+            Track event turnout, feedback, post engagement and game progress, earn rewards, and celebrate every milestone your community achieves together.
           </p>
         </div>
 
@@ -189,34 +177,36 @@ const CommunityGoalsPage: React.FC = () => {
             ))}
           </select>
 
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Select Game
-          </label>
-          <select
-            value={selectedGame}
-            onChange={(e) => setSelectedGame(e.target.value as GameType)}
-            className="w-full border rounded-lg p-2"
-          >
-            <option value="quiz">Quiz</option>
-            <option value="flappy">Flappy Challenge</option>
-          </select>
+          <div className="flex flex-wrap gap-2">
+            {(["all", "games", "events", "posts"] as GoalCategory[]).map((c) => (
+              <button
+                key={c}
+                onClick={() => setCategory(c)}
+                className={`px-3 py-1 rounded-full text-sm capitalize ${
+                  category === c ? "bg-green-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {c}
+              </button>
+            ))}
+          </div>
         </div>
 
-        {goals.length === 0 ? (
+        {visibleGoals.length === 0 ? (
           <p className="text-gray-500 text-center py-10">
-            No active {selectedGame === "quiz" ? "quiz" : "Flappy"} goals found for this organization.
+            No {category === "all" ? "" : `${category} `}goals found for this organization.
           </p>
         ) : (
           <div className="space-y-6">
-            {goals.map((goal) => {
-              const progressPercent = Math.min(
-                (goal.current_progress / goal.goal_target) * 100,
-                100
+            {visibleGoals.map((goal) => {
+              const definition = GOAL_METRICS[goal.metric];
+              const status = getGoalStatus(goal);
+              const progress = goalProgressFor(goal, selectedOrg);
+              const progressPercent = goalPercent({ current_progress: progress, goal_target: goal.goal_target });
+              const participants = [...(goal.org_goal_participants ?? [])].sort(
+                (a, b) => b.current_progress - a.current_progress
               );
-              const goalTypeLabel =
-                goal.goal_type === "score"
-                  ? "Score Goal"
-                  : "Participants Goal";
+              const winner = participants.find((p) => p.org_id === goal.winner_org_id);
 
               return (
                 <div
@@ -225,17 +215,32 @@ const CommunityGoalsPage: React.FC = () => {
                     goal.is_completed ? "bg-green-50 border-green-400" : "bg-white"
                   }`}
                 >
-                  <h2 className="text-lg font-semibold mb-1">
-                    {selectedGame === "quiz" ? "🎯 Quiz:" : "🕹 Flappy:"} {goal.title}
-                  </h2>
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h2 className="text-lg font-semibold">
+                      {CATEGORY_ICONS[definition.targetKind]} {goal.title}
+                    </h2>
+                    <div className="flex items-center gap-1">
+                      {goal.scope !== "org" && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${GOAL_SCOPE_COLORS[goal.scope]}`}>
+                          🌐 {GOAL_SCOPE_LABELS[goal.scope]}
+                        </span>
+                      )}
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${GOAL_STATUS_COLORS[status]}`}>
+                        {GOAL_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                  </div>
+                  {goal.description && <p className="text-sm text-gray-700 mb-1">{goal.description}</p>}
 
                   <p className="text-sm text-gray-600 mb-2">
-                    {goalTypeLabel} — Target: {goal.goal_target} | Reward: 💰 {goal.reward_coins} coins
+                    {definition.label} — Target: {goal.goal_target} {definition.unit} | Reward: 💰 {goal.reward_coins} coins
+                    {goal.payout_mode === "proportional" ? " shared by contribution" : " each"}
+                    {goal.deadline && ` | Ends ${new Date(goal.deadline).toLocaleDateString()}`}
                   </p>
 
                   <div className="w-full bg-gray-200 rounded-full h-4 overflow-hidden">
                     <div
-                      className={`h-4 rounded-full ${
+                      className={`h-4 rounded-full transition-all duration-700 ${
                         goal.is_completed ? "bg-green-500" : "bg-blue-500"
                       }`}
                       style={{ width: `${progressPercent}%` }}
@@ -243,12 +248,54 @@ const CommunityGoalsPage: React.FC = () => {
                   </div>
 
                   <p className="text-xs text-gray-500 mt-1 text-right">
-                    {goal.current_progress}/{goal.goal_target} ({progressPercent.toFixed(1)}%)
+                    {goal.scope === "competitive" && "Your organization: "}
+                    {progress}/{goal.goal_target} ({progressPercent.toFixed(1)}%)
                   </p>
 
-                  {goal.is_completed && (
+                  {goal.scope !== "org" && (
+                    <div className="mt-3 space-y-1">
+                      <p className="text-xs font-medium text-gray-600">
+                        {goal.scope === "competitive" ? "Standings" : "Contributions by organization"}
+                      </p>
+                      {participants.map((p) => (
+                        <div
+                          key={p.org_id}
+                          className={`flex items-center gap-2 text-xs ${p.org_id === selectedOrg ? "font-semibold" : ""}`}
+                        >
+                          <span className="w-36 truncate">
+                            {p.org_id === goal.winner_org_id && "🏆 "}
+                            {p.organizations?.name ?? "Organization"}
+                          </span>
+                          {goal.scope === "competitive" ? (
+                            <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                              <div
+                                className={`h-2 rounded-full transition-all duration-700 ${
+                                  p.org_id === selectedOrg ? "bg-blue-500" : "bg-orange-300"
+                                }`}
+                                style={{
+                                  width: `${goalPercent({ current_progress: p.current_progress, goal_target: goal.goal_target })}%`,
+                                }}
+                              />
+                            </div>
+                          ) : (
+                            <span className="flex-1" />
+                          )}
+                          <span className="text-gray-500">{p.current_progress}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {goal.is_completed && goal.scope === "competitive" && goal.winner_org_id !== selectedOrg ? (
+                    <p className="text-gray-600 font-semibold mt-2">
+                      🏁 {winner?.organizations?.name ?? "Another organization"} reached the target first.
+                    </p>
+                  ) : goal.is_completed && (
                     <p className="text-green-600 font-semibold mt-2">
-                      ✅ Goal completed! Participants have received their coins.
+                      ✅ Goal completed!{" "}
+                      {goal.payout_mode === "proportional"
+                        ? `${goal.reward_coins} coins were shared among everyone who helped.`
+                        : `Everyone who helped received ${goal.reward_coins} coins.`}
                     </p>
                   )}
                 </div>
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router";
+import { ArrowLeft, Lock } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+import { supabase } from "../../../lib/supabase";
+import { useAuth } from "../../../context/AuthContext";
+import {
+  CONTEST_REACTIONS,
+  fetchContestReactions,
+  fetchGallery,
+  isGalleryOpen,
+  toggleContestReaction,
+  withContestDefaults,
+} from "../../../lib/contests";
+import type { ContestReaction, ContestSubmission, RoomContest } from "../../../types/database.types";
+
+export default function ContestGallery() {
+  const { contestId } = useParams<{ contestId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [contest, setContest] = useState<RoomContest | null>(null);
+  const [entries, setEntries] = useState<ContestSubmission[]>([]);
+  const [reactions, setReactions] = useState<ContestReaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!contestId) return;
+
+    const loadGallery = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.from("room_contests").select("*").eq("id", contestId).single();
+        if (error) throw error;
+
+        const loaded = withContestDefaults(data);
+        setContest(loaded);
+        if (!isGalleryOpen(loaded)) return;
+
+        const [gallery, reactionRows] = await Promise.all([fetchGallery(contestId), fetchContestReactions(contestId)]);
+        setEntries(gallery);
+        setReactions(reactionRows);
+      } catch (err) {
+        console.error("Error loading gallery:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGallery();
+  }, [contestId]);
+
+  // submission id → emoji → reactions
+  const reactionsByEntry = useMemo(() => {
+    const grouped = new Map<string, Map<string, ContestReaction[]>>();
+    reactions.forEach((r) => {
+      const byEmoji = grouped.get(r.submission_id) ?? new Map<string, ContestReaction[]>();
+      byEmoji.set(r.emoji, [...(byEmoji.get(r.emoji) ?? []), r]);
+      grouped.set(r.submission_id, byEmoji);
+    });
+    return grouped;
+  }, [reactions]);
+
+  const handleReact = async (entry: ContestSubmission, emoji: string) => {
+    if (!user) return;
+    const reacted = !!reactionsByEntry.get(entry.id)?.get(emoji)?.some((r) => r.user_id === user.id);
+    const previous = reactions;
+
+    // Optimistic update, rolled back if the request fails
+    setReactions((prev) =>
+      reacted
+        ? prev.filter((r) => !(r.submission_id === entry.id && r.user_id === user.id && r.emoji === emoji))
+        : [
+            ...prev,
+            {
+              submission_id: entry.id,
+              contest_id: entry.contest_id,
+              user_id: user.id,
+              emoji,
+              created_at: new Date().toISOString(),
+            },
+          ]
+    );
+    try {
+      await toggleContestReaction(entry, user.id, emoji, reacted);
+    } catch (err) {
+      console.error("Error toggling reaction:", err);
+      toast.error("Failed to react.");
+      setReactions(previous);
+    }
+  };
+
+  return (
+    <div className="p-6 min-h-screen bg-gray-50 text-gray-900">
+      <Toaster position="top-center" />
+      <button
+        onClick={() => navigate("/user/dashboard/member-contests")}
+        className="inline-flex items-center text-sm text-green-700 hover:text-green-800 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to contests
+      </button>
+
+      {loading ? (
+        <p>Loading gallery...</p>
+      ) : !contest ? (
+        <p>Contest not found.</p>
+      ) : !isGalleryOpen(contest) ? (
+        <div className="max-w-md mx-auto text-center bg-white rounded-lg shadow p-8">
+          <Lock className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+          <h1 className="text-lg font-semibold mb-1">{contest.title}</h1>
+          <p className="text-sm text-gray-600">
+            The gallery opens once entries close
+            {contest.end_date && ` on ${new Date(contest.end_date).toLocaleString()}`}.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="mb-6 text-center">
+            <h1 className="text-2xl font-bold text-green-800">{contest.title}</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {entries.length} {entries.length === 1 ? "entry" : "entries"}
+            </p>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-600">No entries to show.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {entries.map((entry) => {
+                const byEmoji = reactionsByEntry.get(entry.id);
+                return (
+                  <div key={entry.id} className="bg-white rounded-lg shadow-md overflow-hidden border">
+                    <img
+                      src={entry.image_url}
+                      alt={entry.caption || "Contest entry"}
+                      className="w-full h-56 object-cover cursor-zoom-in"
+                      onClick={() => window.open(entry.image_url, "_blank")}
+                    />
+                    <div className="p-4 space-y-2">
+                      <p className="font-medium text-gray-900">
+                        {entry.users ? `${entry.users.first_name} ${entry.users.last_name}` : "Member"}
+                      </p>
+                      {entry.caption && <p className="text-sm text-gray-700">{entry.caption}</p>}
+
+                      <div className="flex flex-wrap gap-1.5 pt-1">
+                        {CONTEST_REACTIONS.map((emoji) => {
+                          const list = byEmoji?.get(emoji) ?? [];
+                          const mine = list.some((r) => r.user_id === user?.id);
+                          return (
+                            <button
+                              key={emoji}
+                              onClick={() => handleReact(entry, emoji)}
+                              className={`px-2 py-0.5 rounded-full text-sm border transition ${
+                                mine
+                                  ? "bg-green-100 border-green-400"
+                                  : "bg-white border-gray-200 hover:bg-gray-50"
+                              }`}
+                            >
+                              {emoji}
+                              {list.length > 0 && <span className="ml-1 text-xs text-gray-600">{list.length}</span>}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
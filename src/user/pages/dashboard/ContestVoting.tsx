@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router";
+import { ArrowLeft, CheckCircle } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+import { supabase } from "../../../lib/supabase";
+import { useAuth } from "../../../context/AuthContext";
+import {
+  CONTEST_PHASE_LABELS,
+  castContestVote,
+  fetchContestResults,
+  fetchContestSubmissions,
+  fetchContestVotes,
+  getContestPhase,
+  withContestDefaults,
+} from "../../../lib/contests";
+import type { ContestResult, ContestSubmission, RoomContest } from "../../../types/database.types";
+
+export default function ContestVoting() {
+  const { contestId } = useParams<{ contestId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [contest, setContest] = useState<RoomContest | null>(null);
+  const [submissions, setSubmissions] = useState<ContestSubmission[]>([]);
+  const [results, setResults] = useState<ContestResult[]>([]);
+  const [myVote, setMyVote] = useState<string | null>(null);
+  const [voting, setVoting] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!contestId || !user) return;
+
+    const loadContest = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.from("room_contests").select("*").eq("id", contestId).single();
+        if (error) throw error;
+
+        const contestRow = withContestDefaults(data);
+        const loaded = { ...contestRow, phase: getContestPhase(contestRow) };
+        setContest(loaded);
+
+        if (loaded.phase === "results") {
+          setResults(await fetchContestResults(contestId));
+        } else if (loaded.phase === "voting") {
+          const [subs, votes] = await Promise.all([fetchContestSubmissions(contestId), fetchContestVotes(contestId)]);
+          setSubmissions(subs.filter((s) => !s.is_hidden));
+          setMyVote(votes.find((v) => v.user_id === user.id)?.submission_id ?? null);
+        }
+      } catch (err) {
+        console.error("Error loading contest:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadContest();
+  }, [contestId, user]);
+
+  const handleVote = async (submissionId: string) => {
+    if (!contest || !user || voting) return;
+    try {
+      setVoting(submissionId);
+      await castContestVote(contest.id, submissionId, user.id);
+      setMyVote(submissionId);
+      toast.success(myVote ? "Vote moved!" : "Vote cast!");
+    } catch (err) {
+      console.error("Error casting vote:", err);
+      toast.error("Failed to cast vote.");
+    } finally {
+      setVoting(null);
+    }
+  };
+
+  return (
+    <div className="p-6 min-h-screen bg-gray-50 text-gray-900">
+      <Toaster position="top-center" />
+      <button
+        onClick={() => navigate("/user/dashboard/member-contests")}
+        className="inline-flex items-center text-sm text-green-700 hover:text-green-800 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to contests
+      </button>
+
+      {loading ? (
+        <p>Loading contest...</p>
+      ) : !contest ? (
+        <p>Contest not found.</p>
+      ) : (
+        <>
+          <div className="mb-6 text-center">
+            <h1 className="text-2xl font-bold text-green-800">{contest.title}</h1>
+            <button
+              onClick={() => navigate("gallery")}
+              className="text-sm text-green-700 hover:text-green-800 underline"
+            >
+              View gallery
+            </button>
+            <p className="text-sm text-gray-600 mt-1">
+              {contest.phase === "voting"
+                ? "Pick your favourite design. You have one vote and can move it until voting closes."
+                : CONTEST_PHASE_LABELS[contest.phase]}
+            </p>
+          </div>
+
+          {contest.phase === "voting" ? (
+            submissions.length === 0 ? (
+              <p className="text-center text-gray-600">No entries to vote on.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {submissions.map((sub, index) => {
+                  const isOwn = sub.user_id === user?.id;
+                  const isMine = myVote === sub.id;
+                  return (
+                    <div
+                      key={sub.id}
+                      className={`bg-white rounded-lg shadow-md overflow-hidden border-2 ${
+                        isMine ? "border-green-500" : "border-transparent"
+                      }`}
+                    >
+                      <img src={sub.image_url} alt={`Entry #${index + 1}`} className="w-full h-56 object-cover" />
+                      {sub.caption && <p className="px-4 pt-3 text-sm text-gray-700">{sub.caption}</p>}
+                      <div className="p-4 flex items-center justify-between">
+                        <span className="font-medium">Entry #{index + 1}</span>
+                        {isOwn ? (
+                          <span className="text-xs text-gray-500">Your entry</span>
+                        ) : isMine ? (
+                          <span className="inline-flex items-center text-sm text-green-700">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Your vote
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleVote(sub.id)}
+                            disabled={voting !== null}
+                            className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                          >
+                            {voting === sub.id ? "Voting..." : "Vote"}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          ) : contest.phase === "results" ? (
+            <div className="max-w-2xl mx-auto space-y-3">
+              {results.map((r) => (
+                <div
+                  key={r.submission_id}
+                  className={`flex items-center gap-4 bg-white rounded-lg shadow p-3 ${
+                    r.user_id === user?.id ? "ring-2 ring-green-500" : ""
+                  }`}
+                >
+                  <span className="text-2xl font-bold text-green-700 w-10 text-center">
+                    {r.rank <= 3 ? ["🥇", "🥈", "🥉"][r.rank - 1] : r.rank}
+                  </span>
+                  {r.contest_submissions && (
+                    <img src={r.contest_submissions.image_url} alt="" className="w-24 h-16 object-cover rounded" />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium">
+                      {r.users ? `${r.users.first_name} ${r.users.last_name}` : "Member"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Judges {r.judge_score}%{contest.voting_enabled && ` · ${r.vote_count} votes`}
+                      {!!r.coins_awarded && ` · +${r.coins_awarded} coins`}
+                    </p>
+                  </div>
+                  <span className="font-semibold">{r.final_score}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-600">
+              Voting hasn't opened for this contest yet.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import { useEffect, useState } from "react";
 import { supabase } from "../../../lib/supabase";
+import { isPostLive } from "../../../lib/scheduling";
+import { evaluateBadges } from "../../../lib/badges";
 import { X } from "lucide-react";
 import { Link } from "react-router";
+import MarkdownContent from "../../../components/MarkdownContent";
 
 type EventPost = {
   id: string;
@@ -78,6 +81,9 @@ export default function DashboardHome() {
         } = await supabase.auth.getUser();
         if (userError || !user) throw userError;
 
+        // Catch up on badges created since the last visit
+        evaluateBadges();
+
         // Get user's org memberships
         const { data: memberData, error: memberError } = await supabase
           .from("org_members")
@@ -91,7 +97,7 @@ export default function DashboardHome() {
         const today = new Date().toISOString().split("T")[0];
         const { data, error } = await supabase
           .from("posts")
-          .select("id, title, content, event_date, start_time, end_time, location, org_id, visibility")
+          .select("id, title, content, status, publish_at, expires_at, event_date, start_time, end_time, location, org_id, visibility")
           .eq("post_type", "event")
           .gte("event_date", today)
           .order("event_date", { ascending: true })
@@ -101,6 +107,7 @@ export default function DashboardHome() {
 
         // Filter by visibility
         const visibleEvents = (data ?? []).filter((event) => {
+          if (!isPostLive(event)) return false;
           if (event.visibility === "public") return true;
           if (event.visibility === "private" && memberOrgIds.includes(event.org_id)) return true;
           return false;
@@ -248,9 +255,7 @@ export default function DashboardHome() {
             </div>
 
             {selectedEvent.content && (
-              <div className="text-gray-700">
-                <p>{selectedEvent.content}</p>
-              </div>
+              <MarkdownContent content={selectedEvent.content} className="text-gray-700" />
             )}
           </div>
         </div>
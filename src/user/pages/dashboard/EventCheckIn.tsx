@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router";
+import { Html5Qrcode } from "html5-qrcode";
+import { ScanLine, CheckCircle, XCircle, Camera } from "lucide-react";
+import { checkInWithToken, extractCheckInToken, getCheckInMessage } from "../../../lib/checkin";
+import type { CheckInResult } from "../../../types/database.types";
+
+const READER_ID = "checkin-reader";
+
+export default function EventCheckIn() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [scanning, setScanning] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+
+  // A token in the URL means the QR code was opened with the phone's camera app
+  useEffect(() => {
+    const token = searchParams.get("token");
+    if (token) {
+      submitToken(token);
+      setSearchParams({}, { replace: true });
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stopScanner();
+    };
+  }, []);
+
+  async function submitToken(token: string) {
+    setSubmitting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const checkInResult = await checkInWithToken(token);
+      setResult(checkInResult);
+    } catch (err) {
+      console.error("Error checking in:", err);
+      setError("Failed to check in. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function startScanner() {
+    setError(null);
+    setResult(null);
+    setScanning(true);
+
+    try {
+      const scanner = new Html5Qrcode(READER_ID);
+      scannerRef.current = scanner;
+
+      await scanner.start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: 250 },
+        async (decodedText) => {
+          const token = extractCheckInToken(decodedText);
+          await stopScanner();
+          if (token) submitToken(token);
+          else setError("That QR code is not an OrgSync check-in code.");
+        },
+        () => {
+          // No code in frame yet
+        }
+      );
+    } catch (err) {
+      console.error("Error starting camera:", err);
+      setError("Unable to access the camera. Please allow camera permission and try again.");
+      setScanning(false);
+      scannerRef.current = null;
+    }
+  }
+
+  async function stopScanner() {
+    const scanner = scannerRef.current;
+    scannerRef.current = null;
+    setScanning(false);
+    if (scanner?.isScanning) {
+      try {
+        await scanner.stop();
+      } catch (err) {
+        console.warn("Error stopping scanner:", err);
+      }
+    }
+  }
+
+  const success = result?.status === "checked_in" || result?.status === "already_checked_in";
+
+  return (
+    <div className="p-3 max-w-md mx-auto space-y-6">
+      <div className="text-center">
+        <ScanLine className="h-10 w-10 text-green-600 mx-auto mb-2" />
+        <h1 className="text-2xl font-bold text-green-700">Event Check-in</h1>
+        <p className="text-gray-600 text-sm mt-1">Scan the QR code displayed by the event officers.</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-4">
+        {/* The scanner renders the camera preview into this element */}
+        <div id={READER_ID} className="w-full overflow-hidden rounded-md" />
+
+        {submitting ? (
+          <div className="flex flex-col items-center py-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-green-600 border-t-transparent mb-3"></div>
+            <p className="text-gray-600">Checking you in...</p>
+          </div>
+        ) : result ? (
+          <div className="flex flex-col items-center text-center py-6 space-y-3">
+            {success ? (
+              <CheckCircle className="h-14 w-14 text-green-600" />
+            ) : (
+              <XCircle className="h-14 w-14 text-red-500" />
+            )}
+            <p className={`font-medium ${success ? "text-green-700" : "text-red-600"}`}>
+              {getCheckInMessage(result)}
+            </p>
+            {result.checked_in_at && (
+              <p className="text-sm text-gray-500">
+                Checked in at {new Date(result.checked_in_at).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+              </p>
+            )}
+            {success && result.post_id ? (
+              <button
+                onClick={() => navigate(`/user/dashboard/posts/${result.post_id}`)}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+              >
+                View Event
+              </button>
+            ) : (
+              <button
+                onClick={startScanner}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+              >
+                Scan Again
+              </button>
+            )}
+          </div>
+        ) : scanning ? (
+          <button
+            onClick={stopScanner}
+            className="w-full mt-4 px-4 py-2 text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={startScanner}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <Camera className="h-5 w-5" />
+            Open Camera
+          </button>
+        )}
+
+        {error && (
+          <div className="mt-4 rounded-md bg-red-50 p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
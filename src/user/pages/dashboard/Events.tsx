@@ -4,7 +4,18 @@ import { useEffect, useState } from "react";
 import Calendar from "react-calendar";
 import "react-calendar/dist/Calendar.css";
 import { supabase } from "../../../lib/supabase";
+import { isPostLive } from "../../../lib/scheduling";
 import { Link } from "react-router";
+import { CalendarPlus, Copy, RefreshCw, Rss } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+import {
+  downloadEventICS,
+  getCalendarFeedUrl,
+  getOrCreateCalendarFeed,
+  getWebcalUrl,
+  regenerateCalendarFeed,
+} from "../../../lib/calendar";
+import type { CalendarFeed, CalendarFeedScope } from "../../../types/database.types";
 
 type EventDetails = {
   id: string;
@@ -15,6 +26,11 @@ type EventDetails = {
   location?: string;
   org_id?: string;
   visibility?: "public" | "private";
+  content: string;
+  status: string | null;
+  created_at: string;
+  updated_at: string | null;
+  organizations?: { name: string } | null;
 };
 
 function formatReadableDateTime(
@@ -67,6 +83,12 @@ export default function Events() {
   const [events, setEvents] = useState<EventDetails[]>([]);
   const [highlightDates, setHighlightDates] = useState<Date[]>([]);
   const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [joinedOrgs, setJoinedOrgs] = useState<{ id: string; name: string }[]>([]);
+  const [feedScope, setFeedScope] = useState<CalendarFeedScope>("rsvp");
+  const [feedOrgId, setFeedOrgId] = useState("");
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
 
   useEffect(() => {
     async function fetchEvents() {
@@ -79,6 +101,7 @@ export default function Events() {
           error: userError,
         } = await supabase.auth.getUser();
         if (userError || !user) throw userError;
+        setUserId(user.id);
 
         // Get user’s org memberships
         const { data: memberData, error: memberError } = await supabase
@@ -90,12 +113,19 @@ export default function Events() {
 
         const memberOrgIds = memberData?.map((m) => m.org_id) ?? [];
 
+        const { data: orgData } = await supabase
+          .from("organizations")
+          .select("id, name")
+          .in("id", memberOrgIds)
+          .eq("status", "active");
+        setJoinedOrgs(orgData ?? []);
+
         // Fetch events
         const today = new Date().toISOString().split("T")[0];
         const { data, error } = await supabase
           .from("posts")
           .select(
-            "id, title, event_date, start_time, end_time, location, org_id, visibility"
+            "id, title, content, status, publish_at, expires_at, created_at, updated_at, event_date, start_time, end_time, location, org_id, visibility, organizations (name)"
           )
           .eq("post_type", "event")
           .gte("event_date", today)
@@ -105,6 +135,7 @@ export default function Events() {
 
         // Filter by visibility
         const visibleEvents = (data ?? []).filter((event) => {
+          if (!isPostLive(event)) return false;
           if (event.visibility === "public") return true;
           if (
             event.visibility === "private" &&
@@ -115,7 +146,7 @@ export default function Events() {
         });
 
         // Set events and highlight dates
-        setEvents(visibleEvents);
+        setEvents(visibleEvents as unknown as EventDetails[]);
         const dates = visibleEvents
           .filter((p) => p.event_date)
           .map((p) => new Date(p.event_date!));
@@ -130,8 +161,59 @@ export default function Events() {
     fetchEvents();
   }, []);
 
+  // Reset the shown link when the feed options change
+  useEffect(() => {
+    setFeed(null);
+  }, [feedScope, feedOrgId]);
+
+  const handleAddToCalendar = (event: EventDetails) => {
+    downloadEventICS({
+      ...event,
+      event_date: event.event_date ?? null,
+      start_time: event.start_time ?? null,
+      end_time: event.end_time ?? null,
+      location: event.location ?? null,
+      org_name: event.organizations?.name ?? null,
+    });
+  };
+
+  const handleGetFeed = async () => {
+    if (!userId) return;
+    setFeedLoading(true);
+    try {
+      setFeed(await getOrCreateCalendarFeed(userId, feedScope, feedOrgId || null));
+    } catch (err) {
+      console.error("Error creating calendar feed:", err);
+      toast.error("Failed to create calendar feed.");
+    } finally {
+      setFeedLoading(false);
+    }
+  };
+
+  const handleRegenerateFeed = async () => {
+    if (!feed) return;
+    const confirmReset = window.confirm("Reset this link? Calendars subscribed to the old link will stop updating.");
+    if (!confirmReset) return;
+
+    try {
+      setFeed(await regenerateCalendarFeed(feed.id));
+      toast.success("Feed link reset.");
+    } catch (err) {
+      console.error("Error resetting calendar feed:", err);
+      toast.error("Failed to reset feed link.");
+    }
+  };
+
+  const copyFeedUrl = () => {
+    if (!feed) return;
+    navigator.clipboard.writeText(getCalendarFeedUrl(feed.token)).then(() => {
+      toast.success("Feed link copied to clipboard!");
+    });
+  };
+
   return (
     <div className="p-3">
+      <Toaster position="top-center" reverseOrder={false} />
       <div className="bg-white shadow-lg rounded-2xl p-6 max-w-md mx-auto">
         <h1 className="text-2xl font-bold text-green-700 mb-4 text-center">
           Event Calendar
@@ -193,9 +275,21 @@ export default function Events() {
                 to={`/user/dashboard/posts/${event.id}`}
                 className="block p-4 mb-2 bg-green-50 rounded-lg border border-green-200 hover:bg-green-100 hover:border-green-300 transition-colors cursor-pointer"
               >
-                <h3 className="font-bold text-green-800 text-base">
-                  {event.title}
-                </h3>
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-bold text-green-800 text-base">
+                    {event.title}
+                  </h3>
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleAddToCalendar(event);
+                    }}
+                    title="Add to calendar"
+                    className="text-green-700 hover:text-green-900 flex-shrink-0"
+                  >
+                    <CalendarPlus className="h-5 w-5" />
+                  </button>
+                </div>
                 <p className="text-sm text-gray-700 mt-1">
                   {formatReadableDateTime(
                     event.event_date,
@@ -212,6 +306,81 @@ export default function Events() {
             <p className="text-sm text-gray-500">No upcoming events</p>
           )}
         </div>
+
+        {/* Calendar Subscription */}
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Rss className="h-5 w-5 text-green-700" />
+            Subscribe in Google/Outlook
+          </h2>
+          <p className="text-sm text-gray-600">
+            Get a private link your calendar app checks for new, updated and cancelled events.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={feedScope}
+              onChange={(e) => setFeedScope(e.target.value as CalendarFeedScope)}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value="rsvp">My RSVPs</option>
+              <option value="all">All events</option>
+            </select>
+            <select
+              value={feedOrgId}
+              onChange={(e) => setFeedOrgId(e.target.value)}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value="">All my organizations</option>
+              {joinedOrgs.map((org) => (
+                <option key={org.id} value={org.id}>{org.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {feed ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={getCalendarFeedUrl(feed.token)}
+                  className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-xs text-gray-600 bg-gray-50"
+                />
+                <button
+                  onClick={copyFeedUrl}
+                  title="Copy link"
+                  className="p-2 text-gray-600 hover:text-green-700"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <a
+                  href={getWebcalUrl(feed.token)}
+                  className="text-sm text-green-700 hover:text-green-900 font-medium"
+                >
+                  Open in calendar app →
+                </a>
+                <button
+                  onClick={handleRegenerateFeed}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                  Reset link
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={handleGetFeed}
+              disabled={feedLoading || !userId}
+              className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              {feedLoading ? "Creating link..." : "Get Feed Link"}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -3,6 +3,7 @@ import { useNavigate } from "react-router";
 import { supabase } from "../../../lib/supabase";
 import { useAuth } from "../../../context/AuthContext";
 import { ArrowLeft } from "lucide-react";
+import type { FlappyTuning } from "../../../types/database.types";
 
 interface FlappyConfig {
   id: string;
@@ -14,6 +15,7 @@ interface FlappyConfig {
   background_image_url?: string;
   start_time?: string;
   end_time?: string;
+  tuning?: Partial<FlappyTuning> | null;
 }
 
 export default function FlappyChallengePicker() {
@@ -45,7 +47,7 @@ export default function FlappyChallengePicker() {
         const { data, error } = await supabase
           .from("flappy_config")
           .select(
-            "id, challenge_id, org_id, name, description, player_image_url, background_image_url, start_time, end_time"
+            "id, challenge_id, org_id, name, description, player_image_url, background_image_url, start_time, end_time, tuning"
           )
           .in("org_id", orgIds);
 
@@ -1,7 +1,9 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Unity, useUnityContext } from "react-unity-webgl";
 import { useNavigate } from "react-router";
 import { useAuth } from "../../../context/AuthContext";
+import { resolveFlappyTuning } from "../../../lib/flappyTuning";
+import { parseFinishedEvent, startGameSession, submitGameResult, type FlappyFinishedEvent } from "../../../lib/gameSessions";
 
 const FlappyGame: React.FC = () => {
   const navigate = useNavigate();
@@ -11,6 +13,9 @@ const FlappyGame: React.FC = () => {
   const [unityReady, setUnityReady] = useState(false);
   const [configSent, setConfigSent] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true); // New state for instructions
+  const [sessionError, setSessionError] = useState(false);
+  const sessionTokenRef = useRef<string | null>(null);
+  const challengeSentRef = useRef(false);
 
   const { unityProvider, isLoaded, loadingProgression, sendMessage, addEventListener, removeEventListener } = useUnityContext({
     loaderUrl: "/unity/game3/Build/Flappy.loader.js",
@@ -33,6 +38,8 @@ const FlappyGame: React.FC = () => {
 
     const config = JSON.parse(storedConfig);
     config.challenge_id = storedChallengeId;
+    // Always send a full set of values; older challenges have no tuning saved
+    config.tuning = resolveFlappyTuning(config.tuning);
     setSelectedConfig(config);
     setOrgId(storedOrgId);
   }, [navigate]);
@@ -59,20 +66,89 @@ const FlappyGame: React.FC = () => {
 
   useEffect(() => {
     if (!isLoaded || !user || !selectedConfig || !unityReady || configSent) return;
+    setConfigSent(true);
+
+    // The challenge only reaches the game once there is a token to submit the run with
+    const sendConfig = async () => {
+      try {
+        const session = await startGameSession({ game: "flappy", orgId, challengeId: selectedConfig.challenge_id });
+        sessionTokenRef.current = session.token;
+      } catch (err) {
+        console.error("Error starting game session:", err);
+        setSessionError(true);
+        return;
+      }
+
+      try {
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveUserId", user.id);
+
+        if (orgId) sendMessage(UNITY_OBJECT_NAME, "ReceiveOrgId", orgId);
+
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveChallengeId", selectedConfig.challenge_id);
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveSessionToken", sessionTokenRef.current);
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveChallengeData", JSON.stringify(selectedConfig));
+        challengeSentRef.current = true;
+      } catch {
+        // fail silently
+      }
+    };
 
-    try {
-      sendMessage(UNITY_OBJECT_NAME, "ReceiveUserId", user.id);
+    sendConfig();
+  }, [isLoaded, unityReady, user, selectedConfig, orgId, sendMessage, configSent]);
 
-      if (orgId) sendMessage(UNITY_OBJECT_NAME, "ReceiveOrgId", orgId);
+  // Each run ends with a result the server checks against play time before recording it
+  useEffect(() => {
+    const handleFlappyFinished = async (...params: unknown[]) => {
+      const event = parseFinishedEvent<FlappyFinishedEvent>(String(params[0]));
+      const token = sessionTokenRef.current;
+      if (!event || !token || !selectedConfig) return;
+      sessionTokenRef.current = null;
+
+      try {
+        const result = await submitGameResult(token, {
+          game: "flappy",
+          score: event.score,
+          durationMs: event.durationMs,
+          flaps: event.flaps,
+        });
+        if (result.status === "rejected") console.warn("Flappy score rejected:", result.reason);
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveScoreResult", JSON.stringify(result));
+      } catch (err) {
+        console.error("Error submitting flappy score:", err);
+      }
+
+      // Tokens are single use; the next run waits for a fresh one
+      try {
+        const session = await startGameSession({ game: "flappy", orgId, challengeId: selectedConfig.challenge_id });
+        sessionTokenRef.current = session.token;
+        sendMessage(UNITY_OBJECT_NAME, "ReceiveSessionToken", session.token);
+      } catch (err) {
+        console.error("Error starting game session:", err);
+        setSessionError(true);
+      }
+    };
 
-      sendMessage(UNITY_OBJECT_NAME, "ReceiveChallengeId", selectedConfig.challenge_id);
-      sendMessage(UNITY_OBJECT_NAME, "ReceiveChallengeData", JSON.stringify(selectedConfig));
+    addEventListener("FlappyFinished", handleFlappyFinished);
+    return () => removeEventListener("FlappyFinished", handleFlappyFinished);
+  }, [addEventListener, removeEventListener, sendMessage, selectedConfig, orgId]);
 
-      setConfigSent(true);
-    } catch {
-      // fail silently
+  const retrySession = async () => {
+    setSessionError(false);
+    // The first token failed: run the whole setup again
+    if (!challengeSentRef.current) {
+      setConfigSent(false);
+      return;
     }
-  }, [isLoaded, unityReady, user, selectedConfig, orgId, sendMessage, configSent]);
+
+    try {
+      const session = await startGameSession({ game: "flappy", orgId, challengeId: selectedConfig.challenge_id });
+      sessionTokenRef.current = session.token;
+      sendMessage(UNITY_OBJECT_NAME, "ReceiveSessionToken", session.token);
+    } catch (err) {
+      console.error("Error starting game session:", err);
+      setSessionError(true);
+    }
+  };
 
   return (
     <div className="fixed inset-0 flex flex-col bg-black">
@@ -109,6 +185,27 @@ const FlappyGame: React.FC = () => {
         </div>
       )}
 
+      {/* Runs can't be recorded without a session, so the game waits behind this */}
+      {sessionError && (
+        <div className="absolute inset-0 bg-black/80 z-30 flex flex-col justify-center items-center text-white p-6 text-center">
+          <p className="mb-4">Couldn't start a game session. Check your connection and try again.</p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => navigate(-1)}
+              className="px-6 py-2 bg-gray-600 rounded-lg text-white hover:bg-gray-700"
+            >
+              Back
+            </button>
+            <button
+              onClick={retrySession}
+              className="px-6 py-2 bg-green-600 rounded-lg text-white hover:bg-green-700"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Unity Game */}
       <div className="flex-1 flex justify-center items-center bg-black">
         {!isLoaded && (
@@ -49,13 +49,19 @@ export default function Games() {
             Fun and interactive challenges to test your knowledge and skills
             while competing with friends!
           </p>
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-3">
             <Link
               to="../quiz-selection"
               className="bg-green-600 text-white px-6 py-2 rounded-full hover:bg-green-700 transition"
             >
               Play
             </Link>
+            <Link
+              to="../live-quiz"
+              className="border border-green-600 text-green-700 px-6 py-2 rounded-full hover:bg-green-50 transition"
+            >
+              Join Live
+            </Link>
           </div>
         </div>
 
@@ -2,6 +2,18 @@ import React, { useEffect, useState } from "react";
 import { useAuth } from "../../../context/AuthContext";
 import { supabase } from "../../../lib/supabase";
 import Leaderboard from "../../components/Leaderboard";
+import {
+  SEASON_STATUS_LABELS,
+  fetchArchivedBoard,
+  fetchBoard,
+  fetchSeasons,
+  fetchUserSeasonHistory,
+  findActiveSeason,
+  getSeasonStatus,
+  ordinal,
+  type BoardEntry,
+} from "../../../lib/seasons";
+import type { LeaderboardSeason, SeasonStanding } from "../../../types/database.types";
 
 interface Organization {
   id: string;
@@ -18,15 +30,6 @@ interface FlappyChallenge {
   name: string;
 }
 
-interface Score {
-  id: string;
-  user_id: string;
-  username: string | null;
-  score: number;
-  created_at: string;
-  rank?: number;
-}
-
 const LeaderboardPage: React.FC = () => {
   const { user } = useAuth();
   const [orgs, setOrgs] = useState<Organization[]>([]);
@@ -42,8 +45,13 @@ const LeaderboardPage: React.FC = () => {
   const [flappyChallenges, setFlappyChallenges] = useState<FlappyChallenge[]>([]);
   const [selectedFlappy, setSelectedFlappy] = useState<string>("");
 
+  // Seasons ("" = all time)
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>("");
+  const [history, setHistory] = useState<SeasonStanding[]>([]);
+
   // Scores
-  const [scores, setScores] = useState<Score[]>([]);
+  const [scores, setScores] = useState<BoardEntry[]>([]);
   const [loading, setLoading] = useState(false);
 
   // Fetch orgs
@@ -73,6 +81,31 @@ const LeaderboardPage: React.FC = () => {
     fetchOrgs();
   }, [user]);
 
+  // Fetch seasons and own past finishes for selected org
+  useEffect(() => {
+    if (!selectedOrg || !user) return;
+
+    const loadSeasons = async () => {
+      try {
+        const [seasonList, standings] = await Promise.all([
+          fetchSeasons(selectedOrg),
+          fetchUserSeasonHistory(user.id, selectedOrg),
+        ]);
+        setSeasons(seasonList);
+        setSelectedSeason(findActiveSeason(seasonList)?.id ?? "");
+        setHistory(standings);
+      } catch (err) {
+        console.error("Error fetching seasons:", err);
+      }
+    };
+
+    loadSeasons();
+  }, [selectedOrg, user]);
+
+  // Upcoming seasons have no scores yet, so they aren't offered
+  const visibleSeasons = seasons.filter((s) => getSeasonStatus(s) !== "upcoming");
+  const season = seasons.find((s) => s.id === selectedSeason) ?? null;
+
   // Fetch quizzes for selected org
   useEffect(() => {
     if (!selectedOrg || gameType !== "quiz") return;
@@ -127,31 +160,17 @@ const LeaderboardPage: React.FC = () => {
     const fetchScores = async () => {
       setLoading(true);
       try {
-        const { data: topScores } = await supabase
-          .from("flappy_scores")
-          .select("*")
-          .eq("challenge_id", selectedFlappy)
-          .eq("org_id", selectedOrg)
-          .order("score", { ascending: false })
-          .limit(10);
-
-        let combined = topScores || [];
-        const userInTop = combined.some((s) => s.user_id === user.id);
-
-        if (!userInTop) {
-          const { data: userScore } = await supabase
-            .from("flappy_scores")
-            .select("*")
-            .eq("challenge_id", selectedFlappy)
-            .eq("org_id", selectedOrg)
-            .eq("user_id", user.id)
-            .single();
-
-          if (userScore) combined = [...combined, userScore];
-        }
-
-        combined.sort((a, b) => b.score - a.score);
-        setScores(combined.map((s, i) => ({ ...s, rank: i + 1 })));
+        const data =
+          season && season.archived_at
+            ? await fetchArchivedBoard(season.id, "flappy", selectedFlappy, user.id)
+            : await fetchBoard({
+                game: "flappy",
+                orgId: selectedOrg,
+                refId: selectedFlappy,
+                season,
+                userId: user.id,
+              });
+        setScores(data);
       } catch (err) {
         console.error("Error fetching flappy scores:", err);
       } finally {
@@ -160,7 +179,7 @@ const LeaderboardPage: React.FC = () => {
     };
 
     fetchScores();
-  }, [gameType, selectedOrg, selectedFlappy]);
+  }, [gameType, selectedOrg, selectedFlappy, season]);
 
   return (
     <div className="min-h-screen p-3">
@@ -203,6 +222,27 @@ const LeaderboardPage: React.FC = () => {
           </select>
         </div>
 
+        {/* Season Selector */}
+        {selectedOrg && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Season
+            </label>
+            <select
+              value={selectedSeason}
+              onChange={(e) => setSelectedSeason(e.target.value)}
+              className="w-full border rounded-lg p-2"
+            >
+              <option value="">All Time</option>
+              {visibleSeasons.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} ({SEASON_STATUS_LABELS[getSeasonStatus(s)]})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Game-specific Selector */}
         {gameType === "quiz" && selectedOrg && (
           <div className="mb-4">
@@ -250,16 +290,16 @@ const LeaderboardPage: React.FC = () => {
         {loading ? (
           <div className="text-center py-6 text-gray-500">Loading leaderboard...</div>
         ) : gameType === "quiz" && selectedQuiz && selectedOrg ? (
-          <Leaderboard quizId={selectedQuiz} orgId={selectedOrg} />
+          <Leaderboard quizId={selectedQuiz} orgId={selectedOrg} season={season} userId={user?.id} />
         ) : gameType === "flappy" && selectedOrg && selectedFlappy ? (
           scores.length > 0 ? (
             <div className="max-w-md mx-auto bg-white rounded-2xl shadow p-6 mt-4">
               <h2 className="text-2xl font-bold mb-4 text-center">🏆 Leaderboard</h2>
 
               <ol className="divide-y divide-gray-200">
-                {scores.map((score, index) => (
+                {scores.map((score) => (
                   <li
-                    key={score.id}
+                    key={score.user_id}
                     className={`py-3 flex justify-between items-center ${
                       score.user_id === user?.id ? "bg-green-50 font-bold rounded-lg px-2" : ""
                     }`}
@@ -272,16 +312,18 @@ const LeaderboardPage: React.FC = () => {
                     </span>
                     <div className="text-right">
                       <span className="font-semibold block">{score.score}</span>
-                      <span className="text-xs text-gray-500">
-                        {new Date(score.created_at).toLocaleString("en-US", {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                          hour: "numeric",
-                          minute: "2-digit",
-                          hour12: true,
-                        })}
-                      </span>
+                      {score.created_at && (
+                        <span className="text-xs text-gray-500">
+                          {new Date(score.created_at).toLocaleString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                            hour: "numeric",
+                            minute: "2-digit",
+                            hour12: true,
+                          })}
+                        </span>
+                      )}
                     </div>
                   </li>
                 ))}
@@ -297,6 +339,33 @@ const LeaderboardPage: React.FC = () => {
             Select a quiz or challenge to view its leaderboard.
           </div>
         )}
+
+        {/* Past season finishes */}
+        {history.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold mb-3">My Past Seasons</h3>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {history.map((standing) => (
+                <li key={standing.id} className="px-3 py-2 flex justify-between items-center text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{standing.board_name}</p>
+                    <p className="text-xs text-gray-500">
+                      {standing.leaderboard_seasons?.name} · {standing.game === "quiz" ? "Quiz" : "Flappy"}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <span className="font-semibold block">
+                      {ordinal(standing.rank)} · {standing.score}
+                    </span>
+                    {standing.coins_awarded > 0 && (
+                      <span className="text-xs text-yellow-700">+{standing.coins_awarded} coins</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router";
+import { ArrowLeft, CheckCircle, XCircle, Trophy, Radio } from "lucide-react";
+import { supabase } from "../../../lib/supabase";
+import { useAuth } from "../../../context/AuthContext";
+import {
+  LIVE_ANSWER_COLORS,
+  LIVE_QUIZ_CODE_LENGTH,
+  answerLetter,
+  fetchLivePlayers,
+  getSecondsLeft,
+  joinLiveSession,
+  normalizeJoinCode,
+  submitLiveAnswer,
+} from "../../../lib/liveQuiz";
+import type { LiveQuizAnswerResult, LiveQuizPlayer, LiveQuizSession } from "../../../types/database.types";
+
+export default function LiveQuiz() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [code, setCode] = useState("");
+  const [session, setSession] = useState<LiveQuizSession | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<Record<number, LiveQuizAnswerResult>>({});
+  const [players, setPlayers] = useState<LiveQuizPlayer[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const questionIndex = session?.current_index ?? -1;
+  const question = session?.current_question ?? null;
+  const result = results[questionIndex];
+  const myRank = players.findIndex((p) => p.user_id === user?.id) + 1;
+  const me = players.find((p) => p.user_id === user?.id);
+
+  // A code in the URL means the lobby QR code was scanned
+  useEffect(() => {
+    const codeParam = searchParams.get("code");
+    if (codeParam && user) {
+      setCode(normalizeJoinCode(codeParam));
+      handleJoin(codeParam);
+      setSearchParams({}, { replace: true });
+    }
+  }, [user]);
+
+  async function handleJoin(joinCode: string) {
+    if (!user) return;
+    setJoining(true);
+    setError(null);
+    try {
+      setSession(await joinLiveSession(joinCode, user.id));
+    } catch (err) {
+      console.error("Error joining live quiz:", err);
+      setError(err instanceof Error ? err.message : "Failed to join. Please try again.");
+    } finally {
+      setJoining(false);
+    }
+  }
+
+  // Follow the host. The session row never holds the answer key, so the change payload is safe to use as is.
+  useEffect(() => {
+    if (!session) return;
+
+    const channel = supabase
+      .channel(`live-quiz-${session.id}`)
+      .on("postgres_changes", {
+        event: "UPDATE",
+        schema: "public",
+        table: "live_quiz_sessions",
+        filter: `id=eq.${session.id}`,
+      }, (payload) => {
+        setSession(payload.new as LiveQuizSession);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session?.id]);
+
+  // New question: clear the previous selection
+  useEffect(() => {
+    setSelected([]);
+    setError(null);
+  }, [questionIndex]);
+
+  // Standings after each reveal and at the end
+  useEffect(() => {
+    if (!session || (session.status !== "reveal" && session.status !== "finished")) return;
+
+    fetchLivePlayers(session.id)
+      .then(setPlayers)
+      .catch((err) => console.error("Error fetching live standings:", err));
+  }, [session?.status, questionIndex]);
+
+  useEffect(() => {
+    if (!session || session.status !== "question") return;
+
+    const tick = () => setSecondsLeft(getSecondsLeft(session));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  async function handleSubmit(indexes: number[]) {
+    if (!session || indexes.length === 0 || result) return;
+    setSubmitting(true);
+    try {
+      const answerResult = await submitLiveAnswer(session.id, questionIndex, indexes);
+      setResults((prev) => ({ ...prev, [questionIndex]: answerResult }));
+    } catch (err) {
+      console.error("Error submitting live answer:", err);
+      setError(err instanceof Error ? err.message : "Your answer could not be submitted.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const handleAnswerClick = (index: number) => {
+    if (!question || result || submitting) return;
+    if (question.type === "multiple_select") {
+      setSelected((prev) => (prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]));
+    } else {
+      setSelected([index]);
+      handleSubmit([index]);
+    }
+  };
+
+  const renderBody = () => {
+    if (!session) {
+      return (
+        <div className="w-full max-w-sm bg-white shadow rounded-2xl p-6">
+          <div className="flex flex-col items-center mb-4">
+            <Radio className="h-10 w-10 text-green-600 mb-2" />
+            <h1 className="text-2xl font-bold text-gray-800">Join Live Quiz</h1>
+            <p className="text-sm text-gray-600 text-center mt-1">Enter the code shown on the host's screen</p>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleJoin(code);
+            }}
+            className="space-y-3"
+          >
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(normalizeJoinCode(e.target.value))}
+              maxLength={LIVE_QUIZ_CODE_LENGTH}
+              placeholder="ABC123"
+              className="w-full border border-gray-300 rounded-lg p-3 text-center font-mono text-2xl tracking-widest uppercase focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <button
+              type="submit"
+              disabled={joining || code.length !== LIVE_QUIZ_CODE_LENGTH}
+              className="w-full bg-green-600 text-white py-3 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {joining ? "Joining..." : "Join"}
+            </button>
+          </form>
+        </div>
+      );
+    }
+
+    if (session.status === "lobby") {
+      return (
+        <div className="text-center space-y-3">
+          <CheckCircle className="h-14 w-14 text-green-600 mx-auto" />
+          <h2 className="text-2xl font-bold text-gray-800">You're in!</h2>
+          <p className="text-gray-600">Waiting for the host to start the quiz...</p>
+        </div>
+      );
+    }
+
+    if (session.status === "finished") {
+      return (
+        <div className="w-full max-w-md text-center space-y-4">
+          <Trophy className="h-14 w-14 text-yellow-500 mx-auto" />
+          <h2 className="text-2xl font-bold text-gray-800">Quiz Over</h2>
+          {me && (
+            <p className="text-lg text-gray-700">
+              You finished <span className="font-bold">#{myRank}</span> of {players.length} with{" "}
+              <span className="font-bold">{me.score}</span> points
+            </p>
+          )}
+          <ol className="space-y-2 text-left">
+            {players.slice(0, 5).map((player, i) => (
+              <li
+                key={player.user_id}
+                className={`flex justify-between rounded-lg px-4 py-2 ${
+                  player.user_id === user?.id ? "bg-green-100 font-semibold" : "bg-white border border-gray-200"
+                }`}
+              >
+                <span className="truncate">
+                  {i + 1}. {player.username}
+                </span>
+                <span>{player.score}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      );
+    }
+
+    if (!question) return null;
+
+    if (session.status === "reveal") {
+      const correct = result?.is_correct;
+      return (
+        <div className="text-center space-y-3">
+          {!result ? (
+            <p className="text-xl font-semibold text-gray-700">Time's up! No answer submitted.</p>
+          ) : correct ? (
+            <>
+              <CheckCircle className="h-16 w-16 text-green-600 mx-auto" />
+              <p className="text-2xl font-bold text-green-700">Correct! +{result.points}</p>
+            </>
+          ) : (
+            <>
+              <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+              <p className="text-2xl font-bold text-red-600">
+                {result.points > 0 ? `Partly right: +${result.points}` : "Not quite"}
+              </p>
+            </>
+          )}
+          {session.revealed_answers && (
+            <p className="text-gray-600">
+              Answer: {session.revealed_answers.map((i) => `${answerLetter(i)}. ${question.answers[i]}`).join(", ")}
+            </p>
+          )}
+          {me && (
+            <p className="text-gray-700">
+              {me.score} points · #{myRank} of {players.length}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="w-full max-w-2xl space-y-4">
+        <div className="flex justify-between items-center text-sm text-gray-600">
+          <span>
+            Question {questionIndex + 1} of {session.question_count}
+          </span>
+          <span className="font-bold text-lg text-green-700">{secondsLeft}s</span>
+        </div>
+        <h2 className="text-xl font-bold text-gray-800">{question.questionText}</h2>
+        {question.imageUrl && (
+          <img src={question.imageUrl} alt="" className="max-h-48 mx-auto rounded-lg border border-gray-200 object-contain" />
+        )}
+
+        {result ? (
+          <p className="text-center text-lg font-medium text-gray-700 py-8">Answer locked in. Waiting for the others...</p>
+        ) : secondsLeft === 0 ? (
+          <p className="text-center text-lg font-medium text-gray-700 py-8">Time's up!</p>
+        ) : (
+          <>
+            {question.type === "multiple_select" && <p className="text-sm text-gray-600">Select all that apply</p>}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {question.answers.map((answer, i) => (
+                <button
+                  key={i}
+                  onClick={() => handleAnswerClick(i)}
+                  disabled={submitting}
+                  className={`rounded-lg px-4 py-5 text-white text-lg font-semibold text-left transition ${
+                    LIVE_ANSWER_COLORS[i % LIVE_ANSWER_COLORS.length]
+                  } ${selected.includes(i) ? "ring-4 ring-offset-2 ring-gray-800" : "hover:opacity-90"}`}
+                >
+                  {answerLetter(i)}. {answer}
+                </button>
+              ))}
+            </div>
+            {question.type === "multiple_select" && (
+              <button
+                onClick={() => handleSubmit(selected)}
+                disabled={submitting || selected.length === 0}
+                className="w-full bg-green-600 text-white py-3 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? "Submitting..." : "Submit Answer"}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative min-h-screen flex flex-col items-center justify-center px-4 py-16 bg-gray-50">
+      <button
+        onClick={() => navigate(-1)}
+        className="absolute top-4 left-4 flex items-center text-green-600 hover:text-green-700 font-medium"
+      >
+        <ArrowLeft className="w-5 h-5 mr-1" />
+        Back
+      </button>
+
+      {error && (
+        <div className="w-full max-w-md rounded-md bg-red-50 p-3 mb-4 text-center">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {renderBody()}
+    </div>
+  );
+}
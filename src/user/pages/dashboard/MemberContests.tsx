@@ -1,15 +1,13 @@
 import { useEffect, useState } from "react";
 import { supabase } from "../../../lib/supabase";
 import { useNavigate } from "react-router";
-
-interface Contest {
-  id: string;
-  title: string;
-  description: string;
-  start_date: string | null;
-  end_date: string | null;
-  is_active: boolean;
-}
+import {
+  CONTEST_PHASE_COLORS,
+  CONTEST_PHASE_LABELS,
+  getContestPhase,
+  withContestDefaults,
+} from "../../../lib/contests";
+import type { RoomContest } from "../../../types/database.types";
 
 function formatReadableDateTime(dateString: string | null) {
   if (!dateString) return null;
@@ -25,7 +23,7 @@ function formatReadableDateTime(dateString: string | null) {
 }
 
 export default function MemberContests() {
-  const [contests, setContests] = useState<Contest[]>([]);
+  const [contests, setContests] = useState<RoomContest[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -46,18 +44,18 @@ export default function MemberContests() {
 
       const now = new Date();
 
-      const validContests = (data || []).filter((contest) => {
-        const { start_date, end_date } = contest;
-
-        // No start and end date → always visible
-        if (!start_date && !end_date) return true;
+      const validContests = (data || [])
+        .map((row) => {
+          const contest = withContestDefaults(row);
+          return { ...contest, phase: getContestPhase(contest, now) };
+        })
+        .filter((contest) => {
+          // Closed contests stay listed while they're judged and once results are out
+          if (contest.phase !== "submissions") return true;
 
-        // Handle missing start or end
-        const start = start_date ? new Date(start_date) : new Date(0); 
-        const end = end_date ? new Date(end_date) : new Date(8640000000000000); 
-
-        return now >= start && now <= end;
-      });
+          // Not started yet
+          return !contest.start_date || now >= new Date(contest.start_date);
+        });
 
       setContests(validContests);
     } catch (err) {
@@ -87,7 +85,12 @@ export default function MemberContests() {
               key={contest.id}
               className="bg-white p-4 rounded-lg shadow-md border border-green-200 hover:shadow-lg transition"
             >
-              <h2 className="text-xl font-semibold mb-2 text-green-800">{contest.title}</h2>
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <h2 className="text-xl font-semibold text-green-800">{contest.title}</h2>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${CONTEST_PHASE_COLORS[contest.phase]}`}>
+                  {CONTEST_PHASE_LABELS[contest.phase]}
+                </span>
+              </div>
               <p className="text-gray-700 mb-2">
                 {contest.description || "No description provided."}
               </p>
@@ -103,12 +106,35 @@ export default function MemberContests() {
                 </p>
               )}
 
-              <button
-                onClick={() => navigate("../room-game")}
-                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg w-full"
-              >
-                Join Contest
-              </button>
+              {contest.phase === "submissions" ? (
+                <button
+                  onClick={() => navigate("../room-game")}
+                  className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg w-full"
+                >
+                  Join Contest
+                </button>
+              ) : (
+                <div className="space-y-2">
+                  {contest.phase === "judging" ? (
+                    <p className="text-sm text-center text-gray-500 py-2">
+                      Entries are closed. Winners will be announced soon!
+                    </p>
+                  ) : (
+                    <button
+                      onClick={() => navigate(contest.id)}
+                      className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg w-full"
+                    >
+                      {contest.phase === "voting" ? "Vote Now" : "See Results"}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => navigate(`${contest.id}/gallery`)}
+                    className="border border-green-600 text-green-700 hover:bg-green-50 px-4 py-2 rounded-lg w-full"
+                  >
+                    View Gallery
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
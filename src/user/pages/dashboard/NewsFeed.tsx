@@ -1,12 +1,21 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import { useNavigate } from "react-router";
 import { supabase } from "../../../lib/supabase";
-import { Heart, Search, ChevronLeft, ChevronRight, Filter, Share2 } from "lucide-react";
+import { getPublishedAt, isPostLive } from "../../../lib/scheduling";
+import { isPostEdited } from "../../../lib/postRevisions";
+import { claimPostReward } from "../../../lib/coinLedger";
+import type { Posts } from "../../../types/database.types";
+import { Heart, Search, ChevronLeft, ChevronRight, Filter, Share2, MessageCircle } from "lucide-react";
 import toast, { Toaster } from "react-hot-toast";
 
 import RSVPModal from "../../components/RSVPModal";
 import RegisterModal from "../../components/RegisterModal";
 import EvaluationModal from "../../components/EvaluateModal";
+import PostComments from "../../../components/PostComments";
+import MarkdownContent from "../../../components/MarkdownContent";
+
+// Long posts are cut to a formatted preview in the feed
+const FEED_PREVIEW_CHARS = 400;
 
 const colleges: Record<string, string[]> = {
   "College of Business, Economics, Accountancy and Management": [
@@ -147,6 +156,7 @@ export default function UserNewsFeed() {
 
   const [showRegisterModal, setShowRegisterModal] = useState(false);
   const [registered, setRegistered] = useState<{ [key: string]: boolean }>({});
+  const [waitlisted, setWaitlisted] = useState<{ [key: string]: boolean }>({});
 
   const [showEvalModal, setShowEvalModal] = useState(false);
   const [evaluated, setEvaluated] = useState<{ [key: string]: boolean }>({});
@@ -167,6 +177,9 @@ export default function UserNewsFeed() {
 
   const [viewed, setViewed] = useState<{ [key: string]: boolean }>({});
 
+  const [expandedComments, setExpandedComments] = useState<{ [key: string]: boolean }>({});
+  const [commentCounts, setCommentCounts] = useState<{ [key: string]: number }>({});
+
   const [loading, setLoading] = useState(true);
 
   const postRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
@@ -182,10 +195,7 @@ export default function UserNewsFeed() {
 
     try {
       await supabase.from("post_views").insert({ user_id: userId, post_id: postId });
-      await supabase.rpc(
-        "award_user_coins_once",
-        { p_user_id: userId, p_post_id: postId, p_action: "view", p_points: 1 }
-      );
+      await claimPostReward(postId, "view");
       setViewed((prev) => ({ ...prev, [postId]: true }));
     } catch (err) {
       // Already viewed
@@ -250,23 +260,30 @@ export default function UserNewsFeed() {
         *,
         organizations!inner (name, abbrev_name, org_pic, status),
         post_likes(user_id),
-        post_views(user_id)
+        post_views(user_id),
+        post_comments(count)
       `)
       .eq("organizations.status", "active")
+      // Officers can read hidden comments, but they don't count towards the total
+      .eq("post_comments.is_hidden", false)
       .order("created_at", { ascending: false });
     if (postsError) throw postsError;
 
-    // Filter posts based on visibility and membership
+    // Filter posts based on visibility and membership, hiding scheduled and expired posts
+    const now = new Date();
     const visiblePosts = (postsData ?? []).filter((post: any) => {
+      if (!isPostLive(post, now)) return false;
       if (post.visibility === "public") return true;
       if (post.visibility === "private" && memberOrgIds.includes(post.org_id)) return true;
       return false;
     });
+    // Scheduled posts take their place in the feed from when they went live
+    visiblePosts.sort((a: Posts, b: Posts) => new Date(getPublishedAt(b)).getTime() - new Date(getPublishedAt(a)).getTime());
 
     // Fetch user-related data
     const [{ data: rsvpData }, { data: registrationData }, { data: pollVoteData }, { data: feedbackData }, { data: viewData }, { data: evalData }] = await Promise.all([
       supabase.from("rsvps").select("post_id").eq("user_id", userId),
-      supabase.from("event_registrations").select("post_id").eq("user_id", userId), 
+      supabase.from("event_registrations").select("post_id, status").eq("user_id", userId), 
       supabase.from("poll_votes").select("post_id, option_index").eq("user_id", userId),
       supabase.from("form_responses").select("post_id, responses, user_id").eq("user_id", userId),
       supabase.from("post_views").select("post_id").eq("user_id", userId),
@@ -276,19 +293,24 @@ export default function UserNewsFeed() {
     // Build states
     const rsvpState: { [key: string]: boolean } = {};
     const registeredState: { [key: string]: boolean } = {};
+    const waitlistedState: { [key: string]: boolean } = {};
     const likedState: { [key: string]: boolean } = {};
     const feedbackResponsesState: { [key: string]: string } = {};
     const feedbackSubmittedState: { [key: string]: boolean } = {};
     const newPollUserVotes: { [key: string]: number | null } = {};
     const evaluatedState: { [key: string]: boolean } = {};
+    const commentCountsState: { [key: string]: number } = {};
 
     (visiblePosts ?? []).forEach((post: any) => {
       const postIdStr = post.id.toString();
 
       rsvpState[postIdStr] = rsvpData?.some((r) => r.post_id.toString() === postIdStr) ?? false;
-      registeredState[postIdStr] = registrationData?.some((r) => r.post_id.toString() === postIdStr) ?? false; 
+      // Waitlisted members are shown as such and cannot evaluate until they are confirmed
+      registeredState[postIdStr] = registrationData?.some((r) => r.post_id.toString() === postIdStr && r.status === "confirmed") ?? false;
+      waitlistedState[postIdStr] = registrationData?.some((r) => r.post_id.toString() === postIdStr && r.status === "waitlisted") ?? false;
       likedState[postIdStr] = post.post_likes?.some((l: any) => l.user_id === userId) ?? false;
       evaluatedState[postIdStr] = evalData?.some((e) => e.post_id.toString() === postIdStr) ?? false;
+      commentCountsState[postIdStr] = post.post_comments?.[0]?.count ?? 0;
 
       const feedback = feedbackData?.find((f: any) => f.post_id.toString() === postIdStr);
       if (feedback) {
@@ -309,8 +331,10 @@ export default function UserNewsFeed() {
     setFilteredPosts(visiblePosts);
     setRsvp(rsvpState);
     setRegistered(registeredState);
+    setWaitlisted(waitlistedState);
     setLiked(likedState);
     setEvaluated(evaluatedState);
+    setCommentCounts(commentCountsState);
     setPollUserVotes(newPollUserVotes);
     setPollVotes(visiblePosts.reduce((acc: any, post: any) => {
       const postIdStr = post.id.toString();
@@ -353,19 +377,14 @@ export default function UserNewsFeed() {
           setLiked((prev) => ({ ...prev, [postId]: true }));
 
           // Award coins
-          const { data: rpcData, error: rpcError } = await supabase.rpc(
-            "award_user_coins_once",
-            { p_user_id: userId, p_post_id: postId, p_action: "like", p_points: 10 }
-          );
-
-          if (rpcError) {
-            console.error("Error awarding coins:", rpcError);
-            toast.error("Liked, but failed to award coins.");
-          } else {
-            const coinsAwarded = rpcData ?? 0;
+          try {
+            const coinsAwarded = await claimPostReward(postId, "like");
             if (coinsAwarded > 0) {
               toast.success(`🎉 You earned ${coinsAwarded} coins for liking!`);
             }
+          } catch (rpcError) {
+            console.error("Error awarding coins:", rpcError);
+            toast.error("Liked, but failed to award coins.");
           }
         }
       } catch (err) {
@@ -430,7 +449,7 @@ export default function UserNewsFeed() {
         return;
       }
 
-      if (!registered[post.id]) {
+      if (!registered[post.id] && !waitlisted[post.id]) {
         setSelectedPost(post);
         setShowRegisterModal(true);
       }
@@ -512,12 +531,7 @@ export default function UserNewsFeed() {
         submitted_at: new Date().toISOString(),
       });
 
-      await supabase.rpc("award_user_coins_once", {
-        p_user_id: userId,
-        p_post_id: post.id,
-        p_action: "feedback",
-        p_points: 50,
-      });
+      await claimPostReward(post.id, "feedback");
 
       setFeedbackResponses((prev) => ({ ...prev, [post.id]: localValues }));
       setFeedbackSubmitted((prev) => ({ ...prev, [post.id]: true }));
@@ -619,15 +633,11 @@ export default function UserNewsFeed() {
           });
 
           // Award coins
-          const { data: rpcData, error: rpcError } = await supabase.rpc(
-            "award_user_coins_once",
-            { p_user_id: userId, p_post_id: post.id, p_action: "poll", p_points: 30 }
-          );
-
-          if (rpcError) {
+          try {
+            const coinsAwarded = await claimPostReward(post.id, "poll");
+            if (coinsAwarded > 0) toast.success(`🎉 You earned ${coinsAwarded} coins for voting!`);
+          } catch (rpcError) {
             console.error("Error awarding coins:", rpcError);
-          } else if ((rpcData ?? 0) > 0) {
-            toast.success(`🎉 You earned ${rpcData} coins for voting!`);
           }
 
           // Update local state
@@ -759,7 +769,13 @@ export default function UserNewsFeed() {
                 </div>
                 <div className="flex flex-col">
                   <h3 className="font-semibold text-gray-900">{post.organizations?.name ?? "Organization"}</h3>
-                  <p className="text-sm text-gray-500">Posted on {formatDate(post.created_at)} • {post.post_views?.length ?? 0} views</p>
+                  <p className="text-sm text-gray-500">
+                    Posted on {formatDate(getPublishedAt(post))}
+                    {isPostEdited(post) && (
+                      <span title={`Edited ${formatDate(post.updated_at)}`}> • Edited</span>
+                    )}
+                    {" "}• {post.post_views?.length ?? 0} views
+                  </p>
                   {Array.isArray(post.tags) && post.tags.length > 0 && (
                     <div className="flex flex-wrap gap-2 mt-1">
                       {post.tags.map((tag: string, i: number) => (
@@ -781,11 +797,22 @@ export default function UserNewsFeed() {
                   {post.title}
                 </h2>
 
-                {post.post_type === "general" && <p className="text-gray-700 mt-4">{post.content}</p>}
+                {post.post_type === "general" && (
+                  <MarkdownContent
+                    content={post.content}
+                    maxChars={FEED_PREVIEW_CHARS}
+                    onReadMore={() => navigate(`/user/dashboard/posts/${post.id}`)}
+                    className="text-gray-700 mt-4"
+                  />
+                )}
 
                 {post.post_type === "event" && (
                   <div className="text-gray-700 mt-2 space-y-1">
-                    <p>{post.content}</p>
+                    <MarkdownContent
+                      content={post.content}
+                      maxChars={FEED_PREVIEW_CHARS}
+                      onReadMore={() => navigate(`/user/dashboard/posts/${post.id}`)}
+                    />
                     <p className="mt-4"><strong>Date:</strong> {new Date(post.event_date).toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" })}</p>
                     <p><strong>Time:</strong> {formatTime(post.start_time)} – {formatTime(post.end_time)}</p>
                     <p><strong>Location:</strong> {post.location}</p>
@@ -808,16 +835,19 @@ export default function UserNewsFeed() {
                           onClick={() => handleRegisterClick(post)}
                           disabled={
                             registered[post.id] ||
+                            waitlisted[post.id] ||
                             new Date(`${post.event_date}T${post.end_time || "23:59"}`) < new Date()
                           }
                           className={`px-4 py-2 rounded-md transition-colors ${
-                            registered[post.id] ||
-                            new Date(`${post.event_date}T${post.end_time || "23:59"}`) < new Date()
+                            waitlisted[post.id]
+                              ? "bg-yellow-100 text-yellow-800 cursor-not-allowed"
+                              : registered[post.id] ||
+                                new Date(`${post.event_date}T${post.end_time || "23:59"}`) < new Date()
                               ? "bg-gray-300 text-gray-700 cursor-not-allowed"
                               : "bg-green-600 text-white hover:bg-green-700"
                           }`}
                         >
-                          {registered[post.id] ? "Registered" : "Register"}
+                          {registered[post.id] ? "Registered" : waitlisted[post.id] ? "Waitlisted" : "Register"}
                         </button>
 
                         <button
@@ -948,6 +978,27 @@ export default function UserNewsFeed() {
                 </div>
               )}
 
+              {/* Comments */}
+              <div className="mt-4 border-t border-gray-100 pt-3">
+                <button
+                  onClick={() => setExpandedComments((prev) => ({ ...prev, [post.id]: !prev[post.id] }))}
+                  className="flex items-center gap-1 text-sm text-gray-500 hover:text-green-700 transition-colors"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  {expandedComments[post.id] ? "Hide comments" : `View comments (${commentCounts[post.id] ?? 0})`}
+                </button>
+                {expandedComments[post.id] && (
+                  <div className="mt-3">
+                    <PostComments
+                      postId={post.id}
+                      orgId={post.org_id}
+                      postTitle={post.title}
+                      onCountChange={(count) => setCommentCounts((prev) => ({ ...prev, [post.id]: count }))}
+                    />
+                  </div>
+                )}
+              </div>
+
               <RSVPModal
                 showModal={showModal}
                 selectedPost={selectedPost}
@@ -959,6 +1010,7 @@ export default function UserNewsFeed() {
                 showModal={showRegisterModal}
                 selectedPost={selectedPost}
                 setRegistered={setRegistered}
+                setWaitlisted={setWaitlisted}
                 setRsvp={setRsvp}
                 setShowModal={setShowRegisterModal}
                 colleges={colleges}
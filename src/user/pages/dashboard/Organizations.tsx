@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { supabase } from "../../../lib/supabase";
-import { X } from "lucide-react";
+import { sendNotificationsToOrgManagers } from "../../../lib/notifications";
+import { X, Clock, UserPlus } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
 
 interface Organization {
   id: string;
@@ -14,6 +16,7 @@ interface Organization {
   status: string;
   date_established: string;
   org_type: string;
+  join_questions: string[] | null;
 }
 
 export default function Organizations() {
@@ -21,6 +24,12 @@ export default function Organizations() {
   const [otherOrgs, setOtherOrgs] = useState<Organization[]>([]);
   const [selectedOrg, setSelectedOrg] = useState<Organization | null>(null);
   const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [userName, setUserName] = useState("");
+  const [pendingRequests, setPendingRequests] = useState<{ [orgId: string]: string }>({});
+  const [showJoinForm, setShowJoinForm] = useState(false);
+  const [joinAnswers, setJoinAnswers] = useState<string[]>([]);
+  const [submittingRequest, setSubmittingRequest] = useState(false);
 
   useEffect(() => {
   const fetchOrgs = async () => {
@@ -28,11 +37,12 @@ export default function Organizations() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
 
       const { data: orgsData, error: orgsError } = await supabase
       .from("organizations")
       .select(
-        "id, name, abbrev_name, org_pic, banner_pic, email, description, department, status, date_established, org_type"
+        "id, name, abbrev_name, org_pic, banner_pic, email, description, department, status, date_established, org_type, join_questions"
       )
       .eq("status", "active");
 
@@ -46,6 +56,28 @@ export default function Organizations() {
 
       if (joinedError) throw joinedError;
 
+      const [{ data: requestData, error: requestError }, { data: profileData }] = await Promise.all([
+        supabase
+          .from("org_join_requests")
+          .select("id, org_id")
+          .eq("user_id", user.id)
+          .eq("status", "pending"),
+        supabase
+          .from("users")
+          .select("first_name, last_name")
+          .eq("id", user.id)
+          .single(),
+      ]);
+
+      if (requestError) throw requestError;
+
+      const pending: { [orgId: string]: string } = {};
+      (requestData ?? []).forEach((r) => {
+        pending[r.org_id] = r.id;
+      });
+      setPendingRequests(pending);
+      setUserName(profileData ? `${profileData.first_name} ${profileData.last_name}` : "A member");
+
       const joinedOrgIds = joinedData?.map((item) => item.org_id) || [];
       const joined = orgsData?.filter((org) => joinedOrgIds.includes(org.id)) || [];
       const others = orgsData?.filter((org) => !joinedOrgIds.includes(org.id)) || [];
@@ -62,10 +94,81 @@ export default function Organizations() {
   fetchOrgs();
 }, []);
 
+  const openOrg = (org: Organization) => {
+    setSelectedOrg(org);
+    setShowJoinForm(false);
+    setJoinAnswers((org.join_questions ?? []).map(() => ""));
+  };
+
+  const submitJoinRequest = async () => {
+    if (!userId || !selectedOrg) return;
+
+    const questions = selectedOrg.join_questions ?? [];
+    if (joinAnswers.some((a, i) => questions[i] && !a.trim())) {
+      toast.error("Please answer all screening questions.");
+      return;
+    }
+
+    setSubmittingRequest(true);
+    try {
+      const { data, error } = await supabase
+        .from("org_join_requests")
+        .insert({
+          org_id: selectedOrg.id,
+          user_id: userId,
+          status: "pending",
+          answers: questions.length > 0
+            ? questions.map((question, i) => ({ question, answer: joinAnswers[i].trim() }))
+            : null,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      await sendNotificationsToOrgManagers(
+        selectedOrg.id,
+        `${userName} requested to join ${selectedOrg.abbrev_name || selectedOrg.name}.`
+      );
+
+      setPendingRequests((prev) => ({ ...prev, [selectedOrg.id]: data.id }));
+      setShowJoinForm(false);
+      toast.success("Join request sent! You'll be notified once an officer reviews it.");
+    } catch (error) {
+      console.error("Error sending join request:", error);
+      toast.error("Failed to send join request.");
+    } finally {
+      setSubmittingRequest(false);
+    }
+  };
+
+  const cancelJoinRequest = async (orgId: string) => {
+    const requestId = pendingRequests[orgId];
+    if (!requestId) return;
+
+    const { error } = await supabase
+      .from("org_join_requests")
+      .update({ status: "cancelled" })
+      .eq("id", requestId);
+
+    if (error) {
+      console.error("Error cancelling join request:", error);
+      toast.error("Failed to cancel request.");
+      return;
+    }
+
+    setPendingRequests((prev) => {
+      const next = { ...prev };
+      delete next[orgId];
+      return next;
+    });
+    toast.success("Join request cancelled.");
+  };
+
   const renderOrgCard = (org: Organization) => (
     <div
       key={org.id}
-      onClick={() => setSelectedOrg(org)}
+      onClick={() => openOrg(org)}
       className="flex items-center space-x-3 bg-white shadow rounded-lg p-4 cursor-pointer hover:bg-gray-50"
     >
       {org.org_pic ? (
@@ -79,12 +182,18 @@ export default function Organizations() {
           {org.abbrev_name?.charAt(0) || org.name.charAt(0)}
         </div>
       )}
-      <div>
+      <div className="flex-1">
         <p className="text-gray-800 font-medium">{org.abbrev_name || org.name}</p>
         <p className="text-sm text-gray-500">
           {org.department !== "OTHERS" ? org.department : org.org_type}
         </p>
       </div>
+      {pendingRequests[org.id] && (
+        <span className="flex items-center gap-1 text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full">
+          <Clock className="h-3 w-3" />
+          Pending
+        </span>
+      )}
     </div>
   );
 
@@ -101,6 +210,7 @@ if (loading) {
 
   return (
     <div className="p-3 max-w-2xl mx-auto space-y-6">
+      <Toaster position="top-center" reverseOrder={false} />
       <h1 className="text-2xl font-bold text-green-700 mb-4 text-center">
         Organizations
       </h1>
@@ -169,6 +279,66 @@ if (loading) {
                 })}
               </p>
             </div>
+
+            {/* Join Request */}
+            {!joinedOrgs.some((org) => org.id === selectedOrg.id) && (
+              <div className="mt-6 pt-4 border-t border-gray-200">
+                {pendingRequests[selectedOrg.id] ? (
+                  <div className="flex items-center justify-between">
+                    <p className="flex items-center gap-2 text-sm text-yellow-700">
+                      <Clock className="h-4 w-4" />
+                      Your request is awaiting officer approval.
+                    </p>
+                    <button
+                      onClick={() => cancelJoinRequest(selectedOrg.id)}
+                      className="px-3 py-1.5 text-sm text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200"
+                    >
+                      Cancel Request
+                    </button>
+                  </div>
+                ) : showJoinForm ? (
+                  <div className="space-y-3">
+                    {(selectedOrg.join_questions ?? []).map((question, index) => (
+                      <div key={index}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{question}</label>
+                        <textarea
+                          value={joinAnswers[index] ?? ""}
+                          onChange={(e) =>
+                            setJoinAnswers((prev) => prev.map((a, i) => (i === index ? e.target.value : a)))
+                          }
+                          rows={2}
+                          className="w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                          placeholder="Your answer..."
+                        />
+                      </div>
+                    ))}
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setShowJoinForm(false)}
+                        className="px-4 py-2 text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={submitJoinRequest}
+                        disabled={submittingRequest}
+                        className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        {submittingRequest ? "Sending..." : "Send Request"}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowJoinForm(true)}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    Request to Join
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -4,6 +4,8 @@ import { supabase } from '../../../lib/supabase';
 import type { User } from '../../../types/database.types';
 import { ArrowLeft, Edit, Camera, Save, X, Coins } from 'lucide-react';
 import ImageCropModal from '../../components/ImageCropModal';
+import CoinHistory from '../../../components/CoinHistory';
+import { evaluateBadges } from '../../../lib/badges';
 
 // Mapping of programs to their corresponding department codes
 const programToDepartmentMap: Record<string, string> = {
@@ -132,6 +134,9 @@ export default function UserProfile() {
 
         // Fetch user badges (joined badges table)
         try {
+          // Award anything earned since the last visit before listing badges
+          await evaluateBadges();
+
           const { data: badgeData, error: badgeError } = await supabase
             .from('user_badges')
             .select('earned_at, badges (id, name, description, icon_url, category, required_plays)')
@@ -874,6 +879,11 @@ export default function UserProfile() {
               )}
             </div>
 
+            {/* COIN HISTORY SECTION */}
+            <div className="mt-8">
+              <CoinHistory userId={user.id} dashboardBase="/user/dashboard" />
+            </div>
+
             {/* Edit Actions */}
             {isEditing && (
               <div className="mt-8 flex justify-end space-x-4">
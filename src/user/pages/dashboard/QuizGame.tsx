@@ -1,20 +1,35 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Unity, useUnityContext } from "react-unity-webgl";
 import { useNavigate } from "react-router";
 import { useAuth } from "../../../context/AuthContext";
+import { getQuizSchemaVersion } from "../../../lib/quizSchema";
+import { prepareQuizAttempt } from "../../../lib/questionBank";
+import {
+  parseAnswerEvent,
+  recordQuizAnswer,
+  type AnswerSubmittedEvent,
+  type QuizAttemptContext,
+} from "../../../lib/quizAnalytics";
+import { parseFinishedEvent, startGameSession, submitGameResult, type QuizFinishedEvent } from "../../../lib/gameSessions";
 
 const QuizGame: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [selectedQuizData, setSelectedQuizData] = useState<string | null>(null);
+  const [attemptQuizData, setAttemptQuizData] = useState<string | null>(null);
+  const attemptStartedRef = useRef(false);
+  const attemptContextRef = useRef<QuizAttemptContext | null>(null);
+  const answersRef = useRef<AnswerSubmittedEvent[]>([]);
+  const sessionTokenRef = useRef<string | null>(null);
   const [orgId, setOrgId] = useState<string | null>(null);
   const [quizId, setQuizId] = useState<string | null>(null);
+  const [sessionError, setSessionError] = useState(false);
   const [isLandscape, setIsLandscape] = useState(
     window.matchMedia("(orientation: landscape)").matches
   );
   const [isIOS, setIsIOS] = useState(false);
 
-  const { unityProvider, isLoaded, loadingProgression, sendMessage } =
+  const { unityProvider, isLoaded, loadingProgression, sendMessage, addEventListener, removeEventListener } =
     useUnityContext({
       loaderUrl: "/unity/game2/Build/QuizNew.loader.js",
       dataUrl: "/unity/game2/Build/QuizNew.data",
@@ -39,15 +54,95 @@ const QuizGame: React.FC = () => {
     setOrgId(orgId);
   }, [navigate]);
 
+  // Draw/shuffle this attempt's questions, record them and get the token the
+  // score is submitted with. The quiz only reaches the game once both worked.
+  useEffect(() => {
+    if (!user || !quizId || !selectedQuizData || sessionError || attemptStartedRef.current) return;
+    attemptStartedRef.current = true;
+
+    const startAttempt = async () => {
+      try {
+        const attempt = await prepareQuizAttempt(quizId);
+        attemptContextRef.current = {
+          attemptId: attempt.attemptId,
+          quizId,
+          orgId,
+          userId: user.id,
+          data: attempt.data,
+          bankQuestionIds: attempt.bankQuestionIds,
+        };
+        answersRef.current = [];
+
+        const session = await startGameSession({ game: "quiz", orgId, quizId, attemptId: attempt.attemptId });
+        sessionTokenRef.current = session.token;
+
+        // Untouched quizzes are passed on as the exact string that was stored
+        setAttemptQuizData(attempt.changed ? JSON.stringify(attempt.data) : selectedQuizData);
+      } catch (err) {
+        console.error("Error starting quiz attempt:", err);
+        setSessionError(true);
+      }
+    };
+
+    startAttempt();
+  }, [user, quizId, orgId, selectedQuizData, sessionError]);
+
+  const retryAttempt = () => {
+    attemptStartedRef.current = false;
+    setSessionError(false);
+  };
+
+  // The game reports each answer for per-question analytics
+  useEffect(() => {
+    const handleAnswerSubmitted = (...params: unknown[]) => {
+      const event = parseAnswerEvent(String(params[0]));
+      if (!event) return;
+      answersRef.current.push(event);
+      if (attemptContextRef.current) recordQuizAnswer(attemptContextRef.current, event);
+    };
+
+    addEventListener("AnswerSubmitted", handleAnswerSubmitted);
+    return () => removeEventListener("AnswerSubmitted", handleAnswerSubmitted);
+  }, [addEventListener, removeEventListener]);
+
+  // The final score goes through the server, which checks it against the answers
+  useEffect(() => {
+    const handleQuizFinished = async (...params: unknown[]) => {
+      const event = parseFinishedEvent<QuizFinishedEvent>(String(params[0]));
+      const token = sessionTokenRef.current;
+      if (!event || !token) return;
+      sessionTokenRef.current = null;
+
+      try {
+        const result = await submitGameResult(token, { game: "quiz", score: event.score, answers: answersRef.current });
+        if (result.status === "rejected") console.warn("Quiz score rejected:", result.reason);
+        sendMessage("GameManager", "ReceiveScoreResult", JSON.stringify(result));
+      } catch (err) {
+        console.error("Error submitting quiz score:", err);
+      }
+    };
+
+    addEventListener("QuizFinished", handleQuizFinished);
+    return () => removeEventListener("QuizFinished", handleQuizFinished);
+  }, [addEventListener, removeEventListener, sendMessage]);
+
   // Send user info + quiz data to Unity
   useEffect(() => {
-    if (!isLoaded || !user || !quizId || !selectedQuizData) return;
+    if (!isLoaded || !user || !quizId || !attemptQuizData) return;
 
     sendMessage("GameManager", "ReceiveUserId", user.id);
     if (orgId) sendMessage("GameManager", "ReceiveOrgId", orgId);
     sendMessage("GameManager", "ReceiveQuizId", quizId);
-    sendMessage("GameManager", "ReceiveQuizData", selectedQuizData);
-  }, [isLoaded, user, quizId, orgId, selectedQuizData, sendMessage]);
+    // The game hands the final score back to the page, which submits it with this token
+    if (sessionTokenRef.current) sendMessage("GameManager", "ReceiveSessionToken", sessionTokenRef.current);
+    // Version 1 quizzes go through exactly as before; newer builds read the
+    // schema version first so they know which question fields to expect
+    const schemaVersion = getQuizSchemaVersion(JSON.parse(attemptQuizData));
+    if (schemaVersion > 1) {
+      sendMessage("GameManager", "ReceiveQuizSchemaVersion", schemaVersion);
+    }
+    sendMessage("GameManager", "ReceiveQuizData", attemptQuizData);
+  }, [isLoaded, user, quizId, orgId, attemptQuizData, sendMessage]);
 
   // Detect iOS and orientation
   useEffect(() => {
@@ -168,6 +263,56 @@ const QuizGame: React.FC = () => {
           </div>
         )}
 
+        {/* Without a session the score could not be recorded, so the quiz doesn't start */}
+        {sessionError && (
+          <div
+            style={{
+              position: "absolute",
+              inset: 0,
+              display: "flex",
+              flexDirection: "column",
+              justifyContent: "center",
+              alignItems: "center",
+              gap: "16px",
+              background: "rgba(0, 0, 0, 0.85)",
+              color: "white",
+              textAlign: "center",
+              zIndex: 2000,
+              padding: "20px",
+            }}
+          >
+            <p style={{ fontSize: "20px" }}>Couldn't start the quiz. Check your connection and try again.</p>
+            <div style={{ display: "flex", gap: "12px" }}>
+              <button
+                onClick={() => navigate(-1)}
+                style={{
+                  padding: "8px 16px",
+                  background: "#4b5563",
+                  color: "#fff",
+                  border: "none",
+                  borderRadius: "8px",
+                  cursor: "pointer",
+                }}
+              >
+                ← Back
+              </button>
+              <button
+                onClick={retryAttempt}
+                style={{
+                  padding: "8px 16px",
+                  background: "#16a34a",
+                  color: "#fff",
+                  border: "none",
+                  borderRadius: "8px",
+                  cursor: "pointer",
+                }}
+              >
+                Try again
+              </button>
+            </div>
+          </div>
+        )}
+
         <div
           style={{
             position: "relative",
@@ -3,6 +3,7 @@ import { Unity, useUnityContext } from "react-unity-webgl";
 import { useNavigate } from "react-router";
 import { useAuth } from "../../../context/AuthContext";
 import { supabase } from "../../../lib/supabase";
+import { CONTEST_CAPTION_MAX_LENGTH } from "../../../lib/contests";
 import { Toaster, toast } from "react-hot-toast";
 
 interface OrgMembership {
@@ -26,6 +27,7 @@ const RoomGame: React.FC = () => {
   const [screenshot, setScreenshot] = useState<string | null>(null);
   const [contests, setContests] = useState<any[]>([]);
   const [selectedContest, setSelectedContest] = useState<string>("");
+  const [caption, setCaption] = useState("");
   const [resolvedOrgId, setResolvedOrgId] = useState<string | null>(null);
   const [orgOptions, setOrgOptions] = useState<any[]>([]);
   const [loadingContests, setLoadingContests] = useState(false);
@@ -173,6 +175,7 @@ const RoomGame: React.FC = () => {
       .select("id, title, start_date, end_date")
       .eq("org_id", resolvedOrgId)
       .eq("is_active", true)
+      .eq("phase", "submissions")
       .or(
         // 1. Both start and end dates
         `and(start_date.lte.${now},end_date.gte.${now}),` +
@@ -220,12 +223,14 @@ const RoomGame: React.FC = () => {
           org_id: resolvedOrgId,
           contest_id: selectedContest,
           image_url: publicData.publicUrl,
+          caption: caption.trim() || null,
           submitted_at: new Date().toISOString(),
         });
       if (insertError) throw insertError;
 
       toast.success("Screenshot submitted successfully!");
       setScreenshot(null);
+      setCaption("");
       setSelectedContest("");
     } catch (err) {
       console.error(" Upload failed:", err);
@@ -539,6 +544,23 @@ useEffect(() => {
             ))}
           </select>
 
+          <input
+            type="text"
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            maxLength={CONTEST_CAPTION_MAX_LENGTH}
+            placeholder="Add a caption (optional)"
+            style={{
+              padding: "6px",
+              borderRadius: "6px",
+              marginBottom: "10px",
+              width: "250px",
+              color: "#000",
+              backgroundColor: "#fff",
+              border: "1px solid #ccc",
+            }}
+          />
+
           <div style={{ display: "flex", gap: "10px" }}>
             <button
               onClick={handleSubmitScreenshot}
@@ -0,0 +1,101 @@
+/**
+ * Subscribable iCalendar feed: GET /functions/v1/calendar-feed?token=...
+ *
+ * Calendar apps fetch this without a session, so the feed's secret token is
+ * the only credential. The function reads with the service role, so it only
+ * returns live event posts of organizations the subscriber is an active
+ * member of, narrowed to their RSVPs or to one organization if the feed asks.
+ *
+ * Deploy with --no-verify-jwt. Needs SITE_URL (the web app's origin) besides
+ * the standard SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { buildCalendar, type CalendarEvent } from '../../../src/lib/ical.ts';
+
+// Keep recent events around so they don't vanish from calendars the moment they end
+const PAST_DAYS = 30;
+
+const EVENT_COLUMNS =
+  'id, title, content, status, created_at, updated_at, event_date, start_time, end_time, location, org_id, visibility, organizations (name)';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+function textResponse(status: number, message: string): Response {
+  return new Response(message, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return textResponse(405, 'Method not allowed');
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) return textResponse(400, 'Missing token');
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('user_id, org_id, scope')
+    .eq('token', token)
+    .maybeSingle();
+  if (feedError) return textResponse(500, 'Could not load the feed');
+  // Reset links stop working immediately
+  if (!feed) return textResponse(404, 'Unknown feed');
+
+  const { data: memberships, error: memberError } = await supabase
+    .from('org_members')
+    .select('org_id')
+    .eq('user_id', feed.user_id)
+    .eq('is_active', true);
+  if (memberError) return textResponse(500, 'Could not load the feed');
+  const memberOrgIds = (memberships ?? []).map((m) => m.org_id as string);
+
+  // A feed for one organization stops showing its events once the user leaves it
+  const orgIds = feed.org_id ? memberOrgIds.filter((id) => id === feed.org_id) : memberOrgIds;
+  if (orgIds.length === 0) return calendarResponse([], feed.org_id);
+
+  const since = new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const now = new Date().toISOString();
+
+  let query = supabase
+    .from('posts')
+    .select(EVENT_COLUMNS)
+    .eq('post_type', 'event')
+    .in('org_id', orgIds)
+    .in('status', ['published', 'archived'])
+    .gte('event_date', since)
+    .or(`publish_at.is.null,publish_at.lte.${now}`)
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .order('event_date', { ascending: true });
+
+  if (feed.scope === 'rsvp') {
+    const { data: rsvps, error: rsvpError } = await supabase.from('rsvps').select('post_id').eq('user_id', feed.user_id);
+    if (rsvpError) return textResponse(500, 'Could not load the feed');
+    query = query.in('id', (rsvps ?? []).map((r) => r.post_id as string));
+  }
+
+  const { data: posts, error: postsError } = await query;
+  if (postsError) return textResponse(500, 'Could not load the feed');
+
+  const events: CalendarEvent[] = (posts ?? []).map((post) => {
+    const org = post.organizations as unknown as { name: string } | null;
+    return { ...post, org_name: org?.name ?? null };
+  });
+
+  return calendarResponse(events, feed.org_id);
+});
+
+async function calendarResponse(events: CalendarEvent[], orgId: string | null): Promise<Response> {
+  let name = 'OrgSync Events';
+  if (orgId) {
+    const { data: org } = await supabase.from('organizations').select('name').eq('id', orgId).maybeSingle();
+    if (org?.name) name = `${org.name} Events`;
+  }
+
+  return new Response(buildCalendar(events, Deno.env.get('SITE_URL') ?? '', name), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="orgsync.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+}
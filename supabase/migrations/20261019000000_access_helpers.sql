@@ -0,0 +1,76 @@
+-- Shared helpers for the functions and policies in later migrations.
+
+-- Campus admins manage everything
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from user_roles where user_id = auth.uid() and role = 'admin'
+  );
+$$;
+
+-- Officers and advisers manage their own organizations
+create or replace function public.manages_org(p_org_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin() or exists (
+    select 1 from org_managers where user_id = auth.uid() and org_id = p_org_id
+  );
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+grant execute on function public.manages_org(uuid) to authenticated;
+
+-- Credit (or debit) a user's coins and write the matching reward_log entry.
+-- Only other server functions call this; clients never get to choose who is paid.
+-- The coin ledger migration adds the organization and reason to the entry.
+create or replace function public.grant_user_coins(
+  p_user_id uuid,
+  p_points integer,
+  p_action text,
+  p_org_id uuid default null,
+  p_post_id uuid default null,
+  p_reason text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance integer;
+begin
+  update game_rooms set coins = coins + p_points where user_id = p_user_id returning coins into v_balance;
+  if not found then
+    insert into game_rooms (user_id, coins) values (p_user_id, p_points) returning coins into v_balance;
+  end if;
+
+  insert into reward_log (user_id, post_id, action, points)
+  values (p_user_id, p_post_id, p_action, p_points);
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.grant_user_coins(uuid, integer, text, uuid, uuid, text) from public, anon, authenticated;
+
+-- In-app notification, as the client helpers in src/lib/notifications.ts write them
+create or replace function public.notify_user(p_user_id uuid, p_message text, p_post_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into notifications (user_id, message, read, date_sent, post_id)
+  values (p_user_id, p_message, false, now(), p_post_id);
+$$;
+
+revoke execute on function public.notify_user(uuid, text, uuid) from public, anon, authenticated;
@@ -0,0 +1,88 @@
+-- Threaded post comments with mentions and moderation. Comments an officer has
+-- hidden are only ever sent to the people who can moderate the post; everyone
+-- else never receives the row, so neither its text nor the comment count leaks.
+
+create table if not exists public.post_comments (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  parent_id uuid references public.post_comments (id) on delete cascade,
+  content text not null check (length(trim(content)) > 0),
+  mentions uuid[],
+  is_hidden boolean not null default false,
+  hidden_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists post_comments_post on public.post_comments (post_id, created_at);
+
+-- Officers of the post's organization, or admins for posts without one
+create or replace function public.moderates_post(p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from posts p where p.id = p_post_id and manages_org(p.org_id));
+$$;
+
+-- Whether the caller can open the post: its author and officers always, anyone
+-- else once it is published, and only members for a private post
+create or replace function public.can_view_post(p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from posts p
+    where p.id = p_post_id
+      and (
+        p.user_id = auth.uid()
+        or manages_org(p.org_id)
+        or (
+          p.status in ('published', 'archived')
+          and (
+            coalesce(p.visibility, 'public') = 'public'
+            or exists (select 1 from org_members m where m.org_id = p.org_id and m.user_id = auth.uid() and m.is_active)
+          )
+        )
+      )
+  );
+$$;
+
+grant execute on function public.moderates_post(uuid) to authenticated;
+grant execute on function public.can_view_post(uuid) to authenticated;
+
+alter table public.post_comments enable row level security;
+
+drop policy if exists "Visible comments are readable" on public.post_comments;
+create policy "Visible comments are readable" on public.post_comments
+  for select to authenticated
+  using (can_view_post(post_id) and (not is_hidden or moderates_post(post_id)));
+
+drop policy if exists "Users comment as themselves" on public.post_comments;
+create policy "Users comment as themselves" on public.post_comments
+  for insert to authenticated
+  with check (user_id = auth.uid() and not is_hidden and hidden_by is null and can_view_post(post_id));
+
+-- Moderators only ever hide or unhide; nobody rewrites someone else's comment
+revoke update on public.post_comments from anon, authenticated;
+grant update (is_hidden, hidden_by) on public.post_comments to authenticated;
+
+drop policy if exists "Moderators hide comments" on public.post_comments;
+create policy "Moderators hide comments" on public.post_comments
+  for update to authenticated
+  using (moderates_post(post_id))
+  with check (
+    moderates_post(post_id)
+    and case when is_hidden then hidden_by = auth.uid() else hidden_by is null end
+  );
+
+drop policy if exists "Authors and moderators delete comments" on public.post_comments;
+create policy "Authors and moderators delete comments" on public.post_comments
+  for delete to authenticated
+  using (user_id = auth.uid() or moderates_post(post_id));
@@ -0,0 +1,44 @@
+-- Join requests. Members ask to join an organization, answering its screening
+-- questions; officers approve or reject the request from their queue.
+
+alter table public.organizations add column if not exists join_questions text[];
+
+create table if not exists public.org_join_requests (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'cancelled')),
+  answers jsonb,
+  rejection_reason text,
+  reviewed_by uuid references public.users (id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One open request per member and organization; closed ones stay as history
+create unique index if not exists org_join_requests_one_pending
+  on public.org_join_requests (org_id, user_id) where status = 'pending';
+
+alter table public.org_join_requests enable row level security;
+
+drop policy if exists "Applicants and officers read requests" on public.org_join_requests;
+create policy "Applicants and officers read requests" on public.org_join_requests
+  for select to authenticated
+  using (user_id = auth.uid() or manages_org(org_id));
+
+drop policy if exists "Members request to join" on public.org_join_requests;
+create policy "Members request to join" on public.org_join_requests
+  for insert to authenticated
+  with check (user_id = auth.uid() and status = 'pending' and reviewed_by is null);
+
+drop policy if exists "Applicants cancel pending requests" on public.org_join_requests;
+create policy "Applicants cancel pending requests" on public.org_join_requests
+  for update to authenticated
+  using (user_id = auth.uid() and status = 'pending')
+  with check (user_id = auth.uid() and status = 'cancelled');
+
+drop policy if exists "Officers review requests" on public.org_join_requests;
+create policy "Officers review requests" on public.org_join_requests
+  for update to authenticated
+  using (manages_org(org_id) and status = 'pending')
+  with check (manages_org(org_id) and status in ('approved', 'rejected'));
@@ -0,0 +1,125 @@
+-- QR code check-in. The officer's screen asks for a new random code every
+-- rotation; members scan it and check_in_event records their attendance if the
+-- code is current, they can open the event and it is open for check-in
+-- (Asia/Manila time).
+
+alter table public.event_attendance add column if not exists check_in_method text check (check_in_method in ('manual', 'qr'));
+alter table public.event_attendance add column if not exists checked_in_at timestamptz;
+
+create table if not exists public.event_checkin_tokens (
+  token text primary key,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  issued_by uuid not null references public.users (id),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists event_checkin_tokens_expiry on public.event_checkin_tokens (expires_at);
+
+-- Only the functions below touch codes
+alter table public.event_checkin_tokens enable row level security;
+
+-- Opens 30 minutes before the start and closes at the end, as getCheckInWindow in src/lib/checkin.ts
+create or replace function public.event_checkin_window(p_post posts, out opens_at timestamptz, out closes_at timestamptz)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    ((p_post.event_date + coalesce(p_post.start_time, time '00:00')) at time zone 'Asia/Manila') - interval '30 minutes',
+    (p_post.event_date + coalesce(p_post.end_time, time '23:59')) at time zone 'Asia/Manila';
+$$;
+
+/*
+ * Issue a check-in code for an event the caller manages. Codes stay valid for
+ * p_ttl_seconds, which callers set longer than the rotation so a code scanned
+ * just before it is replaced still works. Expired codes are cleared as we go.
+ */
+create or replace function public.issue_event_checkin_token(p_post_id uuid, p_ttl_seconds integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post posts;
+  v_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  v_expires_at timestamptz := now() + make_interval(secs => least(greatest(p_ttl_seconds, 10), 600));
+begin
+  select * into v_post from posts where id = p_post_id and post_type = 'event';
+  if not found then
+    raise exception 'Event not found';
+  end if;
+  if not manages_org(v_post.org_id) then
+    raise exception 'Only officers of this organization can show check-in codes';
+  end if;
+
+  delete from event_checkin_tokens where expires_at < now() - interval '1 hour';
+
+  insert into event_checkin_tokens (token, post_id, issued_by, expires_at)
+  values (v_token, p_post_id, auth.uid(), v_expires_at);
+
+  return jsonb_build_object('token', v_token, 'expires_at', v_expires_at);
+end;
+$$;
+
+-- Check the caller in with a scanned code
+create or replace function public.check_in_event(p_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code event_checkin_tokens;
+  v_post posts;
+  v_window record;
+  v_existing event_attendance;
+  v_checked_in_at timestamptz := now();
+begin
+  select * into v_code from event_checkin_tokens where token = p_token;
+  if not found then
+    return jsonb_build_object('status', 'invalid');
+  end if;
+
+  -- A forwarded code is no use to someone who cannot open the event, e.g. a private event's non-members
+  select * into v_post from posts where id = v_code.post_id;
+  if not can_view_post(v_post.id) then
+    return jsonb_build_object('status', 'not_allowed');
+  end if;
+  if v_code.expires_at < now() then
+    return jsonb_build_object('status', 'expired', 'post_id', v_post.id, 'post_title', v_post.title);
+  end if;
+
+  select * into v_window from event_checkin_window(v_post);
+  if now() not between v_window.opens_at and v_window.closes_at then
+    return jsonb_build_object('status', 'outside_window', 'post_id', v_post.id, 'post_title', v_post.title);
+  end if;
+
+  select * into v_existing from event_attendance where post_id = v_post.id and user_id = auth.uid() for update;
+  if found and v_existing.attended then
+    return jsonb_build_object(
+      'status', 'already_checked_in',
+      'post_id', v_post.id,
+      'post_title', v_post.title,
+      'checked_in_at', v_existing.checked_in_at
+    );
+  end if;
+
+  insert into event_attendance (post_id, user_id, attended, check_in_method, checked_in_at, updated_at)
+  values (v_post.id, auth.uid(), true, 'qr', v_checked_in_at, v_checked_in_at)
+  on conflict (user_id, post_id) do update
+    set attended = true, check_in_method = 'qr', checked_in_at = excluded.checked_in_at, updated_at = excluded.updated_at;
+
+  return jsonb_build_object(
+    'status', 'checked_in',
+    'post_id', v_post.id,
+    'post_title', v_post.title,
+    'checked_in_at', v_checked_in_at
+  );
+end;
+$$;
+
+revoke execute on function public.event_checkin_window(posts) from public, anon, authenticated;
+grant execute on function public.issue_event_checkin_token(uuid, integer) to authenticated;
+grant execute on function public.check_in_event(text) to authenticated;
@@ -0,0 +1,24 @@
+-- Private calendar subscription links. The token in the URL is the only thing
+-- a calendar app sends, so feeds are only ever read by their owner here and by
+-- the calendar-feed edge function with the service role.
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  org_id uuid references public.organizations (id) on delete cascade,
+  scope text not null check (scope in ('rsvp', 'all')),
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- One feed per user, scope and organization (or all organizations)
+create unique index if not exists calendar_feeds_one_per_scope
+  on public.calendar_feeds (user_id, scope, coalesce(org_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "Users manage their own feeds" on public.calendar_feeds;
+create policy "Users manage their own feeds" on public.calendar_feeds
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
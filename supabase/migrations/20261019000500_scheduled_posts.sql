@@ -0,0 +1,68 @@
+-- Scheduled publishing and expiry for posts. A pg_cron job publishes due posts
+-- and archives expired ones every minute, and notifies the organization's
+-- members of each newly published post. No browser takes part.
+
+alter table public.posts add column if not exists publish_at timestamptz;
+alter table public.posts add column if not exists expires_at timestamptz;
+
+create index if not exists posts_due_for_publishing on public.posts (publish_at) where status = 'scheduled';
+create index if not exists posts_expiring on public.posts (expires_at) where status = 'published' and expires_at is not null;
+
+/*
+ * Publish scheduled posts whose time has come and archive expired ones.
+ * Each due post is claimed by the update itself, so a post is announced once
+ * even if two runs overlap. Returns how many posts were published.
+ */
+create or replace function public.publish_due_posts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post record;
+  v_member uuid;
+  v_published integer := 0;
+begin
+  for v_post in
+    update posts p
+    set status = 'published'
+    where p.status = 'scheduled'
+      and p.publish_at <= now()
+    returning p.id, p.title, p.org_id
+  loop
+    v_published := v_published + 1;
+    continue when v_post.org_id is null;
+
+    for v_member in
+      select m.user_id from org_members m where m.org_id = v_post.org_id and m.is_active
+    loop
+      perform notify_user(
+        v_member,
+        format(
+          'New post published from %s: %s',
+          coalesce((select name from organizations where id = v_post.org_id), 'Unknown Organization'),
+          v_post.title
+        ),
+        v_post.id
+      );
+    end loop;
+  end loop;
+
+  -- Stamped like an officer's edit, so calendar feeds can tell an event that ran
+  -- its course from one called off beforehand
+  update posts
+  set status = 'archived', updated_at = now()
+  where status = 'published'
+    and expires_at is not null
+    and expires_at <= now();
+
+  return v_published;
+end;
+$$;
+
+revoke execute on function public.publish_due_posts() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('publish-due-posts', '* * * * *', $$select public.publish_due_posts()$$);
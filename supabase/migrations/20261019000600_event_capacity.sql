@@ -0,0 +1,180 @@
+-- Event capacity with a waitlist. Sign-ups past capacity wait in sign-up order.
+-- Whenever a spot frees up (a cancellation, a removed registration, a raised
+-- capacity) a trigger runs promote_event_waitlist, which confirms the next in
+-- line and pays and notifies each promoted member, whoever freed the spot.
+
+alter table public.posts add column if not exists capacity integer check (capacity is null or capacity > 0);
+alter table public.event_registrations
+  add column if not exists status text not null default 'confirmed' check (status in ('confirmed', 'waitlisted'));
+
+create index if not exists event_registrations_waitlist
+  on public.event_registrations (post_id, created_at) where status = 'waitlisted';
+
+-- Registrations are created by register_for_event and confirmed by promote_event_waitlist only
+revoke insert, update on public.event_registrations from anon, authenticated;
+
+/*
+ * Register the caller for an event. The post row is locked while the spots are
+ * counted, so two sign-ups for the last spot cannot both be confirmed.
+ */
+create or replace function public.register_for_event(p_post_id uuid, p_details jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post posts;
+  v_confirmed integer;
+  v_status text;
+  v_created_at timestamptz;
+  v_position integer;
+begin
+  select * into v_post from posts where id = p_post_id and post_type = 'event' for update;
+  if not found then
+    raise exception 'Event not found';
+  end if;
+
+  select status, created_at into v_status, v_created_at
+  from event_registrations
+  where post_id = p_post_id and user_id = auth.uid();
+
+  if v_status is null then
+    select count(*) into v_confirmed from event_registrations where post_id = p_post_id and status = 'confirmed';
+    v_status := case when v_post.capacity is null or v_confirmed < v_post.capacity then 'confirmed' else 'waitlisted' end;
+
+    insert into event_registrations (
+      post_id, user_id, first_name, middle_initial, last_name, email, college, program, section, status
+    )
+    values (
+      p_post_id,
+      auth.uid(),
+      p_details ->> 'first_name',
+      coalesce(p_details ->> 'middle_initial', ''),
+      p_details ->> 'last_name',
+      p_details ->> 'email',
+      p_details ->> 'college',
+      p_details ->> 'program',
+      p_details ->> 'section',
+      v_status
+    )
+    returning created_at into v_created_at;
+  end if;
+
+  if v_status = 'waitlisted' then
+    select count(*) + 1 into v_position
+    from event_registrations
+    where post_id = p_post_id and status = 'waitlisted' and created_at < v_created_at;
+  end if;
+
+  return jsonb_build_object('status', v_status, 'waitlist_position', v_position);
+end;
+$$;
+
+/*
+ * Confirm waitlisted members in sign-up order while spots are free, award the
+ * registration coins they could not earn while waiting and tell them. It only
+ * ever fills spots that are actually free. Returns the promoted user ids.
+ */
+create or replace function public.promote_event_waitlist(p_post_id uuid)
+returns uuid[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post posts;
+  v_free integer;
+  v_promoted uuid[];
+  v_user uuid;
+begin
+  select * into v_post from posts where id = p_post_id and post_type = 'event' for update;
+  if not found then
+    return '{}';
+  end if;
+
+  if v_post.capacity is null then
+    v_free := null;
+  else
+    select greatest(0, v_post.capacity - count(*)) into v_free
+    from event_registrations
+    where post_id = p_post_id and status = 'confirmed';
+  end if;
+
+  with next_up as (
+    select id
+    from event_registrations
+    where post_id = p_post_id and status = 'waitlisted'
+    order by created_at
+    limit v_free
+  ),
+  promoted as (
+    update event_registrations r
+    set status = 'confirmed'
+    from next_up
+    where r.id = next_up.id
+    returning r.user_id
+  )
+  select coalesce(array_agg(user_id), '{}') into v_promoted from promoted;
+
+  foreach v_user in array v_promoted loop
+    -- Waitlisted registrations earn their coins once they are confirmed
+    perform award_user_coins_once(v_user, p_post_id, 'register', 50);
+    perform notify_user(
+      v_user,
+      format('A spot opened up for "%s". Your registration is now confirmed!', v_post.title),
+      p_post_id
+    );
+  end loop;
+
+  return v_promoted;
+end;
+$$;
+
+create or replace function public.promote_waitlist_after_registration_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform promote_event_waitlist(old.post_id);
+  return null;
+end;
+$$;
+
+create or replace function public.promote_waitlist_after_capacity_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform promote_event_waitlist(new.id);
+  return null;
+end;
+$$;
+
+grant execute on function public.register_for_event(uuid, jsonb) to authenticated;
+revoke execute on function public.promote_event_waitlist(uuid) from public, anon, authenticated;
+revoke execute on function public.promote_waitlist_after_registration_change() from public, anon, authenticated;
+revoke execute on function public.promote_waitlist_after_capacity_change() from public, anon, authenticated;
+
+-- Only a confirmed registration going away frees a spot
+drop trigger if exists promote_waitlist_after_delete on public.event_registrations;
+create trigger promote_waitlist_after_delete
+  after delete on public.event_registrations
+  for each row when (old.status = 'confirmed')
+  execute function public.promote_waitlist_after_registration_change();
+
+drop trigger if exists promote_waitlist_after_update on public.event_registrations;
+create trigger promote_waitlist_after_update
+  after update of status on public.event_registrations
+  for each row when (old.status = 'confirmed' and new.status <> 'confirmed')
+  execute function public.promote_waitlist_after_registration_change();
+
+drop trigger if exists promote_waitlist_after_capacity on public.posts;
+create trigger promote_waitlist_after_capacity
+  after update of capacity on public.posts
+  for each row when (old.capacity is not null and (new.capacity is null or new.capacity > old.capacity))
+  execute function public.promote_waitlist_after_capacity_change();
@@ -0,0 +1,158 @@
+-- Coin shop. Officers stock rewards for their organization's members, who
+-- spend game coins on them. Coins and stock only ever move inside the two
+-- functions below, each in one transaction.
+
+create table if not exists public.rewards (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null,
+  description text,
+  category text not null check (category in ('merch', 'event_perk', 'room_item')),
+  cost integer not null check (cost > 0),
+  stock integer check (stock is null or stock >= 0),
+  image_url text,
+  is_active boolean not null default true,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create table if not exists public.reward_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  reward_id uuid not null references public.rewards (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  cost integer not null,
+  status text not null default 'pending' check (status in ('pending', 'ready', 'fulfilled', 'cancelled')),
+  note text,
+  handled_by uuid references public.users (id) on delete set null,
+  handled_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reward_redemptions_user on public.reward_redemptions (user_id, created_at desc);
+create index if not exists reward_redemptions_org on public.reward_redemptions (org_id, status);
+
+alter table public.rewards enable row level security;
+alter table public.reward_redemptions enable row level security;
+
+drop policy if exists "Members read rewards" on public.rewards;
+create policy "Members read rewards" on public.rewards
+  for select to authenticated using (is_active or manages_org(org_id));
+
+drop policy if exists "Officers manage rewards" on public.rewards;
+create policy "Officers manage rewards" on public.rewards
+  for all to authenticated
+  using (manages_org(org_id))
+  with check (manages_org(org_id));
+
+drop policy if exists "Members and officers read redemptions" on public.reward_redemptions;
+create policy "Members and officers read redemptions" on public.reward_redemptions
+  for select to authenticated using (user_id = auth.uid() or manages_org(org_id));
+
+-- Officers move redemptions along; cancelling refunds coins, so it goes through cancel_reward_redemption
+drop policy if exists "Officers handle redemptions" on public.reward_redemptions;
+create policy "Officers handle redemptions" on public.reward_redemptions
+  for update to authenticated
+  using (manages_org(org_id) and status in ('pending', 'ready'))
+  with check (manages_org(org_id) and status in ('ready', 'fulfilled'));
+
+/*
+ * Spend the caller's coins on a reward. The reward and the caller's balance are
+ * locked, so two redemptions cannot both take the last item or the same coins.
+ */
+create or replace function public.redeem_reward(p_reward_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reward rewards;
+  v_coins integer;
+  v_redemption_id uuid;
+  v_balance integer;
+begin
+  select * into v_reward from rewards where id = p_reward_id and is_active for update;
+  if not found then
+    raise exception 'This reward is no longer available';
+  end if;
+  if not exists (
+    select 1 from org_members where user_id = auth.uid() and org_id = v_reward.org_id and is_active
+  ) then
+    raise exception 'Only members of this organization can redeem this reward';
+  end if;
+  if v_reward.stock is not null and v_reward.stock <= 0 then
+    raise exception 'This reward is out of stock';
+  end if;
+
+  select coins into v_coins from game_rooms where user_id = auth.uid() for update;
+  if coalesce(v_coins, 0) < v_reward.cost then
+    raise exception 'Not enough coins to redeem this reward';
+  end if;
+
+  update rewards set stock = stock - 1 where id = v_reward.id and stock is not null;
+
+  insert into reward_redemptions (reward_id, user_id, org_id, cost)
+  values (v_reward.id, auth.uid(), v_reward.org_id, v_reward.cost)
+  returning id into v_redemption_id;
+
+  v_balance := grant_user_coins(auth.uid(), -v_reward.cost, 'redeem', v_reward.org_id, null, v_reward.name);
+
+  return jsonb_build_object('redemption_id', v_redemption_id, 'balance', v_balance);
+end;
+$$;
+
+/*
+ * Cancel a redemption that has not been handed over yet: refund the coins,
+ * return the item to stock and tell the member why.
+ */
+create or replace function public.cancel_reward_redemption(p_redemption_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_redemption reward_redemptions;
+  v_reward_name text;
+begin
+  select * into v_redemption from reward_redemptions where id = p_redemption_id for update;
+  if not found then
+    raise exception 'Redemption not found';
+  end if;
+  if not manages_org(v_redemption.org_id) then
+    raise exception 'Only officers of this organization can cancel redemptions';
+  end if;
+  if v_redemption.status in ('fulfilled', 'cancelled') then
+    raise exception 'This redemption is already %', v_redemption.status;
+  end if;
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required to cancel a redemption';
+  end if;
+
+  update reward_redemptions
+  set status = 'cancelled', note = trim(p_reason), handled_by = auth.uid(), handled_at = now()
+  where id = v_redemption.id;
+
+  update rewards set stock = stock + 1 where id = v_redemption.reward_id and stock is not null
+  returning name into v_reward_name;
+  if v_reward_name is null then
+    select name into v_reward_name from rewards where id = v_redemption.reward_id;
+  end if;
+
+  perform grant_user_coins(
+    v_redemption.user_id, v_redemption.cost, 'refund', v_redemption.org_id, null, trim(p_reason)
+  );
+  perform notify_user(
+    v_redemption.user_id,
+    format(
+      'Your redemption of %s was cancelled and %s coins were refunded. Reason: %s',
+      coalesce(v_reward_name, 'a reward'), v_redemption.cost, trim(p_reason)
+    )
+  );
+end;
+$$;
+
+grant execute on function public.redeem_reward(uuid) to authenticated;
+grant execute on function public.cancel_reward_redemption(uuid, text) to authenticated;
@@ -0,0 +1,80 @@
+-- Coin ledger. Every balance change is written to reward_log with the
+-- organization it came from and, for manual adjustments, who made it and why.
+
+alter table public.reward_log add column if not exists org_id uuid references public.organizations (id) on delete set null;
+alter table public.reward_log add column if not exists reason text;
+alter table public.reward_log add column if not exists created_by uuid references public.users (id) on delete set null;
+
+create index if not exists reward_log_user_history on public.reward_log (user_id, created_at desc);
+
+-- Server-side payouts now record where the coins came from and why
+create or replace function public.grant_user_coins(
+  p_user_id uuid,
+  p_points integer,
+  p_action text,
+  p_org_id uuid default null,
+  p_post_id uuid default null,
+  p_reason text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance integer;
+begin
+  update game_rooms set coins = coins + p_points where user_id = p_user_id returning coins into v_balance;
+  if not found then
+    insert into game_rooms (user_id, coins) values (p_user_id, p_points) returning coins into v_balance;
+  end if;
+
+  insert into reward_log (user_id, post_id, org_id, action, points, reason)
+  values (p_user_id, p_post_id, p_org_id, p_action, p_points, p_reason);
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.grant_user_coins(uuid, integer, text, uuid, uuid, text) from public, anon, authenticated;
+
+/*
+ * Add or remove a user's coins by hand. Admins only; the reason is required
+ * and kept on the ledger entry with the admin who made the change. A removal
+ * may not take the balance below zero. Returns the new balance.
+ */
+create or replace function public.adjust_user_coins(p_user_id uuid, p_amount integer, p_reason text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance integer;
+begin
+  if not is_admin() then
+    raise exception 'Only admins can adjust coins';
+  end if;
+  if p_amount is null or p_amount = 0 then
+    raise exception 'Enter a whole number of coins other than zero';
+  end if;
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for manual adjustments';
+  end if;
+
+  update game_rooms set coins = coins + p_amount where user_id = p_user_id returning coins into v_balance;
+  if not found then
+    insert into game_rooms (user_id, coins) values (p_user_id, p_amount) returning coins into v_balance;
+  end if;
+  if v_balance < 0 then
+    raise exception 'This would leave the user with a negative balance';
+  end if;
+
+  insert into reward_log (user_id, action, points, reason, created_by)
+  values (p_user_id, 'adjustment', p_amount, trim(p_reason), auth.uid());
+
+  return v_balance;
+end;
+$$;
+
+grant execute on function public.adjust_user_coins(uuid, integer, text) to authenticated;
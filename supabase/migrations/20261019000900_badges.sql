@@ -0,0 +1,189 @@
+-- Badges with criteria. Automatic badges are evaluated and awarded on the server
+-- whenever a player's activity changes (a game score, an attendance, an engagement
+-- reward), so nobody can award themselves a badge from the browser. The only
+-- client writes to user_badges are officers awarding or revoking by hand.
+
+alter table public.badges add column if not exists org_id uuid references public.organizations (id) on delete cascade;
+alter table public.badges add column if not exists criteria_type text not null default 'manual'
+  check (criteria_type in ('game_plays', 'events_attended', 'posts_engaged', 'quiz_score', 'manual'));
+alter table public.badges add column if not exists threshold integer check (threshold is null or threshold > 0);
+alter table public.badges add column if not exists is_active boolean not null default true;
+alter table public.badges add column if not exists created_by uuid references public.users (id) on delete set null;
+
+-- Game badges from before criteria existed were earned after required_plays
+-- plays; they keep being awarded automatically as game_plays badges
+update public.badges
+set criteria_type = 'game_plays', threshold = required_plays
+where criteria_type = 'manual' and required_plays > 0;
+
+alter table public.user_badges add column if not exists awarded_by uuid references public.users (id) on delete set null;
+
+create unique index if not exists user_badges_user_badge on public.user_badges (user_id, badge_id);
+
+alter table public.badges enable row level security;
+alter table public.user_badges enable row level security;
+
+drop policy if exists "Signed-in users read badges" on public.badges;
+create policy "Signed-in users read badges" on public.badges
+  for select to authenticated using (true);
+
+-- Global badges are shared by every organization, so only admins manage them
+drop policy if exists "Officers manage badges" on public.badges;
+create policy "Officers manage badges" on public.badges
+  for all to authenticated
+  using (case when org_id is null then is_admin() else manages_org(org_id) end)
+  with check (case when org_id is null then is_admin() else manages_org(org_id) end);
+
+drop policy if exists "Signed-in users read earned badges" on public.user_badges;
+create policy "Signed-in users read earned badges" on public.user_badges
+  for select to authenticated using (true);
+
+drop policy if exists "Officers award badges" on public.user_badges;
+create policy "Officers award badges" on public.user_badges
+  for insert to authenticated
+  with check (
+    awarded_by = auth.uid()
+    and exists (
+      select 1 from badges b
+      where b.id = badge_id and case when b.org_id is null then is_admin() else manages_org(b.org_id) end
+    )
+  );
+
+drop policy if exists "Officers revoke badges" on public.user_badges;
+create policy "Officers revoke badges" on public.user_badges
+  for delete to authenticated
+  using (
+    exists (
+      select 1 from badges b
+      where b.id = badge_id and case when b.org_id is null then is_admin() else manages_org(b.org_id) end
+    )
+  );
+
+/*
+ * Current value of a badge criterion for a user, scoped to one organization or,
+ * when p_org_id is null, across every organization.
+ */
+create or replace function public.badge_criteria_value(p_user_id uuid, p_criteria text, p_org_id uuid)
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select case p_criteria
+    when 'game_plays' then (
+      (select count(*) from scores s where s.user_id = p_user_id and (p_org_id is null or s.org_id = p_org_id))
+      + (select count(*) from flappy_scores f where f.user_id = p_user_id and (p_org_id is null or f.org_id = p_org_id))
+    )::integer
+    when 'events_attended' then (
+      select count(*)
+      from event_attendance a
+      join posts p on p.id = a.post_id
+      where a.user_id = p_user_id and a.attended and (p_org_id is null or p.org_id = p_org_id)
+    )::integer
+    -- A post counts once however many ways the user engaged with it
+    when 'posts_engaged' then (
+      select count(distinct r.post_id)
+      from reward_log r
+      join posts p on p.id = r.post_id
+      where r.user_id = p_user_id
+        and r.action in ('like', 'poll', 'feedback', 'rsvp', 'register', 'evaluate')
+        and (p_org_id is null or p.org_id = p_org_id)
+    )::integer
+    when 'quiz_score' then (
+      select coalesce(max(s.score), 0) from scores s
+      where s.user_id = p_user_id and (p_org_id is null or s.org_id = p_org_id)
+    )::integer
+    else 0
+  end;
+$$;
+
+/*
+ * Award every automatic badge whose criteria the user now meets. Only badges of
+ * the user's organizations (or global badges) are checked. The insert skips
+ * badges already held, so overlapping runs notify once. Returns the new badges.
+ */
+create or replace function public.evaluate_user_badges(p_user_id uuid)
+returns setof badges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_badge badges;
+begin
+  for v_badge in
+    select b.*
+    from badges b
+    where b.is_active
+      and b.criteria_type <> 'manual'
+      and b.threshold is not null
+      and (
+        b.org_id is null
+        or b.org_id in (select m.org_id from org_members m where m.user_id = p_user_id and m.is_active)
+      )
+      and not exists (select 1 from user_badges u where u.user_id = p_user_id and u.badge_id = b.id)
+  loop
+    continue when badge_criteria_value(p_user_id, v_badge.criteria_type, v_badge.org_id) < v_badge.threshold;
+
+    insert into user_badges (user_id, badge_id, earned_at)
+    values (p_user_id, v_badge.id, now())
+    on conflict (user_id, badge_id) do nothing;
+
+    if found then
+      perform notify_user(p_user_id, format('You earned the "%s" badge!', v_badge.name));
+      return next v_badge;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.badge_criteria_value(uuid, text, uuid) from public, anon, authenticated;
+revoke execute on function public.evaluate_user_badges(uuid) from public, anon, authenticated;
+
+-- Catch the caller up on badges created after the activity that earns them
+create or replace function public.evaluate_my_badges()
+returns setof badges
+language sql
+security definer
+set search_path = public
+as $$
+  select * from evaluate_user_badges(auth.uid());
+$$;
+
+grant execute on function public.evaluate_my_badges() to authenticated;
+
+create or replace function public.evaluate_badges_after_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform evaluate_user_badges(new.user_id);
+  return null;
+end;
+$$;
+
+revoke execute on function public.evaluate_badges_after_activity() from public, anon, authenticated;
+
+drop trigger if exists evaluate_badges_after_score on public.scores;
+create trigger evaluate_badges_after_score
+  after insert on public.scores
+  for each row execute function public.evaluate_badges_after_activity();
+
+drop trigger if exists evaluate_badges_after_flappy_score on public.flappy_scores;
+create trigger evaluate_badges_after_flappy_score
+  after insert on public.flappy_scores
+  for each row execute function public.evaluate_badges_after_activity();
+
+drop trigger if exists evaluate_badges_after_attendance on public.event_attendance;
+create trigger evaluate_badges_after_attendance
+  after insert or update of attended on public.event_attendance
+  for each row when (new.attended)
+  execute function public.evaluate_badges_after_activity();
+
+drop trigger if exists evaluate_badges_after_engagement on public.reward_log;
+create trigger evaluate_badges_after_engagement
+  after insert on public.reward_log
+  for each row when (new.action in ('like', 'poll', 'feedback', 'rsvp', 'register', 'evaluate'))
+  execute function public.evaluate_badges_after_activity();
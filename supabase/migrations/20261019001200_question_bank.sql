@@ -0,0 +1,153 @@
+-- Question banks. Officers keep reusable questions per organization; quizzes may
+-- draw a number of them per attempt, and each attempt records exactly which
+-- questions the player was sent so the score can be checked against them.
+
+create table if not exists public.question_bank (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  question jsonb not null,
+  tags text[] not null default '{}',
+  difficulty text not null default 'medium' check (difficulty in ('easy', 'medium', 'hard')),
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists question_bank_org on public.question_bank (org_id);
+create index if not exists question_bank_tags on public.question_bank using gin (tags);
+
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id text not null,
+  org_id uuid references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  bank_question_ids uuid[],
+  questions jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_user on public.quiz_attempts (user_id, quiz_id);
+
+alter table public.question_bank enable row level security;
+alter table public.quiz_attempts enable row level security;
+
+-- Members draw from their organizations' banks when they play
+drop policy if exists "Members read their organizations' banks" on public.question_bank;
+create policy "Members read their organizations' banks" on public.question_bank
+  for select to authenticated
+  using (
+    manages_org(org_id)
+    or exists (select 1 from org_members m where m.org_id = question_bank.org_id and m.user_id = auth.uid() and m.is_active)
+  );
+
+drop policy if exists "Officers manage their banks" on public.question_bank;
+create policy "Officers manage their banks" on public.question_bank
+  for all to authenticated
+  using (manages_org(org_id))
+  with check (manages_org(org_id));
+
+-- Attempts are only written by start_quiz_attempt, so players cannot record questions of their own
+drop policy if exists "Players record their own attempts" on public.quiz_attempts;
+revoke insert, update, delete on public.quiz_attempts from anon, authenticated;
+
+drop policy if exists "Players and officers read attempts" on public.quiz_attempts;
+create policy "Players and officers read attempts" on public.quiz_attempts
+  for select to authenticated using (user_id = auth.uid() or (org_id is not null and manages_org(org_id)));
+
+/*
+ * Start one play of a quiz: draw the questions from the quiz's own bank if it
+ * uses a draw rule, shuffle questions and answers if asked, and record what the
+ * player was sent. Returns the quiz data to hand to the game with the attempt id
+ * and the bank questions drawn.
+ */
+create or replace function public.start_quiz_attempt(p_quiz_id text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quiz record;
+  v_draw jsonb;
+  v_count integer;
+  v_tags text[];
+  v_questions jsonb;
+  v_bank_ids uuid[];
+  v_changed boolean;
+  v_attempt_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to play';
+  end if;
+
+  select id, org_id, data into v_quiz from quizzes where id::text = p_quiz_id;
+  if not found then
+    raise exception 'Quiz not found';
+  end if;
+
+  v_draw := nullif(v_quiz.data -> 'draw', 'null'::jsonb);
+  v_changed := v_draw is not null or coalesce((v_quiz.data ->> 'shuffle')::boolean, false);
+
+  if v_draw is not null then
+    -- A draw quiz keeps no questions of its own, so there is nothing to fall back on
+    if v_quiz.org_id is null then
+      raise exception 'This quiz draws from a question bank but belongs to no organization.';
+    end if;
+    if not manages_org(v_quiz.org_id)
+      and not exists (select 1 from org_members m where m.org_id = v_quiz.org_id and m.user_id = auth.uid() and m.is_active) then
+      raise exception 'This quiz is only open to members of its organization.';
+    end if;
+
+    v_count := greatest(coalesce((v_draw ->> 'count')::integer, 0), 1);
+    v_tags := array(select jsonb_array_elements_text(coalesce(v_draw -> 'tags', '[]'::jsonb)));
+
+    select coalesce(array_agg(id), '{}'), coalesce(jsonb_agg(question), '[]'::jsonb)
+    into v_bank_ids, v_questions
+    from (
+      select b.id, b.question
+      from question_bank b
+      where b.org_id = v_quiz.org_id
+        and (cardinality(v_tags) = 0 or b.tags && v_tags)
+        and (v_draw ->> 'difficulty' is null or b.difficulty = v_draw ->> 'difficulty')
+      order by random()
+      limit v_count
+    ) drawn;
+
+    -- Refuse rather than play a short quiz when the bank no longer has enough matching questions
+    if cardinality(v_bank_ids) < v_count then
+      raise exception 'This quiz draws % questions but only % in the bank match. Ask an officer to update it.',
+        v_count, cardinality(v_bank_ids);
+    end if;
+  else
+    v_questions := coalesce(v_quiz.data -> 'questions', '[]'::jsonb);
+  end if;
+
+  if v_changed then
+    -- True/False reads oddly the other way round, so its answers keep their order
+    select coalesce(jsonb_agg(
+      case when q.value ->> 'type' = 'true_false' then q.value
+      else jsonb_set(q.value, '{answers}', coalesce(
+        (select jsonb_agg(a.value order by random()) from jsonb_array_elements(q.value -> 'answers') a),
+        '[]'::jsonb
+      ))
+      end
+      order by random()
+    ), '[]'::jsonb)
+    into v_questions
+    from jsonb_array_elements(v_questions) q;
+  end if;
+
+  insert into quiz_attempts (quiz_id, org_id, user_id, bank_question_ids, questions)
+  values (p_quiz_id, v_quiz.org_id, auth.uid(), nullif(v_bank_ids, '{}'), v_questions)
+  returning id into v_attempt_id;
+
+  return jsonb_build_object(
+    'attempt_id', v_attempt_id,
+    'bank_question_ids', v_bank_ids,
+    'changed', v_changed,
+    'data', jsonb_set(v_quiz.data, '{questions}', v_questions)
+  );
+end;
+$$;
+
+grant execute on function public.start_quiz_attempt(text) to authenticated;
@@ -0,0 +1,102 @@
+-- Per-question quiz analytics. Players record each answer as they play; officers
+-- read one aggregated summary per quiz from quiz_analytics, so the numbers
+-- never depend on how many answer or score rows a client could download.
+
+create table if not exists public.quiz_answers (
+  id uuid primary key default gen_random_uuid(),
+  attempt_id uuid references public.quiz_attempts (id) on delete cascade,
+  quiz_id text not null,
+  org_id uuid references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  question_index integer not null,
+  question_text text not null,
+  bank_question_id uuid references public.question_bank (id) on delete set null,
+  selected_answers text[] not null default '{}',
+  is_correct boolean not null,
+  points integer not null default 0,
+  time_ms integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_answers_quiz on public.quiz_answers (quiz_id, org_id);
+
+alter table public.quiz_answers enable row level security;
+
+drop policy if exists "Players record their own answers" on public.quiz_answers;
+create policy "Players record their own answers" on public.quiz_answers
+  for insert to authenticated with check (user_id = auth.uid());
+
+drop policy if exists "Players and officers read answers" on public.quiz_answers;
+create policy "Players and officers read answers" on public.quiz_answers
+  for select to authenticated using (user_id = auth.uid() or (org_id is not null and manages_org(org_id)));
+
+/*
+ * Everything the analytics view needs for one quiz, as a single JSON document:
+ * answered attempts, per-question counts keyed by question text (so shuffled
+ * and bank-drawn attempts roll up together) and how many players got each
+ * total score.
+ */
+create or replace function public.quiz_analytics(p_quiz_id text, p_org_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_result jsonb;
+begin
+  if not manages_org(p_org_id) then
+    raise exception 'Not allowed to view analytics for this quiz';
+  end if;
+
+  select jsonb_build_object(
+    'total_responses', (
+      select count(distinct coalesce(a.attempt_id::text, a.user_id::text || a.created_at::text))
+      from quiz_answers a
+      where a.quiz_id = p_quiz_id and a.org_id = p_org_id
+    ),
+    'questions', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'question_text', q.question_text,
+        'responses', q.responses,
+        'correct', q.correct,
+        'avg_time_ms', q.avg_time_ms,
+        'bank_question_id', q.bank_question_id,
+        'answer_counts', coalesce((
+          select jsonb_object_agg(c.answer, c.picks)
+          from (
+            select s.answer, count(*) as picks
+            from quiz_answers a, unnest(a.selected_answers) as s(answer)
+            where a.quiz_id = p_quiz_id and a.org_id = p_org_id and a.question_text = q.question_text
+            group by s.answer
+          ) c
+        ), '{}'::jsonb)
+      ))
+      from (
+        select a.question_text,
+          count(*) as responses,
+          count(*) filter (where a.is_correct) as correct,
+          avg(a.time_ms) as avg_time_ms,
+          (array_agg(a.bank_question_id) filter (where a.bank_question_id is not null))[1] as bank_question_id
+        from quiz_answers a
+        where a.quiz_id = p_quiz_id and a.org_id = p_org_id
+        group by a.question_text
+      ) q
+    ), '[]'::jsonb),
+    'scores', coalesce((
+      select jsonb_agg(jsonb_build_object('score', s.score, 'count', s.players) order by s.score)
+      from (
+        select sc.score, count(*) as players
+        from scores sc
+        where sc.quiz_id::text = p_quiz_id and sc.org_id = p_org_id
+        group by sc.score
+      ) s
+    ), '[]'::jsonb)
+  ) into v_result;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.quiz_analytics(text, uuid) to authenticated;
@@ -0,0 +1,197 @@
+-- Live hosted quiz sessions. Players follow live_quiz_sessions over realtime,
+-- so that row never holds the answer key: the key lives in
+-- live_quiz_answer_keys, which only the host and submit_live_quiz_answer read.
+
+create table if not exists public.live_quiz_sessions (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id text not null,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  host_id uuid not null references public.users (id),
+  join_code text not null,
+  status text not null default 'lobby' check (status in ('lobby', 'question', 'reveal', 'finished')),
+  current_index integer not null default -1,
+  question_count integer not null,
+  current_question jsonb,
+  question_started_at timestamptz,
+  revealed_answers integer[],
+  points_per_question integer not null default 10,
+  created_at timestamptz not null default now(),
+  ended_at timestamptz
+);
+
+-- Earlier builds stored every question, answer key included, on the session row
+alter table public.live_quiz_sessions drop column if exists questions;
+
+-- A code is only reserved while its session is open
+create unique index if not exists live_quiz_sessions_open_code
+  on public.live_quiz_sessions (join_code) where status <> 'finished';
+
+create table if not exists public.live_quiz_answer_keys (
+  session_id uuid not null references public.live_quiz_sessions (id) on delete cascade,
+  question_index integer not null,
+  correct_indexes integer[] not null,
+  primary key (session_id, question_index)
+);
+
+create table if not exists public.live_quiz_players (
+  session_id uuid not null references public.live_quiz_sessions (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  username text not null,
+  score integer not null default 0,
+  correct_count integer not null default 0,
+  joined_at timestamptz not null default now(),
+  primary key (session_id, user_id)
+);
+
+create table if not exists public.live_quiz_answers (
+  session_id uuid not null references public.live_quiz_sessions (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  question_index integer not null,
+  selected_indexes integer[] not null,
+  is_correct boolean not null,
+  points integer not null,
+  answered_at timestamptz not null default now(),
+  primary key (session_id, user_id, question_index)
+);
+
+alter table public.live_quiz_sessions enable row level security;
+alter table public.live_quiz_answer_keys enable row level security;
+alter table public.live_quiz_players enable row level security;
+alter table public.live_quiz_answers enable row level security;
+
+drop policy if exists "Signed-in users read sessions" on public.live_quiz_sessions;
+create policy "Signed-in users read sessions" on public.live_quiz_sessions
+  for select to authenticated using (true);
+
+drop policy if exists "Officers host sessions" on public.live_quiz_sessions;
+create policy "Officers host sessions" on public.live_quiz_sessions
+  for insert to authenticated with check (host_id = auth.uid() and manages_org(org_id));
+
+drop policy if exists "Hosts run their sessions" on public.live_quiz_sessions;
+create policy "Hosts run their sessions" on public.live_quiz_sessions
+  for update to authenticated using (host_id = auth.uid()) with check (host_id = auth.uid());
+
+drop policy if exists "Hosts manage the answer key" on public.live_quiz_answer_keys;
+create policy "Hosts manage the answer key" on public.live_quiz_answer_keys
+  for all to authenticated
+  using (exists (select 1 from live_quiz_sessions s where s.id = session_id and s.host_id = auth.uid()))
+  with check (exists (select 1 from live_quiz_sessions s where s.id = session_id and s.host_id = auth.uid()));
+
+drop policy if exists "Signed-in users read players" on public.live_quiz_players;
+create policy "Signed-in users read players" on public.live_quiz_players
+  for select to authenticated using (true);
+
+drop policy if exists "Users join as themselves" on public.live_quiz_players;
+create policy "Users join as themselves" on public.live_quiz_players
+  for insert to authenticated with check (user_id = auth.uid() and score = 0 and correct_count = 0);
+
+-- Answers are written by submit_live_quiz_answer only
+drop policy if exists "Hosts and players read answers" on public.live_quiz_answers;
+create policy "Hosts and players read answers" on public.live_quiz_answers
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from live_quiz_sessions s where s.id = session_id and s.host_id = auth.uid())
+  );
+
+/*
+ * Open question p_index for everyone. The server sets question_started_at,
+ * which answers are timed against.
+ */
+create or replace function public.show_live_quiz_question(p_session_id uuid, p_index integer, p_question jsonb)
+returns live_quiz_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session live_quiz_sessions;
+begin
+  update live_quiz_sessions
+  set status = 'question',
+      current_index = p_index,
+      current_question = p_question,
+      question_started_at = now(),
+      revealed_answers = null
+  where id = p_session_id
+    and host_id = auth.uid()
+    and status <> 'finished'
+    and p_index between 0 and question_count - 1
+  returning * into v_session;
+
+  if not found then
+    raise exception 'Cannot show this question';
+  end if;
+  return v_session;
+end;
+$$;
+
+/*
+ * Score an answer to the open question. Correct answers earn the quiz's points
+ * plus up to half again for answering quickly; multiple-select questions must
+ * match the key exactly. One answer per player per question.
+ */
+create or replace function public.submit_live_quiz_answer(
+  p_session_id uuid,
+  p_question_index integer,
+  p_selected_indexes integer[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session live_quiz_sessions;
+  v_key integer[];
+  v_limit numeric;
+  v_elapsed numeric;
+  v_correct boolean;
+  v_points integer := 0;
+  v_score integer;
+begin
+  select * into v_session from live_quiz_sessions where id = p_session_id;
+  if not found or v_session.status <> 'question' or v_session.current_index <> p_question_index then
+    raise exception 'This question is closed';
+  end if;
+
+  if not exists (select 1 from live_quiz_players where session_id = p_session_id and user_id = auth.uid()) then
+    raise exception 'Join the session before answering';
+  end if;
+
+  v_limit := (v_session.current_question ->> 'timeLimitInSeconds')::numeric;
+  v_elapsed := extract(epoch from now() - v_session.question_started_at);
+  if v_elapsed > v_limit then
+    raise exception 'Time is up for this question';
+  end if;
+
+  select correct_indexes into v_key
+  from live_quiz_answer_keys
+  where session_id = p_session_id and question_index = p_question_index;
+
+  v_correct := v_key is not null
+    and array(select distinct unnest(p_selected_indexes) order by 1) = array(select unnest(v_key) order by 1);
+
+  if v_correct then
+    v_points := v_session.points_per_question
+      + round(v_session.points_per_question * 0.5 * greatest(0, v_limit - v_elapsed) / v_limit)::integer;
+  end if;
+
+  insert into live_quiz_answers (session_id, user_id, question_index, selected_indexes, is_correct, points)
+  values (p_session_id, auth.uid(), p_question_index, p_selected_indexes, v_correct, v_points);
+
+  update live_quiz_players
+  set score = score + v_points,
+      correct_count = correct_count + case when v_correct then 1 else 0 end
+  where session_id = p_session_id and user_id = auth.uid()
+  returning score into v_score;
+
+  return jsonb_build_object('is_correct', v_correct, 'points', v_points, 'score', v_score);
+exception
+  when unique_violation then
+    raise exception 'You already answered this question';
+end;
+$$;
+
+grant execute on function public.show_live_quiz_question(uuid, integer, jsonb) to authenticated;
+grant execute on function public.submit_live_quiz_answer(uuid, integer, integer[]) to authenticated;
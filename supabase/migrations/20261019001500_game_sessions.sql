@@ -0,0 +1,358 @@
+-- Quiz and flappy scores are only recorded through submit_game_result. The page
+-- asks for a one-time token before each play and hands the finished result back
+-- with it; the server re-checks the result, writes the score and pays the coins.
+-- Clients lose insert rights on scores and flappy_scores at the end of this file.
+
+create table if not exists public.game_sessions (
+  token uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  game text not null check (game in ('quiz', 'flappy')),
+  org_id uuid references public.organizations (id) on delete cascade,
+  quiz_id text,
+  attempt_id uuid references public.quiz_attempts (id) on delete cascade,
+  challenge_id text,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+create index if not exists game_sessions_user on public.game_sessions (user_id, issued_at desc);
+-- An attempt is played once; a new play draws a new attempt
+create unique index if not exists game_sessions_attempt on public.game_sessions (attempt_id) where attempt_id is not null;
+
+create table if not exists public.score_rejections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  org_id uuid references public.organizations (id) on delete cascade,
+  -- Unknown when a result arrives without a valid token and names no known game
+  game text check (game in ('quiz', 'flappy')),
+  quiz_id text,
+  challenge_id text,
+  claimed_score integer,
+  verified_score integer,
+  reason text not null check (reason in (
+    'invalid_token', 'expired_token', 'token_reused', 'invalid_result', 'answer_mismatch',
+    'score_mismatch', 'implausible_duration', 'implausible_rate'
+  )),
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists score_rejections_created on public.score_rejections (created_at desc);
+
+-- Tokens are only ever read and written by the functions below
+alter table public.game_sessions enable row level security;
+alter table public.score_rejections enable row level security;
+
+drop policy if exists "Officers review rejected scores" on public.score_rejections;
+create policy "Officers review rejected scores" on public.score_rejections
+  for select to authenticated using (is_admin() or (org_id is not null and manages_org(org_id)));
+
+/*
+ * Issue the token for one play. Quiz tokens are tied to one of the caller's own
+ * attempts, which only start_quiz_attempt writes, and last as long as the quiz
+ * could take; flappy tokens cover one run. The organization the score counts
+ * for is the quiz's own, or for flappy one the player belongs to. A player has
+ * at most c_max_open_sessions tokens live at a time.
+ */
+create or replace function public.start_game_session(
+  p_game text,
+  p_org_id uuid,
+  p_quiz_id text default null,
+  p_attempt_id uuid default null,
+  p_challenge_id text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Games a player can have running at once; starting another retires the oldest
+  c_max_open_sessions constant integer := 3;
+  v_attempt quiz_attempts;
+  v_org_id uuid;
+  v_limit numeric;
+  v_lifetime interval;
+  v_session game_sessions;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to play';
+  end if;
+
+  if p_game = 'quiz' then
+    select * into v_attempt
+    from quiz_attempts
+    where id = p_attempt_id and user_id = auth.uid() and quiz_id::text = p_quiz_id;
+    if not found then
+      raise exception 'Quiz attempt not found';
+    end if;
+    if exists (select 1 from game_sessions where attempt_id = v_attempt.id) then
+      raise exception 'This attempt has already been played';
+    end if;
+    v_org_id := v_attempt.org_id;
+
+    select coalesce((z.data ->> 'timeLimitInSeconds')::numeric, 60) into v_limit
+    from quizzes z where z.id::text = p_quiz_id;
+    -- Every question at the quiz's limit, plus time to read the results
+    v_lifetime := make_interval(secs => coalesce(v_limit, 60) * jsonb_array_length(v_attempt.questions) + 300);
+  elsif p_game = 'flappy' then
+    if p_challenge_id is null
+      or not exists (select 1 from flappy_config where challenge_id = p_challenge_id) then
+      raise exception 'Pick a challenge to play';
+    end if;
+    if p_org_id is not null
+      and not exists (select 1 from org_members m where m.org_id = p_org_id and m.user_id = auth.uid() and m.is_active) then
+      raise exception 'Scores only count for organizations you belong to';
+    end if;
+    v_org_id := p_org_id;
+    v_lifetime := interval '30 minutes';
+  else
+    raise exception 'Unknown game %', p_game;
+  end if;
+
+  update game_sessions
+  set expires_at = now()
+  where token in (
+    select token
+    from game_sessions
+    where user_id = auth.uid() and used_at is null and expires_at > now()
+    order by issued_at desc
+    offset c_max_open_sessions - 1
+  );
+
+  insert into game_sessions (user_id, game, org_id, quiz_id, attempt_id, challenge_id, expires_at)
+  values (
+    auth.uid(),
+    p_game,
+    v_org_id,
+    case when p_game = 'quiz' then p_quiz_id end,
+    case when p_game = 'quiz' then v_attempt.id end,
+    case when p_game = 'flappy' then p_challenge_id end,
+    now() + v_lifetime
+  )
+  returning * into v_session;
+
+  return jsonb_build_object('token', v_session.token, 'expires_at', v_session.expires_at);
+end;
+$$;
+
+-- Points for one question, as scoreQuestion in src/lib/quizSchema.ts counts them
+create or replace function public.score_quiz_question(p_question jsonb, p_selected integer[], p_default_points integer)
+returns integer
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_points integer := coalesce((p_question ->> 'points')::integer, p_default_points);
+  v_correct integer[];
+  v_hits integer;
+  v_misses integer;
+begin
+  select coalesce(array_agg(a.ordinality - 1), '{}') into v_correct
+  from jsonb_array_elements(p_question -> 'answers') with ordinality a
+  where (a.value ->> 'isCorrect')::boolean;
+
+  select count(*) into v_hits from unnest(p_selected) s where s = any (v_correct);
+  v_misses := coalesce(array_length(p_selected, 1), 0) - v_hits;
+
+  if p_question ->> 'type' = 'multiple_select' and coalesce((p_question ->> 'partialCredit')::boolean, false) then
+    if coalesce(array_length(v_correct, 1), 0) = 0 then
+      return 0;
+    end if;
+    return round(v_points * greatest(0, v_hits - v_misses)::numeric / array_length(v_correct, 1))::integer;
+  end if;
+  if p_question ->> 'type' = 'multiple_select' then
+    return case when v_hits = coalesce(array_length(v_correct, 1), 0) and v_misses = 0 then v_points else 0 end;
+  end if;
+  return case when coalesce(array_length(p_selected, 1), 0) = 1 and v_hits = 1 then v_points else 0 end;
+end;
+$$;
+
+/*
+ * Check a finished game and record it. Quiz scores are recomputed from the
+ * answers against the attempt's questions; flappy scores must fit inside the
+ * token's lifetime at a rate the game allows. Accepted scores are written to
+ * scores / flappy_scores; anything else is logged to score_rejections for
+ * officers to review. Coins are one per point the score beats the player's
+ * previous best on that quiz or challenge, up to c_daily_game_coins a day, so
+ * replaying a game does not pay again.
+ */
+create or replace function public.submit_game_result(p_token uuid, p_result jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Fastest a flappy score can go up, and shortest a run can be
+  c_max_flappy_rate constant numeric := 2;
+  c_grace constant interval := interval '30 seconds';
+  c_daily_game_coins constant integer := 500;
+  v_session game_sessions;
+  v_attempt quiz_attempts;
+  v_claimed integer;
+  v_verified integer;
+  v_reason text;
+  v_details jsonb;
+  v_default_points integer;
+  v_duration_ms numeric;
+  v_answer jsonb;
+  v_index integer;
+  v_seen integer[] := '{}';
+  v_username text;
+  v_best integer;
+  v_coins integer;
+begin
+  select * into v_session from game_sessions where token = p_token and user_id = auth.uid() for update;
+
+  if not found then
+    v_reason := 'invalid_token';
+  elsif v_session.used_at is not null then
+    v_reason := 'token_reused';
+  elsif now() > v_session.expires_at then
+    v_reason := 'expired_token';
+  end if;
+
+  if v_session.token is not null and v_session.used_at is null then
+    update game_sessions set used_at = now() where token = v_session.token;
+  end if;
+
+  -- The result comes straight from the browser, so its shape is checked before anything is cast
+  if jsonb_typeof(p_result -> 'score') = 'number' and p_result ->> 'score' ~ '^-?\d{1,9}$' then
+    v_claimed := (p_result ->> 'score')::integer;
+  end if;
+
+  if v_reason is null and (
+    v_claimed is null
+    or (v_session.game = 'quiz' and (
+      jsonb_typeof(coalesce(p_result -> 'answers', '[]'::jsonb)) <> 'array'
+      or exists (
+        select 1
+        from jsonb_array_elements(coalesce(p_result -> 'answers', '[]'::jsonb)) a
+        where jsonb_typeof(a.value) <> 'object'
+          or coalesce(a.value ->> 'questionIndex', '') !~ '^\d{1,9}$'
+          or jsonb_typeof(coalesce(a.value -> 'selectedIndexes', '[]'::jsonb)) <> 'array'
+          or exists (
+            select 1
+            from jsonb_array_elements(coalesce(a.value -> 'selectedIndexes', '[]'::jsonb)) i
+            where i.value::text !~ '^\d{1,9}$'
+          )
+      )
+    ))
+    or (v_session.game = 'flappy' and (
+      jsonb_typeof(p_result -> 'durationMs') is distinct from 'number'
+      or p_result ->> 'durationMs' !~ '^\d{1,12}(\.\d+)?$'
+    ))
+  ) then
+    v_reason := 'invalid_result';
+  end if;
+
+  if v_reason is null and v_session.game = 'quiz' then
+    select * into v_attempt from quiz_attempts where id = v_session.attempt_id;
+    select coalesce((data ->> 'pointsAddedForCorrectAnswer')::integer, 0) into v_default_points
+    from quizzes where id::text = v_session.quiz_id;
+
+    v_verified := 0;
+    for v_answer in select value from jsonb_array_elements(coalesce(p_result -> 'answers', '[]'::jsonb)) loop
+      v_index := (v_answer ->> 'questionIndex')::integer;
+      if v_index is null
+        or v_index < 0
+        or v_index >= jsonb_array_length(v_attempt.questions)
+        or v_index = any (v_seen) then
+        v_reason := 'answer_mismatch';
+        v_details := jsonb_build_object('question_index', v_index);
+        exit;
+      end if;
+      v_seen := v_seen || v_index;
+      v_verified := v_verified + score_quiz_question(
+        v_attempt.questions -> v_index,
+        array(select jsonb_array_elements_text(coalesce(v_answer -> 'selectedIndexes', '[]'::jsonb))::integer),
+        coalesce(v_default_points, 0)
+      );
+    end loop;
+
+    if v_reason is null and v_claimed is distinct from v_verified then
+      v_reason := 'score_mismatch';
+    end if;
+  elsif v_reason is null and v_session.game = 'flappy' then
+    v_duration_ms := (p_result ->> 'durationMs')::numeric;
+    v_verified := v_claimed;
+
+    if v_duration_ms is null
+      or v_duration_ms <= 0
+      or v_duration_ms > extract(epoch from now() - v_session.issued_at + c_grace) * 1000 then
+      v_reason := 'implausible_duration';
+      v_details := jsonb_build_object(
+        'duration_ms', v_duration_ms,
+        'session_ms', round(extract(epoch from now() - v_session.issued_at) * 1000)
+      );
+    elsif v_claimed is null or v_claimed < 0 or v_claimed > c_max_flappy_rate * v_duration_ms / 1000 + 1 then
+      v_reason := 'implausible_rate';
+      v_details := jsonb_build_object('duration_ms', v_duration_ms, 'max_rate', c_max_flappy_rate);
+    end if;
+  end if;
+
+  if v_reason is not null then
+    insert into score_rejections (user_id, org_id, game, quiz_id, challenge_id, claimed_score, verified_score, reason, details)
+    values (
+      auth.uid(),
+      v_session.org_id,
+      coalesce(v_session.game, case when p_result ->> 'game' in ('quiz', 'flappy') then p_result ->> 'game' end),
+      v_session.quiz_id,
+      v_session.challenge_id,
+      v_claimed,
+      v_verified,
+      v_reason,
+      v_details
+    );
+    return jsonb_build_object('status', 'rejected', 'score', null, 'coins_awarded', 0, 'reason', v_reason);
+  end if;
+
+  -- Leaderboards show the name stored with the score, as the game used to write it
+  select trim(coalesce(first_name, '') || ' ' || coalesce(last_name, '')) into v_username
+  from users where id = auth.uid();
+
+  if v_session.game = 'quiz' then
+    select max(score) into v_best
+    from scores
+    where user_id = auth.uid() and quiz_id::text = v_session.quiz_id and org_id is not distinct from v_session.org_id;
+  else
+    select max(score) into v_best
+    from flappy_scores
+    where user_id = auth.uid() and challenge_id = v_session.challenge_id and org_id is not distinct from v_session.org_id;
+  end if;
+
+  v_coins := least(
+    greatest(v_verified - coalesce(v_best, 0), 0),
+    greatest(c_daily_game_coins - (
+      select coalesce(sum(points), 0)::integer
+      from reward_log
+      where user_id = auth.uid() and action in ('quiz', 'flappy') and created_at >= date_trunc('day', now())
+    ), 0)
+  );
+
+  if v_session.game = 'quiz' then
+    insert into scores (user_id, username, score, quiz_id, org_id)
+    values (auth.uid(), v_username, v_verified, v_session.quiz_id, v_session.org_id);
+  else
+    insert into flappy_scores (user_id, username, score, challenge_id, org_id)
+    values (auth.uid(), v_username, v_verified, v_session.challenge_id, v_session.org_id);
+  end if;
+
+  if v_coins > 0 then
+    perform grant_user_coins(auth.uid(), v_coins, v_session.game, v_session.org_id);
+  end if;
+
+  return jsonb_build_object('status', 'accepted', 'score', v_verified, 'coins_awarded', v_coins, 'reason', null);
+end;
+$$;
+
+revoke execute on function public.score_quiz_question(jsonb, integer[], integer) from public, anon, authenticated;
+grant execute on function public.start_game_session(text, uuid, text, uuid, text) to authenticated;
+grant execute on function public.submit_game_result(uuid, jsonb) to authenticated;
+
+-- Scores are written by submit_game_result only
+revoke insert on public.scores from anon, authenticated;
+revoke insert on public.flappy_scores from anon, authenticated;
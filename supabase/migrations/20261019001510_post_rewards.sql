@@ -0,0 +1,55 @@
+-- Coins for engaging with posts. The browser used to call award_user_coins_once
+-- with its own user id and point amount; it now names the post and the action,
+-- and the server pays the fixed amount once the engagement is actually on record.
+
+create or replace function public.claim_post_reward(p_post_id uuid, p_action text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_points integer;
+  v_done boolean;
+begin
+  if auth.uid() is null or not can_view_post(p_post_id) then
+    return 0;
+  end if;
+
+  v_points := case p_action
+    when 'view' then 1
+    when 'like' then 10
+    when 'poll' then 30
+    when 'feedback' then 50
+    when 'rsvp' then 30
+    when 'register' then 50
+    when 'evaluate' then 100
+  end;
+  if v_points is null then
+    raise exception 'Unknown reward %', p_action;
+  end if;
+
+  v_done := case p_action
+    when 'view' then exists (select 1 from post_views where post_id = p_post_id and user_id = auth.uid())
+    when 'like' then exists (select 1 from post_likes where post_id = p_post_id and user_id = auth.uid())
+    when 'poll' then exists (select 1 from poll_votes where post_id = p_post_id and user_id = auth.uid())
+    when 'feedback' then exists (select 1 from form_responses where post_id = p_post_id and user_id = auth.uid())
+    when 'rsvp' then exists (select 1 from rsvps where post_id = p_post_id and user_id = auth.uid())
+    -- Waitlisted members are paid when promote_event_waitlist confirms them
+    when 'register' then exists (
+      select 1 from event_registrations where post_id = p_post_id and user_id = auth.uid() and status = 'confirmed'
+    )
+    when 'evaluate' then exists (select 1 from event_evaluations where post_id = p_post_id and user_id = auth.uid())
+  end;
+  if not v_done then
+    return 0;
+  end if;
+
+  return award_user_coins_once(auth.uid(), p_post_id, p_action, v_points);
+end;
+$$;
+
+grant execute on function public.claim_post_reward(uuid, text) to authenticated;
+
+-- Only server functions pay out now
+revoke execute on function public.award_user_coins_once(uuid, uuid, text, integer) from public, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Per-challenge flappy tuning, sent to the game as ReceiveChallengeData.tuning.
+-- Null for challenges saved before tuning existed; resolveFlappyTuning in
+-- src/lib/flappyTuning.ts fills in the normal preset for those.
+
+alter table public.flappy_config add column if not exists tuning jsonb
+  check (tuning is null or jsonb_typeof(tuning) = 'object');
@@ -0,0 +1,301 @@
+-- Leaderboard seasons. Boards rank each player's best score on the server, so
+-- they never depend on how many score rows a client can download. A pg_cron
+-- job archives seasons once they end: standings are frozen and the top places
+-- paid in the same transaction, exactly once.
+
+create table if not exists public.leaderboard_seasons (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null check (ends_at > starts_at),
+  -- One entry per rewarded place; officers set these, so the amounts are capped
+  reward_coins integer[] not null default '{}'
+    check (cardinality(reward_coins) <= 3 and 0 <= all (reward_coins) and 1000 >= all (reward_coins)),
+  reward_badge_ids uuid[] not null default '{}' check (cardinality(reward_badge_ids) <= 3),
+  archived_at timestamptz,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.leaderboard_season_standings (
+  id uuid primary key default gen_random_uuid(),
+  season_id uuid not null references public.leaderboard_seasons (id) on delete cascade,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  game text not null check (game in ('quiz', 'flappy')),
+  quiz_id text,
+  challenge_id text,
+  board_name text not null,
+  user_id uuid not null references public.users (id) on delete cascade,
+  username text,
+  score integer not null,
+  rank integer not null,
+  coins_awarded integer not null default 0,
+  badge_id uuid references public.badges (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists leaderboard_season_standings_board
+  on public.leaderboard_season_standings (season_id, game, quiz_id, challenge_id, rank);
+create index if not exists leaderboard_season_standings_user
+  on public.leaderboard_season_standings (user_id, org_id);
+
+alter table public.leaderboard_seasons enable row level security;
+alter table public.leaderboard_season_standings enable row level security;
+
+drop policy if exists "Signed-in users read seasons" on public.leaderboard_seasons;
+create policy "Signed-in users read seasons" on public.leaderboard_seasons
+  for select to authenticated using (true);
+
+-- Officers plan seasons; archiving is left to archive_leaderboard_season
+drop policy if exists "Officers manage seasons" on public.leaderboard_seasons;
+create policy "Officers manage seasons" on public.leaderboard_seasons
+  for all to authenticated
+  using (manages_org(org_id) and archived_at is null)
+  with check (manages_org(org_id) and archived_at is null);
+
+/*
+ * Whether every badge in a prize list belongs to the organization handing it
+ * out. Empty places (nulls) are allowed.
+ */
+create or replace function public.org_owns_badges(p_org_id uuid, p_badge_ids uuid[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+    select 1
+    from unnest(p_badge_ids) as b(id)
+    where b.id is not null
+      and not exists (select 1 from badges where badges.id = b.id and badges.org_id = p_org_id)
+  );
+$$;
+
+create or replace function public.check_season_prize_badges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not org_owns_badges(new.org_id, new.reward_badge_ids) then
+    raise exception 'Season prizes can only be badges of this organization';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_season_prize_badges on public.leaderboard_seasons;
+create trigger check_season_prize_badges
+  before insert or update of org_id, reward_badge_ids on public.leaderboard_seasons
+  for each row execute function public.check_season_prize_badges();
+
+drop policy if exists "Signed-in users read standings" on public.leaderboard_season_standings;
+create policy "Signed-in users read standings" on public.leaderboard_season_standings
+  for select to authenticated using (true);
+
+/*
+ * Every player's best score on one board, ranked. Ties go to whoever set the
+ * score first. p_from / p_to limit the scores to a season's dates.
+ */
+create or replace function public.ranked_best_scores(
+  p_game text,
+  p_org_id uuid,
+  p_ref_id text,
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns table (user_id uuid, username text, score integer, created_at timestamptz, rank integer)
+language sql
+stable
+set search_path = public
+as $$
+  with best as (
+    select distinct on (s.user_id) s.user_id, s.username, s.score, s.created_at
+    from (
+      select q.user_id, q.username, q.score, q.created_at
+      from scores q
+      where p_game = 'quiz' and q.quiz_id::text = p_ref_id and q.org_id = p_org_id
+      union all
+      select f.user_id, f.username, f.score, f.created_at
+      from flappy_scores f
+      where p_game = 'flappy' and f.challenge_id = p_ref_id and f.org_id = p_org_id
+    ) s
+    where (p_from is null or s.created_at >= p_from)
+      and (p_to is null or s.created_at <= p_to)
+    order by s.user_id, s.score desc, s.created_at asc
+  )
+  select b.user_id, b.username, b.score, b.created_at,
+    (row_number() over (order by b.score desc, b.created_at asc))::integer
+  from best b;
+$$;
+
+-- The top p_limit of a board, plus p_user_id's own row when they rank lower
+create or replace function public.leaderboard_board(
+  p_game text,
+  p_org_id uuid,
+  p_ref_id text,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_user_id uuid default null,
+  p_limit integer default 10
+)
+returns table (user_id uuid, username text, score integer, created_at timestamptz, rank integer)
+language sql
+stable
+set search_path = public
+as $$
+  select r.user_id, r.username, r.score, r.created_at, r.rank
+  from ranked_best_scores(p_game, p_org_id, p_ref_id, p_from, p_to) r
+  where r.rank <= p_limit or r.user_id = p_user_id
+  order by r.rank;
+$$;
+
+grant execute on function public.ranked_best_scores(text, uuid, text, timestamptz, timestamptz) to authenticated;
+grant execute on function public.leaderboard_board(text, uuid, text, timestamptz, timestamptz, uuid, integer) to authenticated;
+
+/*
+ * Freeze a season: rank every board that had scores between its dates, store
+ * the standings and pay the top places their coins and badges. The season row
+ * is locked and stamped, so running it twice pays nothing the second time.
+ * Officers of the organization may end a season early; the cron job below
+ * archives the rest as they end.
+ */
+create or replace function public.archive_leaderboard_season(p_season_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season leaderboard_seasons;
+  v_board record;
+  v_row record;
+  v_coins integer;
+  v_badge uuid;
+  v_standings integer := 0;
+  v_winners jsonb := '[]'::jsonb;
+begin
+  select * into v_season from leaderboard_seasons where id = p_season_id for update;
+  if not found then
+    raise exception 'Season not found';
+  end if;
+  -- auth.uid() is null when the cron job calls
+  if auth.uid() is not null and not manages_org(v_season.org_id) then
+    raise exception 'Not allowed to archive this season';
+  end if;
+  if v_season.archived_at is not null then
+    return jsonb_build_object('standings', 0, 'winners', v_winners);
+  end if;
+
+  -- A season ended early stops counting now
+  if v_season.ends_at > now() then
+    update leaderboard_seasons set ends_at = now() where id = v_season.id returning * into v_season;
+  end if;
+
+  for v_board in
+    select 'quiz' as game, q.quiz_id::text as ref_id, coalesce(z.title, 'Quiz') as board_name
+    from (
+      select distinct s.quiz_id from scores s
+      where s.org_id = v_season.org_id and s.created_at between v_season.starts_at and v_season.ends_at
+    ) q
+    left join quizzes z on z.id::text = q.quiz_id::text
+    union all
+    select 'flappy', f.challenge_id, coalesce(c.name, 'Flappy challenge')
+    from (
+      select distinct s.challenge_id from flappy_scores s
+      where s.org_id = v_season.org_id and s.created_at between v_season.starts_at and v_season.ends_at
+    ) f
+    left join flappy_config c on c.challenge_id = f.challenge_id
+  loop
+    for v_row in
+      select * from ranked_best_scores(v_board.game, v_season.org_id, v_board.ref_id, v_season.starts_at, v_season.ends_at)
+    loop
+      v_coins := coalesce(v_season.reward_coins[v_row.rank], 0);
+      v_badge := v_season.reward_badge_ids[v_row.rank];
+
+      insert into leaderboard_season_standings (
+        season_id, org_id, game, quiz_id, challenge_id, board_name, user_id, username, score, rank, coins_awarded, badge_id
+      )
+      values (
+        v_season.id,
+        v_season.org_id,
+        v_board.game,
+        case when v_board.game = 'quiz' then v_board.ref_id end,
+        case when v_board.game = 'flappy' then v_board.ref_id end,
+        v_board.board_name,
+        v_row.user_id,
+        v_row.username,
+        v_row.score,
+        v_row.rank,
+        v_coins,
+        v_badge
+      );
+      v_standings := v_standings + 1;
+
+      if v_coins > 0 or v_badge is not null then
+        if v_coins > 0 then
+          perform grant_user_coins(
+            v_row.user_id, v_coins, 'season_prize', v_season.org_id, null,
+            format('%s: %s place on %s', v_season.name, v_row.rank, v_board.board_name)
+          );
+        end if;
+        if v_badge is not null then
+          insert into user_badges (user_id, badge_id, earned_at)
+          values (v_row.user_id, v_badge, now())
+          on conflict (user_id, badge_id) do nothing;
+        end if;
+
+        perform notify_user(
+          v_row.user_id,
+          format('You finished #%s on "%s" in %s!', v_row.rank, v_board.board_name, v_season.name)
+            || case when v_coins > 0 then format(' You earned %s coins.', v_coins) else '' end
+        );
+        v_winners := v_winners || jsonb_build_object(
+          'user_id', v_row.user_id,
+          'rank', v_row.rank,
+          'board_name', v_board.board_name,
+          'coins_awarded', v_coins
+        );
+      end if;
+    end loop;
+  end loop;
+
+  update leaderboard_seasons set archived_at = now() where id = v_season.id;
+
+  return jsonb_build_object('standings', v_standings, 'winners', v_winners);
+end;
+$$;
+
+grant execute on function public.archive_leaderboard_season(uuid) to authenticated;
+
+-- Archive every season that has ended
+create or replace function public.archive_ended_seasons()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season uuid;
+  v_count integer := 0;
+begin
+  for v_season in
+    select id from leaderboard_seasons where archived_at is null and ends_at <= now()
+  loop
+    perform archive_leaderboard_season(v_season);
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.archive_ended_seasons() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('archive-ended-seasons', '*/5 * * * *', $$select public.archive_ended_seasons()$$);
+
+revoke execute on function public.org_owns_badges(uuid, uuid[]) from public, anon, authenticated;
@@ -0,0 +1,96 @@
+-- Contest judging. Officers score each entry against the contest's rubric;
+-- when voting is enabled members also get one vote each, which they can move
+-- while voting is open. publish_contest_results weighs the two together.
+
+alter table public.room_contests add column if not exists phase text not null default 'submissions'
+  check (phase in ('submissions', 'judging', 'voting', 'results'));
+alter table public.room_contests add column if not exists rubric jsonb not null default '[]'::jsonb;
+alter table public.room_contests add column if not exists voting_enabled boolean not null default false;
+alter table public.room_contests add column if not exists judge_weight integer not null default 70
+  check (judge_weight between 0 and 100);
+
+create table if not exists public.contest_judge_scores (
+  submission_id uuid not null references public.contest_submissions (id) on delete cascade,
+  contest_id uuid not null references public.room_contests (id) on delete cascade,
+  judge_id uuid not null references public.users (id) on delete cascade,
+  scores jsonb not null default '{}'::jsonb,
+  total numeric not null default 0,
+  comment text,
+  updated_at timestamptz not null default now(),
+  primary key (submission_id, judge_id)
+);
+
+create table if not exists public.contest_votes (
+  contest_id uuid not null references public.room_contests (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  submission_id uuid not null references public.contest_submissions (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (contest_id, user_id)
+);
+
+create index if not exists contest_judge_scores_contest on public.contest_judge_scores (contest_id);
+create index if not exists contest_votes_submission on public.contest_votes (submission_id);
+
+alter table public.contest_judge_scores enable row level security;
+alter table public.contest_votes enable row level security;
+
+-- Officers of the contest's organization
+create or replace function public.manages_contest(p_contest_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from room_contests c where c.id = p_contest_id and manages_org(c.org_id));
+$$;
+
+grant execute on function public.manages_contest(uuid) to authenticated;
+
+drop policy if exists "Officers read judge scores" on public.contest_judge_scores;
+create policy "Officers read judge scores" on public.contest_judge_scores
+  for select to authenticated using (manages_contest(contest_id));
+
+-- Each officer writes only their own marks, and only while the contest is being judged
+drop policy if exists "Officers score entries" on public.contest_judge_scores;
+create policy "Officers score entries" on public.contest_judge_scores
+  for all to authenticated
+  using (judge_id = auth.uid() and manages_contest(contest_id))
+  with check (
+    judge_id = auth.uid()
+    and manages_contest(contest_id)
+    and exists (
+      select 1 from room_contests c
+      where c.id = contest_id and c.phase in ('judging', 'voting')
+    )
+  );
+
+drop policy if exists "Voters and officers read votes" on public.contest_votes;
+create policy "Voters and officers read votes" on public.contest_votes
+  for select to authenticated using (user_id = auth.uid() or manages_contest(contest_id));
+
+-- Members vote while voting is open, for someone else's entry in the same contest
+drop policy if exists "Members cast their vote" on public.contest_votes;
+create policy "Members cast their vote" on public.contest_votes
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from room_contests c where c.id = contest_id and c.phase = 'voting' and c.voting_enabled)
+    and exists (
+      select 1 from contest_submissions s
+      where s.id = submission_id and s.contest_id = contest_votes.contest_id and s.user_id <> auth.uid()
+    )
+  );
+
+drop policy if exists "Members move their vote" on public.contest_votes;
+create policy "Members move their vote" on public.contest_votes
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from room_contests c where c.id = contest_id and c.phase = 'voting' and c.voting_enabled)
+    and exists (
+      select 1 from contest_submissions s
+      where s.id = submission_id and s.contest_id = contest_votes.contest_id and s.user_id <> auth.uid()
+    )
+  );
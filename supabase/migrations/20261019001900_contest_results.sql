@@ -0,0 +1,326 @@
+-- Contest closing and payouts. A pg_cron job closes entries once a contest's end
+-- date passes; publish_contest_results ranks the entries, pays the prizes,
+-- posts the winners and tells every entrant in one transaction, exactly once.
+
+alter table public.room_contests add column if not exists results_published_at timestamptz;
+-- One entry per prize place; officers set these, so the amounts are capped
+alter table public.room_contests add column if not exists prize_coins integer[] not null default '{}'
+  check (cardinality(prize_coins) <= 3 and 0 <= all (prize_coins) and 1000 >= all (prize_coins));
+alter table public.room_contests add column if not exists prize_badge_ids uuid[] not null default '{}'
+  check (cardinality(prize_badge_ids) <= 3);
+alter table public.room_contests add column if not exists prizes_awarded_at timestamptz;
+alter table public.room_contests add column if not exists results_post_id uuid references public.posts (id) on delete set null;
+
+create or replace function public.check_contest_prize_badges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not org_owns_badges(new.org_id, new.prize_badge_ids) then
+    raise exception 'Contest prizes can only be badges of this organization';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_contest_prize_badges on public.room_contests;
+create trigger check_contest_prize_badges
+  before insert or update of org_id, prize_badge_ids on public.room_contests
+  for each row execute function public.check_contest_prize_badges();
+
+create table if not exists public.contest_results (
+  contest_id uuid not null references public.room_contests (id) on delete cascade,
+  submission_id uuid not null references public.contest_submissions (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  rank integer not null,
+  judge_score numeric not null default 0,
+  vote_count integer not null default 0,
+  vote_score numeric not null default 0,
+  final_score numeric not null default 0,
+  coins_awarded integer not null default 0,
+  badge_id uuid references public.badges (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (contest_id, submission_id)
+);
+
+-- Results are only ever written by publish_contest_results
+alter table public.contest_results enable row level security;
+
+drop policy if exists "Signed-in users read contest results" on public.contest_results;
+create policy "Signed-in users read contest results" on public.contest_results
+  for select to authenticated using (true);
+
+/*
+ * The ranking computeContestResults in src/lib/contests.ts previews: the judges'
+ * average rubric total and the member votes, each scaled to 0–100 and weighted.
+ * Ties go to the higher judge score, then the earlier entry.
+ */
+create or replace function public.contest_ranking(p_contest_id uuid)
+returns table (
+  submission_id uuid,
+  user_id uuid,
+  rank integer,
+  judge_score numeric,
+  vote_count integer,
+  vote_score numeric,
+  final_score numeric
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_contest room_contests;
+  v_max_points numeric;
+  v_judge_weight numeric;
+begin
+  select * into v_contest from room_contests where id = p_contest_id;
+
+  -- Contests without a rubric are judged against DEFAULT_RUBRIC (3 × 10 points)
+  select coalesce(nullif(sum((c ->> 'max_points')::numeric), 0), 30) into v_max_points
+  from jsonb_array_elements(coalesce(v_contest.rubric, '[]'::jsonb)) c;
+  v_judge_weight := case when coalesce(v_contest.voting_enabled, false) then coalesce(v_contest.judge_weight, 70) / 100.0 else 1 end;
+
+  return query
+  with entries as (
+    select s.id, s.user_id, s.submitted_at
+    from contest_submissions s
+    where s.contest_id = p_contest_id
+  ),
+  judged as (
+    select j.submission_id, avg(j.total) as avg_total
+    from contest_judge_scores j
+    where j.contest_id = p_contest_id
+    group by j.submission_id
+  ),
+  voted as (
+    select v.submission_id, count(*)::integer as votes
+    from contest_votes v
+    where v.contest_id = p_contest_id
+    group by v.submission_id
+  ),
+  raw as (
+    select e.id, e.user_id, e.submitted_at,
+      coalesce(j.avg_total, 0) / v_max_points * 100 as judge_raw,
+      coalesce(v.votes, 0) as votes
+    from entries e
+    left join judged j on j.submission_id = e.id
+    left join voted v on v.submission_id = e.id
+  ),
+  scored as (
+    select r.id, r.user_id, r.submitted_at, r.judge_raw, r.votes,
+      case when max(r.votes) over () > 0 then r.votes::numeric / max(r.votes) over () * 100 else 0 end as vote_raw
+    from raw r
+  ),
+  rounded as (
+    select s.id, s.user_id, s.submitted_at, s.votes,
+      round(s.judge_raw, 1) as judge_score,
+      round(s.vote_raw, 1) as vote_score,
+      round(v_judge_weight * s.judge_raw + (1 - v_judge_weight) * s.vote_raw, 1) as final_score
+    from scored s
+  )
+  select r.id, r.user_id,
+    (row_number() over (order by r.final_score desc, r.judge_score desc, r.submitted_at asc))::integer,
+    r.judge_score, r.votes, r.vote_score, r.final_score
+  from rounded r;
+end;
+$$;
+
+revoke execute on function public.contest_ranking(uuid) from public, anon, authenticated;
+
+/*
+ * Publish a contest's final ranking. The contest row is locked and stamped, so
+ * a second call (or a double click) returns the winners already paid without
+ * paying or notifying anyone again. Returns { winners: [...] }.
+ */
+create or replace function public.publish_contest_results(p_contest_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contest room_contests;
+  v_row record;
+  v_coins integer;
+  v_badge uuid;
+  v_entries integer;
+  v_entrants integer;
+  v_lines text[] := '{}';
+  v_media jsonb;
+  v_post_id uuid;
+  v_medals text[] := array['🥇', '🥈', '🥉'];
+begin
+  select * into v_contest from room_contests where id = p_contest_id for update;
+  if not found then
+    raise exception 'Contest not found';
+  end if;
+  if not manages_org(v_contest.org_id) then
+    raise exception 'Not allowed to publish results for this contest';
+  end if;
+
+  if v_contest.results_published_at is null then
+    if v_contest.phase = 'submissions' and (v_contest.end_date is null or v_contest.end_date > now()) then
+      raise exception 'Entries are still open for this contest';
+    end if;
+
+    insert into contest_results (
+      contest_id, submission_id, user_id, rank, judge_score, vote_count, vote_score, final_score
+    )
+    select p_contest_id, r.submission_id, r.user_id, r.rank, r.judge_score, r.vote_count, r.vote_score, r.final_score
+    from contest_ranking(p_contest_id) r;
+
+    -- Prizes for the top three places
+    for v_row in
+      select cr.submission_id, cr.user_id, cr.rank, cr.final_score, u.first_name, u.last_name
+      from contest_results cr
+      left join users u on u.id = cr.user_id
+      where cr.contest_id = p_contest_id and cr.rank <= 3
+      order by cr.rank
+    loop
+      v_coins := coalesce(v_contest.prize_coins[v_row.rank], 0);
+      v_badge := v_contest.prize_badge_ids[v_row.rank];
+
+      if v_coins > 0 then
+        perform grant_user_coins(
+          v_row.user_id, v_coins, 'contest_prize', v_contest.org_id, null,
+          format('%s: #%s place', v_contest.title, v_row.rank)
+        );
+      end if;
+      if v_badge is not null then
+        insert into user_badges (user_id, badge_id, earned_at)
+        values (v_row.user_id, v_badge, now())
+        on conflict (user_id, badge_id) do nothing;
+      end if;
+      if v_coins > 0 or v_badge is not null then
+        update contest_results
+        set coins_awarded = v_coins, badge_id = v_badge
+        where contest_id = p_contest_id and submission_id = v_row.submission_id;
+      end if;
+
+      v_lines := v_lines || format(
+        '%s %s (%s pts)%s',
+        v_medals[v_row.rank],
+        coalesce(v_row.first_name || ' ' || v_row.last_name, 'A member'),
+        v_row.final_score,
+        case when v_coins > 0 or v_badge is not null then
+          ' wins ' || concat_ws(
+            ' + ',
+            case when v_coins > 0 then format('%s coins', v_coins) end,
+            (select b.name from badges b where b.id = v_badge)
+          )
+        else '' end
+      );
+    end loop;
+
+    select count(*), count(distinct cr.user_id) into v_entries, v_entrants
+    from contest_results cr where cr.contest_id = p_contest_id;
+
+    -- Announce the winners in the organization's feed with their screenshots
+    if array_length(v_lines, 1) > 0 then
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'url', s.image_url,
+        'type', 'image',
+        'filename', coalesce(nullif(regexp_replace(s.image_url, '^.*/', ''), ''), format('place-%s.png', cr.rank))
+      ) order by cr.rank), '[]'::jsonb) into v_media
+      from contest_results cr
+      join contest_submissions s on s.id = cr.submission_id
+      where cr.contest_id = p_contest_id and cr.rank <= 3 and s.image_url is not null;
+
+      insert into posts (title, content, user_id, org_id, tags, status, post_type, media, visibility, game_route)
+      values (
+        format('🏆 %s Winners', v_contest.title),
+        concat_ws(
+          E'\n\n',
+          format('The results for "%s" are in! Congratulations to our winners:', v_contest.title),
+          array_to_string(v_lines, E'\n'),
+          format('Thank you to all %s %s for taking part.', v_entrants, case when v_entrants = 1 then 'entrant' else 'entrants' end)
+        ),
+        coalesce(auth.uid(), v_contest.created_by),
+        v_contest.org_id,
+        array['contest'],
+        'published',
+        'general',
+        v_media,
+        'public',
+        '/user/dashboard/room-game'
+      )
+      returning id into v_post_id;
+    end if;
+
+    -- An entrant with several entries hears about their best placing
+    for v_row in
+      select distinct on (cr.user_id) cr.user_id, cr.rank, cr.coins_awarded
+      from contest_results cr
+      where cr.contest_id = p_contest_id
+      order by cr.user_id, cr.rank
+    loop
+      perform notify_user(
+        v_row.user_id,
+        format('Results for "%s" are out: you placed #%s of %s!', v_contest.title, v_row.rank, v_entries)
+          || case when v_row.coins_awarded > 0 then format(' You won %s coins.', v_row.coins_awarded) else '' end,
+        v_post_id
+      );
+    end loop;
+
+    update room_contests
+    set phase = 'results',
+      results_published_at = now(),
+      prizes_awarded_at = now(),
+      results_post_id = v_post_id
+    where id = p_contest_id;
+  end if;
+
+  return jsonb_build_object('winners', coalesce((
+    select jsonb_agg(jsonb_build_object(
+      'user_id', cr.user_id,
+      'rank', cr.rank,
+      'coins_awarded', cr.coins_awarded,
+      'badge_id', cr.badge_id
+    ) order by cr.rank)
+    from contest_results cr
+    where cr.contest_id = p_contest_id and (cr.coins_awarded > 0 or cr.badge_id is not null)
+  ), '[]'::jsonb));
+end;
+$$;
+
+grant execute on function public.publish_contest_results(uuid) to authenticated;
+
+-- Close entries for contests past their end date and tell the entrants
+create or replace function public.close_ended_contests()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contest record;
+  v_entrant uuid;
+  v_closed integer := 0;
+begin
+  for v_contest in
+    update room_contests c
+    set phase = 'judging'
+    where c.phase = 'submissions'
+      and c.end_date is not null
+      and c.end_date <= now()
+    returning c.id, c.title
+  loop
+    v_closed := v_closed + 1;
+    for v_entrant in
+      select distinct s.user_id from contest_submissions s where s.contest_id = v_contest.id
+    loop
+      perform notify_user(v_entrant, format('Entries for "%s" are closed. Judging is underway!', v_contest.title));
+    end loop;
+  end loop;
+  return v_closed;
+end;
+$$;
+
+revoke execute on function public.close_ended_contests() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('close-ended-contests', '* * * * *', $$select public.close_ended_contests()$$);
@@ -0,0 +1,164 @@
+-- Contest gallery. Entries carry a short caption, officers can hide entries
+-- from the gallery, voting and ranking, and members react to visible entries
+-- with a fixed set of emoji once entries have closed. Members cannot read other
+-- members' entries before then, so nobody can copy one while the contest is open.
+
+alter table public.contest_submissions add column if not exists caption text
+  check (caption is null or char_length(caption) <= 140);
+alter table public.contest_submissions add column if not exists is_hidden boolean not null default false;
+
+alter table public.contest_submissions enable row level security;
+
+-- Authors and the contest's officers always see an entry. Everyone else sees
+-- it in the gallery once entries have closed, unless it is hidden.
+drop policy if exists "Hidden entries are not public" on public.contest_submissions;
+drop policy if exists "Members read gallery entries" on public.contest_submissions;
+create policy "Members read gallery entries" on public.contest_submissions
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or manages_contest(contest_id)
+    or (
+      not is_hidden
+      and exists (
+        select 1
+        from room_contests c
+        where c.id = contest_id
+          and (c.phase <> 'submissions' or (c.end_date is not null and c.end_date < now()))
+      )
+    )
+  );
+
+-- Members enter their own screenshots while the contest takes entries
+drop policy if exists "Members submit entries" on public.contest_submissions;
+create policy "Members submit entries" on public.contest_submissions
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and not is_hidden
+    and exists (
+      select 1
+      from room_contests c
+      where c.id = contest_id
+        and c.org_id = contest_submissions.org_id
+        and c.phase = 'submissions'
+        and (c.end_date is null or c.end_date >= now())
+    )
+  );
+
+-- Officers hide and unhide entries
+drop policy if exists "Officers moderate entries" on public.contest_submissions;
+create policy "Officers moderate entries" on public.contest_submissions
+  for update to authenticated
+  using (manages_contest(contest_id))
+  with check (manages_contest(contest_id));
+
+-- Hidden entries drop out of the ranking too; the rest is as in contest_results
+create or replace function public.contest_ranking(p_contest_id uuid)
+returns table (
+  submission_id uuid,
+  user_id uuid,
+  rank integer,
+  judge_score numeric,
+  vote_count integer,
+  vote_score numeric,
+  final_score numeric
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_contest room_contests;
+  v_max_points numeric;
+  v_judge_weight numeric;
+begin
+  select * into v_contest from room_contests where id = p_contest_id;
+
+  -- Contests without a rubric are judged against DEFAULT_RUBRIC (3 × 10 points)
+  select coalesce(nullif(sum((c ->> 'max_points')::numeric), 0), 30) into v_max_points
+  from jsonb_array_elements(coalesce(v_contest.rubric, '[]'::jsonb)) c;
+  v_judge_weight := case when coalesce(v_contest.voting_enabled, false) then coalesce(v_contest.judge_weight, 70) / 100.0 else 1 end;
+
+  return query
+  with entries as (
+    select s.id, s.user_id, s.submitted_at
+    from contest_submissions s
+    where s.contest_id = p_contest_id and not s.is_hidden
+  ),
+  judged as (
+    select j.submission_id, avg(j.total) as avg_total
+    from contest_judge_scores j
+    where j.contest_id = p_contest_id
+    group by j.submission_id
+  ),
+  voted as (
+    select v.submission_id, count(*)::integer as votes
+    from contest_votes v
+    where v.contest_id = p_contest_id
+    group by v.submission_id
+  ),
+  raw as (
+    select e.id, e.user_id, e.submitted_at,
+      coalesce(j.avg_total, 0) / v_max_points * 100 as judge_raw,
+      coalesce(v.votes, 0) as votes
+    from entries e
+    left join judged j on j.submission_id = e.id
+    left join voted v on v.submission_id = e.id
+  ),
+  scored as (
+    select r.id, r.user_id, r.submitted_at, r.judge_raw, r.votes,
+      case when max(r.votes) over () > 0 then r.votes::numeric / max(r.votes) over () * 100 else 0 end as vote_raw
+    from raw r
+  ),
+  rounded as (
+    select s.id, s.user_id, s.submitted_at, s.votes,
+      round(s.judge_raw, 1) as judge_score,
+      round(s.vote_raw, 1) as vote_score,
+      round(v_judge_weight * s.judge_raw + (1 - v_judge_weight) * s.vote_raw, 1) as final_score
+    from scored s
+  )
+  select r.id, r.user_id,
+    (row_number() over (order by r.final_score desc, r.judge_score desc, r.submitted_at asc))::integer,
+    r.judge_score, r.votes, r.vote_score, r.final_score
+  from rounded r;
+end;
+$$;
+
+create table if not exists public.contest_reactions (
+  submission_id uuid not null references public.contest_submissions (id) on delete cascade,
+  contest_id uuid not null references public.room_contests (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  -- CONTEST_REACTIONS in src/lib/contests.ts
+  emoji text not null check (emoji in ('❤️', '🔥', '😂', '😮', '👏')),
+  created_at timestamptz not null default now(),
+  primary key (submission_id, user_id, emoji)
+);
+
+create index if not exists contest_reactions_contest on public.contest_reactions (contest_id);
+
+alter table public.contest_reactions enable row level security;
+
+drop policy if exists "Signed-in users read reactions" on public.contest_reactions;
+create policy "Signed-in users read reactions" on public.contest_reactions
+  for select to authenticated using (true);
+
+drop policy if exists "Members react to gallery entries" on public.contest_reactions;
+create policy "Members react to gallery entries" on public.contest_reactions
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from contest_submissions s
+      join room_contests c on c.id = s.contest_id
+      where s.id = submission_id
+        and s.contest_id = contest_reactions.contest_id
+        and not s.is_hidden
+        and (c.phase <> 'submissions' or (c.end_date is not null and c.end_date < now()))
+    )
+  );
+
+drop policy if exists "Members take back reactions" on public.contest_reactions;
+create policy "Members take back reactions" on public.contest_reactions
+  for delete to authenticated using (user_id = auth.uid());
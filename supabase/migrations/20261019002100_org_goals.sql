@@ -0,0 +1,96 @@
+-- Community goals on any metric. One table replaces community_goals (quiz) and
+-- community_goals_flappy; rows copied from those keep a pointer to their source
+-- so they are only ever copied once. Progress is kept by the functions in the
+-- goal progress migration, never by the browser.
+
+create table if not exists public.org_goals (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  title text not null,
+  description text,
+  metric text not null check (metric in (
+    'quiz_completions', 'quiz_score', 'flappy_score', 'flappy_participants',
+    'event_attendance', 'event_rsvps', 'feedback_submissions', 'post_engagement'
+  )),
+  target_ref text,
+  goal_target integer not null check (goal_target > 0),
+  -- Officers set the reward, so it is capped
+  reward_coins integer not null default 0 check (reward_coins between 0 and 1000),
+  payout_mode text not null default 'flat' check (payout_mode in ('flat', 'proportional')),
+  current_progress integer not null default 0,
+  is_completed boolean not null default false,
+  completed_at timestamptz,
+  rewards_paid_at timestamptz,
+  starts_at timestamptz not null default now(),
+  deadline timestamptz,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  legacy_source text check (legacy_source in ('community_goals', 'community_goals_flappy')),
+  legacy_id text,
+  unique (legacy_source, legacy_id)
+);
+
+create index if not exists org_goals_org on public.org_goals (org_id, created_at desc);
+create index if not exists org_goals_running on public.org_goals (metric) where not is_completed;
+
+alter table public.org_goals enable row level security;
+
+drop policy if exists "Signed-in users read goals" on public.org_goals;
+create policy "Signed-in users read goals" on public.org_goals
+  for select to authenticated using (true);
+
+drop policy if exists "Officers manage their goals" on public.org_goals;
+create policy "Officers manage their goals" on public.org_goals
+  for all to authenticated
+  using (org_id is not null and manages_org(org_id))
+  with check (org_id is not null and manages_org(org_id));
+
+-- Copy the goals from the old quiz and flappy tables, keeping their progress
+-- and completion; completed ones were already paid by the old tables.
+-- legacy_source / legacy_id make re-running this a no-op.
+insert into public.org_goals (
+  org_id, title, metric, target_ref, goal_target, reward_coins, current_progress,
+  is_completed, completed_at, rewards_paid_at, starts_at, created_at, legacy_source, legacy_id
+)
+select
+  g.org_id,
+  coalesce((select z.title from quizzes z where z.id::text = g.quiz_id::text), 'Quiz ' || g.quiz_id),
+  case when g.goal_type = 'score' then 'quiz_score' else 'quiz_completions' end,
+  g.quiz_id::text,
+  greatest(g.goal_target, 1),
+  least(coalesce(g.reward_coins, 0), 1000),
+  coalesce(g.current_progress, 0),
+  coalesce(g.is_completed, false),
+  case when g.is_completed then coalesce(g.updated_at, g.created_at) end,
+  case when g.is_completed then coalesce(g.updated_at, g.created_at) end,
+  g.created_at,
+  g.created_at,
+  'community_goals',
+  g.id::text
+from public.community_goals g
+where g.org_id is not null
+on conflict (legacy_source, legacy_id) do nothing;
+
+insert into public.org_goals (
+  org_id, title, metric, target_ref, goal_target, reward_coins, current_progress,
+  is_completed, completed_at, rewards_paid_at, starts_at, created_at, legacy_source, legacy_id
+)
+select
+  g.org_id,
+  coalesce((select c.name from flappy_config c where c.challenge_id = g.challenge_id), 'Challenge ' || g.challenge_id),
+  case when g.goal_type = 'score' then 'flappy_score' else 'flappy_participants' end,
+  g.challenge_id,
+  greatest(g.goal_target, 1),
+  least(coalesce(g.reward_coins, 0), 1000),
+  coalesce(g.current_progress, 0),
+  coalesce(g.is_completed, false),
+  case when g.is_completed then coalesce(g.updated_at, g.created_at) end,
+  case when g.is_completed then coalesce(g.updated_at, g.created_at) end,
+  g.created_at,
+  g.created_at,
+  'community_goals_flappy',
+  g.id::text
+from public.community_goals_flappy g
+where g.org_id is not null
+on conflict (legacy_source, legacy_id) do nothing;
@@ -0,0 +1,298 @@
+-- Community goal progress and payouts are computed here, never in the browser.
+-- Inserts into the tables a goal counts trigger a recount of the running goals
+-- they can move; reaching the target pays contributors once, in the same transaction.
+
+-- How much each member of one organization has added towards a goal.
+-- Mirrors the metric descriptions in src/lib/goals.ts (GOAL_METRICS).
+create or replace function public.goal_contributions(p_goal_id uuid, p_org_id uuid)
+returns table (user_id uuid, amount bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+  v_end timestamptz;
+begin
+  select * into g from org_goals where id = p_goal_id;
+  if not found then
+    return;
+  end if;
+  v_end := coalesce(g.deadline, 'infinity');
+
+  case g.metric
+    when 'quiz_completions', 'quiz_score' then
+      return query
+        select s.user_id, case when g.metric = 'quiz_score' then sum(s.score)::bigint else 1::bigint end
+        from scores s
+        where s.quiz_id::text = g.target_ref
+          and s.org_id = p_org_id
+          and s.created_at between g.starts_at and v_end
+        group by s.user_id;
+
+    when 'flappy_score', 'flappy_participants' then
+      return query
+        select s.user_id, case when g.metric = 'flappy_score' then sum(s.score)::bigint else 1::bigint end
+        from flappy_scores s
+        where s.challenge_id = g.target_ref
+          and s.org_id = p_org_id
+          and s.created_at between g.starts_at and v_end
+        group by s.user_id;
+
+    when 'event_attendance' then
+      return query
+        select a.user_id, count(*)
+        from event_attendance a
+        join posts p on p.id = a.post_id
+        where a.attended
+          and a.checked_in_at between g.starts_at and v_end
+          and (p.id::text = g.target_ref or (g.target_ref is null and p.org_id = p_org_id and p.post_type = 'event'))
+        group by a.user_id;
+
+    when 'event_rsvps' then
+      return query
+        select r.user_id, count(*)
+        from rsvps r
+        join posts p on p.id = r.post_id
+        where r.created_at between g.starts_at and v_end
+          and (p.id::text = g.target_ref or (g.target_ref is null and p.org_id = p_org_id and p.post_type = 'event'))
+        group by r.user_id;
+
+    when 'feedback_submissions' then
+      return query
+        select f.user_id, count(*)
+        from form_responses f
+        join posts p on p.id = f.post_id
+        where f.submitted_at between g.starts_at and v_end
+          and (p.id::text = g.target_ref or (g.target_ref is null and p.org_id = p_org_id and p.post_type = 'feedback'))
+        group by f.user_id;
+
+    when 'post_engagement' then
+      return query
+        select e.user_id, count(*)
+        from (
+          select l.user_id, l.post_id, l.created_at from post_likes l
+          union all
+          select c.user_id, c.post_id, c.created_at from post_comments c
+        ) e
+        join posts p on p.id = e.post_id
+        where e.created_at between g.starts_at and v_end
+          and (p.id::text = g.target_ref or (g.target_ref is null and p.org_id = p_org_id))
+        group by e.user_id;
+
+    else
+      return;
+  end case;
+end;
+$$;
+
+/*
+ * Pay a goal that reached its target, once. Contributions are measured here:
+ * flat goals give every contributor reward_coins, proportional goals split
+ * exactly reward_coins by share: everyone gets the whole coins of their share
+ * and the coins left over go to the largest fractions.
+ */
+create or replace function public.award_goal_rewards(p_goal_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+  v_coins integer;
+  v_payouts jsonb := '[]'::jsonb;
+  c record;
+begin
+  select * into g from org_goals where id = p_goal_id for update;
+  if not found or g.rewards_paid_at is not null or g.current_progress < g.goal_target then
+    return jsonb_build_object('payouts', v_payouts);
+  end if;
+
+  for c in
+    with shares as (
+      select gc.user_id, g.reward_coins * gc.amount / sum(gc.amount) over ()::numeric as exact
+      from goal_contributions(g.id, g.org_id) gc
+      where gc.amount > 0
+    ),
+    floored as (
+      select user_id, exact, floor(exact)::integer as coins from shares
+    )
+    select
+      f.user_id,
+      f.coins
+        + case
+            when row_number() over (order by f.exact - f.coins desc, f.user_id)
+              <= g.reward_coins - sum(f.coins) over () then 1
+            else 0
+          end as proportional_coins
+    from floored f
+  loop
+    v_coins := case when g.payout_mode = 'proportional' then c.proportional_coins else g.reward_coins end;
+
+    if v_coins > 0 then
+      perform grant_user_coins(c.user_id, v_coins, 'community_goal', g.org_id, null, g.title);
+    end if;
+    perform notify_user(
+      c.user_id,
+      format('🎉 Community goal reached: "%s"!', g.title)
+        || case when v_coins > 0 then format(' You earned %s coins for helping.', v_coins) else '' end
+    );
+    v_payouts := v_payouts || jsonb_build_object('user_id', c.user_id, 'coins_awarded', v_coins);
+  end loop;
+
+  update org_goals
+  set is_completed = true,
+      completed_at = coalesce(completed_at, now()),
+      rewards_paid_at = now()
+  where id = g.id;
+
+  return jsonb_build_object('payouts', v_payouts);
+end;
+$$;
+
+-- Re-measure a running goal, store its progress and pay out when it reaches the target
+create or replace function public.recount_goal(p_goal_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+  v_progress bigint;
+begin
+  select * into g from org_goals where id = p_goal_id for update;
+  if not found
+    or g.is_completed
+    or now() < g.starts_at
+    or (g.deadline is not null and now() > g.deadline) then
+    return;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_progress from goal_contributions(g.id, g.org_id);
+
+  if v_progress is distinct from g.current_progress then
+    update org_goals set current_progress = v_progress where id = g.id;
+  end if;
+
+  if v_progress >= g.goal_target then
+    perform award_goal_rewards(g.id);
+  end if;
+end;
+$$;
+
+-- Officers re-measure by hand, e.g. right after creating a goal whose window already started
+create or replace function public.refresh_goal_progress(p_goal_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+begin
+  select * into g from org_goals where id = p_goal_id;
+  if not found then
+    raise exception 'Goal not found';
+  end if;
+  if not manages_org(g.org_id) then
+    raise exception 'Not allowed to refresh this goal';
+  end if;
+
+  perform recount_goal(p_goal_id);
+end;
+$$;
+
+revoke execute on function public.goal_contributions(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.award_goal_rewards(uuid) from public, anon, authenticated;
+revoke execute on function public.recount_goal(uuid) from public, anon, authenticated;
+grant execute on function public.refresh_goal_progress(uuid) to authenticated;
+
+-- The browser used to compute and submit the payouts itself
+drop function if exists public.award_goal_rewards(uuid, jsonb);
+
+-- Recount the running goals a new row can move: same organization and, for
+-- pinned goals, the same quiz, challenge or post
+create or replace function public.recount_goals_for_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := case when TG_OP = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+  v_org uuid;
+  v_ref text;
+  v_metrics text[];
+  v_goal uuid;
+begin
+  if TG_TABLE_NAME in ('scores', 'flappy_scores') then
+    v_org := (v_row ->> 'org_id')::uuid;
+    v_ref := coalesce(v_row ->> 'quiz_id', v_row ->> 'challenge_id');
+  else
+    v_ref := v_row ->> 'post_id';
+    select org_id into v_org from posts where id = v_ref::uuid;
+  end if;
+
+  v_metrics := case TG_TABLE_NAME
+    when 'scores' then array['quiz_completions', 'quiz_score']
+    when 'flappy_scores' then array['flappy_score', 'flappy_participants']
+    when 'event_attendance' then array['event_attendance']
+    when 'rsvps' then array['event_rsvps']
+    when 'form_responses' then array['feedback_submissions']
+    else array['post_engagement']
+  end;
+
+  for v_goal in
+    select g.id
+    from org_goals g
+    where g.metric = any (v_metrics)
+      and not g.is_completed
+      and now() >= g.starts_at
+      and (g.deadline is null or now() <= g.deadline)
+      and (g.target_ref is null or g.target_ref = v_ref)
+      and g.org_id = v_org
+  loop
+    perform recount_goal(v_goal);
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists recount_goals on public.scores;
+create trigger recount_goals after insert on public.scores
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.flappy_scores;
+create trigger recount_goals after insert on public.flappy_scores
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.event_attendance;
+create trigger recount_goals after insert or update of attended on public.event_attendance
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.rsvps;
+create trigger recount_goals after insert or delete on public.rsvps
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.form_responses;
+create trigger recount_goals after insert on public.form_responses
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.post_likes;
+create trigger recount_goals after insert or delete on public.post_likes
+  for each row execute function public.recount_goals_for_activity();
+
+drop trigger if exists recount_goals on public.post_comments;
+create trigger recount_goals after insert or delete on public.post_comments
+  for each row execute function public.recount_goals_for_activity();
+
+-- Progress, completion and payout columns are written by the functions above only.
+-- Officers keep editing a goal's definition.
+revoke update on public.org_goals from anon, authenticated;
+grant update (
+  title, description, metric, target_ref, goal_target, reward_coins, payout_mode, starts_at, deadline, updated_at
+) on public.org_goals to authenticated;
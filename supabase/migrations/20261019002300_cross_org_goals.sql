@@ -0,0 +1,277 @@
+-- Cross-organization goals. A goal with no org_id is run by campus admins for
+-- the organizations listed in org_goal_participants: shared goals are filled
+-- together, competitive ones are won by the first organization to the target.
+-- The goal progress functions are redefined to count every participant.
+
+alter table public.org_goals alter column org_id drop not null;
+alter table public.org_goals add column if not exists scope text not null default 'org'
+  check (scope in ('org', 'shared', 'competitive'));
+alter table public.org_goals add column if not exists winner_org_id uuid references public.organizations (id) on delete set null;
+
+alter table public.org_goals drop constraint if exists org_goals_scope_matches_org;
+alter table public.org_goals add constraint org_goals_scope_matches_org
+  check ((scope = 'org') = (org_id is not null));
+
+create table if not exists public.org_goal_participants (
+  goal_id uuid not null references public.org_goals (id) on delete cascade,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  current_progress integer not null default 0,
+  primary key (goal_id, org_id)
+);
+
+create index if not exists org_goal_participants_org on public.org_goal_participants (org_id);
+
+alter table public.org_goal_participants enable row level security;
+
+drop policy if exists "Admins manage cross-organization goals" on public.org_goals;
+create policy "Admins manage cross-organization goals" on public.org_goals
+  for all to authenticated
+  using (org_id is null and is_admin())
+  with check (org_id is null and is_admin());
+
+drop policy if exists "Signed-in users read participants" on public.org_goal_participants;
+create policy "Signed-in users read participants" on public.org_goal_participants
+  for select to authenticated using (true);
+
+drop policy if exists "Admins choose participants" on public.org_goal_participants;
+create policy "Admins choose participants" on public.org_goal_participants
+  for all to authenticated
+  using (is_admin())
+  with check (is_admin());
+
+-- Organizations whose members count towards the goal
+create or replace function public.goal_org_ids(p_goal org_goals)
+returns uuid[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_goal.scope = 'org' then array[p_goal.org_id]
+    else array(select org_id from org_goal_participants where goal_id = p_goal.id)
+  end;
+$$;
+
+revoke execute on function public.goal_org_ids(org_goals) from public, anon, authenticated;
+
+/*
+ * Pay a goal that reached its target, once. Contributions are measured here:
+ * flat goals give every contributor reward_coins, proportional goals split
+ * exactly reward_coins by share: everyone gets the whole coins of their share
+ * and the coins left over go to the largest fractions. In a race only the
+ * leading organization's members are paid.
+ */
+create or replace function public.award_goal_rewards(p_goal_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+  v_winner uuid;
+  v_winner_name text;
+  v_orgs uuid[];
+  v_headline text;
+  v_coins integer;
+  v_payouts jsonb := '[]'::jsonb;
+  c record;
+begin
+  select * into g from org_goals where id = p_goal_id for update;
+  if not found or g.rewards_paid_at is not null or g.current_progress < g.goal_target then
+    return jsonb_build_object('payouts', v_payouts);
+  end if;
+
+  if g.scope = 'competitive' then
+    select p.org_id, o.name into v_winner, v_winner_name
+    from org_goal_participants p
+    join organizations o on o.id = p.org_id
+    where p.goal_id = g.id
+    order by p.current_progress desc, p.org_id
+    limit 1;
+    v_orgs := array[v_winner];
+  else
+    v_orgs := goal_org_ids(g);
+  end if;
+
+  v_headline := case
+    when v_winner is not null then format('🏆 %s won the race for "%s"!', v_winner_name, g.title)
+    else format('🎉 Community goal reached: "%s"!', g.title)
+  end;
+
+  for c in
+    with contributors as (
+      select gc.user_id, sum(gc.amount) as amount
+      from unnest(v_orgs) as o(org_id), goal_contributions(g.id, o.org_id) gc
+      group by gc.user_id
+      having sum(gc.amount) > 0
+    ),
+    shares as (
+      select user_id, g.reward_coins * amount / sum(amount) over ()::numeric as exact from contributors
+    ),
+    floored as (
+      select user_id, exact, floor(exact)::integer as coins from shares
+    )
+    select
+      f.user_id,
+      f.coins
+        + case
+            when row_number() over (order by f.exact - f.coins desc, f.user_id)
+              <= g.reward_coins - sum(f.coins) over () then 1
+            else 0
+          end as proportional_coins
+    from floored f
+  loop
+    v_coins := case when g.payout_mode = 'proportional' then c.proportional_coins else g.reward_coins end;
+
+    if v_coins > 0 then
+      perform grant_user_coins(c.user_id, v_coins, 'community_goal', coalesce(g.org_id, v_winner), null, g.title);
+    end if;
+    perform notify_user(
+      c.user_id,
+      v_headline || case when v_coins > 0 then format(' You earned %s coins for helping.', v_coins) else '' end
+    );
+    v_payouts := v_payouts || jsonb_build_object('user_id', c.user_id, 'coins_awarded', v_coins);
+  end loop;
+
+  update org_goals
+  set is_completed = true,
+      completed_at = coalesce(completed_at, now()),
+      rewards_paid_at = now(),
+      winner_org_id = v_winner
+  where id = g.id;
+
+  return jsonb_build_object('payouts', v_payouts);
+end;
+$$;
+
+/*
+ * Re-measure a running goal, store each organization's share and the total,
+ * and pay out when it reaches the target. A shared goal adds the organizations
+ * up; a competitive goal follows the leader.
+ */
+create or replace function public.recount_goal(p_goal_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+  v_org uuid;
+  v_org_total bigint;
+  v_progress bigint := 0;
+begin
+  select * into g from org_goals where id = p_goal_id for update;
+  if not found
+    or g.is_completed
+    or now() < g.starts_at
+    or (g.deadline is not null and now() > g.deadline) then
+    return;
+  end if;
+
+  foreach v_org in array goal_org_ids(g) loop
+    select coalesce(sum(amount), 0) into v_org_total from goal_contributions(g.id, v_org);
+
+    if g.scope <> 'org' then
+      update org_goal_participants
+      set current_progress = v_org_total
+      where goal_id = g.id and org_id = v_org and current_progress is distinct from v_org_total;
+    end if;
+
+    v_progress := case when g.scope = 'competitive' then greatest(v_progress, v_org_total) else v_progress + v_org_total end;
+  end loop;
+
+  if v_progress is distinct from g.current_progress then
+    update org_goals set current_progress = v_progress where id = g.id;
+  end if;
+
+  if v_progress >= g.goal_target then
+    perform award_goal_rewards(g.id);
+  end if;
+end;
+$$;
+
+-- Officers re-measure their own goals by hand; campus admins the cross-organization ones
+create or replace function public.refresh_goal_progress(p_goal_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g org_goals;
+begin
+  select * into g from org_goals where id = p_goal_id;
+  if not found then
+    raise exception 'Goal not found';
+  end if;
+  if not (case when g.scope = 'org' then manages_org(g.org_id) else is_admin() end) then
+    raise exception 'Not allowed to refresh this goal';
+  end if;
+
+  perform recount_goal(p_goal_id);
+end;
+$$;
+
+-- Recount the running goals a new row can move: same organization (or a
+-- participating one) and, for pinned goals, the same quiz, challenge or post
+create or replace function public.recount_goals_for_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := case when TG_OP = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+  v_org uuid;
+  v_ref text;
+  v_metrics text[];
+  v_goal uuid;
+begin
+  if TG_TABLE_NAME in ('scores', 'flappy_scores') then
+    v_org := (v_row ->> 'org_id')::uuid;
+    v_ref := coalesce(v_row ->> 'quiz_id', v_row ->> 'challenge_id');
+  else
+    v_ref := v_row ->> 'post_id';
+    select org_id into v_org from posts where id = v_ref::uuid;
+  end if;
+
+  v_metrics := case TG_TABLE_NAME
+    when 'scores' then array['quiz_completions', 'quiz_score']
+    when 'flappy_scores' then array['flappy_score', 'flappy_participants']
+    when 'event_attendance' then array['event_attendance']
+    when 'rsvps' then array['event_rsvps']
+    when 'form_responses' then array['feedback_submissions']
+    else array['post_engagement']
+  end;
+
+  for v_goal in
+    select g.id
+    from org_goals g
+    where g.metric = any (v_metrics)
+      and not g.is_completed
+      and now() >= g.starts_at
+      and (g.deadline is null or now() <= g.deadline)
+      and (g.target_ref is null or g.target_ref = v_ref)
+      and (
+        g.org_id = v_org
+        or exists (select 1 from org_goal_participants p where p.goal_id = g.id and p.org_id = v_org)
+      )
+  loop
+    perform recount_goal(v_goal);
+  end loop;
+
+  return null;
+end;
+$$;
+
+-- Campus admins may switch a goal between shared and competitive; progress,
+-- completion, the winner and each organization's share stay server-written
+revoke update on public.org_goals from anon, authenticated;
+grant update (
+  title, description, scope, metric, target_ref, goal_target, reward_coins, payout_mode, starts_at, deadline, updated_at
+) on public.org_goals to authenticated;
+
+revoke update on public.org_goal_participants from anon, authenticated;
@@ -0,0 +1,34 @@
+-- Post revision history. Every edit saves the post's tracked fields as a
+-- snapshot; the history is readable by anyone who can open the post and written
+-- only by the people allowed to edit it.
+
+create table if not exists public.post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  edited_by uuid references public.users (id) on delete set null,
+  snapshot jsonb not null,
+  restored_from uuid references public.post_revisions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_revisions_post on public.post_revisions (post_id, created_at desc);
+
+alter table public.post_revisions enable row level security;
+
+drop policy if exists "Signed-in users read revisions" on public.post_revisions;
+create policy "Signed-in users read revisions" on public.post_revisions
+  for select to authenticated
+  using (exists (select 1 from posts p where p.id = post_id));
+
+-- The first revision of an older post is credited to its author, so edited_by
+-- is not tied to the caller; the caller must be able to edit the post itself
+drop policy if exists "Editors record revisions" on public.post_revisions;
+create policy "Editors record revisions" on public.post_revisions
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from posts p
+      where p.id = post_id
+        and (p.user_id = auth.uid() or (p.org_id is not null and manages_org(p.org_id)) or is_admin())
+    )
+  );